@@ -14,6 +14,7 @@ const SettingsPage = React.lazy(() => import('./pages/Settings').then(module =>
 const GMBriefPage = React.lazy(() => import('./pages/GMBrief').then(module => ({ default: module.GMBriefPage })));
 const MissionWatchPage = React.lazy(() => import('./pages/MissionWatch').then(module => ({ default: module.MissionWatchPage })));
 const CRMPage = React.lazy(() => import('./pages/CRM').then(module => ({ default: module.CRMPage })));
+const PermissionsPage = React.lazy(() => import('./pages/Permissions').then(module => ({ default: module.PermissionsPage })));
 const LoginPage = React.lazy(() => import('./pages/Login').then(module => ({ default: module.LoginPage })));
 
 const RouteFallback: React.FC = () => (
@@ -326,6 +327,7 @@ function App() {
                   <Route element={<AppShell />}>
                     <Route path="/crm" element={<CRMPage />} />
                     <Route path="/settings" element={<SettingsPage />} />
+                    <Route path="/permissions" element={<PermissionsPage />} />
                   </Route>
                 </Route>
               </Route>
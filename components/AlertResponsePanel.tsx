@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { BellRing } from 'lucide-react';
+import { subDays } from 'date-fns';
+import { AlertHistoryEntry } from '../types';
+import { AlertResponseGroupRow, summarizeAlertResponseTimes } from '../services/alertEscalation';
+
+interface AlertResponsePanelProps {
+  history: AlertHistoryEntry[];
+}
+
+const WINDOW_OPTIONS = [7, 30, 90];
+const MAX_GROUP_ROWS = 6;
+
+const formatMinutes = (value: number | null): string => {
+  if (value === null) return '—';
+  if (value < 60) return `${Math.round(value)}m`;
+  return `${(value / 60).toFixed(1)}h`;
+};
+
+const GroupTable: React.FC<{ title: string; rows: AlertResponseGroupRow[] }> = ({ title, rows }) => (
+  <div className="rounded-lg border border-slate-200 dark:border-white/10 divide-y divide-slate-100 dark:divide-white/5">
+    <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 px-3 py-1.5 text-[7px] font-black uppercase tracking-widest text-slate-400">
+      <span>{title}</span>
+      <span className="text-right">Alerts</span>
+      <span className="text-right">Median</span>
+      <span className="text-right">Escalated</span>
+    </div>
+    {rows.length === 0 ? (
+      <p className="px-3 py-3 text-[9px] font-black uppercase tracking-widest text-slate-400">No alerts in this window.</p>
+    ) : rows.slice(0, MAX_GROUP_ROWS).map(row => (
+      <div key={row.key} className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 items-center px-3 py-2 text-[9px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300">
+        <span className="min-w-0 truncate font-black text-brand-900 dark:text-white" title={row.key}>{row.key}</span>
+        <span className="text-right">{row.responded}/{row.total}</span>
+        <span className="text-right">{formatMinutes(row.medianResponseMinutes)}</span>
+        <span className={`text-right ${row.escalated > 0 ? 'text-red-600' : ''}`}>{row.escalated}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export const AlertResponsePanel: React.FC<AlertResponsePanelProps> = ({ history }) => {
+  const [windowDays, setWindowDays] = useState(7);
+  const report = useMemo(() => summarizeAlertResponseTimes(history, subDays(new Date(), windowDays)), [history, windowDays]);
+
+  const stats = [
+    { label: 'Alerts Closed', value: String(report.total) },
+    { label: 'Responded', value: report.total > 0 ? `${Math.round((report.responded / report.total) * 100)}%` : '—' },
+    { label: 'Median Response', value: formatMinutes(report.medianResponseMinutes) },
+    { label: 'Avg Response', value: formatMinutes(report.averageResponseMinutes) },
+    { label: 'Escalated', value: String(report.escalated) },
+    { label: 'Sent To WhatsApp', value: String(report.sentToWhatsApp) },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <p className="inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-brand-900 dark:text-gold-500">
+            <BellRing size={12} />
+            Alert Response Times
+          </p>
+          <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400 mt-1">From due time to first acknowledgement, resolve, snooze or dismiss</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {WINDOW_OPTIONS.map(days => (
+            <button
+              key={days}
+              type="button"
+              onClick={() => setWindowDays(days)}
+              className={`h-8 px-3 rounded-lg border text-[8px] font-black uppercase tracking-widest ${windowDays === days ? 'border-brand-900 bg-brand-900 text-gold-400 dark:border-emerald-500 dark:bg-emerald-500/10 dark:text-emerald-400' : 'border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 text-slate-500 dark:text-slate-300'}`}
+            >
+              {days}D
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="rounded-lg border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-3 py-2">
+            <p className="text-[7px] font-black uppercase tracking-widest text-slate-400">{stat.label}</p>
+            <p className="text-sm font-black text-brand-900 dark:text-white mt-0.5">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <GroupTable title="Alert" rows={report.byAlert} />
+        <GroupTable title="Responder" rows={report.byResponder} />
+      </div>
+    </div>
+  );
+};
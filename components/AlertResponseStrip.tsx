@@ -0,0 +1,46 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { BellRing, CheckCheck, MessageCircle } from 'lucide-react';
+import { MissionAlert, Settings } from '../types';
+import { ALERT_ESCALATION_LABELS, buildAlertEscalationMessage, getAlertEscalationLevel, isAlertDue } from '../services/alertEscalation';
+import { buildWhatsAppLink } from '../services/whatsapp';
+
+interface AlertResponseStripProps {
+  alert: MissionAlert;
+  settings: Settings;
+  now: Date;
+}
+
+// Shows who acknowledged an alert or, while nobody has, how far it has escalated.
+export const AlertResponseStrip: React.FC<AlertResponseStripProps> = ({ alert, settings, now }) => {
+  if (alert.acknowledgedAt) {
+    return (
+      <p className="mt-1 inline-flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-emerald-600 dark:text-emerald-300">
+        <CheckCheck size={10} />
+        Ack {alert.acknowledgedBy || 'Unknown user'} · {format(parseISO(alert.acknowledgedAt), 'HH:mm')}
+      </p>
+    );
+  }
+
+  if (!isAlertDue(alert, now)) return null;
+  const level = getAlertEscalationLevel(alert, settings.alertEscalation, now);
+  if (level === 0) return null;
+
+  const escalationHref = level >= 2 && settings.operatorWhatsApp
+    ? buildWhatsAppLink(settings.operatorWhatsApp, buildAlertEscalationMessage(alert, now))
+    : null;
+
+  return (
+    <div className="mt-1 flex items-center gap-2 flex-wrap">
+      <span className="inline-flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-red-600 dark:text-red-300">
+        <BellRing size={10} />
+        {ALERT_ESCALATION_LABELS[level]}
+      </span>
+      {escalationHref && (
+        <a href={escalationHref} target="_blank" rel="noopener noreferrer" className="h-6 px-2 rounded-md border border-red-300 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-[8px] font-black uppercase tracking-widest text-red-700 dark:text-red-300 inline-flex items-center">
+          <MessageCircle size={10} className="mr-1" />Escalate WA
+        </a>
+      )}
+    </div>
+  );
+};
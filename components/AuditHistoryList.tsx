@@ -0,0 +1,42 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { format } from 'date-fns';
+import { AuditLogEntry } from '../types';
+import { AUDIT_ACTION_LABELS, describeAuditActor } from '../services/auditLog';
+
+interface AuditHistoryListProps {
+  entries: AuditLogEntry[];
+  limit?: number;
+  className?: string;
+}
+
+export const AuditHistoryList: React.FC<AuditHistoryListProps> = ({ entries, limit = 5, className = '' }) => {
+  const visibleEntries = entries.slice(0, limit);
+
+  return (
+    <div className={`rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 p-2.5 md:p-3 space-y-1.5 ${className}`.trim()}>
+      <p className="inline-flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-slate-400">
+        <History size={10} />
+        Change History
+      </p>
+      {visibleEntries.length === 0 ? (
+        <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400">No recorded changes yet</p>
+      ) : visibleEntries.map(entry => (
+        <div key={entry.id} className="space-y-0.5">
+          <div className="flex items-center justify-between gap-2 text-[8px] font-black uppercase tracking-widest">
+            <span className="text-brand-900 dark:text-slate-200">{AUDIT_ACTION_LABELS[entry.action]}</span>
+            <span className="text-slate-400">{format(new Date(entry.timestamp), 'd MMM HH:mm')}</span>
+          </div>
+          <p className="truncate text-[8px] font-bold uppercase tracking-widest text-slate-500 dark:text-slate-300">
+            {describeAuditActor(entry)}
+            {entry.changes.length > 0 ? ` · ${entry.changes.map(change => change.field).join(', ')}` : ''}
+            {entry.note ? ` · ${entry.note}` : ''}
+          </p>
+        </div>
+      ))}
+      {entries.length > limit && (
+        <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">+{entries.length - limit} older changes</p>
+      )}
+    </div>
+  );
+};
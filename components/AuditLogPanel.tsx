@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { History } from 'lucide-react';
+import { format } from 'date-fns';
+import { AuditAction, AuditEntityType, AuditLogEntry } from '../types';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, describeAuditActor, formatAuditValue } from '../services/auditLog';
+
+interface AuditLogPanelProps {
+  entries: AuditLogEntry[];
+  title?: string;
+  highlightedEntryId?: string | null;
+}
+
+const MAX_VISIBLE_ENTRIES = 100;
+
+const getActionTone = (action: AuditAction): string => {
+  if (action === 'DELETE' || action === 'CLEAR') return 'border-red-300 text-red-600 bg-red-500/5';
+  if (action === 'CREATE' || action === 'RESTORE' || action === 'IMPORT') return 'border-emerald-400 text-emerald-600 bg-emerald-500/5';
+  if (action === 'PAYMENT' || action === 'SETTLE') return 'border-blue-300 text-blue-600 bg-blue-500/5';
+  return 'border-amber-300 text-amber-600 bg-amber-500/5';
+};
+
+export const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ entries, title = 'Audit Log', highlightedEntryId = null }) => {
+  const [entityFilter, setEntityFilter] = useState<AuditEntityType | 'ALL'>('ALL');
+  const [actionFilter, setActionFilter] = useState<AuditAction | 'ALL'>('ALL');
+  const [actorFilter, setActorFilter] = useState('ALL');
+
+  const actorOptions = useMemo(
+    () => Array.from(new Set(entries.map(entry => describeAuditActor(entry)))).sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => entries
+    .filter(entry => entityFilter === 'ALL' || entry.entityType === entityFilter)
+    .filter(entry => actionFilter === 'ALL' || entry.action === actionFilter)
+    .filter(entry => actorFilter === 'ALL' || describeAuditActor(entry) === actorFilter)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
+  [entries, entityFilter, actionFilter, actorFilter]);
+
+  const visibleEntries = filteredEntries.slice(0, MAX_VISIBLE_ENTRIES);
+  const selectClassName = 'h-9 rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-2 text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 focus:outline-none';
+
+  return (
+    <div className="bg-white dark:bg-brand-900 border border-slate-200 dark:border-white/10 rounded-[2rem] p-6 md:p-8 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h4 className="inline-flex items-center gap-2 text-xs font-black uppercase tracking-[0.2em] text-brand-900 dark:text-white">
+            <History size={14} />
+            {title}
+          </h4>
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300 mt-1">
+            {filteredEntries.length} of {entries.length} entr{entries.length === 1 ? 'y' : 'ies'} · append-only
+          </p>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <select aria-label="Filter by entity" value={entityFilter} onChange={event => setEntityFilter(event.target.value as AuditEntityType | 'ALL')} className={selectClassName}>
+            <option value="ALL">All Entities</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+              <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>
+            ))}
+          </select>
+          <select aria-label="Filter by action" value={actionFilter} onChange={event => setActionFilter(event.target.value as AuditAction | 'ALL')} className={selectClassName}>
+            <option value="ALL">All Actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+              <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          <select aria-label="Filter by actor" value={actorFilter} onChange={event => setActorFilter(event.target.value)} className={selectClassName}>
+            <option value="ALL">All Users</option>
+            {actorOptions.map(actor => (
+              <option key={actor} value={actor}>{actor}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">No audit entries match these filters</p>
+      ) : (
+        <div className="space-y-2">
+          {visibleEntries.map(entry => (
+            <div
+              key={entry.id}
+              className={`rounded-xl border px-4 py-3 space-y-2 ${entry.id === highlightedEntryId ? 'border-brand-900 dark:border-emerald-500 bg-brand-50 dark:bg-emerald-500/5' : 'border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950'}`}
+            >
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-1">
+                <p className="truncate text-[10px] font-black uppercase text-brand-900 dark:text-white">
+                  {AUDIT_ENTITY_LABELS[entry.entityType]} · {entry.entityLabel}
+                </p>
+                <span className={`self-start md:self-auto text-[7px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest ${getActionTone(entry.action)}`}>
+                  {AUDIT_ACTION_LABELS[entry.action]}
+                </span>
+              </div>
+              <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400">
+                {describeAuditActor(entry)} · {format(new Date(entry.timestamp), 'MMM d, yyyy HH:mm')}
+                {entry.note ? ` · ${entry.note}` : ''}
+              </p>
+              {entry.changes.length > 0 && (
+                <div className="rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 divide-y divide-slate-100 dark:divide-white/5">
+                  {entry.changes.map(change => (
+                    <div key={change.field} className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)_minmax(0,2fr)] gap-2 px-3 py-1.5">
+                      <p className="truncate text-[8px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">{change.field}</p>
+                      <p className="text-[9px] font-bold text-red-600 dark:text-red-300 break-words line-through decoration-red-300/60">{formatAuditValue(change.before)}</p>
+                      <p className="text-[9px] font-bold text-emerald-700 dark:text-emerald-300 break-words">{formatAuditValue(change.after)}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {filteredEntries.length > MAX_VISIBLE_ENTRIES && (
+            <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 px-1">
+              +{filteredEntries.length - MAX_VISIBLE_ENTRIES} older entries
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { BellRing, Copy } from 'lucide-react';
+import {
+  BACKGROUND_DELIVERY_LABELS,
+  BackgroundNotificationStatus,
+  enableBackgroundNotifications,
+  getAlertPushSubscription,
+  getBackgroundNotificationStatus,
+} from '../services/alertNotifications';
+
+const PERMISSION_LABELS: Record<BackgroundNotificationStatus['permission'], string> = {
+  granted: 'Allowed',
+  denied: 'Blocked in browser',
+  default: 'Not asked yet',
+  unsupported: 'Unsupported',
+};
+
+export const BackgroundNotificationsPanel: React.FC = () => {
+  const [status, setStatus] = useState<BackgroundNotificationStatus | null>(null);
+  const [message, setMessage] = useState('');
+
+  const refreshStatus = async () => {
+    setStatus(await getBackgroundNotificationStatus());
+  };
+
+  useEffect(() => {
+    void refreshStatus();
+  }, []);
+
+  const handleEnable = async () => {
+    const result = await enableBackgroundNotifications();
+    setMessage(result.ok ? 'Notifications enabled on this device.' : result.reason || 'Notifications could not be enabled.');
+    await refreshStatus();
+  };
+
+  const handleCopySubscription = async () => {
+    const subscription = await getAlertPushSubscription();
+    if (!subscription) {
+      setMessage('This device has no Web Push subscription yet.');
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(subscription.toJSON()));
+      setMessage('Push subscription copied. Add it to your push sender.');
+    } catch {
+      setMessage('Clipboard unavailable on this device.');
+    }
+  };
+
+  const rows = status
+    ? [
+      { label: 'Service Worker', value: status.serviceWorker ? 'Active' : 'Unavailable' },
+      { label: 'Permission', value: PERMISSION_LABELS[status.permission] },
+      { label: 'Closed-Tab Delivery', value: BACKGROUND_DELIVERY_LABELS[status.delivery] },
+      { label: 'Web Push', value: !status.pushConfigured ? 'Not configured' : status.pushSubscribed ? 'Subscribed' : 'Not subscribed' },
+    ]
+    : [];
+
+  return (
+    <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors">
+      <div className="flex justify-between items-center mb-6 border-b pb-4 dark:border-brand-800">
+        <h3 className="text-sm font-black text-brand-900 dark:text-gold-500 uppercase tracking-widest">Background Notifications</h3>
+        <BellRing size={18} className="text-gold-600" />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+        {rows.map(row => (
+          <div key={row.label} className="rounded-lg border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-3 py-2">
+            <p className="text-[7px] font-black uppercase tracking-widest text-slate-400">{row.label}</p>
+            <p className="text-[10px] font-black uppercase tracking-wider text-brand-900 dark:text-white mt-0.5">{row.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <button
+          type="button"
+          onClick={() => void handleEnable()}
+          className="h-9 px-4 rounded-lg bg-brand-900 text-gold-400 dark:bg-emerald-500/10 dark:text-emerald-400 dark:border dark:border-emerald-500 text-[8px] font-black uppercase tracking-widest"
+        >
+          Enable On This Device
+        </button>
+        {status?.pushSubscribed && (
+          <button
+            type="button"
+            onClick={() => void handleCopySubscription()}
+            className="h-9 px-4 rounded-lg border border-slate-200 dark:border-brand-700 bg-white dark:bg-brand-900 text-[8px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 inline-flex items-center gap-1"
+          >
+            <Copy size={12} /> Copy Push Subscription
+          </button>
+        )}
+      </div>
+      {message && <p className="mt-3 text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">{message}</p>}
+
+      <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Upcoming alerts and their escalation tiers are handed to a service worker so they can fire with the tab in the background. With every tab closed they still fire where the browser schedules notifications, or when a Web Push wake-up or periodic check reaches the worker. Snooze 10, Resolve and Open Trip work from the notification.</p>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { BackupCollectionDiff, BackupDiff, BackupRecordStatus, RestoreSelection } from '../services/backupDiff';
+import { formatAuditValue } from '../services/auditLog';
+
+interface BackupRestorePreviewProps {
+  diff: BackupDiff;
+  selection: RestoreSelection;
+  onSelectionChange: (selection: RestoreSelection) => void;
+  disabled?: boolean;
+}
+
+const RECORD_LIST_LIMIT = 100;
+
+const STATUS_STYLES: Record<BackupRecordStatus, { label: string; tone: string }> = {
+  NEW: { label: 'New', tone: 'border-emerald-300 text-emerald-600 bg-emerald-500/5' },
+  CHANGED: { label: 'Changed', tone: 'border-amber-300 text-amber-600 bg-amber-500/5' },
+  MISSING: { label: 'Remove', tone: 'border-red-300 text-red-600 bg-red-500/5' },
+};
+
+export const BackupRestorePreview: React.FC<BackupRestorePreviewProps> = ({ diff, selection, onSelectionChange, disabled }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const setCollectionChoice = (item: BackupCollectionDiff, choice: 'all' | string[] | undefined) => {
+    const collections = { ...selection.collections };
+    if (choice === undefined || (Array.isArray(choice) && choice.length === 0)) {
+      delete collections[item.collection];
+    } else {
+      collections[item.collection] = choice;
+    }
+    onSelectionChange({ ...selection, collections });
+  };
+
+  const toggleCollection = (item: BackupCollectionDiff) => {
+    const choice = selection.collections[item.collection];
+    setCollectionChoice(item, choice ? undefined : 'all');
+  };
+
+  // Picking a record out of a whole-collection choice starts from what a merge would bring back.
+  const toggleRecord = (item: BackupCollectionDiff, key: string) => {
+    const choice = selection.collections[item.collection];
+    const current = choice === 'all'
+      ? item.records.filter(record => record.status !== 'MISSING').map(record => record.key)
+      : choice || [];
+    setCollectionChoice(item, current.includes(key) ? current.filter(entry => entry !== key) : [...current, key]);
+  };
+
+  const isRecordSelected = (item: BackupCollectionDiff, key: string, status: BackupRecordStatus): boolean => {
+    const choice = selection.collections[item.collection];
+    if (choice === 'all') return status !== 'MISSING';
+    return Boolean(choice?.includes(key));
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 divide-y divide-slate-100 dark:divide-white/5">
+      <div className="grid grid-cols-[1fr_repeat(3,3.5rem)] gap-2 px-3 py-1.5 text-[7px] font-black uppercase tracking-widest text-slate-400">
+        <span>Restore Section</span>
+        <span className="text-right">New</span>
+        <span className="text-right">Changed</span>
+        <span className="text-right">Missing</span>
+      </div>
+      {diff.collections.map(item => {
+        const choice = selection.collections[item.collection];
+        const isOpen = expanded === item.collection;
+        return (
+          <div key={item.collection}>
+            <div className="grid grid-cols-[1fr_repeat(3,3.5rem)] gap-2 items-center px-3 py-1.5 text-[9px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300">
+              <div className="flex items-center gap-2 min-w-0">
+                <input
+                  type="checkbox"
+                  aria-label={`Restore ${item.label}`}
+                  checked={Boolean(choice)}
+                  disabled={disabled || !item.inBackup}
+                  onChange={() => toggleCollection(item)}
+                />
+                <button
+                  type="button"
+                  onClick={() => setExpanded(isOpen ? null : item.collection)}
+                  disabled={item.records.length === 0}
+                  className="inline-flex items-center gap-1 min-w-0 font-black disabled:cursor-default"
+                >
+                  {item.records.length > 0 && (isOpen ? <ChevronDown size={10} /> : <ChevronRight size={10} />)}
+                  <span className="truncate">{item.label}</span>
+                </button>
+                {!item.inBackup && <span className="text-[7px] font-black tracking-widest text-slate-400">Not in backup</span>}
+                {Array.isArray(choice) && <span className="text-[7px] font-black tracking-widest text-blue-600">{choice.length} picked</span>}
+              </div>
+              <span className={`text-right ${item.newCount > 0 ? 'text-emerald-600' : ''}`}>{item.newCount}</span>
+              <span className={`text-right ${item.changedCount > 0 ? 'text-amber-600' : ''}`}>{item.changedCount}</span>
+              <span className={`text-right ${item.missingCount > 0 ? 'text-red-600' : ''}`}>{item.missingCount}</span>
+            </div>
+
+            {isOpen && (
+              <div className="max-h-64 overflow-y-auto bg-slate-50 dark:bg-brand-950 px-3 py-2 space-y-1.5">
+                {item.records.slice(0, RECORD_LIST_LIMIT).map(record => (
+                  <label key={`${record.status}-${record.key}`} className="block rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 px-3 py-2">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={isRecordSelected(item, record.key, record.status)}
+                        disabled={disabled}
+                        onChange={() => toggleRecord(item, record.key)}
+                      />
+                      <span className={`text-[7px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest ${STATUS_STYLES[record.status].tone}`}>
+                        {STATUS_STYLES[record.status].label}
+                      </span>
+                      <span className="truncate text-[9px] font-black uppercase text-brand-900 dark:text-white">{record.label}</span>
+                    </span>
+                    {record.fields && record.fields.length > 0 && (
+                      <span className="mt-1 block space-y-0.5 pl-5">
+                        {record.fields.map(change => (
+                          <span key={change.field} className="block text-[8px] font-bold tracking-wide text-slate-500 dark:text-slate-400">
+                            <span className="font-black uppercase">{change.field}</span>: {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                  </label>
+                ))}
+                {item.records.length > RECORD_LIST_LIMIT && (
+                  <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                    +{item.records.length - RECORD_LIST_LIMIT} more · restore the whole section to include them
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <div className="flex items-center gap-2 px-3 py-1.5 text-[9px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300">
+        <input
+          type="checkbox"
+          aria-label="Restore settings"
+          checked={selection.settings}
+          disabled={disabled || !diff.hasSettings}
+          onChange={() => onSelectionChange({ ...selection, settings: !selection.settings })}
+        />
+        <span className="font-black">Settings</span>
+        <span className="text-[7px] font-black tracking-widest text-slate-400">
+          {!diff.hasSettings ? 'Not in backup' : diff.settingsChanged ? 'Differs' : 'Matches'}
+        </span>
+      </div>
+    </div>
+  );
+};
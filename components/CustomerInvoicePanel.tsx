@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, ChevronLeft, ChevronRight, FileText, Receipt } from 'lucide-react';
+import { addMonths, addWeeks, format } from 'date-fns';
+import { CreditCycle, CreditLedgerEntry, CustomerInvoice, Trip, WorkspaceBranding } from '../types';
+import { getCreditCyclePeriod } from '../services/creditCycle';
+import { listInvoiceCandidates } from '../services/customerInvoice';
+import { exportInvoicePdfFriendly } from '../services/receiptExport';
+
+interface CustomerInvoicePanelProps {
+  trips: Trip[];
+  creditLedger: CreditLedgerEntry[];
+  invoices: CustomerInvoice[];
+  branding: WorkspaceBranding;
+  onCreateInvoice: (payload: { partyKey: string; cycle: CreditCycle; anchorDate: string }) => void;
+  onPayInvoice: (invoiceId: string) => void;
+  lockedReason?: string;
+}
+
+type InvoiceListFilter = 'OPEN' | 'ALL';
+
+const MAX_VISIBLE_INVOICES = 12;
+
+export const CustomerInvoicePanel: React.FC<CustomerInvoicePanelProps> = ({ trips, creditLedger, invoices, branding, onCreateInvoice, onPayInvoice, lockedReason }) => {
+  const [cycle, setCycle] = useState<CreditCycle>('WEEKLY');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [listFilter, setListFilter] = useState<InvoiceListFilter>('OPEN');
+
+  const period = useMemo(() => getCreditCyclePeriod(cycle, anchor), [cycle, anchor]);
+  const candidates = useMemo(() => listInvoiceCandidates(trips, period, creditLedger), [trips, period, creditLedger]);
+  const visibleInvoices = useMemo(() => {
+    return invoices
+      .filter(invoice => listFilter === 'ALL' || invoice.status === 'OPEN')
+      .sort((a, b) => new Date(b.issuedAt).getTime() - new Date(a.issuedAt).getTime())
+      .slice(0, MAX_VISIBLE_INVOICES);
+  }, [invoices, listFilter]);
+  const openInvoiceUsd = invoices.filter(invoice => invoice.status === 'OPEN').reduce((sum, invoice) => sum + invoice.totalUsd, 0);
+
+  const shiftPeriod = (direction: 1 | -1) => {
+    setAnchor(prev => (cycle === 'MONTHLY' ? addMonths(prev, direction) : addWeeks(prev, direction)));
+  };
+
+  return (
+    <div className="bg-white dark:bg-brand-900 border border-slate-200 dark:border-white/10 rounded-[2rem] p-6 md:p-8 space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">Client Invoices</h4>
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300 mt-1">
+            {invoices.filter(invoice => invoice.status === 'OPEN').length} open · ${openInvoiceUsd.toFixed(2)} outstanding
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 p-1">
+            {(['WEEKLY', 'MONTHLY'] as CreditCycle[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setCycle(option)}
+                className={`h-7 px-2.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-colors ${cycle === option ? 'bg-brand-900 text-gold-400 dark:bg-brand-800' : 'text-slate-500 dark:text-slate-300'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={() => shiftPeriod(-1)} className="h-9 w-9 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 inline-flex items-center justify-center text-slate-500">
+            <ChevronLeft size={14} />
+          </button>
+          <span className="min-w-[9rem] text-center text-[9px] font-black uppercase tracking-widest text-brand-900 dark:text-white">{period.label}</span>
+          <button type="button" onClick={() => shiftPeriod(1)} className="h-9 w-9 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 inline-flex items-center justify-center text-slate-500">
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 px-1">Uninvoiced Credit Trips</p>
+        {candidates.length === 0 ? (
+          <div className="rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-4 py-3">
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">No unsettled credit trips in this period.</p>
+          </div>
+        ) : (
+          candidates.map(candidate => (
+            <div key={`invoice-candidate-${candidate.partyKey}`} className="flex items-center justify-between gap-3 rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-4 py-3">
+              <div className="min-w-0">
+                <p className="truncate text-[10px] font-black uppercase text-brand-900 dark:text-white">{candidate.partyName}</p>
+                <p className="truncate text-[8px] font-bold uppercase tracking-widest text-slate-400">
+                  {candidate.trips.length} trips · ${candidate.totalUsd.toFixed(2)} · {candidate.totalLbp.toLocaleString()} LBP
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onCreateInvoice({ partyKey: candidate.partyKey, cycle, anchorDate: anchor.toISOString() })}
+                disabled={Boolean(lockedReason)}
+                title={lockedReason}
+                className="h-8 px-3 shrink-0 rounded-lg border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 inline-flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-amber-700 dark:text-amber-300 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <FileText size={12} />
+                Issue Invoice
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between px-1">
+          <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">Issued Invoices</p>
+          <div className="flex items-center gap-1">
+            {(['OPEN', 'ALL'] as InvoiceListFilter[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setListFilter(option)}
+                className={`h-6 px-2 rounded-md text-[8px] font-black uppercase tracking-widest ${listFilter === option ? 'bg-brand-900 text-gold-400 dark:bg-brand-800' : 'text-slate-500 dark:text-slate-300'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+        {visibleInvoices.length === 0 ? (
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">No invoices yet.</p>
+        ) : (
+          visibleInvoices.map(invoice => (
+            <div key={invoice.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-xl border border-slate-200 dark:border-white/10 px-4 py-3">
+              <div className="min-w-0">
+                <p className="truncate text-[10px] font-black uppercase text-brand-900 dark:text-white">#{invoice.invoiceNumber} · {invoice.partyName}</p>
+                <p className="truncate text-[8px] font-bold uppercase tracking-widest text-slate-400">
+                  {invoice.cycle} · {format(new Date(invoice.periodStart), 'dd MMM')} – {format(new Date(invoice.periodEnd), 'dd MMM yyyy')} · {invoice.lines.length} trips · ${invoice.totalUsd.toFixed(2)} · {invoice.totalLbp.toLocaleString()} LBP
+                  {invoice.status === 'OPEN' && invoice.dueDate ? ` · due ${invoice.dueDate}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {invoice.status === 'PAID' ? (
+                  <span className="inline-flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-emerald-600">
+                    <CheckCircle size={12} />
+                    Paid{invoice.paidAt ? ` ${format(new Date(invoice.paidAt), 'dd MMM')}` : ''}
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onPayInvoice(invoice.id)}
+                    disabled={Boolean(lockedReason)}
+                    title={lockedReason}
+                    className="h-7 px-2.5 rounded-lg border border-emerald-200 dark:border-emerald-900/40 bg-emerald-50 dark:bg-emerald-900/10 inline-flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-emerald-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    <Receipt size={12} />
+                    Mark Paid
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => exportInvoicePdfFriendly(invoice, branding)}
+                  className="h-7 px-2.5 rounded-lg border border-indigo-200 dark:border-indigo-900/40 bg-indigo-50 dark:bg-indigo-900/10 text-[8px] font-black uppercase tracking-widest text-indigo-700 dark:text-indigo-300"
+                >
+                  PDF
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
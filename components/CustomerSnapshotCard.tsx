@@ -4,9 +4,13 @@ import { format, parseISO } from 'date-fns';
 import { CustomerSnapshot } from '../services/customerSnapshot';
 import { buildWhatsAppLink, normalizePhoneForWhatsApp } from '../services/whatsapp';
 import { exportReceiptPdfFriendly } from '../services/receiptExport';
+import { AuditLogEntry } from '../types';
+import { useStore } from '../context/StoreContext';
+import { AuditHistoryList } from './AuditHistoryList';
 
 interface CustomerSnapshotCardProps {
   snapshot: CustomerSnapshot;
+  auditHistory?: AuditLogEntry[];
   className?: string;
 }
 
@@ -25,7 +29,8 @@ const segmentClassName = (segment: string): string => {
   return 'border-blue-200 text-blue-700 dark:border-blue-900/40 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/10';
 };
 
-export const CustomerSnapshotCard: React.FC<CustomerSnapshotCardProps> = ({ snapshot, className = '' }) => {
+export const CustomerSnapshotCard: React.FC<CustomerSnapshotCardProps> = ({ snapshot, auditHistory, className = '' }) => {
+  const { activeWorkspace } = useStore();
   const phoneKey = normalizePhoneForWhatsApp(snapshot.phone) || snapshot.normalizedPhone;
   const callHref = phoneKey ? `tel:+${phoneKey}` : '';
   const whatsappHref = buildWhatsAppLink(phoneKey) || '';
@@ -97,7 +102,7 @@ export const CustomerSnapshotCard: React.FC<CustomerSnapshotCardProps> = ({ snap
           {hasCustomerReceipt && (
             <button
               type="button"
-              onClick={() => exportReceiptPdfFriendly(snapshot.latestReceipt!, { companyName: "Andrew's Taxi", partyPhone: snapshot.phone })}
+              onClick={() => exportReceiptPdfFriendly(snapshot.latestReceipt!, { ...activeWorkspace.branding, partyPhone: snapshot.phone })}
               className="h-7 px-2 rounded-lg border border-indigo-200 dark:border-indigo-900/40 bg-indigo-50 dark:bg-indigo-900/10 text-[8px] font-black uppercase tracking-widest text-indigo-700 dark:text-indigo-300 inline-flex items-center"
             >
               <Download size={11} className="mr-1" /> Customer Receipt
@@ -106,7 +111,7 @@ export const CustomerSnapshotCard: React.FC<CustomerSnapshotCardProps> = ({ snap
           {hasDriverReceipt && (
             <button
               type="button"
-              onClick={() => exportReceiptPdfFriendly(snapshot.driverSolvency!.latestReceipt!, { companyName: "Andrew's Taxi", extraNotes: `Driver: ${snapshot.driverSolvency!.driverName}` })}
+              onClick={() => exportReceiptPdfFriendly(snapshot.driverSolvency!.latestReceipt!, { ...activeWorkspace.branding, extraNotes: `Driver: ${snapshot.driverSolvency!.driverName}` })}
               className="h-7 px-2 rounded-lg border border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-900/10 text-[8px] font-black uppercase tracking-widest text-blue-700 dark:text-blue-300 inline-flex items-center"
             >
               <Download size={11} className="mr-1" /> Driver Receipt
@@ -133,6 +138,8 @@ export const CustomerSnapshotCard: React.FC<CustomerSnapshotCardProps> = ({ snap
           </p>
         </div>
       )}
+
+      {auditHistory && <AuditHistoryList entries={auditHistory} limit={3} />}
     </div>
   );
 };
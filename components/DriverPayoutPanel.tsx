@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, FileText, Lock } from 'lucide-react';
+import { addMonths, addWeeks, format } from 'date-fns';
+import { CreditCycle, CreditLedgerEntry, Driver, ReceiptRecord, Settings, Trip, WorkspaceBranding } from '../types';
+import { buildDriverPayoutStatement, buildDriverPayoutStatementCsv, describePayoutDirection, DriverPayoutStatement } from '../services/driverPayout';
+import { exportDriverPayoutStatementPdfFriendly } from '../services/receiptExport';
+
+interface DriverPayoutPanelProps {
+  driver: Driver;
+  trips: Trip[];
+  creditLedger: CreditLedgerEntry[];
+  receipts: ReceiptRecord[];
+  settings: Settings;
+  branding: WorkspaceBranding;
+  onCloseStatement: (statement: DriverPayoutStatement) => void;
+  lockedReason?: string;
+}
+
+const MAX_VISIBLE_TRIP_LINES = 8;
+
+export const DriverPayoutPanel: React.FC<DriverPayoutPanelProps> = ({ driver, trips, creditLedger, receipts, settings, branding, onCloseStatement, lockedReason }) => {
+  const [cycle, setCycle] = useState<CreditCycle>('WEEKLY');
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const statement = useMemo(
+    () => buildDriverPayoutStatement(driver, trips, creditLedger, settings, cycle, anchor),
+    [driver, trips, creditLedger, settings, cycle, anchor]
+  );
+
+  const closedEntry = statement.closedEntryId ? creditLedger.find(entry => entry.id === statement.closedEntryId) : undefined;
+  const closedReceipt = closedEntry?.receiptId ? receipts.find(receipt => receipt.id === closedEntry.receiptId) : undefined;
+  const isCurrentPeriod = new Date(statement.periodEnd).getTime() >= Date.now();
+  const hasActivity = statement.tripLines.length > 0 || statement.fuelLines.length > 0 || statement.openCredits.length > 0;
+
+  const shiftPeriod = (direction: 1 | -1) => {
+    setAnchor(prev => (cycle === 'MONTHLY' ? addMonths(prev, direction) : addWeeks(prev, direction)));
+  };
+
+  const handleExportCsv = () => {
+    const blob = new Blob([buildDriverPayoutStatementCsv(statement)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const anchorElement = document.createElement('a');
+    anchorElement.href = url;
+    anchorElement.download = `payout-${driver.name.trim().toLowerCase().replace(/\s+/g, '-')}-${statement.cycle.toLowerCase()}-${format(new Date(statement.periodStart), 'yyyyMMdd')}.csv`;
+    anchorElement.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const summaryBoxes = [
+    { label: 'Gross Fares', value: statement.grossFareUsd, tone: 'text-brand-900 dark:text-white' },
+    { label: 'Company Share', value: statement.companyShareUsd, tone: 'text-blue-600 dark:text-blue-300' },
+    { label: 'Driver Share', value: statement.driverShareUsd, tone: 'text-emerald-600' },
+    { label: 'Cash Held', value: -statement.cashCollectedUsd, tone: 'text-slate-600 dark:text-slate-300' },
+    { label: 'Fuel Deduction', value: -statement.fuelDeductionUsd, tone: 'text-gold-600' },
+    { label: 'Open Credits', value: -statement.openCreditUsd, tone: 'text-amber-600' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-brand-900 border border-slate-200 dark:border-white/10 rounded-[2rem] p-6 md:p-8 space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">Payout Statement</h4>
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300 mt-1">
+            {statement.shareRuleLabel} · {(statement.companyShareRate * 100).toFixed(0)}% company · fuel {statement.fuelResponsibility.toLowerCase()} ({(statement.fuelDeductionRate * 100).toFixed(0)}% deducted)
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 p-1">
+            {(['WEEKLY', 'MONTHLY'] as CreditCycle[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setCycle(option)}
+                className={`h-7 px-2.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-colors ${cycle === option ? 'bg-brand-900 text-gold-400 dark:bg-brand-800' : 'text-slate-500 dark:text-slate-300'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={() => shiftPeriod(-1)} className="h-9 w-9 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 inline-flex items-center justify-center text-slate-500">
+            <ChevronLeft size={14} />
+          </button>
+          <span className="min-w-[9rem] text-center text-[9px] font-black uppercase tracking-widest text-brand-900 dark:text-white">{statement.periodLabel}</span>
+          <button type="button" onClick={() => shiftPeriod(1)} className="h-9 w-9 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 inline-flex items-center justify-center text-slate-500">
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+        {summaryBoxes.map(box => (
+          <div key={box.label} className="bg-slate-50 dark:bg-brand-950 rounded-xl p-4 border border-slate-200 dark:border-white/10">
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{box.label}</p>
+            <p className={`text-lg font-black mt-1 ${box.tone}`}>{box.value < 0 ? '-' : ''}${Math.abs(box.value).toFixed(2)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className={`rounded-xl border px-4 py-3 flex items-center justify-between gap-3 ${statement.netPayoutUsd < 0 ? 'border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10' : 'border-emerald-200 dark:border-emerald-900/40 bg-emerald-50 dark:bg-emerald-900/10'}`}>
+        <div>
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">{describePayoutDirection(statement.netPayoutUsd)}</p>
+          <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400 mt-0.5">
+            {statement.tripLines.length} trips · {statement.fuelLines.length} fuel logs · {statement.openCredits.length} open credits
+          </p>
+        </div>
+        <p className={`text-2xl font-black tracking-tighter ${statement.netPayoutUsd < 0 ? 'text-amber-700 dark:text-amber-300' : 'text-emerald-700 dark:text-emerald-300'}`}>
+          ${Math.abs(statement.netPayoutUsd).toFixed(2)}
+        </p>
+      </div>
+
+      {statement.tripLines.length > 0 && (
+        <div className="space-y-1.5">
+          {statement.tripLines.slice(-MAX_VISIBLE_TRIP_LINES).reverse().map(line => (
+            <div key={`payout-trip-${line.tripId}`} className="flex items-center justify-between gap-3 rounded-lg border border-slate-100 dark:border-white/5 px-3 py-2">
+              <div className="min-w-0">
+                <p className="truncate text-[10px] font-black uppercase text-brand-900 dark:text-white">{line.customerName}</p>
+                <p className="truncate text-[8px] font-bold uppercase tracking-widest text-slate-400">
+                  {format(new Date(line.completedAt), 'EEE dd MMM HH:mm')} · #{String(line.tripId).slice(-4)} · {line.paymentMode}
+                </p>
+              </div>
+              <p className="shrink-0 text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">
+                ${line.fareUsd.toFixed(2)} · <span className="text-emerald-600">${line.driverShareUsd.toFixed(2)}</span>
+              </p>
+            </div>
+          ))}
+          {statement.tripLines.length > MAX_VISIBLE_TRIP_LINES && (
+            <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 px-1">
+              +{statement.tripLines.length - MAX_VISIBLE_TRIP_LINES} more in export
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        {closedEntry ? (
+          <p className="inline-flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-indigo-600 dark:text-indigo-300">
+            <Lock size={12} />
+            Closed {closedEntry.paidAt ? format(new Date(closedEntry.paidAt), 'dd MMM yyyy') : ''}{closedReceipt ? ` · #${closedReceipt.receiptNumber}` : ''}
+          </p>
+        ) : (
+          <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400">
+            {isCurrentPeriod ? 'Period still running' : 'Ready to close'}
+          </p>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleExportCsv}
+            className="h-9 px-3 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 inline-flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300"
+          >
+            <Download size={12} />
+            CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => exportDriverPayoutStatementPdfFriendly(statement, { ...branding, receiptNumber: closedReceipt?.receiptNumber })}
+            className="h-9 px-3 rounded-xl border border-indigo-200 dark:border-indigo-900/40 bg-indigo-50 dark:bg-indigo-900/10 inline-flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-indigo-700 dark:text-indigo-300"
+          >
+            <FileText size={12} />
+            Print
+          </button>
+          <button
+            type="button"
+            onClick={() => onCloseStatement(statement)}
+            disabled={Boolean(closedEntry) || !hasActivity || Boolean(lockedReason)}
+            title={lockedReason}
+            className="h-9 px-3 rounded-xl border border-emerald-200 dark:border-emerald-900/40 bg-emerald-50 dark:bg-emerald-900/10 inline-flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Lock size={12} />
+            Close Statement
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Fuel, UserX } from 'lucide-react';
+import { addHours, format, startOfHour } from 'date-fns';
+import { Driver, Trip, TripStatus } from '../types';
+import { getTripSpanMinutes } from '../services/driverSchedule';
+import { deriveOffDutyIntervals } from '../services/driverShifts';
+
+interface DriverTimelineProps {
+  drivers: Driver[];
+  trips: Trip[];
+  onReassignTrip: (trip: Trip, nextDriverId: string | null) => void;
+  onOpenDriver?: (driverId: string) => void;
+}
+
+const UNASSIGNED_LANE_ID = '__unassigned__';
+const TIMELINE_RANGE_OPTIONS = [6, 12, 24] as const;
+const MIN_BAR_WIDTH_PERCENT = 1.5;
+
+const tripBarClassMap: Record<TripStatus, string> = {
+  [TripStatus.CONFIRMED]: 'border-gold-500/60 bg-brand-900 text-gold-300 dark:bg-brand-800',
+  [TripStatus.QUOTED]: 'border-dashed border-slate-400 bg-slate-100 text-slate-600 dark:border-slate-500 dark:bg-brand-950 dark:text-slate-300',
+  [TripStatus.COMPLETED]: 'border-emerald-300 bg-emerald-50 text-emerald-700 dark:border-emerald-900/40 dark:bg-emerald-900/20 dark:text-emerald-300',
+  [TripStatus.CANCELLED]: 'border-red-200 bg-red-50 text-red-600',
+};
+
+export const DriverTimeline: React.FC<DriverTimelineProps> = ({ drivers, trips, onReassignTrip, onOpenDriver }) => {
+  const [rangeHours, setRangeHours] = useState<(typeof TIMELINE_RANGE_OPTIONS)[number]>(12);
+  const [clockTick, setClockTick] = useState(() => Date.now());
+  const [draggingTripId, setDraggingTripId] = useState<number | null>(null);
+  const [dropLaneId, setDropLaneId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setClockTick(Date.now()), 60000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const windowStart = useMemo(() => addHours(startOfHour(new Date(clockTick)), -1), [clockTick]);
+  const windowStartMs = windowStart.getTime();
+  const windowEndMs = addHours(windowStart, rangeHours).getTime();
+  const windowSpanMs = windowEndMs - windowStartMs;
+
+  const toPercent = (timestampMs: number) => {
+    return Math.max(0, Math.min(100, ((timestampMs - windowStartMs) / windowSpanMs) * 100));
+  };
+
+  const hourTicks = useMemo(() => {
+    return Array.from({ length: rangeHours + 1 }, (_, index) => addHours(windowStart, index));
+  }, [windowStart, rangeHours]);
+
+  const tripsByLane = useMemo(() => {
+    const lanes = new Map<string, { trip: Trip; startMs: number; endMs: number }[]>();
+    trips.forEach(trip => {
+      if (trip.status === TripStatus.CANCELLED) return;
+      const startMs = new Date(trip.tripDate || trip.createdAt).getTime();
+      if (!Number.isFinite(startMs)) return;
+      const endMs = startMs + Math.max(5, getTripSpanMinutes(trip)) * 60000;
+      if (endMs < windowStartMs || startMs > windowEndMs) return;
+      const laneId = trip.driverId || UNASSIGNED_LANE_ID;
+      const bucket = lanes.get(laneId) || [];
+      bucket.push({ trip, startMs, endMs });
+      lanes.set(laneId, bucket);
+    });
+    return lanes;
+  }, [trips, windowStartMs, windowEndMs]);
+
+  const nowPercent = toPercent(clockTick);
+  const lanes = [
+    { id: UNASSIGNED_LANE_ID, driver: null as Driver | null },
+    ...drivers.map(driver => ({ id: driver.id, driver })),
+  ];
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>, laneId: string) => {
+    event.preventDefault();
+    setDropLaneId(null);
+    setDraggingTripId(null);
+    const tripId = Number(event.dataTransfer.getData('text/plain'));
+    const trip = trips.find(item => item.id === tripId);
+    if (!trip) return;
+    const nextDriverId = laneId === UNASSIGNED_LANE_ID ? null : laneId;
+    if ((trip.driverId || null) === nextDriverId) return;
+    onReassignTrip(trip, nextDriverId);
+  };
+
+  return (
+    <div className="bg-white dark:bg-brand-900 shadow-xl rounded-3xl border border-slate-200 dark:border-brand-800 overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-100 dark:border-brand-800 flex items-center justify-between gap-3">
+        <div>
+          <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 dark:text-slate-300">Unit Timeline</p>
+          <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 mt-0.5">Drag a trip onto another lane to reassign</p>
+        </div>
+        <div className="flex items-center gap-1 rounded-xl border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 p-1">
+          {TIMELINE_RANGE_OPTIONS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setRangeHours(option)}
+              className={`h-7 px-2.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-colors ${rangeHours === option ? 'bg-brand-900 text-gold-400 dark:bg-brand-800' : 'text-slate-500 dark:text-slate-300'}`}
+            >
+              {option}h
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[900px]">
+          <div className="flex border-b border-slate-100 dark:border-brand-800 bg-slate-50 dark:bg-brand-950">
+            <div className="w-44 shrink-0 px-3 py-2 text-[8px] font-black uppercase tracking-widest text-slate-400">Unit</div>
+            <div className="relative flex-1 h-8">
+              {hourTicks.map(tick => (
+                <span
+                  key={tick.getTime()}
+                  className="absolute top-2 -translate-x-1/2 text-[8px] font-black uppercase tracking-widest text-slate-400"
+                  style={{ left: `${toPercent(tick.getTime())}%` }}
+                >
+                  {format(tick, 'HH:mm')}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {lanes.map(lane => {
+            const laneTrips = tripsByLane.get(lane.id) || [];
+            const offDutyBands = lane.driver
+              ? deriveOffDutyIntervals(lane.driver, clockTick)
+                .map(interval => ({ left: toPercent(interval.startMs), right: toPercent(interval.endMs ?? windowEndMs) }))
+                .filter(band => band.right > band.left)
+              : [];
+            const refuelEvents = (lane.driver?.fuelLogs || []).filter(entry => {
+              const timestamp = new Date(entry.timestamp).getTime();
+              return Number.isFinite(timestamp) && timestamp >= windowStartMs && timestamp <= windowEndMs;
+            });
+
+            return (
+              <div
+                key={lane.id}
+                onDragOver={event => {
+                  if (draggingTripId === null) return;
+                  event.preventDefault();
+                  if (dropLaneId !== lane.id) setDropLaneId(lane.id);
+                }}
+                onDragLeave={() => setDropLaneId(prev => (prev === lane.id ? null : prev))}
+                onDrop={event => handleDrop(event, lane.id)}
+                className={`flex border-b border-slate-100 dark:border-brand-800 transition-colors ${dropLaneId === lane.id ? 'bg-gold-50 dark:bg-gold-900/10' : ''}`}
+              >
+                <div className="w-44 shrink-0 px-3 py-2 flex flex-col justify-center">
+                  {lane.driver ? (
+                    <button
+                      type="button"
+                      onClick={() => onOpenDriver?.(lane.driver!.id)}
+                      className="text-left hover:opacity-85 transition-opacity"
+                    >
+                      <span className="block truncate text-[10px] font-black uppercase text-brand-900 dark:text-white">{lane.driver.name}</span>
+                      <span className="block truncate text-[8px] font-bold uppercase tracking-widest text-slate-400">{lane.driver.plateNumber} · {lane.driver.currentStatus.replace('_', ' ')}</span>
+                    </button>
+                  ) : (
+                    <span className="inline-flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-amber-600 dark:text-amber-400">
+                      <UserX size={12} />
+                      Unassigned
+                    </span>
+                  )}
+                </div>
+                <div className="relative flex-1 h-14">
+                  {hourTicks.map(tick => (
+                    <span
+                      key={`grid-${lane.id}-${tick.getTime()}`}
+                      className="absolute top-0 bottom-0 w-px bg-slate-100 dark:bg-brand-800"
+                      style={{ left: `${toPercent(tick.getTime())}%` }}
+                    />
+                  ))}
+
+                  {offDutyBands.map(band => (
+                    <div
+                      key={`off-duty-${lane.id}-${band.left}`}
+                      className="absolute top-1 bottom-1 rounded-lg bg-slate-200/70 dark:bg-slate-700/30 bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(148,163,184,0.25)_6px,rgba(148,163,184,0.25)_12px)] flex items-center px-2 overflow-hidden"
+                      style={{ left: `${band.left}%`, width: `${band.right - band.left}%` }}
+                      title="Off duty"
+                    >
+                      <span className="text-[7px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-400">Off Duty</span>
+                    </div>
+                  ))}
+
+                  {laneTrips.map(({ trip, startMs, endMs }) => {
+                    const left = toPercent(startMs);
+                    const width = Math.max(MIN_BAR_WIDTH_PERCENT, toPercent(endMs) - left);
+                    const isDraggable = trip.status !== TripStatus.COMPLETED;
+                    return (
+                      <div
+                        key={`timeline-trip-${trip.id}`}
+                        draggable={isDraggable}
+                        onDragStart={event => {
+                          event.dataTransfer.setData('text/plain', String(trip.id));
+                          event.dataTransfer.effectAllowed = 'move';
+                          setDraggingTripId(trip.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggingTripId(null);
+                          setDropLaneId(null);
+                        }}
+                        className={`absolute top-2 bottom-2 rounded-lg border px-1.5 flex flex-col justify-center overflow-hidden ${tripBarClassMap[trip.status]} ${isDraggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'} ${draggingTripId === trip.id ? 'opacity-50' : ''}`}
+                        style={{ left: `${left}%`, width: `${width}%` }}
+                        title={`#${trip.id.toString().slice(-4)} · ${trip.customerName} · ${format(new Date(startMs), 'HH:mm')}–${format(new Date(endMs), 'HH:mm')} · ${trip.status}`}
+                      >
+                        <span className="block truncate text-[8px] font-black uppercase leading-tight">{trip.customerName}</span>
+                        <span className="block truncate text-[7px] font-bold uppercase tracking-widest opacity-80 leading-tight">{format(new Date(startMs), 'HH:mm')} · #{trip.id.toString().slice(-4)}</span>
+                      </div>
+                    );
+                  })}
+
+                  {refuelEvents.map(entry => (
+                    <span
+                      key={`refuel-${entry.id}`}
+                      className="absolute bottom-0.5 -translate-x-1/2 h-4 w-4 rounded-full border border-sky-300 bg-sky-50 text-sky-600 dark:border-sky-800 dark:bg-sky-900/30 dark:text-sky-300 inline-flex items-center justify-center"
+                      style={{ left: `${toPercent(new Date(entry.timestamp).getTime())}%` }}
+                      title={`Refuel ${format(new Date(entry.timestamp), 'HH:mm')} · $${entry.amountUsd}`}
+                    >
+                      <Fuel size={9} />
+                    </span>
+                  ))}
+
+                  {nowPercent > 0 && nowPercent < 100 && (
+                    <span className="absolute top-0 bottom-0 w-0.5 bg-red-500/70 pointer-events-none" style={{ left: `${nowPercent}%` }} />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,16 +4,17 @@ import { NavLink, useNavigate, useLocation } from 'react-router-dom';
 import { 
   Car, List, Settings as SettingsIcon, Users, Moon, Sun, 
   BrainCircuit, ShieldCheck, Zap, Radar, Bell, X, 
-  Clock, CheckCircle, AlertCircle, Phone, MessageCircle, ExternalLink
+  Clock, CheckCircle, AlertCircle, Phone, MessageCircle, ExternalLink, CloudOff, HardDriveDownload
 } from 'lucide-react';
 import { useStore } from '../context/StoreContext';
 import { useAuth } from '../context/AuthContext';
 import { format, differenceInMinutes, parseISO } from 'date-fns';
 import { buildWhatsAppLink, normalizePhoneForWhatsApp } from '../services/whatsapp';
+import { AlertResponseStrip } from './AlertResponseStrip';
 
 export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { theme, toggleTheme, alerts, trips, drivers, snoozeAlert, resolveAlert } = useStore();
-  const { user, hasCoreAccess, signOut } = useAuth();
+  const { theme, toggleTheme, alerts, trips, drivers, settings, snoozeAlert, resolveAlert, acknowledgeAlert, syncOutbox, retrySyncOutbox, localWriteError, retryLocalWrites, activeWorkspace, workspaces, switchWorkspace } = useStore();
+  const { user, hasCoreAccess, can, signOut } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const [showWatch, setShowWatch] = useState(false);
@@ -53,6 +54,20 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       .sort((a, b) => getAlertTimestamp(a.targetTime) - getAlertTimestamp(b.targetTime))
   ), [alerts, alertClockTick]);
 
+  const pendingSyncTitle = useMemo(() => {
+    if (syncOutbox.length === 0) return '';
+    const latest = syncOutbox[syncOutbox.length - 1];
+    const lines = [
+      `${syncOutbox.length} change${syncOutbox.length === 1 ? '' : 's'} waiting for cloud sync`,
+      `Oldest: ${syncOutbox[0].label}`,
+      ...(syncOutbox.length > 1 ? [`Latest: ${latest.label}`] : []),
+      ...(latest.lastError ? [`Last attempt: ${latest.lastError}`] : []),
+      ...(latest.nextAttemptAt ? [`Next retry: ${format(parseISO(latest.nextAttemptAt), 'HH:mm:ss')}`] : []),
+      'Click to retry now',
+    ];
+    return lines.join('\n');
+  }, [syncOutbox]);
+
   const handleLogoDoubleClick = () => {
     navigate(isIntelligenceMode ? '/brief' : '/crm');
   };
@@ -294,6 +309,14 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     navigate('/watch');
   };
 
+  const handleSwitchWorkspace = async (workspaceId: string) => {
+    const target = workspaces.find(workspace => workspace.id === workspaceId);
+    if (!target || target.id === activeWorkspace.id) return;
+    if (!window.confirm(`Switch to ${target.name}? The app reloads with that workspace's data.`)) return;
+    const result = await switchWorkspace(workspaceId);
+    if (!result.ok) window.alert(result.reason || 'Workspace switch failed.');
+  };
+
   const handleToggleWatch = () => {
     setShowWatch(prev => {
       const next = !prev;
@@ -341,9 +364,45 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
           <h1 className={`text-xl font-black tracking-tight transition-colors ${isIntelligenceMode ? 'text-brand-900 dark:text-white' : 'text-white'}`}>
             <span className={isIntelligenceMode ? 'text-gold-600 dark:text-white/60' : 'text-gold-400'}>{isIntelligenceMode ? 'Core' : 'Control'}</span>
           </h1>
+          {workspaces.length > 1 && (
+            <select
+              aria-label="Switch workspace"
+              value={activeWorkspace.id}
+              onChange={event => void handleSwitchWorkspace(event.target.value)}
+              className={`h-8 max-w-[9rem] sm:max-w-[14rem] rounded-full border px-3 text-[9px] font-black uppercase tracking-widest outline-none ${isIntelligenceMode ? 'border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-900/50 text-slate-600 dark:text-slate-300' : 'border-brand-700 bg-brand-800/60 text-gold-400'}`}
+            >
+              {workspaces.map(workspace => (
+                <option key={workspace.id} value={workspace.id} className="text-brand-900">{workspace.name}</option>
+              ))}
+            </select>
+          )}
         </div>
         
         <div className="flex items-center space-x-3">
+          {localWriteError && (
+            <button
+              type="button"
+              onClick={retryLocalWrites}
+              title={`Changes are not saved on this device: ${localWriteError.message}. Retrying at ${format(parseISO(localWriteError.nextRetryAt), 'HH:mm:ss')} (attempt ${localWriteError.attempts}). Click to retry now.`}
+              className={`h-8 px-2.5 rounded-full inline-flex items-center gap-1.5 border text-[9px] font-black uppercase tracking-widest transition-all ${isIntelligenceMode ? 'border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-red-700 dark:text-red-300' : 'border-brand-700 bg-brand-800/60 text-red-300'}`}
+            >
+              <HardDriveDownload size={14} />
+              <span>Unsaved<span className="hidden sm:inline"> Locally</span></span>
+            </button>
+          )}
+
+          {syncOutbox.length > 0 && (
+            <button
+              type="button"
+              onClick={retrySyncOutbox}
+              title={pendingSyncTitle}
+              className={`h-8 px-2.5 rounded-full inline-flex items-center gap-1.5 border text-[9px] font-black uppercase tracking-widest transition-all ${isIntelligenceMode ? 'border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 text-amber-700 dark:text-amber-300' : 'border-brand-700 bg-brand-800/60 text-amber-300'}`}
+            >
+              <CloudOff size={14} />
+              <span>{syncOutbox.length}<span className="hidden sm:inline"> Pending</span></span>
+            </button>
+          )}
+
           {/* Mission Watch Trigger */}
           <button 
             onClick={handleToggleWatch}
@@ -446,9 +505,16 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                 return (
                   <div key={alert.id} className={`p-4 rounded-2xl border transition-all ${isUrgent ? 'bg-red-50 dark:bg-red-900/10 border-red-100 dark:border-red-900/30' : 'bg-slate-50 dark:bg-brand-950 border-slate-100 dark:border-white/5'}`}>
                     <div className="flex justify-between items-start mb-2">
-                       <span className={`text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-widest ${isLate ? 'bg-red-500 text-white' : 'bg-brand-900 text-gold-400'}`}>
-                         {alert.type}
-                       </span>
+                       <div className="flex items-center gap-1">
+                         <span className={`text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-widest ${isLate ? 'bg-red-500 text-white' : 'bg-brand-900 text-gold-400'}`}>
+                           {alert.type}
+                         </span>
+                         {alert.severity && alert.severity !== 'INFO' && (
+                           <span className={`text-[8px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest ${alert.severity === 'CRITICAL' ? 'border-red-300 text-red-600 bg-red-500/5' : 'border-amber-300 text-amber-600 bg-amber-500/5'}`}>
+                             {alert.severity}
+                           </span>
+                         )}
+                       </div>
                        <div className="flex items-center text-slate-400">
                          <Clock size={10} className="mr-1" />
                          <span className={`text-[10px] font-black ${isLate ? 'text-red-500' : isUrgent ? 'text-amber-500' : 'text-slate-400'}`}>
@@ -456,7 +522,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                          </span>
                        </div>
                     </div>
-                    <h4 className="text-xs font-black uppercase tracking-tight text-brand-900 dark:text-white mb-1 line-clamp-1">{alert.customerName}</h4>
+                    <h4 className="text-xs font-black uppercase tracking-tight text-brand-900 dark:text-white mb-1 line-clamp-1">{alert.customerName || alert.driverName}</h4>
                     <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{alert.label}</p>
                     {customerWhatsAppHref && (
                       <div className="mt-2 flex items-center gap-2">
@@ -472,6 +538,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                         Snoozed until {format(parseISO(alert.snoozedUntil), 'MMM d, HH:mm')}
                       </p>
                     )}
+                    <AlertResponseStrip alert={alert} settings={settings} now={new Date()} />
                     {linkedDriver && (
                       <div className="mt-2 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 px-3 py-2">
                         <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">Driver Preview</p>
@@ -493,6 +560,14 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                     <div className="mt-3 pt-3 border-t border-slate-200 dark:border-white/5 flex items-center justify-between gap-2">
                        <button onClick={() => alert.tripId && navigate(`/trips?id=${alert.tripId}`)} disabled={!alert.tripId} className="text-[8px] font-black uppercase text-blue-500 hover:underline disabled:opacity-40 disabled:cursor-not-allowed">View Vector</button>
                        <div className="flex items-center gap-1.5">
+                         {isLate && !alert.acknowledgedAt && (
+                           <button
+                             onClick={() => acknowledgeAlert(alert.id)}
+                             className="h-7 px-2 rounded-md border border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-900/10 text-[7px] font-black uppercase tracking-widest text-blue-700 dark:text-blue-300"
+                           >
+                             Ack
+                           </button>
+                         )}
                          <button
                            onClick={() => snoozeAlert(alert.id, 10)}
                            className="h-7 px-2 rounded-md border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 text-[7px] font-black uppercase tracking-widest text-amber-700 dark:text-amber-300"
@@ -550,6 +625,12 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                       <SettingsIcon size={20} />
                       <span className="font-bold hidden lg:inline">Config</span>
                     </NavLink>
+                    {can('APPROVE_ACCESS') && (
+                      <NavLink to="/permissions" className={sidebarLinkClass}>
+                        <ShieldCheck size={20} />
+                        <span className="font-bold hidden lg:inline">Permissions</span>
+                      </NavLink>
+                    )}
                 </div>
               )}
           </aside>
@@ -0,0 +1,23 @@
+import React from 'react';
+import { CloudOff, MapPinOff } from 'lucide-react';
+
+interface MapOfflineFallbackProps {
+  offline: boolean;
+  hint?: string;
+  className?: string;
+}
+
+// Covers a Google Maps panel whose script could not load, so it reads as unavailable rather than blank.
+export const MapOfflineFallback: React.FC<MapOfflineFallbackProps> = ({ offline, hint, className }) => (
+  <div className={`absolute inset-0 z-10 flex flex-col items-center justify-center gap-2 bg-slate-100/95 dark:bg-brand-950/95 text-center px-6 ${className || ''}`}>
+    <div className="h-12 w-12 rounded-2xl bg-brand-900 text-gold-400 inline-flex items-center justify-center">
+      {offline ? <CloudOff size={22} /> : <MapPinOff size={22} />}
+    </div>
+    <p className="text-[10px] font-black uppercase tracking-[0.3em] text-brand-900 dark:text-gold-400">
+      {offline ? 'Map Offline' : 'Map Unavailable'}
+    </p>
+    <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400 max-w-xs">
+      {hint || (offline ? 'Google Maps needs a connection. The map returns once you are back online.' : 'Google Maps could not be loaded. Check the API key and connection.')}
+    </p>
+  </div>
+);
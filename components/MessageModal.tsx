@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Copy, Check, Send, MessageCircle } from 'lucide-react';
+import { X, Copy, Check, Send, MessageCircle, Zap } from 'lucide-react';
 import { Button } from './ui/Button';
 import { buildWhatsAppLink, sanitizeCommunicationText } from '../services/whatsapp';
 import { CustomerSnapshot } from '../services/customerSnapshot';
@@ -15,6 +15,8 @@ interface MessageModalProps {
   recipientPhone?: string;
   operatorPhone?: string;
   customerSnapshot?: CustomerSnapshot;
+  apiTemplateName?: string;
+  onSendViaApi?: () => Promise<{ ok: boolean; reason?: string }>;
 }
 
 export const MessageModal: React.FC<MessageModalProps> = ({ 
@@ -26,11 +28,14 @@ export const MessageModal: React.FC<MessageModalProps> = ({
   recipientPhone,
   operatorPhone,
   customerSnapshot,
+  apiTemplateName,
+  onSendViaApi,
 }) => {
   const [message, setMessage] = useState(initialMessage);
   const [copied, setCopied] = useState(false);
   const [deliverySignal, setDeliverySignal] = useState(false);
   const [actionStatus, setActionStatus] = useState('');
+  const [apiSending, setApiSending] = useState(false);
 
   useEffect(() => {
     setMessage(initialMessage);
@@ -82,6 +87,18 @@ export const MessageModal: React.FC<MessageModalProps> = ({
     setTimeout(() => setActionStatus(''), 2600);
   };
 
+  const handleSendViaApi = async () => {
+    if (!onSendViaApi || apiSending) return;
+    setApiSending(true);
+    setActionStatus('Sending via WhatsApp API...');
+    const result = await onSendViaApi();
+    setApiSending(false);
+    if (!result.ok) {
+      setActionStatus(result.reason || 'WhatsApp API send failed.');
+      setTimeout(() => setActionStatus(''), 4000);
+    }
+  };
+
   const hasWhatsAppTarget = Boolean(whatsAppLink || operatorWhatsAppLink);
 
   return (
@@ -105,7 +122,12 @@ export const MessageModal: React.FC<MessageModalProps> = ({
             onChange={(e) => setMessage(e.target.value)}
             className="w-full h-40 md:h-48 border border-slate-200 dark:border-brand-800 rounded-2xl p-4 bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 text-sm font-medium focus:ring-2 focus:ring-gold-500 outline-none transition-all resize-none"
           />
-          {hasWhatsAppTarget && !deliverySignal && (
+          {onSendViaApi && (
+            <p className="mt-3 text-[9px] font-black uppercase tracking-widest text-blue-600 dark:text-blue-400">
+              API sends the approved template{apiTemplateName ? ` "${apiTemplateName}"` : ''} with this trip's details. Edits above only apply to CPY, WA and OP.
+            </p>
+          )}
+          {hasWhatsAppTarget && !deliverySignal && !onSendViaApi && (
             <p className="mt-3 text-[9px] font-black uppercase tracking-widest text-amber-600 dark:text-amber-400">
               WhatsApp not opened yet. You can still mark as sent manually.
             </p>
@@ -117,7 +139,7 @@ export const MessageModal: React.FC<MessageModalProps> = ({
           )}
         </div>
 
-        <div className="px-5 md:px-8 py-4 md:py-6 bg-slate-50 dark:bg-brand-950 border-t dark:border-brand-800 grid grid-cols-4 gap-2 md:gap-3 pb-[max(1rem,env(safe-area-inset-bottom))] md:pb-6">
+        <div className={`px-5 md:px-8 py-4 md:py-6 bg-slate-50 dark:bg-brand-950 border-t dark:border-brand-800 grid ${onSendViaApi ? 'grid-cols-5' : 'grid-cols-4'} gap-2 md:gap-3 pb-[max(1rem,env(safe-area-inset-bottom))] md:pb-6`}>
           <Button variant="outline" onClick={handleCopy} className="w-full h-12 px-1.5 bg-white text-[10px] tracking-widest" title={copied ? 'Copied' : 'Copy'}>
             {copied ? <Check size={15} className="mr-1.5" /> : <Copy size={15} className="mr-1.5" />}
             <span>{copied ? 'OK' : 'CPY'}</span>
@@ -130,6 +152,12 @@ export const MessageModal: React.FC<MessageModalProps> = ({
             <MessageCircle size={15} className="mr-1.5" />
             <span>OP</span>
           </Button>
+          {onSendViaApi && (
+            <Button variant="outline" onClick={() => void handleSendViaApi()} disabled={apiSending} className="w-full h-12 px-1.5 bg-white text-[10px] tracking-widest" title="Send via WhatsApp API">
+              <Zap size={15} className="mr-1.5" />
+              <span>API</span>
+            </Button>
+          )}
           <Button onClick={() => onMarkSent(sanitizeCommunicationText(message))} variant="gold" className="w-full h-12 px-1.5 text-[10px] tracking-widest" title="Mark Sent">
             <Send size={15} className="mr-1.5" />
             <span>SENT</span>
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+
+interface PermissionNoticeProps {
+  reason?: string;
+  className?: string;
+}
+
+export const PermissionNotice: React.FC<PermissionNoticeProps> = ({ reason, className = '' }) => {
+  if (!reason) return null;
+
+  return (
+    <p role="note" className={`inline-flex items-center gap-1.5 rounded-lg border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 px-2.5 py-1.5 text-[8px] font-black uppercase tracking-widest text-amber-700 dark:text-amber-300 ${className}`.trim()}>
+      <Lock size={10} className="shrink-0" />
+      {reason}
+    </p>
+  );
+};
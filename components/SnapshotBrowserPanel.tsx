@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { HardDrive, RefreshCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import * as Storage from '../services/storageService';
+import {
+  getSystemSnapshotPayload,
+  isSnapshotStoreAvailable,
+  listSystemSnapshots,
+  SYSTEM_SNAPSHOT_KIND_LABELS,
+  SystemSnapshotMeta,
+} from '../services/snapshotStore';
+import { BackupDiff, buildBackupDiff, buildDefaultRestoreSelection, describeRestoreChanges, isRestoreSelectionEmpty, RestoreSelection } from '../services/backupDiff';
+import { BackupRestorePreview } from './BackupRestorePreview';
+import { PermissionNotice } from './PermissionNotice';
+
+type SnapshotRestoreMode = 'merge' | 'replace';
+
+interface SnapshotBrowserPanelProps {
+  onRestore: (snapshotId: string, mode: SnapshotRestoreMode, selection?: RestoreSelection) => Promise<{ ok: boolean; reason?: string; applied?: Storage.RestoreResult['applied']; changes?: Storage.RestoreResult['changes'] }>;
+  lockedReason?: string;
+}
+
+interface SnapshotPreview {
+  id: string;
+  inspection: Storage.BackupInspection;
+  diff: BackupDiff;
+  selection: RestoreSelection;
+}
+
+export const SnapshotBrowserPanel: React.FC<SnapshotBrowserPanelProps> = ({ onRestore, lockedReason }) => {
+  const [snapshots, setSnapshots] = useState<SystemSnapshotMeta[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<SnapshotPreview | null>(null);
+  const [mode, setMode] = useState<SnapshotRestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState('');
+  const storeAvailable = isSnapshotStoreAvailable();
+
+  const loadSnapshots = useCallback(async () => {
+    if (!storeAvailable) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setSnapshots(await listSystemSnapshots());
+    } catch {
+      setMessage('Snapshot store could not be read.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeAvailable]);
+
+  useEffect(() => {
+    void loadSnapshots();
+  }, [loadSnapshots]);
+
+  const selectSnapshot = async (snapshotId: string) => {
+    setSelectedId(snapshotId);
+    setPreview(null);
+    setMessage('');
+    try {
+      const payload = await getSystemSnapshotPayload(snapshotId);
+      if (!payload) {
+        setMessage('Snapshot payload is missing.');
+        return;
+      }
+      const diff = buildBackupDiff(payload, Storage.getFullSystemData({ includeSettings: true }));
+      setPreview({
+        id: snapshotId,
+        inspection: Storage.inspectFullSystemBackup(payload),
+        diff,
+        selection: buildDefaultRestoreSelection(diff),
+      });
+    } catch {
+      setMessage('Snapshot could not be loaded.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!preview) return;
+    const selected = snapshots.find(item => item.id === preview.id);
+    const takenLabel = selected ? format(new Date(selected.takenAt), 'MMM d, yyyy HH:mm') : preview.id;
+    const confirmed = window.confirm(mode === 'replace'
+      ? `Replace current data with the snapshot from ${takenLabel}? Records created since then will be removed.`
+      : `Merge the snapshot from ${takenLabel} into current data? Snapshot records overwrite matching current records.`);
+    if (!confirmed) return;
+
+    setIsRestoring(true);
+    try {
+      const result = await onRestore(preview.id, mode, preview.selection);
+      if (!result.ok) {
+        setMessage(result.reason || 'Snapshot restore failed.');
+        return;
+      }
+      setMessage(`Snapshot restored (${mode}): ${describeRestoreChanges(result.changes || {}, Boolean(result.applied?.settings)) || 'no changes'}.`);
+      setPreview(null);
+      setSelectedId(null);
+      await loadSnapshots();
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!storeAvailable) {
+    return <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Snapshots need IndexedDB, which this browser does not provide.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">
+            <HardDrive size={12} />
+            Rolling Snapshots
+          </p>
+          <p className="text-[9px] font-bold uppercase tracking-wider text-slate-400 mt-1">Hourly for the last day · daily for the last month · before every hard reset, sync clear and restore</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void loadSnapshots()}
+          disabled={isLoading}
+          className="h-8 px-3 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 inline-flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 disabled:opacity-50"
+        >
+          <RefreshCcw size={12} />
+          Refresh
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">Loading snapshots…</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">No snapshots yet. The first one is taken within a few minutes.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto space-y-1.5 pr-1">
+          {snapshots.map(snapshot => (
+            <button
+              key={snapshot.id}
+              type="button"
+              onClick={() => void selectSnapshot(snapshot.id)}
+              className={`w-full text-left rounded-xl border px-4 py-2.5 ${snapshot.id === selectedId ? 'border-brand-900 dark:border-emerald-500 bg-brand-50 dark:bg-emerald-500/5' : 'border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 hover:bg-slate-100 dark:hover:bg-white/5'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-[10px] font-black uppercase text-brand-900 dark:text-white">{format(new Date(snapshot.takenAt), 'EEE d MMM · HH:mm')}</p>
+                <span className={`text-[7px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest ${snapshot.kind === 'SCHEDULED' ? 'border-slate-300 text-slate-500' : 'border-amber-300 text-amber-600 bg-amber-500/5'}`}>
+                  {SYSTEM_SNAPSHOT_KIND_LABELS[snapshot.kind]}
+                </span>
+              </div>
+              <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400 mt-0.5">
+                {snapshot.counts.trips} trips · {snapshot.counts.drivers} drivers · {snapshot.counts.customers} customers · {snapshot.counts.creditLedger} ledger
+                {snapshot.note ? ` · ${snapshot.note}` : ''}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {preview && (
+        <div className="rounded-xl border border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-900/10 p-4 space-y-3">
+          <p className="text-[10px] font-black uppercase tracking-widest text-blue-700">Snapshot vs Current</p>
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">
+            V{preview.inspection.version || 'Unknown'} · {preview.inspection.counts.trips} trips · {preview.inspection.counts.deletedTrips} deleted · {preview.inspection.counts.drivers} drivers · {preview.inspection.counts.customers} customers · {preview.inspection.counts.alerts} alerts{preview.inspection.hasSettings ? ' · settings' : ''}
+          </p>
+          <BackupRestorePreview
+            diff={preview.diff}
+            selection={preview.selection}
+            onSelectionChange={selection => setPreview(current => (current ? { ...current, selection } : current))}
+            disabled={isRestoring}
+          />
+          <p className="text-[9px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">
+            {preview.diff.hasDifferences
+              ? 'Whole sections follow the mode below. Picked records take the snapshot version; picked missing records are removed.'
+              : 'Snapshot matches current data.'}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {(['merge', 'replace'] as SnapshotRestoreMode[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={`h-9 rounded-lg border text-[9px] font-black uppercase tracking-widest ${mode === option ? 'border-brand-900 bg-brand-900 text-gold-400 dark:border-emerald-500 dark:bg-emerald-500/10 dark:text-emerald-400' : 'border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 text-slate-500 dark:text-slate-300'}`}
+              >
+                {option === 'merge' ? 'Merge Into Current' : 'Replace Current'}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => void handleRestore()}
+            disabled={isRestoring || Boolean(lockedReason) || isRestoreSelectionEmpty(preview.selection)}
+            title={lockedReason}
+            className="w-full h-11 rounded-xl border border-blue-300 dark:border-blue-900/50 bg-white dark:bg-brand-950 text-[10px] font-black uppercase tracking-widest text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRestoring ? 'Restoring...' : 'Restore Snapshot'}
+          </button>
+          <PermissionNotice reason={lockedReason} />
+        </div>
+      )}
+
+      {message && <p role="status" className="text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">{message}</p>}
+    </div>
+  );
+};
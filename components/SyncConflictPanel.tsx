@@ -0,0 +1,80 @@
+import React from 'react';
+import { GitMerge } from 'lucide-react';
+import { format } from 'date-fns';
+import { SyncConflict, SyncConflictChoice } from '../types';
+import { formatSyncConflictValue, SYNC_COLLECTION_LABELS } from '../services/syncMerge';
+
+interface SyncConflictPanelProps {
+  conflicts: SyncConflict[];
+  currentClientId: string;
+  onResolve: (conflictId: string, choice: SyncConflictChoice) => void;
+}
+
+const MAX_VISIBLE_CONFLICTS = 20;
+
+const describeVersion = (updatedAt: string | undefined, updatedBy: string | undefined, currentClientId: string): string => {
+  const who = !updatedBy ? 'Unknown device' : updatedBy === currentClientId ? 'This device' : `Device ${updatedBy.slice(-6)}`;
+  const when = updatedAt && Number.isFinite(new Date(updatedAt).getTime()) ? format(new Date(updatedAt), 'MMM d, HH:mm') : '';
+  return when ? `${who} · ${when}` : who;
+};
+
+export const SyncConflictPanel: React.FC<SyncConflictPanelProps> = ({ conflicts, currentClientId, onResolve }) => {
+  if (conflicts.length === 0) return null;
+
+  const visibleConflicts = conflicts
+    .slice()
+    .sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime())
+    .slice(0, MAX_VISIBLE_CONFLICTS);
+
+  return (
+    <div className="bg-white dark:bg-brand-900 border border-amber-200 dark:border-amber-900/40 rounded-[2rem] p-6 md:p-8 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h4 className="inline-flex items-center gap-2 text-xs font-black uppercase tracking-[0.2em] text-amber-700 dark:text-amber-300">
+            <GitMerge size={14} />
+            Sync Conflicts
+          </h4>
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300 mt-1">
+            {conflicts.length} field{conflicts.length === 1 ? '' : 's'} edited on two devices · local value kept until resolved
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {visibleConflicts.map(conflict => (
+          <div key={conflict.id} className="rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-4 py-3 space-y-2">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-1">
+              <p className="truncate text-[10px] font-black uppercase text-brand-900 dark:text-white">
+                {SYNC_COLLECTION_LABELS[conflict.collection]} · {conflict.recordLabel}
+              </p>
+              <p className="text-[8px] font-black uppercase tracking-widest text-amber-700 dark:text-amber-300">Field: {conflict.field}</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {([
+                { choice: 'LOCAL' as const, label: 'Keep Local', value: conflict.localValue, meta: describeVersion(conflict.localUpdatedAt, conflict.localUpdatedBy, currentClientId), tone: 'border-blue-200 dark:border-blue-900/40 text-blue-700 dark:text-blue-300' },
+                { choice: 'REMOTE' as const, label: 'Use Remote', value: conflict.remoteValue, meta: describeVersion(conflict.remoteUpdatedAt, conflict.remoteUpdatedBy, currentClientId), tone: 'border-indigo-200 dark:border-indigo-900/40 text-indigo-700 dark:text-indigo-300' },
+              ]).map(option => (
+                <div key={option.choice} className="rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 px-3 py-2 space-y-1.5">
+                  <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400">{option.meta}</p>
+                  <p className="text-[10px] font-bold text-brand-900 dark:text-slate-100 break-words">{formatSyncConflictValue(option.value)}</p>
+                  <button
+                    type="button"
+                    onClick={() => onResolve(conflict.id, option.choice)}
+                    className={`h-7 px-2.5 rounded-lg border bg-white dark:bg-brand-950 text-[8px] font-black uppercase tracking-widest ${option.tone}`}
+                  >
+                    {option.label}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        {conflicts.length > MAX_VISIBLE_CONFLICTS && (
+          <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 px-1">
+            +{conflicts.length - MAX_VISIBLE_CONFLICTS} older conflicts
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
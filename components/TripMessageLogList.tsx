@@ -0,0 +1,40 @@
+import React from 'react';
+import { MessageCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { TripMessageRecord, TripMessageStatus } from '../types';
+import { MESSAGE_TEMPLATE_LABELS, TRIP_MESSAGE_STATUS_LABELS } from '../services/messaging';
+
+interface TripMessageLogListProps {
+  records: TripMessageRecord[];
+  className?: string;
+}
+
+const STATUS_TONES: Record<TripMessageStatus, string> = {
+  SENT: 'text-slate-500 dark:text-slate-300',
+  DELIVERED: 'text-blue-600 dark:text-blue-300',
+  READ: 'text-emerald-600 dark:text-emerald-300',
+  FAILED: 'text-red-600 dark:text-red-300',
+};
+
+export const TripMessageLogList: React.FC<TripMessageLogListProps> = ({ records, className = '' }) => (
+  <div className={`rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 p-2.5 md:p-3 space-y-1.5 ${className}`.trim()}>
+    <p className="inline-flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-slate-400">
+      <MessageCircle size={10} />
+      WhatsApp Delivery
+    </p>
+    {[...records].reverse().map(record => (
+      <div key={record.id} className="space-y-0.5">
+        <div className="flex items-center justify-between gap-2 text-[8px] font-black uppercase tracking-widest">
+          <span className="text-brand-900 dark:text-slate-200">{MESSAGE_TEMPLATE_LABELS[record.template]}</span>
+          <span className={STATUS_TONES[record.status]}>
+            {TRIP_MESSAGE_STATUS_LABELS[record.status]} · {format(parseISO(record.statusAt), 'd MMM HH:mm')}
+          </span>
+        </div>
+        <p className="truncate text-[8px] font-bold uppercase tracking-widest text-slate-500 dark:text-slate-300">
+          +{record.to} · sent {format(parseISO(record.sentAt), 'd MMM HH:mm')}
+          {record.error ? ` · ${record.error}` : ''}
+        </p>
+      </div>
+    ))}
+  </div>
+);
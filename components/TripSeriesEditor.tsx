@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Driver, RecurrenceFrequency, RecurrenceRule, TripStatus } from '../types';
+import { describeRecurrenceRule, validateRecurrenceRule } from '../services/tripSeries';
+import { Button } from './ui/Button';
+
+export interface TripSeriesDraft {
+  label: string;
+  recurrence: RecurrenceRule;
+  occurrenceStatus: TripStatus.QUOTED | TripStatus.CONFIRMED;
+  driverId: string;
+  fareUsd: number;
+  active: boolean;
+}
+
+interface TripSeriesEditorProps {
+  mode: 'CREATE' | 'EDIT';
+  initialDraft: TripSeriesDraft;
+  routeLabel: string;
+  drivers: Driver[];
+  onClose: () => void;
+  onSubmit: (draft: TripSeriesDraft, applyToFutureOccurrences: boolean) => { ok: boolean; reason?: string };
+}
+
+type SeriesEndMode = 'NEVER' | 'UNTIL' | 'COUNT';
+
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const fieldClassName = 'w-full h-10 px-3 rounded-xl border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 text-[11px] font-bold text-brand-900 dark:text-white outline-none focus:ring-2 focus:ring-gold-500';
+const labelClassName = 'text-[8px] font-black uppercase tracking-widest text-slate-400 block mb-1.5 px-1';
+
+export const TripSeriesEditor: React.FC<TripSeriesEditorProps> = ({ mode, initialDraft, routeLabel, drivers, onClose, onSubmit }) => {
+  const [label, setLabel] = useState(initialDraft.label);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(initialDraft.recurrence.frequency);
+  const [weekdays, setWeekdays] = useState<number[]>(initialDraft.recurrence.weekdays);
+  const [startDate, setStartDate] = useState(initialDraft.recurrence.startDate);
+  const [timeOfDay, setTimeOfDay] = useState(initialDraft.recurrence.timeOfDay);
+  const [endMode, setEndMode] = useState<SeriesEndMode>(
+    initialDraft.recurrence.untilDate ? 'UNTIL' : initialDraft.recurrence.occurrenceCount ? 'COUNT' : 'NEVER'
+  );
+  const [untilDate, setUntilDate] = useState(initialDraft.recurrence.untilDate || '');
+  const [occurrenceCount, setOccurrenceCount] = useState(String(initialDraft.recurrence.occurrenceCount || 10));
+  const [occurrenceStatus, setOccurrenceStatus] = useState(initialDraft.occurrenceStatus);
+  const [driverId, setDriverId] = useState(initialDraft.driverId);
+  const [fareUsd, setFareUsd] = useState(String(initialDraft.fareUsd));
+  const [active, setActive] = useState(initialDraft.active);
+  const [applyToFutureOccurrences, setApplyToFutureOccurrences] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const recurrence: RecurrenceRule = {
+    frequency,
+    weekdays: frequency === 'WEEKLY' ? weekdays : [],
+    startDate,
+    timeOfDay,
+    untilDate: endMode === 'UNTIL' ? untilDate : undefined,
+    occurrenceCount: endMode === 'COUNT' ? Number(occurrenceCount) : undefined,
+  };
+  const ruleError = validateRecurrenceRule(recurrence);
+
+  const toggleWeekday = (weekday: number) => {
+    setWeekdays(prev => (prev.includes(weekday) ? prev.filter(day => day !== weekday) : [...prev, weekday]));
+  };
+
+  const handleSubmit = () => {
+    if (ruleError) {
+      setError(ruleError);
+      return;
+    }
+
+    const parsedFare = Number(fareUsd);
+    if (!Number.isFinite(parsedFare) || parsedFare < 0) {
+      setError('Fare must be a positive amount.');
+      return;
+    }
+
+    const result = onSubmit(
+      { label: label.trim(), recurrence, occurrenceStatus, driverId, fareUsd: parsedFare, active },
+      applyToFutureOccurrences
+    );
+    if (!result.ok) {
+      setError(result.reason || 'Series could not be saved.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[95] bg-brand-950/55 backdrop-blur-sm p-3 md:p-4 flex items-center justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-lg rounded-[1.75rem] border border-slate-200 dark:border-brand-800 bg-white dark:bg-brand-900 shadow-2xl overflow-hidden"
+        onClick={event => event.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 flex items-center justify-between">
+          <div className="min-w-0">
+            <p className="text-[8px] font-black uppercase tracking-[0.18em] text-slate-400">{mode === 'CREATE' ? 'Make Recurring' : 'Edit Series'}</p>
+            <p className="text-[11px] font-black uppercase tracking-tight text-brand-900 dark:text-white mt-1 truncate">{routeLabel}</p>
+            <p className="text-[8px] font-bold uppercase tracking-widest text-slate-500 dark:text-slate-300 mt-0.5">
+              {ruleError ? ruleError : describeRecurrenceRule(recurrence)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="h-8 px-2 rounded-md border border-slate-200 dark:border-brand-800 bg-white dark:bg-brand-900 text-[8px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="p-5 max-h-[70vh] overflow-y-auto space-y-4">
+          <div>
+            <label className={labelClassName}>Series Label</label>
+            <input value={label} onChange={e => setLabel(e.target.value)} placeholder="e.g. Office shuttle" className={fieldClassName} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClassName}>Repeats</label>
+              <select value={frequency} onChange={e => setFrequency(e.target.value as RecurrenceFrequency)} className={fieldClassName}>
+                <option value="DAILY">Daily</option>
+                <option value="WEEKDAYS">Weekdays (Mon–Fri)</option>
+                <option value="WEEKLY">Weekly on days</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>Pickup Time</label>
+              <input type="time" value={timeOfDay} onChange={e => setTimeOfDay(e.target.value)} className={fieldClassName} />
+            </div>
+          </div>
+
+          {frequency === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-1.5">
+              {WEEKDAY_OPTIONS.map(option => (
+                <button
+                  key={`series-weekday-${option.value}`}
+                  type="button"
+                  onClick={() => toggleWeekday(option.value)}
+                  className={`h-8 px-2.5 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-colors ${weekdays.includes(option.value) ? 'border-gold-500 bg-brand-900 text-gold-400' : 'border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 text-slate-500 dark:text-slate-300'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClassName}>Starts</label>
+              <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={fieldClassName} />
+            </div>
+            <div>
+              <label className={labelClassName}>Ends</label>
+              <select value={endMode} onChange={e => setEndMode(e.target.value as SeriesEndMode)} className={fieldClassName}>
+                <option value="NEVER">Never</option>
+                <option value="UNTIL">On date</option>
+                <option value="COUNT">After N rides</option>
+              </select>
+            </div>
+          </div>
+
+          {endMode === 'UNTIL' && (
+            <div>
+              <label className={labelClassName}>Last Date</label>
+              <input type="date" value={untilDate} min={startDate} onChange={e => setUntilDate(e.target.value)} className={fieldClassName} />
+            </div>
+          )}
+          {endMode === 'COUNT' && (
+            <div>
+              <label className={labelClassName}>Number of Rides</label>
+              <input type="number" min={1} step={1} value={occurrenceCount} onChange={e => setOccurrenceCount(e.target.value)} className={fieldClassName} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClassName}>Create As</label>
+              <select
+                value={occurrenceStatus}
+                onChange={e => setOccurrenceStatus(e.target.value as TripStatus.QUOTED | TripStatus.CONFIRMED)}
+                className={fieldClassName}
+              >
+                <option value={TripStatus.QUOTED}>Quoted</option>
+                <option value={TripStatus.CONFIRMED}>Confirmed</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>Fare (USD)</label>
+              <input type="number" min={0} step="0.5" value={fareUsd} onChange={e => setFareUsd(e.target.value)} className={fieldClassName} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClassName}>Default Driver</label>
+            <select value={driverId} onChange={e => setDriverId(e.target.value)} className={fieldClassName}>
+              <option value="">Unassigned</option>
+              {drivers.map(driver => (
+                <option key={`series-driver-${driver.id}`} value={driver.id}>{driver.name} ({driver.plateNumber})</option>
+              ))}
+            </select>
+          </div>
+
+          {mode === 'EDIT' && (
+            <div className="space-y-2 rounded-xl border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 px-3 py-3">
+              <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">
+                <input type="checkbox" checked={active} onChange={e => setActive(e.target.checked)} />
+                Series active
+              </label>
+              <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">
+                <input type="checkbox" checked={applyToFutureOccurrences} onChange={e => setApplyToFutureOccurrences(e.target.checked)} />
+                Update future occurrences already created
+              </label>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-[9px] font-black uppercase tracking-widest text-red-600 dark:text-red-300">{error}</p>
+          )}
+        </div>
+
+        <div className="px-5 py-4 bg-slate-50 dark:bg-brand-950 border-t border-slate-200 dark:border-brand-800 flex gap-3">
+          <Button variant="outline" onClick={onClose} className="flex-1 bg-white">Cancel</Button>
+          <Button variant="gold" onClick={handleSubmit} className="flex-1">{mode === 'CREATE' ? 'Create Series' : 'Save Series'}</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
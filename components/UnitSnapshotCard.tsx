@@ -1,12 +1,15 @@
 import React from 'react';
-import { Phone, Activity, DollarSign, Map, Gauge, Clock3, XCircle } from 'lucide-react';
-import { Driver } from '../types';
+import { Phone, Activity, DollarSign, Map, Gauge, Clock3, XCircle, Timer } from 'lucide-react';
+import { format } from 'date-fns';
+import { AuditLogEntry, Driver } from '../types';
 import { buildWhatsAppLink, normalizePhoneForWhatsApp } from '../services/whatsapp';
 import { UnitSnapshotMetrics } from '../services/unitSnapshot';
+import { AuditHistoryList } from './AuditHistoryList';
 
 interface UnitSnapshotCardProps {
   driver: Driver;
   metrics: UnitSnapshotMetrics;
+  auditHistory?: AuditLogEntry[];
   className?: string;
 }
 
@@ -34,7 +37,17 @@ const availabilityClassMap = {
   OFF_DUTY: 'border-slate-300 text-slate-600 bg-slate-50 dark:border-slate-700 dark:text-slate-300 dark:bg-slate-900/20',
 } as const;
 
-export const UnitSnapshotCard: React.FC<UnitSnapshotCardProps> = ({ driver, metrics, className = '' }) => {
+const RECENT_SHIFT_LIMIT = 4;
+
+const formatShiftDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return hours > 0 ? `${hours}h ${remainder}m` : `${remainder}m`;
+};
+
+export const UnitSnapshotCard: React.FC<UnitSnapshotCardProps> = ({ driver, metrics, auditHistory, className = '' }) => {
+  const { shiftSummary } = metrics;
+  const recentShifts = shiftSummary.shifts.slice(0, RECENT_SHIFT_LIMIT);
   const phoneKey = normalizePhoneForWhatsApp(driver.phone);
   const callHref = phoneKey ? `tel:+${phoneKey}` : '';
   const whatsappHref = buildWhatsAppLink(phoneKey || '') || '';
@@ -103,6 +116,27 @@ export const UnitSnapshotCard: React.FC<UnitSnapshotCardProps> = ({ driver, metr
         </div>
       </div>
 
+      <div className="rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 p-2 space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 inline-flex items-center gap-1"><Timer size={10} />Shifts · {shiftSummary.windowDays}d</p>
+          <p className="text-[8px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">
+            {shiftSummary.onlineHoursWindow}h online · {shiftSummary.utilizationPercentWindow}% util
+          </p>
+        </div>
+        {recentShifts.length === 0 ? (
+          <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400">No availability changes logged yet</p>
+        ) : recentShifts.map(shift => (
+          <div key={`shift-${shift.startAt}`} className="flex items-center justify-between gap-2 text-[8px] font-bold uppercase tracking-widest">
+            <span className="text-slate-600 dark:text-slate-300">
+              {format(new Date(shift.startAt), 'd MMM HH:mm')} → {shift.endAt ? format(new Date(shift.endAt), 'HH:mm') : 'now'}
+            </span>
+            <span className={shift.endAt ? 'text-slate-500 dark:text-slate-400' : 'text-emerald-600 dark:text-emerald-300'}>
+              {formatShiftDuration(shift.onlineMinutes)} · {shift.tripCount} trips · {shift.utilizationPercent}%
+            </span>
+          </div>
+        ))}
+      </div>
+
       <div className="inline-flex max-w-full items-center gap-1.5 rounded-lg border border-slate-200 dark:border-brand-800 bg-slate-50/80 dark:bg-brand-950/70 px-1.5 py-1 flex-nowrap overflow-x-auto snap-x snap-mandatory scroll-px-1 [-ms-overflow-style:none] [scrollbar-width:none] [&::-webkit-scrollbar]:hidden [&>span]:shrink-0 [&>span]:snap-start">
         <span className="text-[8px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest border-slate-300 text-slate-600 bg-slate-50 dark:border-slate-700 dark:text-slate-300 dark:bg-slate-900/20">
           {ownershipLabelMap[driver.vehicleOwnership || 'COMPANY_FLEET']}
@@ -119,6 +153,8 @@ export const UnitSnapshotCard: React.FC<UnitSnapshotCardProps> = ({ driver, metr
         {driver.status === 'ACTIVE' ? 'Unit active in roster' : 'Unit inactive in roster'}
         {metrics.lastCompletedAt ? ` · Last completed ${new Date(metrics.lastCompletedAt).toLocaleDateString()}` : ''}
       </p>
+
+      {auditHistory && <AuditHistoryList entries={auditHistory} limit={3} />}
     </div>
   );
 };
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Building2, ImagePlus, Plus, Trash2 } from 'lucide-react';
+import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
+import { DEFAULT_WORKSPACE_ID, MAX_WORKSPACE_LOGO_BYTES } from '../constants';
+import { Workspace } from '../types';
+import { PermissionNotice } from './PermissionNotice';
+
+const inputClassName = 'w-full h-10 rounded-lg border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 px-3 text-[11px] font-bold text-brand-900 dark:text-white outline-none focus:ring-2 focus:ring-gold-500 disabled:opacity-60';
+const labelClassName = 'text-[8px] font-black uppercase tracking-widest text-slate-400 block mb-1 px-1';
+
+const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result || ''));
+  reader.onerror = () => reject(reader.error || new Error('Logo could not be read.'));
+  reader.readAsDataURL(file);
+});
+
+interface WorkspaceEditDraft {
+  name: string;
+  companyName: string;
+  syncDocId: string;
+  logoDataUrl?: string;
+}
+
+const toEditDraft = (workspace: Workspace): WorkspaceEditDraft => ({
+  name: workspace.name,
+  companyName: workspace.branding.companyName,
+  syncDocId: workspace.syncDocId,
+  logoDataUrl: workspace.branding.logoDataUrl,
+});
+
+export const WorkspaceManagerPanel: React.FC = () => {
+  const { workspaces, activeWorkspace, createWorkspace, updateWorkspace, switchWorkspace } = useStore();
+  const { can, denialReason } = useAuth();
+  const canManage = can('MANAGE_WORKSPACES');
+  const [selectedId, setSelectedId] = useState(activeWorkspace.id);
+  const [draft, setDraft] = useState<WorkspaceEditDraft>(toEditDraft(activeWorkspace));
+  const [newName, setNewName] = useState('');
+  const [newCompanyName, setNewCompanyName] = useState('');
+  const [newSyncDocId, setNewSyncDocId] = useState('');
+  const [message, setMessage] = useState('');
+
+  const selected = workspaces.find(workspace => workspace.id === selectedId) || activeWorkspace;
+
+  useEffect(() => {
+    setDraft(toEditDraft(selected));
+  }, [selected.id, selected.updatedAt]);
+
+  const handleLogoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setMessage('Logo must be an image file.');
+      return;
+    }
+    if (file.size > MAX_WORKSPACE_LOGO_BYTES) {
+      setMessage(`Logo must be under ${Math.round(MAX_WORKSPACE_LOGO_BYTES / 1024)} KB.`);
+      return;
+    }
+    try {
+      const logoDataUrl = await readFileAsDataUrl(file);
+      setDraft(current => ({ ...current, logoDataUrl }));
+      setMessage('');
+    } catch {
+      setMessage('Logo could not be read.');
+    }
+  };
+
+  const handleSave = () => {
+    const result = updateWorkspace(selected.id, {
+      name: draft.name,
+      ...(selected.id !== DEFAULT_WORKSPACE_ID ? { syncDocId: draft.syncDocId } : {}),
+      branding: { companyName: draft.companyName, logoDataUrl: draft.logoDataUrl },
+    });
+    setMessage(result.ok ? `${result.workspace?.name || 'Workspace'} saved.` : result.reason || 'Workspace could not be saved.');
+  };
+
+  const handleCreate = () => {
+    const result = createWorkspace({ name: newName, companyName: newCompanyName, syncDocId: newSyncDocId });
+    if (!result.ok || !result.workspace) {
+      setMessage(result.reason || 'Workspace could not be created.');
+      return;
+    }
+    setNewName('');
+    setNewCompanyName('');
+    setNewSyncDocId('');
+    setSelectedId(result.workspace.id);
+    setMessage(`${result.workspace.name} created. Switch to it to start adding drivers and trips.`);
+  };
+
+  const handleSwitch = async (workspace: Workspace) => {
+    if (!window.confirm(`Switch to ${workspace.name}? The app reloads with that workspace's data.`)) return;
+    const result = await switchWorkspace(workspace.id);
+    if (!result.ok) setMessage(result.reason || 'Workspace switch failed.');
+  };
+
+  return (
+    <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors mb-8">
+      <h3 className="text-sm font-black text-brand-900 dark:text-gold-500 uppercase tracking-widest mb-4 border-b pb-4 dark:border-brand-800">Workspaces</h3>
+      <p className="text-[9px] font-bold uppercase tracking-wider text-slate-400 mb-4">
+        Each workspace keeps its own settings, templates, branding, drivers, trips, and sync channel.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {workspaces.map(workspace => (
+          <div
+            key={workspace.id}
+            className={`rounded-xl border px-4 py-3 flex items-center justify-between gap-3 ${workspace.id === selected.id ? 'border-brand-900 dark:border-emerald-500 bg-brand-50 dark:bg-emerald-500/5' : 'border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950'}`}
+          >
+            <button type="button" onClick={() => setSelectedId(workspace.id)} className="flex items-center gap-3 min-w-0 text-left">
+              {workspace.branding.logoDataUrl ? (
+                <img src={workspace.branding.logoDataUrl} alt="" className="h-8 w-8 rounded object-contain bg-white" />
+              ) : (
+                <span className="h-8 w-8 rounded bg-slate-200 dark:bg-brand-800 inline-flex items-center justify-center text-slate-500"><Building2 size={14} /></span>
+              )}
+              <span className="min-w-0">
+                <span className="block truncate text-[10px] font-black uppercase tracking-widest text-brand-900 dark:text-slate-100">{workspace.name}</span>
+                <span className="block truncate text-[8px] font-bold uppercase tracking-widest text-slate-400">
+                  {workspace.branding.companyName} · {workspace.syncDocId || 'Configured sync channel'}
+                </span>
+              </span>
+            </button>
+            {workspace.id === activeWorkspace.id ? (
+              <span className="text-[7px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest border-emerald-300 text-emerald-600 bg-emerald-500/5">Active</span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => void handleSwitch(workspace)}
+                className="h-8 px-3 rounded-lg border border-slate-200 dark:border-brand-700 bg-white dark:bg-brand-900 text-[8px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300"
+              >
+                Switch
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!canManage ? (
+        <PermissionNotice reason={denialReason('MANAGE_WORKSPACES')} />
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClassName}>Workspace Name</label>
+              <input value={draft.name} onChange={event => setDraft(current => ({ ...current, name: event.target.value }))} className={inputClassName} />
+            </div>
+            <div>
+              <label className={labelClassName}>Company Name On Receipts</label>
+              <input value={draft.companyName} onChange={event => setDraft(current => ({ ...current, companyName: event.target.value }))} className={inputClassName} />
+            </div>
+            <div>
+              <label className={labelClassName}>Sync Channel</label>
+              <input
+                value={selected.id === DEFAULT_WORKSPACE_ID ? 'Configured default' : draft.syncDocId}
+                onChange={event => setDraft(current => ({ ...current, syncDocId: event.target.value }))}
+                disabled={selected.id === DEFAULT_WORKSPACE_ID}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Logo</label>
+              <div className="flex items-center gap-2">
+                {draft.logoDataUrl && <img src={draft.logoDataUrl} alt="" className="h-10 w-10 rounded object-contain bg-white border border-slate-200" />}
+                <label className="h-10 px-3 rounded-lg border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 inline-flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 cursor-pointer">
+                  <ImagePlus size={12} />
+                  Upload
+                  <input type="file" accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml" onChange={event => void handleLogoChange(event)} className="hidden" />
+                </label>
+                {draft.logoDataUrl && (
+                  <button
+                    type="button"
+                    onClick={() => setDraft(current => ({ ...current, logoDataUrl: undefined }))}
+                    className="h-10 px-3 rounded-lg border border-red-200 dark:border-red-900/40 inline-flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-red-600"
+                  >
+                    <Trash2 size={12} />
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="h-10 px-4 rounded-lg bg-brand-900 text-gold-400 text-[9px] font-black uppercase tracking-widest"
+          >
+            Save {selected.name}
+          </button>
+
+          <div className="border-t pt-6 dark:border-brand-800">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300 mb-3">New Workspace</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className={labelClassName}>Name</label>
+                <input value={newName} onChange={event => setNewName(event.target.value)} placeholder="North Fleet" className={inputClassName} />
+              </div>
+              <div>
+                <label className={labelClassName}>Company Name</label>
+                <input value={newCompanyName} onChange={event => setNewCompanyName(event.target.value)} placeholder="Same as name" className={inputClassName} />
+              </div>
+              <div>
+                <label className={labelClassName}>Sync Channel</label>
+                <input value={newSyncDocId} onChange={event => setNewSyncDocId(event.target.value)} placeholder="workspace-<id>" className={inputClassName} />
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="mt-4 h-10 px-4 rounded-lg border border-slate-200 dark:border-brand-700 bg-white dark:bg-brand-950 inline-flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 disabled:opacity-50"
+            >
+              <Plus size={12} />
+              Create Workspace
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p role="status" className="mt-4 text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">{message}</p>}
+    </div>
+  );
+};
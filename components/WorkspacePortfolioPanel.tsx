@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Building2, RefreshCcw } from 'lucide-react';
+import { subDays } from 'date-fns';
+import { Workspace } from '../types';
+import { loadWorkspacePortfolio, totalWorkspacePortfolio, WorkspacePortfolioRow } from '../services/workspacePortfolio';
+
+interface WorkspacePortfolioPanelProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+}
+
+const WINDOW_OPTIONS = [7, 30, 90];
+
+const formatUsd = (value: number): string => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+export const WorkspacePortfolioPanel: React.FC<WorkspacePortfolioPanelProps> = ({ workspaces, activeWorkspaceId }) => {
+  const [windowDays, setWindowDays] = useState(30);
+  const [rows, setRows] = useState<WorkspacePortfolioRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadTick, setReloadTick] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    void loadWorkspacePortfolio(workspaces, subDays(new Date(), windowDays)).then(nextRows => {
+      if (cancelled) return;
+      setRows(nextRows);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaces, windowDays, reloadTick]);
+
+  const totals = totalWorkspacePortfolio(rows);
+
+  return (
+    <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <p className="inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-brand-900 dark:text-gold-500">
+            <Building2 size={12} />
+            Workspace Portfolio
+          </p>
+          <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400 mt-1">Owner view · from this device's copy of each workspace</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {WINDOW_OPTIONS.map(days => (
+            <button
+              key={days}
+              type="button"
+              onClick={() => setWindowDays(days)}
+              className={`h-8 px-3 rounded-lg border text-[8px] font-black uppercase tracking-widest ${windowDays === days ? 'border-brand-900 bg-brand-900 text-gold-400 dark:border-emerald-500 dark:bg-emerald-500/10 dark:text-emerald-400' : 'border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 text-slate-500 dark:text-slate-300'}`}
+            >
+              {days}D
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setReloadTick(tick => tick + 1)}
+            disabled={isLoading}
+            aria-label="Refresh portfolio"
+            className="h-8 px-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-950 text-slate-500 dark:text-slate-300 disabled:opacity-50"
+          >
+            <RefreshCcw size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 dark:border-white/10 divide-y divide-slate-100 dark:divide-white/5">
+        <div className="grid grid-cols-[1fr_repeat(4,5rem)] gap-2 px-3 py-1.5 text-[7px] font-black uppercase tracking-widest text-slate-400">
+          <span>Workspace</span>
+          <span className="text-right">Trips</span>
+          <span className="text-right">Revenue</span>
+          <span className="text-right">Drivers</span>
+          <span className="text-right">Credit Due</span>
+        </div>
+        {isLoading && rows.length === 0 ? (
+          <p className="px-3 py-3 text-[9px] font-black uppercase tracking-widest text-slate-400">Loading workspaces…</p>
+        ) : rows.map(row => (
+          <div key={row.workspaceId} className="grid grid-cols-[1fr_repeat(4,5rem)] gap-2 items-center px-3 py-2 text-[9px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300">
+            <span className="min-w-0 truncate font-black text-brand-900 dark:text-white">
+              {row.workspaceName}
+              {row.workspaceId === activeWorkspaceId && <span className="ml-2 text-[7px] tracking-widest text-emerald-600">Active</span>}
+              {row.error && <span className="ml-2 text-[7px] tracking-widest text-red-600" title={row.error}>Unreadable</span>}
+            </span>
+            <span className="text-right">{row.completedTrips}</span>
+            <span className="text-right">{formatUsd(row.revenueUsd)}</span>
+            <span className="text-right">{row.activeDrivers}</span>
+            <span className={`text-right ${row.outstandingCreditUsd > 0 ? 'text-amber-600' : ''}`}>{formatUsd(row.outstandingCreditUsd)}</span>
+          </div>
+        ))}
+        <div className="grid grid-cols-[1fr_repeat(4,5rem)] gap-2 items-center px-3 py-2 text-[9px] font-black uppercase tracking-wider text-brand-900 dark:text-white bg-slate-50 dark:bg-brand-950">
+          <span>All Workspaces</span>
+          <span className="text-right">{totals.completedTrips}</span>
+          <span className="text-right">{formatUsd(totals.revenueUsd)}</span>
+          <span className="text-right">{totals.activeDrivers}</span>
+          <span className="text-right">{formatUsd(totals.outstandingCreditUsd)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
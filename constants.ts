@@ -7,17 +7,65 @@ export const MIN_RIDE_FARE_USD = 7;
 export const DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT = 15;
 export const DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT = 50;
 export const DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT = 30;
+export const DEFAULT_NIGHT_START_HOUR = 22;
+export const DEFAULT_NIGHT_END_HOUR = 6;
+export const DEFAULT_FARE_RULES = {
+  zones: [],
+  zoneFlatRates: [],
+  nightSurchargePercent: 0,
+  nightStartHour: DEFAULT_NIGHT_START_HOUR,
+  nightEndHour: DEFAULT_NIGHT_END_HOUR,
+  holidaySurchargePercent: 0,
+  holidayDates: [],
+  perStopFeeUsd: 0,
+  requirementSurchargesUsd: {},
+  congestion: {
+    mode: 'OFF' as const,
+    surplusRateUsdPerMin: 0.15,
+    surplusGraceMin: 10,
+    surplusCapUsd: 12,
+    tiers: [
+      { minTrafficIndex: 35, multiplier: 1.1 },
+      { minTrafficIndex: 60, multiplier: 1.2 },
+      { minTrafficIndex: 85, multiplier: 1.35 },
+    ],
+  },
+};
+export const DEFAULT_AUTO_DISPATCH_LEAD_MINUTES = 45;
+export const AUTO_DISPATCH_MAX_LEAD_MINUTES = 24 * 60;
+export const AUTO_DISPATCH_INTERVAL_MS = 60 * 1000;
+export const AUTO_DISPATCH_LEASE = 'auto-dispatch';
+export const DEFAULT_ALERT_RENOTIFY_AFTER_MINUTES = 10;
+export const DEFAULT_ALERT_WHATSAPP_AFTER_MINUTES = 30;
+export const ALERT_ESCALATION_MAX_MINUTES = 24 * 60;
+export const ALERT_HISTORY_RETENTION_DAYS = 180;
+export const ALERT_NOTIFICATION_SNOOZE_MINUTES = 10;
+export const ALERT_NOTIFICATION_HORIZON_HOURS = 24;
+export const WHATSAPP_CLOUD_DEFAULT_API_BASE_URL = 'https://graph.facebook.com';
+export const WHATSAPP_CLOUD_DEFAULT_API_VERSION = 'v21.0';
+export const WHATSAPP_STATUS_POLL_INTERVAL_MS = 30 * 1000;
+export const WHATSAPP_STATUS_TRACKING_DAYS = 3;
+export const SNAPSHOT_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+export const DEADHEAD_AVERAGE_SPEED_KMH = 30;
+export const DEADHEAD_ROAD_FACTOR = 1.3;
+export const TRIP_SERIES_HORIZON_DAYS = 14;
 export const DISPATCH_NOW_MIN_MINUTES = 3;
 export const DISPATCH_NOW_MAX_MINUTES = 15;
 export const DISPATCH_NOW_DEFAULT_MINUTES = Math.round((DISPATCH_NOW_MIN_MINUTES + DISPATCH_NOW_MAX_MINUTES) / 2);
 export const APP_NAME = "Control";
 
 export const DEFAULT_TEMPLATES = {
-  trip_confirmation: "Andrew's Taxi\nHi {customer_name}, your ride is confirmed.\nTime: {trip_datetime_formatted}\nPickup: {pickup}\nDestination: {destination}\nDriver: {driver_name_with_plate}\nETA: {eta_text}\nFare: ${fare_usd} (~{fare_lbp} LBP)\nPayment: {payment_mode} · Settlement: {settlement_status}\n{details_block}\n\n{service_links_block}\n\nNeed any changes? Reply here.",
+  trip_confirmation: "{company_name}\nHi {customer_name}, your ride is confirmed.\nTime: {trip_datetime_formatted}\nPickup: {pickup}\nDestination: {destination}\nDriver: {driver_name_with_plate}\nETA: {eta_text}\nFare: ${fare_usd} (~{fare_lbp} LBP)\nPayment: {payment_mode} · Settlement: {settlement_status}\n{details_block}\n\n{service_links_block}\n\nNeed any changes? Reply here.",
   feedback_request: "Hi {customer_name}, thanks for riding with us.\nHow was your ride with {driver_name}?\nPlease rate from 1-5 and share a quick note.\nExample: 5 - excellent\n\n{service_links_block}",
   feedback_thanks: "Thank you {customer_name} for your feedback.\nWe appreciate your time and look forward to serving you again.\n\n{service_links_block}"
 };
 
+export const DEFAULT_WHATSAPP_CLOUD_TEMPLATES = {
+  trip_confirmation: { name: '', language: 'en', parameters: ['{customer_name}', '{trip_datetime_formatted}', '{pickup}', '{destination}', '{driver_name_with_plate}', '{fare_usd}'] },
+  feedback_request: { name: '', language: 'en', parameters: ['{customer_name}', '{driver_name}'] },
+  feedback_thanks: { name: '', language: 'en', parameters: ['{customer_name}'] },
+};
+
 export const LOCAL_STORAGE_KEYS = {
   TRIPS: 'control_taxi_trips',
   DELETED_TRIPS: 'control_taxi_deleted_trips',
@@ -27,10 +75,26 @@ export const LOCAL_STORAGE_KEYS = {
   ALERTS: 'control_taxi_alerts',
   CREDIT_LEDGER: 'control_taxi_credit_ledger',
   RECEIPTS: 'control_taxi_receipts',
+  TRIP_SERIES: 'control_taxi_trip_series',
+  INVOICES: 'control_taxi_invoices',
+  AUDIT_LOG: 'control_taxi_audit_log',
+  ALERT_HISTORY: 'control_taxi_alert_history',
   SYNC_EPOCH: 'control_taxi_sync_epoch',
-  SYNC_RESET_TOKEN: 'control_taxi_sync_reset_token'
+  SYNC_RESET_TOKEN: 'control_taxi_sync_reset_token',
+  SYNC_BASE: 'control_taxi_sync_base',
+  SYNC_CONFLICTS: 'control_taxi_sync_conflicts',
+  SYNC_OUTBOX: 'control_taxi_sync_outbox',
+  WHATSAPP_CLOUD_TOKEN: 'control_taxi_whatsapp_cloud_token',
+  WHATSAPP_CLOUD_API_BASE_URL: 'control_taxi_whatsapp_cloud_api_base_url',
+  DATABASE_IMPORTED: 'control_taxi_database_imported',
+  WORKSPACES: 'control_taxi_workspaces',
+  ACTIVE_WORKSPACE: 'control_taxi_active_workspace'
 };
 
+export const DEFAULT_WORKSPACE_ID = 'default';
+export const DEFAULT_COMPANY_NAME = "Andrew's Taxi";
+export const MAX_WORKSPACE_LOGO_BYTES = 150 * 1024;
+
 export const SPECIAL_REQUIREMENTS = [
   { id: 'quiet', label: 'Quiet ride', short: 'Quiet' },
   { id: 'rest', label: 'Needs rest / sleep', short: 'Sleep' },
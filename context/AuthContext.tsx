@@ -10,18 +10,25 @@ import {
   type IdTokenResult,
 } from 'firebase/auth';
 import { getApp, getApps, initializeApp } from 'firebase/app';
-import { doc, getDoc, getFirestore } from 'firebase/firestore';
+import { connectFirestoreEmulator, doc, getDoc, getFirestore } from 'firebase/firestore';
+import { connectFirestoreEmulatorOnce } from '../services/firebaseEmulator';
+import { AuthRole, Capability } from '../types';
+import { describeCapabilityDenial, hasCapability } from '../services/permissions';
+import { getActiveWorkspaceId } from '../services/workspaces';
+import { DEFAULT_WORKSPACE_ID } from '../constants';
 
 type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
 
-type AuthRole = 'admin' | 'ops' | 'viewer' | 'unknown';
-
 interface AuthContextType {
   status: AuthStatus;
   user: User | null;
   isApproved: boolean;
   role: AuthRole;
+  workspaceRoles: Record<string, AuthRole> | null;
+  isOwner: boolean;
   hasCoreAccess: boolean;
+  can: (capability: Capability) => boolean;
+  denialReason: (capability: Capability) => string | undefined;
   isAuthConfigured: boolean;
   signIn: (email: string, password: string) => Promise<{ ok: boolean; reason?: string }>;
   signInWithGoogle: () => Promise<{ ok: boolean; reason?: string }>;
@@ -67,6 +74,22 @@ const resolveRoleFromClaims = (tokenResult: IdTokenResult | null): AuthRole => {
   return 'unknown';
 };
 
+const parseAuthRole = (value: unknown): AuthRole => {
+  const normalized = String(value || '').trim().toLowerCase();
+  return normalized === 'admin' || normalized === 'ops' || normalized === 'viewer' ? normalized : 'unknown';
+};
+
+// allowed_users/{uid}.workspaces maps workspace id to role. The main workspace falls back to the account role, and accounts
+// without the map keep that single role everywhere.
+const resolveWorkspaceRoles = (value: unknown): Record<string, AuthRole> | null => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  return Object.entries(value as Record<string, unknown>).reduce<Record<string, AuthRole>>((roles, [workspaceId, role]) => {
+    const parsed = parseAuthRole(role);
+    if (workspaceId.trim() && parsed !== 'unknown') roles[workspaceId.trim()] = parsed;
+    return roles;
+  }, {});
+};
+
 const hasCoreFromClaims = (tokenResult: IdTokenResult | null, role: AuthRole): boolean => {
   if (!tokenResult) return false;
   const claims = tokenResult.claims || {};
@@ -86,6 +109,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [isApproved, setIsApproved] = useState(false);
   const [role, setRole] = useState<AuthRole>('unknown');
+  const [workspaceRoles, setWorkspaceRoles] = useState<Record<string, AuthRole> | null>(null);
+  const [isOwner, setIsOwner] = useState(false);
   const [hasCoreAccess, setHasCoreAccess] = useState(false);
 
   useEffect(() => {
@@ -94,6 +119,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setUser(null);
       setIsApproved(false);
       setRole('unknown');
+      setWorkspaceRoles(null);
+      setIsOwner(false);
       setHasCoreAccess(false);
       return;
     }
@@ -106,13 +133,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setUser(null);
         setIsApproved(false);
         setRole('unknown');
+        setWorkspaceRoles(null);
+        setIsOwner(false);
         setHasCoreAccess(false);
         setStatus('unauthenticated');
         return;
       }
 
       try {
-        const firestore = getFirestore(app);
+        const firestore = connectFirestoreEmulatorOnce(getFirestore(app), connectFirestoreEmulator);
         const tokenResult = await nextUser.getIdTokenResult();
         const claimsRole = resolveRoleFromClaims(tokenResult);
         const claimsCoreAccess = hasCoreFromClaims(tokenResult, claimsRole);
@@ -120,27 +149,32 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         const approvalRef = doc(firestore, 'allowed_users', nextUser.uid);
         const approvalSnapshot = await getDoc(approvalRef);
         const approvalData = approvalSnapshot.exists()
-          ? (approvalSnapshot.data() as { enabled?: unknown; role?: unknown } | undefined)
+          ? (approvalSnapshot.data() as { enabled?: unknown; role?: unknown; workspaces?: unknown; owner?: unknown } | undefined)
           : undefined;
 
         const nextIsApproved = approvalData?.enabled === true;
-        const docRoleRaw = String(approvalData?.role || '').trim().toLowerCase();
-        const docRole: AuthRole = docRoleRaw === 'admin' || docRoleRaw === 'ops' || docRoleRaw === 'viewer'
-          ? docRoleRaw
-          : 'unknown';
+        const docRole = parseAuthRole(approvalData?.role);
+        const nextWorkspaceRoles = resolveWorkspaceRoles(approvalData?.workspaces);
 
-        const nextRole = docRole !== 'unknown' ? docRole : claimsRole;
-        const nextHasCoreAccess = claimsCoreAccess || docRole === 'admin';
+        const globalRole = docRole !== 'unknown' ? docRole : claimsRole;
+        const activeWorkspaceId = getActiveWorkspaceId();
+        const nextRole = nextWorkspaceRoles?.[activeWorkspaceId]
+          || (nextWorkspaceRoles && activeWorkspaceId !== DEFAULT_WORKSPACE_ID ? 'unknown' : globalRole);
+        const nextHasCoreAccess = claimsCoreAccess || docRole === 'admin' || nextRole === 'admin';
 
         setUser(nextUser);
         setIsApproved(nextIsApproved);
         setRole(nextRole);
+        setWorkspaceRoles(nextWorkspaceRoles);
+        setIsOwner(approvalData?.owner === true || tokenResult.claims?.owner === true);
         setHasCoreAccess(nextHasCoreAccess);
         setStatus('authenticated');
       } catch {
         setUser(nextUser);
         setIsApproved(false);
         setRole('unknown');
+        setWorkspaceRoles(null);
+        setIsOwner(false);
         setHasCoreAccess(false);
         setStatus('authenticated');
       }
@@ -194,12 +228,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     user,
     isApproved,
     role,
+    workspaceRoles,
+    isOwner,
     hasCoreAccess,
+    can: (capability: Capability) => hasCapability(role, capability),
+    denialReason: (capability: Capability) => (hasCapability(role, capability) ? undefined : describeCapabilityDenial(role, capability)),
     isAuthConfigured: isConfigured,
     signIn,
     signInWithGoogle,
     signOut,
-  }), [status, user, isApproved, role, hasCoreAccess]);
+  }), [status, user, isApproved, role, workspaceRoles, isOwner, hasCoreAccess]);
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
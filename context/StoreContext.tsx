@@ -1,16 +1,69 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
-import { Trip, Settings, Driver, Customer, MissionAlert, TripStatus, DeletedTripRecord, CreditLedgerEntry, ReceiptRecord, CreditPartyType, CreditCycle, TripPaymentMode, TripSettlementStatus, CustomerProfileEvent } from '../types';
+import { Trip, Settings, Driver, Customer, MissionAlert, TripStatus, DeletedTripRecord, CreditLedgerEntry, CreditLedgerPayment, ReceiptRecord, CreditPartyType, CreditCycle, TripPaymentMode, TripSettlementStatus, CustomerProfileEvent, TripSeries, CustomerInvoice, CreditPaymentMethod, PaymentCurrency, SyncCollectionKey, SyncConflict, SyncConflictChoice, SyncMutationKind, SyncOutboxEntry, AuditLogEntry, AuditEntityType, AlertHistoryEntry, AlertHistoryOutcome, Capability, Workspace, WorkspaceBranding, MessageTemplateKey, MessageTransportKind } from '../types';
 import * as Storage from '../services/storageService';
-import { addMinutes, parseISO, isAfter } from 'date-fns';
-import { LOCAL_STORAGE_KEYS } from '../constants';
+import { parseISO, isAfter } from 'date-fns';
+import { ALERT_NOTIFICATION_SNOOZE_MINUTES, AUTO_DISPATCH_INTERVAL_MS, AUTO_DISPATCH_LEASE, DEFAULT_WORKSPACE_ID, LOCAL_STORAGE_KEYS, SNAPSHOT_CHECK_INTERVAL_MS, TRIP_SERIES_HORIZON_DAYS, WHATSAPP_STATUS_POLL_INTERVAL_MS } from '../constants';
+import { appendAutoDispatchNote, planAutoDispatch } from '../services/autoDispatch';
+import { DriverScheduleConflict, findDriverScheduleConflicts, hasBlockingScheduleConflict } from '../services/driverSchedule';
+import { applySeriesToFutureOccurrences, isOpenSeriesOccurrence, planSeriesMaterialization, validateRecurrenceRule } from '../services/tripSeries';
+import { recordAvailabilityTransition } from '../services/driverShifts';
+import { DriverPayoutStatement, describePayoutDirection } from '../services/driverPayout';
+import { buildCustomerInvoice, findOpenInvoiceForLedgerEntry, listInvoiceCandidates } from '../services/customerInvoice';
+import { getCreditCyclePeriod } from '../services/creditCycle';
+import { applyCreditLedgerPayment, buildFullSettlementPayment, convertPaymentToUsd, getCreditEntryRemainingUsd, isCreditEntryOutstanding, validateCreditPayment } from '../services/creditLedger';
 import { buildCustomerFromTrip, customerPhoneKey, mergeCustomerCollections } from '../services/customerProfile';
+import { applySyncConflictValue, mergeSyncPayloads } from '../services/syncMerge';
+import { AUDIT_ENTITY_BY_SYNC_COLLECTION, AuditEventInput, buildAuditEntry, collectLedgerAuditEvents, describeLedgerEntryForAudit, describeTripForAudit, toWorkspaceAuditRecord } from '../services/auditLog';
+import { checkCapability } from '../services/permissions';
+import {
+  applyTripMessageStatuses,
+  buildOutgoingTripMessage,
+  buildTripMessageRecord,
+  fetchWhatsAppStatusFeed,
+  hasTrackableTripMessages,
+  MESSAGE_SENT_FIELDS,
+  resolveMessageTransport,
+} from '../services/messaging';
+import { replacePlaceholders } from '../services/placeholderService';
+import { isAlertForRole, reconcileRuleAlerts } from '../services/alertRules';
+import { AlertEscalationLevel, buildAlertHistoryEntry, getAlertEscalationLevel, isAlertDue, playEscalationTone } from '../services/alertEscalation';
+import {
+  AlertNotificationActionMessage,
+  buildScheduledAlertNotification,
+  consumeAlertNotificationActionFromUrl,
+  getAlertNotificationRoute,
+  planAlertNotifications,
+  registerAlertServiceWorker,
+  scheduleAlertNotifications,
+  showAlertNotification,
+  subscribeToAlertNotificationActions,
+} from '../services/alertNotifications';
+import { getSystemSnapshotPayload, isSnapshotStoreAvailable, saveSystemSnapshot, SystemSnapshotKind, takeScheduledSnapshotIfDue } from '../services/snapshotStore';
+import { flushLocalDatabase, getLocalDatabaseWriteError, LocalDatabaseWriteError, subscribeToLocalDatabaseChanges, subscribeToLocalDatabaseWriteError } from '../services/localDatabase';
+import { describeRestoreChanges, isRestoreSelectionEmpty, RestoreSelection } from '../services/backupDiff';
+import {
+  applyWorkspaceDirectory,
+  createWorkspace as createWorkspaceEntry,
+  ensureWorkspaceEntries,
+  getActiveWorkspace,
+  getActiveWorkspaceId,
+  getWorkspaces,
+  scopeStorageKey,
+  setActiveWorkspaceId,
+  updateWorkspace as updateWorkspaceEntry,
+  WorkspaceDraft,
+} from '../services/workspaces';
+import { acknowledgeSyncOutbox, createSyncOutboxEntry, getNextSyncRetryAt, markSyncOutboxAttemptFailed } from '../services/syncOutbox';
 import {
   CloudSyncSession,
   createSyncSignature,
   fetchCloudSyncSignature,
   getCloudSyncDocId,
   getOrCreateCloudSyncClientId,
+  fetchWorkspaceDirectory,
+  isCloudSyncConfigured,
+  publishWorkspaceDirectoryEntry,
   startCloudSync,
 } from '../services/cloudSyncService';
 import { useAuth } from './AuthContext';
@@ -22,20 +75,36 @@ interface StoreContextType {
   customers: Customer[];
   creditLedger: CreditLedgerEntry[];
   receipts: ReceiptRecord[];
+  tripSeries: TripSeries[];
+  invoices: CustomerInvoice[];
   settings: Settings;
   alerts: MissionAlert[];
+  syncConflicts: SyncConflict[];
+  syncOutbox: SyncOutboxEntry[];
+  localWriteError: LocalDatabaseWriteError | null;
+  auditLog: AuditLogEntry[];
+  alertHistory: AlertHistoryEntry[];
   theme: 'light' | 'dark';
   toggleTheme: () => void;
-  addTrip: (tripData: Omit<Trip, 'id' | 'createdAt'>) => void;
-  updateTripField: (id: number, field: keyof Trip, value: Trip[keyof Trip]) => void;
-  updateFullTrip: (trip: Trip) => void;
+  addTrip: (tripData: Omit<Trip, 'id' | 'createdAt'>) => { ok: boolean; reason?: string };
+  updateTripField: (id: number, field: keyof Trip, value: Trip[keyof Trip]) => { ok: boolean; reason?: string };
+  updateFullTrip: (trip: Trip, options?: { allowScheduleConflict?: boolean }) => { ok: boolean; reason?: string; conflicts?: DriverScheduleConflict[] };
   deleteCancelledTrip: (id: number) => { ok: boolean; reason?: string };
   restoreDeletedTrip: (archiveId: string) => { ok: boolean; reason?: string };
+  getMessageTransportKind: (template: MessageTemplateKey) => MessageTransportKind;
+  sendTripMessage: (tripId: number, template: MessageTemplateKey) => Promise<{ ok: boolean; reason?: string }>;
+
+  // Recurring Series Methods
+  addTripSeries: (payload: Omit<TripSeries, 'id' | 'createdAt' | 'updatedAt' | 'skippedDates'>) => { ok: boolean; reason?: string; series?: TripSeries };
+  updateTripSeries: (series: TripSeries, options?: { applyToFutureOccurrences?: boolean }) => { ok: boolean; reason?: string; updatedCount?: number; cancelledCount?: number };
+  skipSeriesOccurrence: (tripId: number) => { ok: boolean; reason?: string };
+  cancelSeriesOccurrence: (tripId: number) => { ok: boolean; reason?: string };
   
   // Alert Methods
   dismissAlert: (id: string) => void;
   snoozeAlert: (id: string, minutes?: number) => void;
   resolveAlert: (id: string) => void;
+  acknowledgeAlert: (id: string) => void;
 
   // Customer Methods
   addCustomers: (newCustomers: Customer[]) => void;
@@ -50,16 +119,34 @@ interface StoreContextType {
     notes?: string;
   }) => { ok: boolean; reason?: string; entry?: CreditLedgerEntry };
   settleCreditLedgerEntry: (entryId: string) => { ok: boolean; reason?: string; receipt?: ReceiptRecord };
+  recordCreditLedgerPayment: (
+    entryId: string,
+    payload: { amount: number; currency: PaymentCurrency; method: CreditPaymentMethod; fxRate?: number; notes?: string }
+  ) => { ok: boolean; reason?: string; receipt?: ReceiptRecord; entry?: CreditLedgerEntry };
+  closeDriverPayoutStatement: (statement: DriverPayoutStatement) => { ok: boolean; reason?: string; entry?: CreditLedgerEntry; receipt?: ReceiptRecord };
+  createCustomerInvoice: (payload: { partyKey: string; cycle: CreditCycle; anchorDate: string }) => { ok: boolean; reason?: string; invoice?: CustomerInvoice };
+  payCustomerInvoice: (invoiceId: string) => { ok: boolean; reason?: string; receipt?: ReceiptRecord };
 
   // Driver Methods
-  addDriver: (driver: Driver) => void;
-  editDriver: (driver: Driver) => void;
-  removeDriver: (id: string) => void;
+  addDriver: (driver: Driver) => { ok: boolean; reason?: string };
+  editDriver: (driver: Driver) => { ok: boolean; reason?: string };
+  removeDriver: (id: string) => { ok: boolean; reason?: string };
 
-  updateSettings: (newSettings: Settings) => void;
+  updateSettings: (newSettings: Settings) => { ok: boolean; reason?: string };
+  importSystemBackup: (payload: unknown, sourceLabel: string, selection?: RestoreSelection) => { ok: boolean; reason?: string; applied?: Storage.RestoreResult['applied']; changes?: Storage.RestoreResult['changes'] };
+  restoreSystemSnapshot: (snapshotId: string, mode: 'merge' | 'replace', selection?: RestoreSelection) => Promise<{ ok: boolean; reason?: string; applied?: Storage.RestoreResult['applied']; changes?: Storage.RestoreResult['changes'] }>;
   refreshData: () => void;
   forceCloudSyncPublish: () => Promise<{ ok: boolean; reason?: string }>;
+  resolveSyncConflict: (conflictId: string, choice: SyncConflictChoice) => { ok: boolean; reason?: string };
+  retrySyncOutbox: () => void;
+  retryLocalWrites: () => void;
   hardResetCloudSync: () => Promise<{ ok: boolean; nextDocId?: string; reason?: string }>;
+
+  activeWorkspace: Workspace;
+  workspaces: Workspace[];
+  switchWorkspace: (workspaceId: string) => Promise<{ ok: boolean; reason?: string }>;
+  createWorkspace: (draft: WorkspaceDraft) => { ok: boolean; reason?: string; workspace?: Workspace };
+  updateWorkspace: (workspaceId: string, updates: { name?: string; syncDocId?: string; branding?: Partial<WorkspaceBranding> }) => { ok: boolean; reason?: string; workspace?: Workspace };
 }
 
 declare global {
@@ -69,16 +156,62 @@ declare global {
 const StoreContext = globalThis.__CONTROL_STORE_CONTEXT__ || createContext<StoreContextType | undefined>(undefined);
 globalThis.__CONTROL_STORE_CONTEXT__ = StoreContext;
 
+// Taking the remote side of a conflict is an edit to that collection, so it needs the capability the edit would.
+const SYNC_CONFLICT_CAPABILITIES: Record<SyncCollectionKey, Capability> = {
+  trips: 'MANAGE_TRIPS',
+  deletedTrips: 'MANAGE_TRIPS',
+  drivers: 'MANAGE_FLEET',
+  customers: 'MANAGE_TRIPS',
+  alerts: 'MANAGE_TRIPS',
+  creditLedger: 'FINANCE_ACTIONS',
+  receipts: 'FINANCE_ACTIONS',
+  tripSeries: 'MANAGE_TRIPS',
+  invoices: 'FINANCE_ACTIONS',
+  auditLog: 'MANAGE_TRIPS',
+  alertHistory: 'MANAGE_TRIPS',
+  settings: 'EDIT_PRICING',
+};
+
+const buildNextReceiptNumber = (existingReceipts: ReceiptRecord[], partyType: CreditPartyType, cycle: CreditCycle, issuedAtIso: string): string => {
+  const issuedAt = new Date(issuedAtIso);
+  const year = issuedAt.getFullYear();
+  const periodLabel = cycle === 'MONTHLY'
+    ? `${year}-${String(issuedAt.getMonth() + 1).padStart(2, '0')}`
+    : (() => {
+        const start = new Date(Date.UTC(issuedAt.getFullYear(), issuedAt.getMonth(), issuedAt.getDate()));
+        start.setUTCDate(start.getUTCDate() + 4 - (start.getUTCDay() || 7));
+        const isoYear = start.getUTCFullYear();
+        const yearStart = new Date(Date.UTC(isoYear, 0, 1));
+        const week = Math.ceil((((start.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
+        return `${isoYear}-W${String(week).padStart(2, '0')}`;
+      })();
+
+  const receiptPrefix = `${partyType}-${cycle}-${periodLabel}`;
+  const existingForPeriod = existingReceipts.filter(item => item.receiptNumber.startsWith(receiptPrefix)).length;
+  return `${receiptPrefix}-${String(existingForPeriod + 1).padStart(3, '0')}`;
+};
+
 export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { status: authStatus, user: authUser, isApproved } = useAuth();
+  const { status: authStatus, user: authUser, role: authRole, isApproved, workspaceRoles } = useAuth();
   const [trips, setTrips] = useState<Trip[]>([]);
   const [deletedTrips, setDeletedTrips] = useState<DeletedTripRecord[]>([]);
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [creditLedger, setCreditLedger] = useState<CreditLedgerEntry[]>([]);
   const [receipts, setReceipts] = useState<ReceiptRecord[]>([]);
+  const [tripSeries, setTripSeries] = useState<TripSeries[]>([]);
+  const [invoices, setInvoices] = useState<CustomerInvoice[]>([]);
   const [alerts, setAlerts] = useState<MissionAlert[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [syncOutbox, setSyncOutbox] = useState<SyncOutboxEntry[]>([]);
+  const [localWriteError, setLocalWriteError] = useState<LocalDatabaseWriteError | null>(getLocalDatabaseWriteError());
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [alertHistory, setAlertHistory] = useState<AlertHistoryEntry[]>([]);
+  const [syncRetryTick, setSyncRetryTick] = useState(0);
   const [settings, setSettings] = useState<Settings>(Storage.getSettings());
+  const [workspaceRegistry, setWorkspaceRegistry] = useState<Workspace[]>(getWorkspaces());
+  // Sync restarts when the shared directory or an edit moves this workspace to another channel.
+  const activeSyncChannel = workspaceRegistry.find(workspace => workspace.id === getActiveWorkspaceId())?.syncDocId;
   const [theme, setTheme] = useState<'light' | 'dark'>((localStorage.getItem('theme') as 'light' | 'dark') || 'light');
   const [cloudSyncReady, setCloudSyncReady] = useState(false);
   const [cloudSyncSessionVersion, setCloudSyncSessionVersion] = useState(0);
@@ -87,10 +220,19 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const isApplyingRemoteRef = useRef(false);
   const lastSyncedSignatureRef = useRef<string | null>(null);
   const publishDebounceRef = useRef<number | null>(null);
-  const notificationCooldownRef = useRef<Record<string, number>>({});
-  const ALERT_NOTIFICATION_COOLDOWN_MS = 10 * 60 * 1000;
+  const syncRetryTimerRef = useRef<number | null>(null);
+  // Highest escalation level this device has already notified, per alert occurrence.
+  const notifiedLevelRef = useRef<Record<string, AlertEscalationLevel>>({});
+  const alertsRef = useRef<MissionAlert[]>([]);
+  alertsRef.current = alerts;
+  const alertActionHandlerRef = useRef<(message: AlertNotificationActionMessage) => void>(() => undefined);
+  const pendingAlertActionRef = useRef<AlertNotificationActionMessage | null>(null);
+  const messageStatusCursorRef = useRef<{ feedUrl: string; cursor: number }>({ feedUrl: '', cursor: 0 });
 
   const alertSignature = (alert: MissionAlert): string => {
+    if (alert.ruleId) {
+      return `${alert.ruleId}:${alert.tripId || alert.driverId || 'UNKNOWN'}`;
+    }
     if (alert.type === 'REFUEL') {
       return `REFUEL:${alert.driverId || 'UNKNOWN_DRIVER'}`;
     }
@@ -123,7 +265,13 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     setCustomers(Storage.getCustomers());
     setCreditLedger(Storage.getCreditLedger());
     setReceipts(Storage.getReceipts());
+    setTripSeries(Storage.getTripSeries());
+    setInvoices(Storage.getInvoices());
     setAlerts(Storage.getAlerts());
+    setSyncConflicts(Storage.getSyncConflicts());
+    setSyncOutbox(Storage.getSyncOutbox());
+    setAuditLog(Storage.getAuditLog());
+    setAlertHistory(Storage.getAlertHistory());
     setSettings(Storage.getSettings());
   }, []);
 
@@ -139,22 +287,36 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   useEffect(() => {
     const syncKeys = new Set<string>([
-      LOCAL_STORAGE_KEYS.TRIPS,
-      LOCAL_STORAGE_KEYS.DELETED_TRIPS,
-      LOCAL_STORAGE_KEYS.DRIVERS,
-      LOCAL_STORAGE_KEYS.CUSTOMERS,
-      LOCAL_STORAGE_KEYS.ALERTS,
-      LOCAL_STORAGE_KEYS.CREDIT_LEDGER,
-      LOCAL_STORAGE_KEYS.RECEIPTS,
-      LOCAL_STORAGE_KEYS.SETTINGS,
-      LOCAL_STORAGE_KEYS.SYNC_EPOCH,
-      LOCAL_STORAGE_KEYS.SYNC_RESET_TOKEN,
+      ...[
+        LOCAL_STORAGE_KEYS.TRIPS,
+        LOCAL_STORAGE_KEYS.DELETED_TRIPS,
+        LOCAL_STORAGE_KEYS.DRIVERS,
+        LOCAL_STORAGE_KEYS.CUSTOMERS,
+        LOCAL_STORAGE_KEYS.ALERTS,
+        LOCAL_STORAGE_KEYS.CREDIT_LEDGER,
+        LOCAL_STORAGE_KEYS.RECEIPTS,
+        LOCAL_STORAGE_KEYS.TRIP_SERIES,
+        LOCAL_STORAGE_KEYS.INVOICES,
+        LOCAL_STORAGE_KEYS.AUDIT_LOG,
+        LOCAL_STORAGE_KEYS.ALERT_HISTORY,
+        LOCAL_STORAGE_KEYS.SETTINGS,
+        LOCAL_STORAGE_KEYS.SYNC_EPOCH,
+        LOCAL_STORAGE_KEYS.SYNC_RESET_TOKEN,
+        LOCAL_STORAGE_KEYS.SYNC_CONFLICTS,
+        LOCAL_STORAGE_KEYS.SYNC_OUTBOX,
+      ].map(key => scopeStorageKey(key)),
+      LOCAL_STORAGE_KEYS.WORKSPACES,
       'theme',
     ]);
 
     const handleStorageSync = (event: StorageEvent) => {
       if (!event.key || !syncKeys.has(event.key)) return;
 
+      if (event.key === LOCAL_STORAGE_KEYS.WORKSPACES) {
+        setWorkspaceRegistry(getWorkspaces());
+        return;
+      }
+
       if (event.key === 'theme') {
         const nextTheme = (localStorage.getItem('theme') as 'light' | 'dark') || 'light';
         setTheme(nextTheme);
@@ -164,9 +326,96 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     };
 
     window.addEventListener('storage', handleStorageSync);
-    return () => window.removeEventListener('storage', handleStorageSync);
+    const unsubscribeDatabase = subscribeToLocalDatabaseChanges(() => refreshData());
+    const unsubscribeWriteError = subscribeToLocalDatabaseWriteError(setLocalWriteError);
+    return () => {
+      window.removeEventListener('storage', handleStorageSync);
+      unsubscribeDatabase();
+      unsubscribeWriteError();
+    };
   }, [refreshData]);
 
+  const queueSyncMutation = (kind: SyncMutationKind, detail?: string) => {
+    if (!isCloudSyncConfigured()) return;
+    const nextOutbox = [...Storage.getSyncOutbox(), createSyncOutboxEntry(kind, detail, new Date().toISOString())];
+    Storage.saveSyncOutbox(nextOutbox);
+    setSyncOutbox(nextOutbox);
+  };
+
+  const acknowledgeSyncOutboxEntries = (publishedIds: Set<string>) => {
+    const current = Storage.getSyncOutbox();
+    if (!current.some(entry => publishedIds.has(entry.id))) return;
+    const nextOutbox = acknowledgeSyncOutbox(current, publishedIds);
+    Storage.saveSyncOutbox(nextOutbox);
+    setSyncOutbox(nextOutbox);
+  };
+
+  const scheduleSyncRetry = (entries: SyncOutboxEntry[]) => {
+    if (syncRetryTimerRef.current !== null) {
+      clearTimeout(syncRetryTimerRef.current);
+      syncRetryTimerRef.current = null;
+    }
+    const nextRetryAt = getNextSyncRetryAt(entries);
+    if (nextRetryAt === null) return;
+    syncRetryTimerRef.current = window.setTimeout(() => {
+      syncRetryTimerRef.current = null;
+      setSyncRetryTick(tick => tick + 1);
+    }, Math.max(0, nextRetryAt - Date.now()));
+  };
+
+  // Background jobs pass the job name so their changes are not attributed to whoever happens to be signed in.
+  const recordAudit = (events: AuditEventInput[], systemActor?: string) => {
+    if (events.length === 0) return;
+    const actor = systemActor
+      ? { role: 'unknown' as const, system: systemActor }
+      : { uid: authUser?.uid, email: authUser?.email || undefined, role: authRole };
+    const timestamp = new Date().toISOString();
+    const entries = events
+      .map(event => buildAuditEntry({ ...event, actor, timestamp }))
+      .filter(entry => entry.action !== 'UPDATE' || entry.changes.length > 0 || Boolean(entry.note));
+    if (entries.length === 0) return;
+    setAuditLog(Storage.appendAuditEntries(entries));
+  };
+
+  const requireCapability = (capability: Capability) => checkCapability(authRole, capability);
+
+  // The payload is read synchronously so the snapshot reflects the data before the caller goes on to change it.
+  const captureSystemSnapshot = (kind: SystemSnapshotKind, note?: string): Promise<unknown> => {
+    if (!isSnapshotStoreAvailable()) return Promise.resolve(null);
+    const payload = Storage.getFullSystemData({ includeSettings: true });
+    return saveSystemSnapshot(kind, payload, note).catch(error => {
+      console.warn('[snapshots] capture failed', error);
+      return null;
+    });
+  };
+
+  const deferSyncOutboxEntries = (attemptedIds: Set<string>, reason: string) => {
+    if (attemptedIds.size === 0) return;
+    const nextOutbox = markSyncOutboxAttemptFailed(Storage.getSyncOutbox(), attemptedIds, reason, new Date());
+    Storage.saveSyncOutbox(nextOutbox);
+    setSyncOutbox(nextOutbox);
+    scheduleSyncRetry(nextOutbox);
+  };
+
+  useEffect(() => {
+    const handleOnline = () => {
+      if (syncRetryTimerRef.current !== null) {
+        clearTimeout(syncRetryTimerRef.current);
+        syncRetryTimerRef.current = null;
+      }
+      setSyncRetryTick(tick => tick + 1);
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (syncRetryTimerRef.current !== null) {
+        clearTimeout(syncRetryTimerRef.current);
+        syncRetryTimerRef.current = null;
+      }
+    };
+  }, []);
+
   useEffect(() => {
     if (authStatus !== 'authenticated' || !authUser || !isApproved) {
       setCloudSyncReady(false);
@@ -178,6 +427,9 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     let stopped = false;
 
     const initializeCloudSync = async () => {
+      // The active workspace's sync channel may only be known from the shared directory on this device.
+      await refreshWorkspaceDirectory([getActiveWorkspaceId()]);
+      if (stopped) return;
       const session = await startCloudSync({
         clientId: cloudSyncClientIdRef.current,
         onStatusChange: (status, message) => {
@@ -201,6 +453,7 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
               if (metadata.signature) {
                 lastSyncedSignatureRef.current = metadata.signature;
               }
+              Storage.saveSyncBase(payload);
               return;
             }
 
@@ -237,7 +490,9 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
               (Array.isArray(payloadRecord.customers) && payloadRecord.customers.length > 0) ||
               (Array.isArray(payloadRecord.alerts) && payloadRecord.alerts.length > 0) ||
               (Array.isArray(payloadRecord.creditLedger) && payloadRecord.creditLedger.length > 0) ||
-              (Array.isArray(payloadRecord.receipts) && payloadRecord.receipts.length > 0);
+              (Array.isArray(payloadRecord.receipts) && payloadRecord.receipts.length > 0) ||
+              (Array.isArray(payloadRecord.tripSeries) && payloadRecord.tripSeries.length > 0) ||
+              (Array.isArray(payloadRecord.invoices) && payloadRecord.invoices.length > 0);
 
             if (remoteResetToken !== localResetToken) {
               const canAdoptRemoteReset = Boolean(remoteResetToken) && remoteSyncEpoch > localSyncEpoch;
@@ -256,6 +511,7 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                 console.warn('[cloud-sync] reset token mismatch; applying authoritative clear');
               }
 
+              void captureSystemSnapshot('PRE_CLEAR', 'Remote reset token');
               Storage.clearOperationalDataAtEpoch(Math.max(remoteSyncEpoch, localSyncEpoch), targetResetToken);
               refreshData();
 
@@ -266,6 +522,7 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                 void activeSession.publish(healedPayload, healedSignature).then(ok => {
                   if (ok) {
                     lastSyncedSignatureRef.current = healedSignature;
+                    Storage.saveSyncBase(healedPayload);
                     console.info('[cloud-sync] acknowledged remote reset token');
                   }
                 });
@@ -276,6 +533,7 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             if (remoteSyncEpoch > payloadSyncEpoch) {
               console.warn('[cloud-sync] remote sync epoch is ahead of payload epoch; enforcing clear-state recovery');
               if (remoteSyncEpoch > localSyncEpoch) {
+                void captureSystemSnapshot('PRE_CLEAR', 'Remote sync epoch ahead');
                 Storage.clearOperationalDataAtEpoch(remoteSyncEpoch);
                 refreshData();
               }
@@ -287,6 +545,7 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                 void activeSession.publish(healedPayload, healedSignature).then(ok => {
                   if (ok) {
                     lastSyncedSignatureRef.current = healedSignature;
+                    Storage.saveSyncBase(healedPayload);
                     console.info('[cloud-sync] recovered from stale payload overwrite');
                   }
                 });
@@ -294,37 +553,48 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
               return;
             }
 
-            if (remoteSyncEpoch < localSyncEpoch) {
-              console.warn('[cloud-sync] ignored stale remote payload (older sync epoch)');
-              const localPayload = Storage.getFullSystemData({ includeSettings: true });
-              const localSignature = createSyncSignature(localPayload);
-              const activeSession = cloudSyncSessionRef.current;
-              if (activeSession && activeSession.isEnabled) {
-                void activeSession.publish(localPayload, localSignature).then(ok => {
-                  if (ok) {
-                    lastSyncedSignatureRef.current = localSignature;
-                    console.info('[cloud-sync] self-healed stale remote payload');
-                  }
-                });
-              }
-              return;
-            }
-
+            const localPayload = Storage.getFullSystemData({ includeSettings: true });
             const remoteSignature = metadata.signature || createSyncSignature(payload);
-            const localSignature = createSyncSignature(Storage.getFullSystemData({ includeSettings: true }));
+            const localSignature = createSyncSignature(localPayload);
 
             if (remoteSignature === localSignature) {
               lastSyncedSignatureRef.current = remoteSignature;
+              Storage.saveSyncBase(payload);
+              acknowledgeSyncOutboxEntries(new Set(Storage.getSyncOutbox().map(entry => entry.id)));
+              return;
+            }
+
+            // Cloud still holds what we last synced, so only local edits are pending and the publish loop will send them.
+            const basePayload = Storage.getSyncBase();
+            if (basePayload && createSyncSignature(basePayload) === remoteSignature) {
+              lastSyncedSignatureRef.current = remoteSignature;
+              setSyncRetryTick(tick => tick + 1);
               return;
             }
 
+            const mergeResult = mergeSyncPayloads(basePayload, localPayload, payload, new Date().toISOString());
+            const mergedPayload = {
+              ...mergeResult.merged,
+              syncEpoch: mergeResult.changedFromRemote ? Math.max(remoteSyncEpoch, localSyncEpoch) + 1 : remoteSyncEpoch,
+              ...(remoteResetToken ? { resetToken: remoteResetToken } : {}),
+            };
+
             isApplyingRemoteRef.current = true;
-            const restoreResult = Storage.restoreFullSystemData(payload, { mode: 'replace' });
+            const restoreResult = Storage.restoreFullSystemData(mergedPayload, { mode: 'replace' });
             if (!restoreResult.ok) {
-              console.warn('[cloud-sync] restore rejected', restoreResult.error || 'unknown restore error');
+              console.warn('[cloud-sync] merge rejected', restoreResult.error || 'unknown restore error');
               isApplyingRemoteRef.current = false;
               return;
             }
+            Storage.saveSyncBase(payload);
+            if (mergeResult.conflicts.length > 0) {
+              const incomingIds = new Set(mergeResult.conflicts.map(conflict => conflict.id));
+              Storage.saveSyncConflicts([
+                ...mergeResult.conflicts,
+                ...Storage.getSyncConflicts().filter(conflict => !incomingIds.has(conflict.id)),
+              ]);
+              console.warn('[cloud-sync] merge conflicts detected', mergeResult.conflicts.length);
+            }
             refreshData();
             isApplyingRemoteRef.current = false;
             lastSyncedSignatureRef.current = remoteSignature;
@@ -360,7 +630,11 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       cloudSyncSessionRef.current?.stop();
       cloudSyncSessionRef.current = null;
     };
-  }, [authStatus, authUser, isApproved, refreshData]);
+  }, [authStatus, authUser, isApproved, refreshData, activeSyncChannel]);
+
+  useEffect(() => {
+    Storage.saveAlerts(alerts);
+  }, [alerts]);
 
   useEffect(() => {
     const session = cloudSyncSessionRef.current;
@@ -374,8 +648,10 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
     const payload = Storage.getFullSystemData({ includeSettings: true });
     const signature = createSyncSignature(payload);
+    const attemptedIds = new Set(Storage.getSyncOutbox().map(entry => entry.id));
 
     if (signature === lastSyncedSignatureRef.current) {
+      acknowledgeSyncOutboxEntries(attemptedIds);
       return;
     }
 
@@ -395,13 +671,17 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
           const bootstrapOk = await activeSession.publish(payload, signature);
           if (bootstrapOk) {
             lastSyncedSignatureRef.current = signature;
+            Storage.saveSyncBase(payload);
+            acknowledgeSyncOutboxEntries(attemptedIds);
             console.info('[cloud-sync] bootstrap publish ok');
           } else {
+            deferSyncOutboxEntries(attemptedIds, 'Bootstrap publish failed');
             console.warn('[cloud-sync] bootstrap publish failed');
           }
           return;
         }
 
+        deferSyncOutboxEntries(attemptedIds, remoteSignatureResult.reason || 'Remote signature unavailable');
         console.warn('[cloud-sync] publish skipped (remote signature unavailable)');
         return;
       }
@@ -420,33 +700,28 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         : '';
 
       if (remoteResetToken && remoteResetToken !== localResetToken) {
+        deferSyncOutboxEntries(attemptedIds, 'Remote reset not yet applied on this device');
         console.warn('[cloud-sync] publish skipped (remote reset token not acknowledged locally)');
         return;
       }
 
-      const knownRemoteSignature = lastSyncedSignatureRef.current;
-      if (knownRemoteSignature && remoteSignatureResult.signature !== knownRemoteSignature) {
-        if (remoteSyncEpoch < localSyncEpoch) {
-          console.info('[cloud-sync] remote epoch behind local, publishing authoritative local state');
-        } else {
-          console.warn('[cloud-sync] publish skipped (stale local state detected)');
-          return;
-        }
+      // Cloud moved on since our last sync: merge it in first. The pull hands the remote state to the listener,
+      // which runs the three-way merge and lets this loop publish the result. Only reset and clear actions
+      // publish over the cloud without merging.
+      const remoteChanged = remoteSignatureResult.signature !== (lastSyncedSignatureRef.current || signature);
+      if (remoteChanged) {
+        deferSyncOutboxEntries(attemptedIds, 'Waiting for remote changes to merge');
+        console.warn('[cloud-sync] publish deferred until remote changes are merged');
+        void activeSession.refresh();
+        return;
       }
 
-      if (!knownRemoteSignature) {
+      if (!lastSyncedSignatureRef.current) {
         lastSyncedSignatureRef.current = remoteSignatureResult.signature;
-        if (remoteSignatureResult.signature !== signature) {
-          if (remoteSyncEpoch < localSyncEpoch) {
-            console.info('[cloud-sync] remote epoch behind local, publishing authoritative local state');
-          } else {
-            console.warn('[cloud-sync] publish skipped (awaiting remote apply)');
-            return;
-          }
-        }
       }
 
       if (remoteSyncEpoch > localSyncEpoch) {
+        deferSyncOutboxEntries(attemptedIds, 'Waiting for remote changes to merge');
         console.warn('[cloud-sync] publish skipped (stale local state detected)');
         return;
       }
@@ -454,16 +729,15 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       const ok = await activeSession.publish(payload, signature);
       if (ok) {
         lastSyncedSignatureRef.current = signature;
+        Storage.saveSyncBase(payload);
+        acknowledgeSyncOutboxEntries(attemptedIds);
         console.info('[cloud-sync] publish ok');
       } else {
+        deferSyncOutboxEntries(attemptedIds, 'Cloud publish failed');
         console.warn('[cloud-sync] publish failed');
       }
     }, 700);
-  }, [alerts, cloudSyncReady, cloudSyncSessionVersion, creditLedger, customers, deletedTrips, drivers, receipts, settings, trips]);
-
-  useEffect(() => {
-    Storage.saveAlerts(alerts);
-  }, [alerts]);
+  }, [alertHistory, alerts, auditLog, cloudSyncReady, cloudSyncSessionVersion, creditLedger, customers, deletedTrips, drivers, invoices, receipts, settings, syncRetryTick, tripSeries, trips]);
 
   useEffect(() => {
     const checkAlerts = () => {
@@ -477,13 +751,15 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       
       const updatedAlerts = dedupedCurrentAlerts.map(alert => {
         if (!alert.triggered && isAfter(now, parseISO(alert.targetTime))) {
-          const signature = alertSignature(alert);
-          const lastNotifiedAt = notificationCooldownRef.current[signature] || 0;
-          const withinCooldown = now.getTime() - lastNotifiedAt < ALERT_NOTIFICATION_COOLDOWN_MS;
-
-          if (!withinCooldown) {
-            triggerNotification(alert);
-            notificationCooldownRef.current[signature] = now.getTime();
+          // Each occurrence notifies once per escalation tier; an acknowledgement silences the rest.
+          if (!alert.acknowledgedAt && alert.notify !== false && isAlertForRole(alert, authRole)) {
+            const occurrence = `${alertSignature(alert)}@${alert.targetTime}`;
+            const level = getAlertEscalationLevel(alert, settings.alertEscalation, now);
+            const notifiedLevel = notifiedLevelRef.current[occurrence];
+            if (notifiedLevel === undefined || level > notifiedLevel) {
+              triggerNotification(alert, level);
+              notifiedLevelRef.current[occurrence] = level;
+            }
           }
 
           if (alert.snoozedUntil) {
@@ -496,178 +772,215 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         return alert;
       });
 
-      const newRefuelAlerts: MissionAlert[] = [];
-      drivers.forEach(driver => {
-        if (driver.status !== 'ACTIVE') return;
-
-        const driverTrips = trips.filter(t => t.driverId === driver.id && t.status === TripStatus.COMPLETED);
-        const missionDistance = driverTrips.reduce((acc, t) => acc + t.distanceKm, 0);
-        const totalOdometer = driver.baseMileage + missionDistance;
-        const refuelBaseline = driver.lastRefuelKm ?? driver.baseMileage ?? 0;
-        const kmSinceRefuel = Math.max(0, totalOdometer - refuelBaseline);
-        const fuelRange = Math.max(1, driver.fuelRangeKm || 500);
-        const fuelRemainingPercent = Math.max(0, Math.min(100, (1 - (kmSinceRefuel / fuelRange)) * 100));
-
-        const hasExistingAlert = updatedAlerts.some(a => a.driverId === driver.id && a.type === 'REFUEL');
-        
-        if (fuelRemainingPercent < 15 && !hasExistingAlert) {
-          const alert: MissionAlert = {
-            id: `refuel-${driver.id}`,
-            driverId: driver.id,
-            type: 'REFUEL',
-            targetTime: now.toISOString(),
-            label: `Low Fuel Alert (${Math.round(fuelRemainingPercent)}%)`,
-            triggered: false,
-            driverName: driver.name
-          };
-          newRefuelAlerts.push(alert);
-          changed = true;
-        }
-      });
-
       if (changed) {
-        setAlerts(dedupeAlerts([...updatedAlerts, ...newRefuelAlerts]));
+        setAlerts(dedupeAlerts(updatedAlerts));
       }
     };
 
     const interval = setInterval(checkAlerts, 15000);
     return () => clearInterval(interval);
-  }, [alerts, drivers, trips]);
+  }, [alerts, authRole, settings.alertEscalation, settings.operatorWhatsApp]);
 
-  const triggerNotification = (alert: MissionAlert) => {
-    const title = alert.type === 'REFUEL' 
-      ? `FUEL ADVISORY: ${alert.driverName}`
-      : `MISSION UPDATE: ${alert.customerName}`;
-      
-    const body = alert.type === 'REFUEL'
-      ? `${alert.label}. Unit ${alert.driverName} requires immediate refueling.`
-      : `${alert.label} check required for Trip #${alert.tripId}`;
-    
-    if (!('Notification' in window)) return;
-
-    if (Notification.permission === 'granted') {
-      new Notification(title, { body, icon: '/favicon.svg' });
-      return;
-    }
+  useEffect(() => {
+    if (!settings.autoDispatch?.enabled || !requireCapability('MANAGE_TRIPS').ok) return;
+    let cancelled = false;
+
+    const runAutoDispatch = async () => {
+      const assignments = planAutoDispatch(trips, drivers, settings.autoDispatch);
+      if (assignments.length === 0) return;
+      // With cloud sync on, only the lease holder assigns, so two clients never pick different drivers for one trip.
+      if (isCloudSyncConfigured()) {
+        const session = cloudSyncSessionRef.current;
+        if (!session?.isReady() || !(await session.claimLease(AUTO_DISPATCH_LEASE, AUTO_DISPATCH_INTERVAL_MS * 2))) return;
+        if (cancelled) return;
+      }
 
-    if (Notification.permission === 'default') {
-      Notification.requestPermission().then(permission => {
-        if (permission === 'granted') {
-          new Notification(title, { body, icon: '/favicon.svg' });
-        }
+      let updatedList = trips;
+      const auditEvents: AuditEventInput[] = [];
+      assignments.forEach(assignment => {
+        const trip = updatedList.find(t => t.id === assignment.tripId);
+        if (!trip) return;
+        const assignedTrip: Trip = {
+          ...trip,
+          driverId: assignment.driverId,
+          notes: appendAutoDispatchNote(trip.notes, assignment.note),
+        };
+        updatedList = Storage.updateTrip(assignedTrip);
+        auditEvents.push({ entityType: 'TRIP', entityId: trip.id, entityLabel: describeTripForAudit(assignedTrip), action: 'UPDATE', before: trip, after: assignedTrip, note: assignment.note });
       });
-    }
-  };
+      if (auditEvents.length === 0) return;
+      setTrips([...updatedList]);
+      recordAudit(auditEvents, 'Auto-dispatch');
+      queueSyncMutation('UPDATE_TRIP', `Auto-dispatch · ${auditEvents.length} trip${auditEvents.length === 1 ? '' : 's'}`);
+    };
 
-  const toggleTheme = () => {
-    const newTheme = theme === 'light' ? 'dark' : 'light';
-    setTheme(newTheme);
-    localStorage.setItem('theme', newTheme);
-  };
+    void runAutoDispatch();
+    const interval = setInterval(() => void runAutoDispatch(), AUTO_DISPATCH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [authRole, cloudSyncReady, drivers, settings.autoDispatch, trips]);
 
-  const buildMissionAlerts = (trip: Trip): MissionAlert[] => {
-    if (trip.status === TripStatus.CANCELLED || trip.status === TripStatus.COMPLETED) {
-      return [];
-    }
+  const tracksMessageStatuses = hasTrackableTripMessages(trips, new Date());
 
-    const tripAnchor = parseISO(trip.tripDate || trip.createdAt);
-    const startTime = Number.isNaN(tripAnchor.getTime()) ? parseISO(trip.createdAt) : tripAnchor;
-    const eta = addMinutes(startTime, trip.durationInTrafficMin || trip.durationMin);
+  useEffect(() => {
+    const config = settings.whatsAppCloud;
+    if (!config.enabled || !config.statusFeedUrl || !tracksMessageStatuses) return;
+    if (messageStatusCursorRef.current.feedUrl !== config.statusFeedUrl) {
+      messageStatusCursorRef.current = { feedUrl: config.statusFeedUrl, cursor: 0 };
+    }
 
-    return [
-      {
-        id: `pickup-${trip.id}`,
-        tripId: trip.id,
-        type: 'PICKUP',
-        targetTime: startTime.toISOString(),
-        label: 'Pickup Due',
-        triggered: false,
-        customerName: trip.customerName,
-      },
-      {
-        id: `dropoff-${trip.id}`,
-        tripId: trip.id,
-        type: 'DROP_OFF',
-        targetTime: eta.toISOString(),
-        label: 'Arrival Check',
-        triggered: false,
-        customerName: trip.customerName,
+    let cancelled = false;
+    const pollMessageStatuses = async () => {
+      try {
+        const feed = await fetchWhatsAppStatusFeed(config.statusFeedUrl, messageStatusCursorRef.current.cursor);
+        if (cancelled) return;
+        messageStatusCursorRef.current = { feedUrl: config.statusFeedUrl, cursor: feed.cursor };
+        const currentTrips = Storage.getTrips();
+        const changed = applyTripMessageStatuses(currentTrips, feed.updates);
+        if (changed.length === 0) return;
+
+        const previousById = new Map(currentTrips.map(trip => [trip.id, trip] as const));
+        let updatedList: Trip[] = [];
+        changed.forEach(trip => {
+          updatedList = Storage.updateTrip(trip);
+        });
+        setTrips([...updatedList]);
+        recordAudit(changed.map(trip => ({
+          entityType: 'TRIP',
+          entityId: trip.id,
+          entityLabel: describeTripForAudit(trip),
+          action: 'UPDATE',
+          before: previousById.get(trip.id),
+          after: trip,
+          note: 'WhatsApp delivery status',
+        })), 'WhatsApp status feed');
+        queueSyncMutation('UPDATE_TRIP', `Message status · ${changed.length} trip${changed.length === 1 ? '' : 's'}`);
+      } catch (error) {
+        console.warn('[messaging] status feed poll failed', error);
       }
-    ];
-  };
+    };
 
-  const scheduleMissionAlerts = (trip: Trip) => {
-    const scheduledAlerts = buildMissionAlerts(trip);
-    setAlerts(prev => {
-      const retained = prev.filter(a => !(a.tripId === trip.id && (a.type === 'PICKUP' || a.type === 'DROP_OFF')));
-      return [...retained, ...scheduledAlerts];
-    });
-  };
+    void pollMessageStatuses();
+    const interval = setInterval(() => void pollMessageStatuses(), WHATSAPP_STATUS_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [settings.whatsAppCloud, tracksMessageStatuses]);
 
   useEffect(() => {
-    if (trips.length === 0) {
-      setAlerts(prev => {
-        const filtered = prev.filter(alert => alert.type !== 'PICKUP' && alert.type !== 'DROP_OFF');
-        return filtered.length === prev.length ? prev : filtered;
-      });
-      return;
-    }
+    if (!tripSeries.some(series => series.active)) return;
+
+    const materializeSeries = () => {
+      const currentTrips = Storage.getTrips();
+      // Archived occurrences still hold their id and date, so they must not be materialized again.
+      const archivedTrips = Storage.getDeletedTrips().map(record => record.trip);
+      const planned = planSeriesMaterialization(tripSeries, [...currentTrips, ...archivedTrips], TRIP_SERIES_HORIZON_DAYS);
+      if (planned.length === 0) return;
+      setTrips(Storage.saveTrips([...planned, ...currentTrips]));
+      recordAudit(planned.map(trip => ({
+        entityType: 'TRIP',
+        entityId: trip.id,
+        entityLabel: describeTripForAudit(trip),
+        action: 'CREATE',
+        after: trip,
+        note: `Series occurrence ${trip.seriesOccurrenceDate}`,
+      })), 'Trip series');
+      queueSyncMutation('ADD_TRIP', `Series occurrences · ${planned.length}`);
+    };
 
-    const generatedMissionAlerts = trips
-      .filter(trip => trip.status !== TripStatus.CANCELLED && trip.status !== TripStatus.COMPLETED)
-      .flatMap(trip => buildMissionAlerts(trip));
+    materializeSeries();
+    const interval = setInterval(materializeSeries, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [tripSeries]);
 
-    setAlerts(prev => {
-      const existingMissionById = new Map(
-        prev
-          .filter(alert => alert.type === 'PICKUP' || alert.type === 'DROP_OFF')
-          .map(alert => [alert.id, alert] as const)
-      );
-
-      const nextMissionAlerts = generatedMissionAlerts.map(alert => {
-        const existing = existingMissionById.get(alert.id);
-        if (!existing) return alert;
-
-        const existingTarget = parseISO(existing.targetTime);
-        const generatedTarget = parseISO(alert.targetTime);
-        const keepSnoozedTarget =
-          !existing.triggered &&
-          Number.isFinite(existingTarget.getTime()) &&
-          Number.isFinite(generatedTarget.getTime()) &&
-          existingTarget.getTime() > generatedTarget.getTime();
+  useEffect(() => {
+    if (!isSnapshotStoreAvailable()) return;
 
-        return {
-          ...alert,
-          targetTime: keepSnoozedTarget ? existing.targetTime : alert.targetTime,
-          snoozedUntil: keepSnoozedTarget
-            ? (existing.snoozedUntil || existing.targetTime)
-            : undefined,
-          triggered: existing.triggered,
-        };
+    const runScheduledSnapshot = () => {
+      void takeScheduledSnapshotIfDue(() => Storage.getFullSystemData({ includeSettings: true })).catch(error => {
+        console.warn('[snapshots] scheduled snapshot failed', error);
       });
+    };
 
-      const nonMissionAlerts = prev.filter(alert => alert.type !== 'PICKUP' && alert.type !== 'DROP_OFF');
-      const nextAlerts = [...nonMissionAlerts, ...nextMissionAlerts];
+    runScheduledSnapshot();
+    const interval = setInterval(runScheduledSnapshot, SNAPSHOT_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
 
-      const prevSignature = prev
-        .map(alert => `${alert.id}|${alert.targetTime}|${alert.snoozedUntil || ''}|${Number(alert.triggered)}`)
-        .sort()
-        .join('||');
-      const nextSignature = nextAlerts
-        .map(alert => `${alert.id}|${alert.targetTime}|${alert.snoozedUntil || ''}|${Number(alert.triggered)}`)
-        .sort()
-        .join('||');
+  const triggerNotification = (alert: MissionAlert, level: AlertEscalationLevel = 0) => {
+    playEscalationTone(level);
+    void showAlertNotification(
+      buildScheduledAlertNotification(alert, level, settings, new Date()),
+      message => alertActionHandlerRef.current(message)
+    );
+  };
+
+  const toggleTheme = () => {
+    const newTheme = theme === 'light' ? 'dark' : 'light';
+    setTheme(newTheme);
+    localStorage.setItem('theme', newTheme);
+  };
 
-      return prevSignature === nextSignature ? prev : nextAlerts;
+  // Dropping a trip's alerts lets the rules effect regenerate them fresh, so an edited pickup time raises them again.
+  const resetTripAlerts = (tripId: number) => {
+    setAlerts(prev => {
+      const retained = prev.filter(alert => alert.tripId !== tripId || !(alert.ruleId || alert.type === 'PICKUP' || alert.type === 'DROP_OFF'));
+      return retained.length === prev.length ? prev : retained;
     });
-  }, [trips]);
+  };
+
+  const getAlertActor = (): string => authUser?.email || (authUser?.uid ? `uid ${authUser.uid.slice(0, 8)}` : 'Unknown user');
+
+  // Only alerts that actually came due get a history entry; closing a future alert is not a response.
+  const recordAlertHistory = (closing: MissionAlert[], outcome: AlertHistoryOutcome, closedBy?: string) => {
+    const now = new Date();
+    const entries = closing
+      .filter(alert => isAlertDue(alert, now))
+      .map(alert => buildAlertHistoryEntry(alert, outcome, settings.alertEscalation, now, closedBy));
+    if (entries.length === 0) return;
+    setAlertHistory(Storage.appendAlertHistory(entries));
+  };
+
+  useEffect(() => {
+    const previous = alertsRef.current;
+    const nextAlerts = reconcileRuleAlerts(previous, settings.alertRules || [], trips, drivers);
+
+    const prevSignature = previous
+      .map(alert => `${alert.id}|${alert.targetTime}|${alert.snoozedUntil || ''}|${Number(alert.triggered)}`)
+      .sort()
+      .join('||');
+    const nextSignature = nextAlerts
+      .map(alert => `${alert.id}|${alert.targetTime}|${alert.snoozedUntil || ''}|${Number(alert.triggered)}`)
+      .sort()
+      .join('||');
+    if (prevSignature === nextSignature) return;
+
+    const nextIds = new Set(nextAlerts.map(alert => alert.id));
+    recordAlertHistory(previous.filter(alert => !nextIds.has(alert.id)), 'CLEARED');
+    setAlerts(nextAlerts);
+  }, [drivers, settings.alertRules, trips]);
 
   const dismissAlert = (id: string) => {
+    recordAlertHistory(alerts.filter(alert => alert.id === id), 'DISMISSED', getAlertActor());
     setAlerts(prev => prev.filter(a => a.id !== id));
+    queueSyncMutation('UPDATE_ALERT');
+  };
+
+  const acknowledgeAlert = (id: string) => {
+    const acknowledgedAt = new Date().toISOString();
+    const acknowledgedBy = getAlertActor();
+    setAlerts(prev => prev.map(alert => (
+      alert.id === id && !alert.acknowledgedAt ? { ...alert, acknowledgedAt, acknowledgedBy } : alert
+    )));
+    queueSyncMutation('UPDATE_ALERT');
   };
 
   const snoozeAlert = (id: string, minutes: number = 10) => {
     const safeMinutes = Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes) : 10;
+    recordAlertHistory(alerts.filter(alert => alert.id === id), 'SNOOZED', getAlertActor());
 
     setAlerts(prev => prev.map(alert => {
       if (alert.id !== id) return alert;
@@ -682,11 +995,15 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         triggered: false,
         targetTime: nextTarget,
         snoozedUntil: nextTarget,
+        acknowledgedAt: undefined,
+        acknowledgedBy: undefined,
       };
     }));
+    queueSyncMutation('UPDATE_ALERT');
   };
 
   const resolveAlert = (id: string) => {
+    recordAlertHistory(alerts.filter(alert => alert.id === id), 'RESOLVED', getAlertActor());
     setAlerts(prev => prev.map(alert => {
       if (alert.id !== id) return alert;
       return {
@@ -695,8 +1012,41 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         snoozedUntil: undefined,
       };
     }));
+    queueSyncMutation('UPDATE_ALERT');
+  };
+
+  // Notification buttons land here, whether clicked while a tab was open or by starting the app from the notification.
+  alertActionHandlerRef.current = (message: AlertNotificationActionMessage) => {
+    if (message.action === 'open') {
+      window.location.hash = getAlertNotificationRoute(message);
+      return;
+    }
+    const target = alerts.find(alert => alert.id === message.alertId);
+    if (!target || target.triggered) return;
+    if (message.action === 'snooze') snoozeAlert(message.alertId, ALERT_NOTIFICATION_SNOOZE_MINUTES);
+    if (message.action === 'resolve') resolveAlert(message.alertId);
   };
 
+  useEffect(() => {
+    if (!pendingAlertActionRef.current) {
+      pendingAlertActionRef.current = consumeAlertNotificationActionFromUrl();
+    }
+    void registerAlertServiceWorker();
+    return subscribeToAlertNotificationActions(message => alertActionHandlerRef.current(message));
+  }, []);
+
+  useEffect(() => {
+    const pending = pendingAlertActionRef.current;
+    if (!pending || authStatus !== 'authenticated') return;
+    pendingAlertActionRef.current = null;
+    if (pending.action !== 'open') alertActionHandlerRef.current(pending);
+  }, [alerts, authStatus]);
+
+  // The service worker keeps its own copy of what is coming due so notifications still fire with every tab closed.
+  useEffect(() => {
+    void scheduleAlertNotifications(authUser ? planAlertNotifications(alerts, settings, authRole) : []);
+  }, [alerts, authRole, authUser, settings]);
+
   type FinanceEnrichmentPayload = {
     partyType: CreditPartyType;
     partyId?: string;
@@ -732,7 +1082,7 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
       if (!target) return;
 
-      addCustomers([
+      mergeCustomers([
         {
           id: target.id,
           name: target.name,
@@ -763,7 +1113,10 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     setDrivers(nextDrivers);
   };
 
-  const addTrip = (tripData: Omit<Trip, 'id' | 'createdAt'>) => {
+  const addTrip = (tripData: Omit<Trip, 'id' | 'createdAt'>): { ok: boolean; reason?: string } => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
     const normalizedPaymentMode: TripPaymentMode = tripData.paymentMode === 'CREDIT' ? 'CREDIT' : 'CASH';
     const normalizedSettlementStatus: TripSettlementStatus = tripData.settlementStatus || 'PENDING';
     const newTrip: Trip = {
@@ -782,27 +1135,71 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const tripCustomer = buildCustomerFromTrip(newTrip, { includeTimelineEvent: shouldAppendTripNote });
 
     if (!existingCustomer) {
-      addCustomers([tripCustomer]);
+      mergeCustomers([tripCustomer]);
     } else if (shouldAppendTripNote || existingCustomer.name !== newTrip.customerName || shouldSyncCustomerPaymentPreference) {
-      addCustomers([tripCustomer]);
+      mergeCustomers([tripCustomer]);
     }
 
     const updated = Storage.saveDispatch('trip', newTrip) as Trip[];
     setTrips(updated);
-    scheduleMissionAlerts(newTrip);
+    resetTripAlerts(newTrip.id);
+    recordAudit([{ entityType: 'TRIP', entityId: newTrip.id, entityLabel: describeTripForAudit(newTrip), action: 'CREATE', after: newTrip }]);
+    queueSyncMutation('ADD_TRIP', newTrip.customerName);
+    return { ok: true };
   };
 
-  const updateTripField = (id: number, field: keyof Trip, value: Trip[keyof Trip]) => {
+  const updateTripField = (id: number, field: keyof Trip, value: Trip[keyof Trip]): { ok: boolean; reason?: string } => {
+    const permission = requireCapability(field === 'settlementStatus' ? 'FINANCE_ACTIONS' : 'MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
     const trip = trips.find(t => t.id === id);
-    if (trip) {
-      const updatedTrip = { ...trip, [field]: value };
-      const updatedList = Storage.updateTrip(updatedTrip);
-      setTrips(updatedList);
+    if (!trip) {
+      return { ok: false, reason: 'Trip not found.' };
     }
+    const updatedTrip = { ...trip, [field]: value };
+    const updatedList = Storage.updateTrip(updatedTrip);
+    setTrips(updatedList);
+    recordAudit([{ entityType: 'TRIP', entityId: id, entityLabel: describeTripForAudit(updatedTrip), action: 'UPDATE', before: trip, after: updatedTrip }]);
+    queueSyncMutation('UPDATE_TRIP', `#${id}`);
+    return { ok: true };
   };
 
-  const updateFullTrip = (trip: Trip) => {
+  const updateFullTrip = (trip: Trip, options: { allowScheduleConflict?: boolean } = {}) => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
     const previousTrip = trips.find(t => t.id === trip.id);
+    // Settlement drives receipts and ledger settlement, so changing it by hand is a finance action.
+    if ((trip.settlementStatus || 'PENDING') !== (previousTrip?.settlementStatus || 'PENDING')) {
+      const financePermission = requireCapability('FINANCE_ACTIONS');
+      if (!financePermission.ok) return financePermission;
+    }
+    const scheduleChanged =
+      !previousTrip ||
+      previousTrip.driverId !== trip.driverId ||
+      previousTrip.tripDate !== trip.tripDate ||
+      previousTrip.status !== trip.status ||
+      previousTrip.durationMin !== trip.durationMin ||
+      previousTrip.durationInTrafficMin !== trip.durationInTrafficMin ||
+      Boolean(previousTrip.isRoundTrip) !== Boolean(trip.isRoundTrip) ||
+      (previousTrip.waitTimeHours || 0) !== (trip.waitTimeHours || 0);
+    const scheduleConflicts = trip.driverId && scheduleChanged ? findDriverScheduleConflicts(trip, trips) : [];
+    if (
+      trip.status === TripStatus.CONFIRMED &&
+      hasBlockingScheduleConflict(scheduleConflicts) &&
+      !options.allowScheduleConflict
+    ) {
+      return { ok: false, reason: scheduleConflicts[0].message, conflicts: scheduleConflicts };
+    }
+
+    // Receipting here would settle the ledger entry behind the invoice's back and leave the invoice open.
+    if (trip.settlementStatus === 'RECEIPTED' && !trip.receiptId && trip.paymentMode === 'CREDIT' && trip.creditLedgerEntryId) {
+      const openInvoice = findOpenInvoiceForLedgerEntry(invoices, trip.creditLedgerEntryId);
+      if (openInvoice) {
+        return { ok: false, reason: `This trip is billed on open invoice #${openInvoice.invoiceNumber}. Take the payment against the invoice.` };
+      }
+    }
+
     const nowIso = new Date().toISOString();
     const normalizedPaymentMode: TripPaymentMode = trip.paymentMode === 'CREDIT' ? 'CREDIT' : 'CASH';
     const transitionedToCompleted = previousTrip?.status !== TripStatus.COMPLETED && trip.status === TripStatus.COMPLETED;
@@ -832,22 +1229,7 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const financeEnrichmentQueue: FinanceEnrichmentPayload[] = [];
 
     const buildReceiptNumber = (partyType: CreditPartyType, cycle: CreditCycle, issuedAtIso: string): string => {
-      const issuedAt = new Date(issuedAtIso);
-      const year = issuedAt.getFullYear();
-      const periodLabel = cycle === 'MONTHLY'
-        ? `${year}-${String(issuedAt.getMonth() + 1).padStart(2, '0')}`
-        : (() => {
-            const start = new Date(Date.UTC(issuedAt.getFullYear(), issuedAt.getMonth(), issuedAt.getDate()));
-            start.setUTCDate(start.getUTCDate() + 4 - (start.getUTCDay() || 7));
-            const isoYear = start.getUTCFullYear();
-            const yearStart = new Date(Date.UTC(isoYear, 0, 1));
-            const week = Math.ceil((((start.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-            return `${isoYear}-W${String(week).padStart(2, '0')}`;
-          })();
-
-      const receiptPrefix = `${partyType}-${cycle}-${periodLabel}`;
-      const existingForPeriod = nextReceipts.filter(item => item.receiptNumber.startsWith(receiptPrefix)).length;
-      return `${receiptPrefix}-${String(existingForPeriod + 1).padStart(3, '0')}`;
+      return buildNextReceiptNumber(nextReceipts, partyType, cycle, issuedAtIso);
     };
 
     if (nextTrip.status === TripStatus.COMPLETED && normalizedPaymentMode === 'CREDIT' && !nextTrip.creditLedgerEntryId) {
@@ -934,19 +1316,20 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
               ...(linkedEntry.partyId ? { partyId: linkedEntry.partyId } : {}),
               partyName: linkedEntry.partyName,
               cycle: linkedEntry.cycle,
-              amountUsd: linkedEntry.amountUsd,
+              amountUsd: getCreditEntryRemainingUsd(linkedEntry),
               ...(linkedEntry.notes ? { notes: linkedEntry.notes } : {}),
+              paymentMethod: 'CASH',
+              currency: 'USD',
+              remainingUsd: 0,
             };
+            const settlementPayment = buildFullSettlementPayment(linkedEntry, {
+              paidAt: receipt.issuedAt,
+              receiptId: receipt.id,
+              fxRate: settings.exchangeRate,
+            });
 
             nextLedger = nextLedger.map(item =>
-              item.id === linkedEntry.id
-                ? {
-                    ...item,
-                    status: 'PAID' as const,
-                    paidAt: receipt.issuedAt,
-                    receiptId: receipt.id,
-                  }
-                : item
+              item.id === linkedEntry.id ? applyCreditLedgerPayment(item, settlementPayment) : item
             );
             nextReceipts = [receipt, ...nextReceipts];
             nextTrip = {
@@ -1033,16 +1416,61 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const previousNote = previousTrip?.notes?.trim() || '';
     const includeTimelineEvent = currentNote.length > 0 && currentNote !== previousNote;
     const customerPatch = buildCustomerFromTrip(nextTrip, { includeTimelineEvent });
-    addCustomers([customerPatch]);
+    mergeCustomers([customerPatch]);
 
     financeEnrichmentQueue.forEach(enrichment => {
       enrichFinanceContext(enrichment);
     });
 
-    scheduleMissionAlerts(nextTrip);
+    resetTripAlerts(nextTrip.id);
+    recordAudit([
+      { entityType: 'TRIP', entityId: nextTrip.id, entityLabel: describeTripForAudit(nextTrip), action: previousTrip ? 'UPDATE' : 'CREATE', before: previousTrip, after: nextTrip },
+      ...collectLedgerAuditEvents(creditLedger, nextLedger, `Trip #${nextTrip.id}`),
+    ]);
+    queueSyncMutation('UPDATE_TRIP', `#${nextTrip.id}`);
+    return { ok: true, conflicts: scheduleConflicts };
+  };
+
+  const getMessageTransportKind = (template: MessageTemplateKey): MessageTransportKind => {
+    return resolveMessageTransport(settings.whatsAppCloud, Storage.getWhatsAppCloudToken(), template, Storage.getWhatsAppCloudApiBaseUrl()).kind;
+  };
+
+  // Only the Cloud API sends on its own; the audit field is set once WhatsApp has accepted the message.
+  const sendTripMessage = async (tripId: number, template: MessageTemplateKey) => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
+    const trip = trips.find(t => t.id === tripId);
+    if (!trip) {
+      return { ok: false, reason: 'Trip not found.' };
+    }
+
+    const transport = resolveMessageTransport(settings.whatsAppCloud, Storage.getWhatsAppCloudToken(), template, Storage.getWhatsAppCloudApiBaseUrl());
+    if (transport.kind !== 'CLOUD_API') {
+      return { ok: false, reason: 'WhatsApp Cloud API is not set up for this message.' };
+    }
+
+    const text = replacePlaceholders(settings.templates[template], trip, drivers, settings);
+    const message = buildOutgoingTripMessage(template, trip, drivers, settings, text);
+    const result = await transport.send(message);
+    if (!result.ok) {
+      return { ok: false, reason: result.reason };
+    }
+
+    const sentAt = new Date().toISOString();
+    const latestTrip = Storage.getTrips().find(t => t.id === tripId) || trip;
+    updateFullTrip({
+      ...latestTrip,
+      [MESSAGE_SENT_FIELDS[template]]: sentAt,
+      messageLog: [...(latestTrip.messageLog || []), buildTripMessageRecord(message, result, sentAt)],
+    }, { allowScheduleConflict: true });
+    return { ok: true };
   };
 
   const deleteCancelledTrip = (id: number) => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
     const existing = trips.find(t => t.id === id);
     if (!existing) {
       return { ok: false, reason: 'Trip not found.' };
@@ -1056,10 +1484,15 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     setTrips(nextState.trips);
     setDeletedTrips(nextState.deletedTrips);
     setAlerts(prev => prev.filter(a => a.tripId !== id));
+    recordAudit([{ entityType: 'TRIP', entityId: id, entityLabel: describeTripForAudit(existing), action: 'DELETE', before: existing, note: 'Moved to archive' }]);
+    queueSyncMutation('DELETE_TRIP', `#${id}`);
     return { ok: true };
   };
 
   const restoreDeletedTrip = (archiveId: string) => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
     const existing = deletedTrips.find(record => record.archiveId === archiveId);
     if (!existing) {
       return { ok: false, reason: 'Archived trip not found.' };
@@ -1068,15 +1501,170 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const nextState = Storage.restoreDeletedTrip(archiveId);
     setTrips(nextState.trips);
     setDeletedTrips(nextState.deletedTrips);
-    scheduleMissionAlerts(existing.trip);
+    resetTripAlerts(existing.trip.id);
+    recordAudit([{ entityType: 'TRIP', entityId: existing.trip.id, entityLabel: describeTripForAudit(existing.trip), action: 'RESTORE', after: existing.trip }]);
+    queueSyncMutation('RESTORE_TRIP', `#${existing.trip.id}`);
     return { ok: true };
   };
 
-  const addCustomers = (newBatch: Customer[]) => {
+  const addTripSeries = (payload: Omit<TripSeries, 'id' | 'createdAt' | 'updatedAt' | 'skippedDates'>) => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
+    const ruleError = validateRecurrenceRule(payload.recurrence);
+    if (ruleError) {
+      return { ok: false, reason: ruleError };
+    }
+
+    const nowIso = new Date().toISOString();
+    const series: TripSeries = {
+      ...payload,
+      id: `series-${Date.now()}`,
+      label: payload.label.trim() || payload.template.customerName,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+      skippedDates: [],
+    };
+
+    const nextSeries = [series, ...tripSeries];
+    Storage.saveTripSeries(nextSeries);
+    setTripSeries(nextSeries);
+    recordAudit([{ entityType: 'TRIP_SERIES', entityId: series.id, entityLabel: series.label, action: 'CREATE', after: series }]);
+    queueSyncMutation('SAVE_SERIES', series.label);
+    return { ok: true, series };
+  };
+
+  const updateTripSeries = (series: TripSeries, options: { applyToFutureOccurrences?: boolean } = {}) => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
+    if (!tripSeries.some(item => item.id === series.id)) {
+      return { ok: false, reason: 'Series not found.' };
+    }
+
+    const ruleError = validateRecurrenceRule(series.recurrence);
+    if (ruleError) {
+      return { ok: false, reason: ruleError };
+    }
+
+    const nextSeriesItem: TripSeries = { ...series, updatedAt: new Date().toISOString() };
+    let updatedCount = 0;
+    let cancelledCount = 0;
+    if (options.applyToFutureOccurrences) {
+      const applied = applySeriesToFutureOccurrences(nextSeriesItem, trips);
+      if (applied.updatedCount > 0 || applied.cancelledCount > 0) {
+        setTrips(Storage.saveTrips(applied.trips));
+      }
+      updatedCount = applied.updatedCount;
+      cancelledCount = applied.cancelledCount;
+    }
+
+    const previousSeriesItem = tripSeries.find(item => item.id === series.id);
+    const nextSeries = tripSeries.map(item => (item.id === series.id ? nextSeriesItem : item));
+    Storage.saveTripSeries(nextSeries);
+    setTripSeries(nextSeries);
+    recordAudit([{
+      entityType: 'TRIP_SERIES',
+      entityId: nextSeriesItem.id,
+      entityLabel: nextSeriesItem.label,
+      action: 'UPDATE',
+      before: previousSeriesItem,
+      after: nextSeriesItem,
+      ...(updatedCount > 0 || cancelledCount > 0 ? { note: `Applied to ${updatedCount} future trips, cancelled ${cancelledCount}` } : {}),
+    }]);
+    queueSyncMutation('SAVE_SERIES', nextSeriesItem.label);
+    return { ok: true, updatedCount, cancelledCount };
+  };
+
+  const skipSeriesOccurrence = (tripId: number) => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
+    const existing = trips.find(t => t.id === tripId);
+    if (!existing || !existing.seriesId) {
+      return { ok: false, reason: 'Series occurrence not found.' };
+    }
+
+    if (!isOpenSeriesOccurrence(existing)) {
+      return { ok: false, reason: 'Only quoted or confirmed occurrences can be skipped.' };
+    }
+
+    const occurrenceDate = existing.seriesOccurrenceDate;
+    if (occurrenceDate) {
+      const nextSeries = tripSeries.map(series => (
+        series.id === existing.seriesId && !series.skippedDates.includes(occurrenceDate)
+          ? { ...series, skippedDates: [...series.skippedDates, occurrenceDate], updatedAt: new Date().toISOString() }
+          : series
+      ));
+      Storage.saveTripSeries(nextSeries);
+      setTripSeries(nextSeries);
+    }
+
+    // Skipped occurrences leave the active log entirely; the archive keeps them recoverable.
+    Storage.updateTrip({ ...existing, status: TripStatus.CANCELLED });
+    const nextState = Storage.archiveCancelledTrip(tripId);
+    setTrips(nextState.trips);
+    setDeletedTrips(nextState.deletedTrips);
+    setAlerts(prev => prev.filter(a => a.tripId !== tripId));
+    recordAudit([{
+      entityType: 'TRIP',
+      entityId: tripId,
+      entityLabel: describeTripForAudit(existing),
+      action: 'DELETE',
+      before: existing,
+      note: `Skipped series occurrence${occurrenceDate ? ` ${occurrenceDate}` : ''}`,
+    }]);
+    queueSyncMutation('SKIP_OCCURRENCE', `#${tripId}`);
+    return { ok: true };
+  };
+
+  const cancelSeriesOccurrence = (tripId: number) => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
+    const existing = trips.find(t => t.id === tripId);
+    if (!existing || !existing.seriesId) {
+      return { ok: false, reason: 'Series occurrence not found.' };
+    }
+
+    if (!isOpenSeriesOccurrence(existing)) {
+      return { ok: false, reason: 'Only quoted or confirmed occurrences can be cancelled.' };
+    }
+
+    const cancelledTrip: Trip = { ...existing, status: TripStatus.CANCELLED };
+    setTrips(Storage.updateTrip(cancelledTrip));
+    setAlerts(prev => prev.filter(a => a.tripId !== tripId));
+    recordAudit([{ entityType: 'TRIP', entityId: tripId, entityLabel: describeTripForAudit(existing), action: 'UPDATE', before: existing, after: cancelledTrip, note: 'Cancelled series occurrence' }]);
+    queueSyncMutation('CANCEL_OCCURRENCE', `#${tripId}`);
+    return { ok: true };
+  };
+
+  const mergeCustomers = (newBatch: Customer[]) => {
     const existing = Storage.getCustomers();
     const merged = mergeCustomerCollections(existing, newBatch).customers;
     Storage.saveDispatch('customers', merged);
     setCustomers(merged);
+
+    const incomingKeys = new Set(newBatch.map(customer => customerPhoneKey(customer.phone)));
+    const existingByKey = new Map(existing.map(customer => [customerPhoneKey(customer.phone), customer]));
+    recordAudit(merged
+      .filter(customer => incomingKeys.has(customer.phone))
+      .map((customer): AuditEventInput => {
+        const before = existingByKey.get(customer.phone);
+        return {
+          entityType: 'CUSTOMER',
+          entityId: customer.phone,
+          entityLabel: customer.name,
+          action: before ? 'UPDATE' : 'CREATE',
+          before,
+          after: customer,
+        };
+      }));
+  };
+
+  const addCustomers = (newBatch: Customer[]) => {
+    mergeCustomers(newBatch);
+    queueSyncMutation('SAVE_CUSTOMERS', newBatch.length === 1 ? newBatch[0].name : `${newBatch.length} customers`);
   };
 
   const addCreditLedgerEntry = (payload: {
@@ -1088,6 +1676,9 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     dueDate?: string;
     notes?: string;
   }): { ok: boolean; reason?: string; entry?: CreditLedgerEntry } => {
+    const permission = requireCapability('FINANCE_ACTIONS');
+    if (!permission.ok) return permission;
+
     const safeAmount = Number(payload.amountUsd);
     if (!Number.isFinite(safeAmount) || safeAmount <= 0) {
       return { ok: false, reason: 'Amount must be greater than zero.' };
@@ -1124,59 +1715,70 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       eventId: `finance-credit-open-${entry.id}`,
     });
 
+    recordAudit([{ entityType: 'CREDIT_LEDGER', entityId: entry.id, entityLabel: describeLedgerEntryForAudit(entry), action: 'CREATE', after: entry }]);
+    queueSyncMutation('ADD_LEDGER_ENTRY', entry.partyName);
     return { ok: true, entry };
   };
 
-  const settleCreditLedgerEntry = (entryId: string): { ok: boolean; reason?: string; receipt?: ReceiptRecord } => {
+  const postCreditLedgerPayment = (
+    entryId: string,
+    payload: { amount: number; currency: PaymentCurrency; method: CreditPaymentMethod; fxRate?: number; notes?: string },
+    mutationKind: SyncMutationKind
+  ): { ok: boolean; reason?: string; receipt?: ReceiptRecord; entry?: CreditLedgerEntry } => {
+    const permission = requireCapability('FINANCE_ACTIONS');
+    if (!permission.ok) return permission;
+
     const current = creditLedger.find(item => item.id === entryId);
     if (!current) {
       return { ok: false, reason: 'Ledger entry not found.' };
     }
 
-    if (current.status === 'PAID') {
-      return { ok: false, reason: 'Entry is already settled.' };
+    const openInvoice = findOpenInvoiceForLedgerEntry(invoices, entryId);
+    if (openInvoice) {
+      return { ok: false, reason: `This entry is billed on open invoice #${openInvoice.invoiceNumber}. Take the payment against the invoice.` };
     }
 
-    const issuedAt = new Date();
-    const year = issuedAt.getFullYear();
-    const periodLabel = current.cycle === 'MONTHLY'
-      ? `${year}-${String(issuedAt.getMonth() + 1).padStart(2, '0')}`
-      : (() => {
-          const start = new Date(Date.UTC(issuedAt.getFullYear(), issuedAt.getMonth(), issuedAt.getDate()));
-          start.setUTCDate(start.getUTCDate() + 4 - (start.getUTCDay() || 7));
-          const isoYear = start.getUTCFullYear();
-          const yearStart = new Date(Date.UTC(isoYear, 0, 1));
-          const week = Math.ceil((((start.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-          return `${isoYear}-W${String(week).padStart(2, '0')}`;
-        })();
+    const fxRate = payload.currency === 'LBP' ? Number(payload.fxRate) : settings.exchangeRate;
+    const validationError = validateCreditPayment(current, Number(payload.amount), payload.currency, fxRate);
+    if (validationError) {
+      return { ok: false, reason: validationError };
+    }
 
-    const receiptPrefix = `${current.partyType}-${current.cycle}-${periodLabel}`;
-    const existingForPeriod = receipts.filter(item => item.receiptNumber.startsWith(receiptPrefix)).length;
-    const receiptNumber = `${receiptPrefix}-${String(existingForPeriod + 1).padStart(3, '0')}`;
+    const issuedAt = new Date().toISOString();
+    const receiptId = `receipt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const nextEntry = applyCreditLedgerPayment(current, {
+      id: `payment-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      paidAt: issuedAt,
+      amountUsd: convertPaymentToUsd(Number(payload.amount), payload.currency, fxRate),
+      currency: payload.currency,
+      amountOriginal: Number(payload.amount),
+      fxRateSnapshot: fxRate,
+      method: payload.method,
+      receiptId,
+      ...(payload.notes?.trim() ? { notes: payload.notes.trim() } : {}),
+    });
+    const payment = nextEntry.payments![nextEntry.payments!.length - 1];
+    const remainingUsd = getCreditEntryRemainingUsd(nextEntry);
 
     const receipt: ReceiptRecord = {
-      id: `receipt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      receiptNumber,
+      id: receiptId,
+      receiptNumber: buildNextReceiptNumber(receipts, current.partyType, current.cycle, issuedAt),
       ledgerEntryId: current.id,
-      issuedAt: issuedAt.toISOString(),
+      issuedAt,
       partyType: current.partyType,
       ...(current.partyId ? { partyId: current.partyId } : {}),
       partyName: current.partyName,
       cycle: current.cycle,
-      amountUsd: current.amountUsd,
-      ...(current.notes ? { notes: current.notes } : {}),
+      amountUsd: payment.amountUsd,
+      ...(payment.notes || current.notes ? { notes: payment.notes || current.notes } : {}),
+      paymentMethod: payment.method,
+      currency: payment.currency,
+      amountOriginal: payment.amountOriginal,
+      fxRateSnapshot: payment.fxRateSnapshot,
+      remainingUsd,
     };
 
-    const nextLedger = creditLedger.map(item =>
-      item.id === current.id
-        ? {
-            ...item,
-            status: 'PAID' as const,
-            paidAt: receipt.issuedAt,
-            receiptId: receipt.id,
-          }
-        : item
-    );
+    const nextLedger = creditLedger.map(item => (item.id === current.id ? nextEntry : item));
     const nextReceipts = [receipt, ...receipts];
 
     Storage.saveCreditLedger(nextLedger);
@@ -1189,14 +1791,259 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       partyId: current.partyId,
       partyName: current.partyName,
       timestamp: receipt.issuedAt,
-      note: `Receipt issued: #${receipt.receiptNumber} · $${receipt.amountUsd.toFixed(2)} (${receipt.cycle})`,
+      note: `Receipt issued: #${receipt.receiptNumber} · $${receipt.amountUsd.toFixed(2)} (${receipt.cycle})${remainingUsd > 0 ? ` · $${remainingUsd.toFixed(2)} remaining` : ''}`,
+      eventId: `finance-receipt-${receipt.id}`,
+    });
+
+    recordAudit(collectLedgerAuditEvents(creditLedger, nextLedger, `Receipt #${receipt.receiptNumber}`));
+    queueSyncMutation(mutationKind, `#${receipt.receiptNumber}`);
+    return { ok: true, receipt, entry: nextEntry };
+  };
+
+  const recordCreditLedgerPayment = (
+    entryId: string,
+    payload: { amount: number; currency: PaymentCurrency; method: CreditPaymentMethod; fxRate?: number; notes?: string }
+  ) => postCreditLedgerPayment(entryId, payload, 'RECORD_PAYMENT');
+
+  const settleCreditLedgerEntry = (entryId: string): { ok: boolean; reason?: string; receipt?: ReceiptRecord } => {
+    const current = creditLedger.find(item => item.id === entryId);
+    if (!current) {
+      return { ok: false, reason: 'Ledger entry not found.' };
+    }
+
+    return postCreditLedgerPayment(entryId, {
+      amount: getCreditEntryRemainingUsd(current),
+      currency: 'USD',
+      method: 'CASH',
+    }, 'SETTLE_LEDGER_ENTRY');
+  };
+
+  const closeDriverPayoutStatement = (
+    statement: DriverPayoutStatement
+  ): { ok: boolean; reason?: string; entry?: CreditLedgerEntry; receipt?: ReceiptRecord } => {
+    const permission = requireCapability('FINANCE_ACTIONS');
+    if (!permission.ok) return permission;
+
+    if (creditLedger.some(item => item.payoutStatementId === statement.id)) {
+      return { ok: false, reason: 'Statement is already closed.' };
+    }
+
+    if (statement.tripLines.length === 0 && statement.fuelLines.length === 0 && statement.openCredits.length === 0) {
+      return { ok: false, reason: 'Nothing to settle in this period.' };
+    }
+
+    const issuedAt = new Date().toISOString();
+    const entryId = `credit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const direction = describePayoutDirection(statement.netPayoutUsd);
+    const notes = `Payout ${statement.periodLabel} · ${direction} · ${statement.tripLines.length} trips · fuel -$${statement.fuelDeductionUsd.toFixed(2)} · credits -$${statement.openCreditUsd.toFixed(2)}`;
+
+    const receipt: ReceiptRecord = {
+      id: `receipt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      receiptNumber: buildNextReceiptNumber(receipts, 'DRIVER', statement.cycle, issuedAt),
+      ledgerEntryId: entryId,
+      issuedAt,
+      partyType: 'DRIVER',
+      partyId: statement.driverId,
+      partyName: statement.driverName,
+      cycle: statement.cycle,
+      amountUsd: Math.abs(statement.netPayoutUsd),
+      notes,
+    };
+
+    const entry: CreditLedgerEntry = {
+      id: entryId,
+      partyType: 'DRIVER',
+      partyId: statement.driverId,
+      partyName: statement.driverName,
+      cycle: statement.cycle,
+      amountUsd: Math.abs(statement.netPayoutUsd),
+      notes,
+      status: 'PAID',
+      createdAt: issuedAt,
+      paidAt: issuedAt,
+      receiptId: receipt.id,
+      payoutStatementId: statement.id,
+    };
+
+    // Open driver credits are netted into the payout, so they settle against the same receipt.
+    const nettedCreditIds = new Set(statement.openCredits.map(item => item.id));
+    const nextLedger = [
+      entry,
+      ...creditLedger.map(item =>
+        nettedCreditIds.has(item.id) && isCreditEntryOutstanding(item)
+          ? applyCreditLedgerPayment(item, buildFullSettlementPayment(item, { paidAt: issuedAt, receiptId: receipt.id, fxRate: settings.exchangeRate }))
+          : item
+      ),
+    ];
+    const nextReceipts = [receipt, ...receipts];
+
+    Storage.saveCreditLedger(nextLedger);
+    Storage.saveReceipts(nextReceipts);
+    setCreditLedger(nextLedger);
+    setReceipts(nextReceipts);
+
+    enrichFinanceContext({
+      partyType: 'DRIVER',
+      partyId: statement.driverId,
+      partyName: statement.driverName,
+      timestamp: issuedAt,
+      note: `Receipt issued: #${receipt.receiptNumber} · $${receipt.amountUsd.toFixed(2)} (${receipt.cycle}) · payout ${statement.periodLabel}`,
       eventId: `finance-receipt-${receipt.id}`,
     });
 
+    recordAudit(collectLedgerAuditEvents(creditLedger, nextLedger, `Payout ${statement.periodLabel} · receipt #${receipt.receiptNumber}`));
+    queueSyncMutation('CLOSE_PAYOUT', `${statement.driverName} · ${statement.periodLabel}`);
+    return { ok: true, entry, receipt };
+  };
+
+  const createCustomerInvoice = (payload: { partyKey: string; cycle: CreditCycle; anchorDate: string }): { ok: boolean; reason?: string; invoice?: CustomerInvoice } => {
+    const permission = requireCapability('FINANCE_ACTIONS');
+    if (!permission.ok) return permission;
+
+    const anchor = new Date(payload.anchorDate);
+    if (!Number.isFinite(anchor.getTime())) {
+      return { ok: false, reason: 'Invalid invoice period.' };
+    }
+
+    const period = getCreditCyclePeriod(payload.cycle, anchor);
+    const candidate = listInvoiceCandidates(trips, period, creditLedger).find(item => item.partyKey === payload.partyKey);
+    if (!candidate || candidate.trips.length === 0) {
+      return { ok: false, reason: 'No unsettled credit trips for this client in the period.' };
+    }
+
+    const invoice = buildCustomerInvoice(candidate, payload.cycle, period, invoices, creditLedger, new Date().toISOString());
+    const linkedTripIds = new Set(invoice.lines.map(line => line.tripId));
+    const nextInvoices = [invoice, ...invoices];
+
+    Storage.saveInvoices(nextInvoices);
+    setInvoices(nextInvoices);
+    setTrips(Storage.saveTrips(trips.map(trip => (linkedTripIds.has(trip.id) ? { ...trip, invoiceId: invoice.id } : trip))));
+
+    enrichFinanceContext({
+      partyType: 'CLIENT',
+      partyId: invoice.partyId,
+      partyName: invoice.partyName,
+      timestamp: invoice.issuedAt,
+      note: `Invoice issued: #${invoice.invoiceNumber} · $${invoice.totalUsd.toFixed(2)} (${invoice.cycle}) · ${invoice.lines.length} trips`,
+      eventId: `finance-invoice-${invoice.id}`,
+    });
+
+    recordAudit([{
+      entityType: 'INVOICE',
+      entityId: invoice.id,
+      entityLabel: `Invoice #${invoice.invoiceNumber} · ${invoice.partyName}`,
+      action: 'CREATE',
+      after: invoice,
+      note: `${invoice.lines.length} trips`,
+    }]);
+    queueSyncMutation('CREATE_INVOICE', `#${invoice.invoiceNumber}`);
+    return { ok: true, invoice };
+  };
+
+  const payCustomerInvoice = (invoiceId: string): { ok: boolean; reason?: string; receipt?: ReceiptRecord } => {
+    const permission = requireCapability('FINANCE_ACTIONS');
+    if (!permission.ok) return permission;
+
+    const invoice = invoices.find(item => item.id === invoiceId);
+    if (!invoice) {
+      return { ok: false, reason: 'Invoice not found.' };
+    }
+
+    if (invoice.status === 'PAID') {
+      return { ok: false, reason: 'Invoice is already paid.' };
+    }
+
+    const issuedAt = new Date().toISOString();
+    const receiptId = `receipt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    const linkedTripIds = new Set(invoice.lines.map(line => line.tripId));
+    const ledgerIds = new Set(creditLedger.map(item => item.id));
+    const unlinkedUsd = invoice.lines.reduce((sum, line) => {
+      const entryId = line.ledgerEntryId || trips.find(trip => trip.id === line.tripId)?.creditLedgerEntryId;
+      return entryId && ledgerIds.has(entryId) ? sum : sum + line.fareUsd;
+    }, 0);
+    const linkedEntryIds = new Set(
+      trips
+        .filter(trip => linkedTripIds.has(trip.id) && trip.creditLedgerEntryId)
+        .map(trip => trip.creditLedgerEntryId as string)
+    );
+    invoice.lines.forEach(line => {
+      if (line.ledgerEntryId) linkedEntryIds.add(line.ledgerEntryId);
+    });
+    const settlements = new Map<string, CreditLedgerPayment>(
+      creditLedger
+        .filter(item => linkedEntryIds.has(item.id) && isCreditEntryOutstanding(item))
+        .map(item => [item.id, buildFullSettlementPayment(item, { paidAt: issuedAt, receiptId, fxRate: settings.exchangeRate })])
+    );
+    const settledLedgerUsd = Array.from(settlements.values()).reduce((sum, payment) => sum + payment.amountUsd, 0);
+
+    // The receipt covers what this payment actually settles, which matches the invoice unless the ledger moved since.
+    const receipt: ReceiptRecord = {
+      id: receiptId,
+      receiptNumber: buildNextReceiptNumber(receipts, 'CLIENT', invoice.cycle, issuedAt),
+      ledgerEntryId: invoice.id,
+      issuedAt,
+      partyType: 'CLIENT',
+      ...(invoice.partyId ? { partyId: invoice.partyId } : {}),
+      partyName: invoice.partyName,
+      cycle: invoice.cycle,
+      amountUsd: Math.round((settledLedgerUsd + unlinkedUsd) * 100) / 100,
+      notes: `Invoice #${invoice.invoiceNumber} · ${invoice.lines.length} trips`,
+    };
+
+    const nextInvoices = invoices.map(item =>
+      item.id === invoice.id
+        ? { ...item, status: 'PAID' as const, paidAt: issuedAt, receiptId: receipt.id }
+        : item
+    );
+    const nextLedger = creditLedger.map(item => {
+      const payment = settlements.get(item.id);
+      return payment ? applyCreditLedgerPayment(item, payment) : item;
+    });
+    const nextTrips = trips.map(trip =>
+      linkedTripIds.has(trip.id)
+        ? { ...trip, settlementStatus: 'RECEIPTED' as const, receiptId: receipt.id, settledAt: issuedAt }
+        : trip
+    );
+    const nextReceipts = [receipt, ...receipts];
+
+    Storage.saveInvoices(nextInvoices);
+    Storage.saveCreditLedger(nextLedger);
+    Storage.saveReceipts(nextReceipts);
+    setInvoices(nextInvoices);
+    setCreditLedger(nextLedger);
+    setReceipts(nextReceipts);
+    setTrips(Storage.saveTrips(nextTrips));
+
+    enrichFinanceContext({
+      partyType: 'CLIENT',
+      partyId: invoice.partyId,
+      partyName: invoice.partyName,
+      timestamp: issuedAt,
+      note: `Receipt issued: #${receipt.receiptNumber} · $${receipt.amountUsd.toFixed(2)} (${receipt.cycle}) · invoice #${invoice.invoiceNumber}`,
+      eventId: `finance-receipt-${receipt.id}`,
+    });
+
+    recordAudit([
+      {
+        entityType: 'INVOICE',
+        entityId: invoice.id,
+        entityLabel: `Invoice #${invoice.invoiceNumber} · ${invoice.partyName}`,
+        action: 'SETTLE',
+        before: invoice,
+        after: nextInvoices.find(item => item.id === invoice.id),
+        note: `Receipt #${receipt.receiptNumber}`,
+      },
+      ...collectLedgerAuditEvents(creditLedger, nextLedger, `Invoice #${invoice.invoiceNumber}`),
+    ]);
+    queueSyncMutation('PAY_INVOICE', `#${invoice.invoiceNumber}`);
     return { ok: true, receipt };
   };
 
   const removeCustomerByPhone = (phone: string): { ok: boolean; reason?: string } => {
+    const permission = requireCapability('MANAGE_TRIPS');
+    if (!permission.ok) return permission;
+
     const normalized = customerPhoneKey(phone);
     if (!normalized) {
       return { ok: false, reason: 'Invalid customer phone.' };
@@ -1207,35 +2054,155 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       return { ok: false, reason: 'Cannot remove customer with trip history from CRM directory.' };
     }
 
+    const removedCustomer = customers.find(entry => customerPhoneKey(entry.phone) === normalized);
     const nextCustomers = customers.filter(entry => customerPhoneKey(entry.phone) !== normalized);
     Storage.saveCustomers(nextCustomers);
     setCustomers(nextCustomers);
+    if (removedCustomer) {
+      recordAudit([{ entityType: 'CUSTOMER', entityId: normalized, entityLabel: removedCustomer.name, action: 'DELETE', before: removedCustomer }]);
+    }
+    queueSyncMutation('REMOVE_CUSTOMER', phone);
     return { ok: true };
   };
 
   const addDriver = (driver: Driver) => {
-    const updated = Storage.saveDispatch('driver', driver) as Driver[];
+    const permission = requireCapability('MANAGE_FLEET');
+    if (!permission.ok) return permission;
+
+    const updated = Storage.saveDispatch('driver', recordAvailabilityTransition(undefined, driver)) as Driver[];
     setDrivers(updated);
+    recordAudit([{ entityType: 'DRIVER', entityId: driver.id, entityLabel: driver.name, action: 'CREATE', after: driver }]);
+    queueSyncMutation('SAVE_DRIVER', driver.name);
+    return { ok: true };
   };
 
   const editDriver = (driver: Driver) => {
-    const updated = Storage.saveDispatch('driver', driver) as Driver[];
+    const permission = requireCapability('MANAGE_FLEET');
+    if (!permission.ok) return permission;
+
+    const previousDriver = drivers.find(d => d.id === driver.id);
+    const updated = Storage.saveDispatch('driver', recordAvailabilityTransition(previousDriver, driver)) as Driver[];
     setDrivers(updated);
     
     // Check if a refueling clearing event occurred
+    const isRefuel = Boolean(driver.lastRefuelKm) && driver.lastRefuelKm !== previousDriver?.lastRefuelKm;
     if (driver.lastRefuelKm) {
+       if (isRefuel) {
+         recordAlertHistory(alerts.filter(a => a.driverId === driver.id && a.type === 'REFUEL'), 'RESOLVED', getAlertActor());
+       }
        setAlerts(prev => prev.filter(a => !(a.driverId === driver.id && a.type === 'REFUEL')));
     }
+    recordAudit([{
+      entityType: 'DRIVER',
+      entityId: driver.id,
+      entityLabel: driver.name,
+      action: previousDriver ? 'UPDATE' : 'CREATE',
+      before: previousDriver,
+      after: driver,
+      ...(isRefuel ? { note: 'Refuel logged' } : {}),
+    }]);
+    queueSyncMutation(isRefuel ? 'REFUEL' : 'SAVE_DRIVER', driver.name);
+    return { ok: true };
   };
 
   const removeDriver = (id: string) => {
+    const permission = requireCapability('MANAGE_FLEET');
+    if (!permission.ok) return permission;
+
+    const removedDriver = drivers.find(d => d.id === id);
     const updated = Storage.deleteDriver(id);
     setDrivers(updated);
+    if (removedDriver) {
+      recordAudit([{ entityType: 'DRIVER', entityId: id, entityLabel: removedDriver.name, action: 'DELETE', before: removedDriver }]);
+    }
+    queueSyncMutation('REMOVE_DRIVER', removedDriver?.name);
+    return { ok: true };
   };
 
   const updateSettings = (newSettings: Settings) => {
+    const permission = requireCapability('EDIT_PRICING');
+    if (!permission.ok) return permission;
+
     Storage.saveSettings(newSettings);
     setSettings(newSettings);
+    recordAudit([{ entityType: 'SETTINGS', entityId: 'settings', entityLabel: 'Settings', action: 'UPDATE', before: settings, after: newSettings }]);
+    queueSyncMutation('UPDATE_SETTINGS');
+    return { ok: true };
+  };
+
+  const importSystemBackup = (
+    payload: unknown,
+    sourceLabel: string,
+    selection?: RestoreSelection
+  ): { ok: boolean; reason?: string; applied?: Storage.RestoreResult['applied']; changes?: Storage.RestoreResult['changes'] } => {
+    const permission = requireCapability('VAULT_MANAGE');
+    if (!permission.ok) return permission;
+
+    const inspection = Storage.inspectFullSystemBackup(payload);
+    if (!inspection.isValid) {
+      return { ok: false, reason: inspection.error || 'Backup import failed.' };
+    }
+
+    if (selection && isRestoreSelectionEmpty(selection)) {
+      return { ok: false, reason: 'Select at least one section or record to restore.' };
+    }
+
+    void captureSystemSnapshot('PRE_RESTORE', sourceLabel);
+    const result = Storage.restoreFullSystemData(payload, { selection });
+    if (!result.ok) {
+      return { ok: false, reason: result.error || 'Backup import failed.' };
+    }
+
+    refreshData();
+    recordAudit([{
+      entityType: 'VAULT',
+      entityId: 'backup',
+      entityLabel: sourceLabel,
+      action: 'IMPORT',
+      note: `${selection ? 'Selective restore' : 'Full restore'} · applied: ${describeRestoreChanges(result.changes, result.applied.settings) || 'no changes'}`,
+    }]);
+    return { ok: true, applied: result.applied, changes: result.changes };
+  };
+
+  const restoreSystemSnapshot = async (
+    snapshotId: string,
+    mode: 'merge' | 'replace',
+    selection?: RestoreSelection
+  ): Promise<{ ok: boolean; reason?: string; applied?: Storage.RestoreResult['applied']; changes?: Storage.RestoreResult['changes'] }> => {
+    const permission = requireCapability('VAULT_MANAGE');
+    if (!permission.ok) return permission;
+    if (selection && isRestoreSelectionEmpty(selection)) {
+      return { ok: false, reason: 'Select at least one section or record to restore.' };
+    }
+
+    let payload: unknown;
+    try {
+      payload = await getSystemSnapshotPayload(snapshotId);
+    } catch (error) {
+      return { ok: false, reason: error instanceof Error ? error.message : 'Snapshot could not be read.' };
+    }
+    if (!payload) {
+      return { ok: false, reason: 'Snapshot not found.' };
+    }
+
+    // Keep this device's sync epoch and reset token; an older pair would make the next cloud pull clear the restored data.
+    const { syncEpoch: _syncEpoch, resetToken: _resetToken, ...snapshotData } = payload as Record<string, unknown>;
+    await captureSystemSnapshot('PRE_RESTORE', `Snapshot ${mode} restore`);
+    const result = Storage.restoreFullSystemData(snapshotData, { mode, selection });
+    if (!result.ok) {
+      return { ok: false, reason: result.error || 'Snapshot restore failed.' };
+    }
+
+    refreshData();
+    const snapshotTimestamp = typeof snapshotData.timestamp === 'string' ? snapshotData.timestamp : '';
+    recordAudit([{
+      entityType: 'VAULT',
+      entityId: 'snapshot',
+      entityLabel: `Snapshot ${snapshotTimestamp || snapshotId}`,
+      action: 'RESTORE',
+      note: `${mode === 'replace' ? 'Replace' : 'Merge'} restore${selection ? ' (selective)' : ''} · applied: ${describeRestoreChanges(result.changes, result.applied.settings) || 'no changes'}`,
+    }]);
+    return { ok: true, applied: result.applied, changes: result.changes };
   };
 
   const forceCloudSyncPublish = async (): Promise<{ ok: boolean; reason?: string }> => {
@@ -1246,17 +2213,105 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
     const payload = Storage.getFullSystemData({ includeSettings: true });
     const signature = createSyncSignature(payload);
+    const attemptedIds = new Set(Storage.getSyncOutbox().map(entry => entry.id));
     const ok = await session.publish(payload, signature);
 
     if (!ok) {
+      deferSyncOutboxEntries(attemptedIds, 'Cloud publish failed');
       return { ok: false, reason: 'Cloud publish failed.' };
     }
 
     lastSyncedSignatureRef.current = signature;
+    Storage.saveSyncBase(payload);
+    acknowledgeSyncOutboxEntries(attemptedIds);
+    return { ok: true };
+  };
+
+  const resolveSyncConflict = (conflictId: string, choice: SyncConflictChoice): { ok: boolean; reason?: string } => {
+    const conflict = syncConflicts.find(item => item.id === conflictId);
+    if (!conflict) {
+      return { ok: false, reason: 'Conflict not found.' };
+    }
+
+    const permission = requireCapability(SYNC_CONFLICT_CAPABILITIES[conflict.collection]);
+    if (!permission.ok) return permission;
+
+    // The local value is already in place after the merge, so keeping it only clears the conflict.
+    if (choice === 'REMOTE') {
+      const value = conflict.remoteValue;
+      switch (conflict.collection) {
+        case 'trips':
+          Storage.saveTrips(applySyncConflictValue('trips', trips, conflict, value));
+          break;
+        case 'deletedTrips':
+          Storage.saveDeletedTrips(applySyncConflictValue('deletedTrips', deletedTrips, conflict, value));
+          break;
+        case 'drivers': {
+          const patchedDriver = applySyncConflictValue<Driver>('drivers', drivers, conflict, value).find(item => item.id === conflict.recordId);
+          if (patchedDriver) Storage.saveDriver(patchedDriver);
+          break;
+        }
+        case 'customers':
+          Storage.saveCustomers(applySyncConflictValue('customers', customers, conflict, value));
+          break;
+        case 'alerts':
+          Storage.saveAlerts(applySyncConflictValue('alerts', alerts, conflict, value));
+          break;
+        case 'creditLedger':
+          Storage.saveCreditLedger(applySyncConflictValue('creditLedger', creditLedger, conflict, value));
+          break;
+        case 'receipts':
+          Storage.saveReceipts(applySyncConflictValue('receipts', receipts, conflict, value));
+          break;
+        case 'tripSeries':
+          Storage.saveTripSeries(applySyncConflictValue('tripSeries', tripSeries, conflict, value));
+          break;
+        case 'invoices':
+          Storage.saveInvoices(applySyncConflictValue('invoices', invoices, conflict, value));
+          break;
+        case 'settings':
+          Storage.saveSettings({ ...settings, [conflict.field]: value });
+          break;
+      }
+
+      const auditEntityType = AUDIT_ENTITY_BY_SYNC_COLLECTION[conflict.collection];
+      if (auditEntityType) {
+        recordAudit([{
+          entityType: auditEntityType,
+          entityId: conflict.recordId,
+          entityLabel: conflict.recordLabel,
+          action: 'UPDATE',
+          before: { [conflict.field]: conflict.localValue },
+          after: { [conflict.field]: value },
+          note: 'Sync conflict resolved with remote value',
+        }]);
+      }
+    }
+
+    Storage.saveSyncConflicts(syncConflicts.filter(item => item.id !== conflictId));
+    refreshData();
+    if (choice === 'REMOTE') {
+      queueSyncMutation('RESOLVE_CONFLICT', `${conflict.recordLabel} · ${conflict.field}`);
+    }
     return { ok: true };
   };
 
+  const retrySyncOutbox = () => {
+    if (syncRetryTimerRef.current !== null) {
+      clearTimeout(syncRetryTimerRef.current);
+      syncRetryTimerRef.current = null;
+    }
+    setSyncRetryTick(tick => tick + 1);
+  };
+
+  const retryLocalWrites = () => {
+    void flushLocalDatabase();
+  };
+
   const hardResetCloudSync = async (): Promise<{ ok: boolean; nextDocId?: string; reason?: string }> => {
+    const permission = requireCapability('VAULT_MANAGE');
+    if (!permission.ok) return permission;
+
     try {
       if (publishDebounceRef.current !== null) {
         clearTimeout(publishDebounceRef.current);
@@ -1265,8 +2320,13 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
       const currentDocId = getCloudSyncDocId();
 
+      if (isSnapshotStoreAvailable() && !(await captureSystemSnapshot('PRE_RESET'))) {
+        return { ok: false, reason: 'Safety snapshot failed; hard reset was not started.' };
+      }
+
       Storage.clearOperationalData();
       refreshData();
+      recordAudit([{ entityType: 'VAULT', entityId: 'operational-data', entityLabel: 'Operational data', action: 'CLEAR', note: 'Hard reset of cloud sync' }]);
 
       const session = cloudSyncSessionRef.current;
       if (!session || !session.isEnabled) {
@@ -1281,6 +2341,7 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       }
 
       lastSyncedSignatureRef.current = signature;
+      Storage.saveSyncBase(payload);
 
       return { ok: true, nextDocId: currentDocId };
     } catch (error) {
@@ -1289,11 +2350,85 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
+  const publishWorkspace = (workspace: Workspace) => {
+    void publishWorkspaceDirectoryEntry(workspace).then(result => {
+      if (!result.ok) console.warn(`[workspaces] directory publish failed: ${result.reason}`);
+    });
+  };
+
+  const refreshWorkspaceDirectory = async (workspaceIds: string[]) => {
+    const result = await fetchWorkspaceDirectory(workspaceIds);
+    if (!result.ok) {
+      console.warn(`[workspaces] ${result.reason}`);
+      return;
+    }
+    const applied = applyWorkspaceDirectory(result.entries);
+    setWorkspaceRegistry(applied.workspaces);
+    if (requireCapability('MANAGE_WORKSPACES').ok) applied.unpublished.forEach(publishWorkspace);
+  };
+
+  useEffect(() => {
+    if (!workspaceRoles) return;
+    const registry = ensureWorkspaceEntries(Object.keys(workspaceRoles));
+    setWorkspaceRegistry(registry);
+    void refreshWorkspaceDirectory(registry.map(workspace => workspace.id));
+  }, [workspaceRoles]);
+
+  const activeWorkspaceId = getActiveWorkspaceId();
+  const activeWorkspace = workspaceRegistry.find(workspace => workspace.id === activeWorkspaceId) || getActiveWorkspace();
+  // With per-workspace memberships only granted workspaces are offered; the current one always stays listed.
+  const workspaces = workspaceRoles
+    ? workspaceRegistry.filter(workspace => workspace.id === activeWorkspaceId || workspace.id === DEFAULT_WORKSPACE_ID || Boolean(workspaceRoles[workspace.id]))
+    : workspaceRegistry;
+
+  const switchWorkspace = async (workspaceId: string): Promise<{ ok: boolean; reason?: string }> => {
+    if (workspaceId === activeWorkspaceId) return { ok: true };
+    if (!workspaces.some(workspace => workspace.id === workspaceId)) {
+      return { ok: false, reason: 'You have no role in that workspace.' };
+    }
+    if (publishDebounceRef.current !== null) {
+      clearTimeout(publishDebounceRef.current);
+      publishDebounceRef.current = null;
+    }
+    await flushLocalDatabase();
+    if (!setActiveWorkspaceId(workspaceId)) return { ok: false, reason: 'Workspace not found.' };
+    window.location.reload();
+    return { ok: true };
+  };
+
+  const createWorkspace = (draft: WorkspaceDraft): { ok: boolean; reason?: string; workspace?: Workspace } => {
+    const permission = requireCapability('MANAGE_WORKSPACES');
+    if (!permission.ok) return permission;
+    const result = createWorkspaceEntry(draft);
+    if (!result.ok || !result.workspace) return result;
+    setWorkspaceRegistry(getWorkspaces());
+    publishWorkspace(result.workspace);
+    recordAudit([{ entityType: 'WORKSPACE', entityId: result.workspace.id, entityLabel: result.workspace.name, action: 'CREATE', after: toWorkspaceAuditRecord(result.workspace) }]);
+    return result;
+  };
+
+  const updateWorkspace = (
+    workspaceId: string,
+    updates: { name?: string; syncDocId?: string; branding?: Partial<WorkspaceBranding> }
+  ): { ok: boolean; reason?: string; workspace?: Workspace } => {
+    const permission = requireCapability('MANAGE_WORKSPACES');
+    if (!permission.ok) return permission;
+    const before = workspaceRegistry.find(workspace => workspace.id === workspaceId);
+    const result = updateWorkspaceEntry(workspaceId, updates);
+    if (!result.ok || !result.workspace) return result;
+    setWorkspaceRegistry(getWorkspaces());
+    publishWorkspace(result.workspace);
+    recordAudit([{ entityType: 'WORKSPACE', entityId: workspaceId, entityLabel: result.workspace.name, action: 'UPDATE', before: before ? toWorkspaceAuditRecord(before) : undefined, after: toWorkspaceAuditRecord(result.workspace) }]);
+    return result;
+  };
+
   return (
     <StoreContext.Provider value={{ 
-      trips, deletedTrips, drivers, customers, creditLedger, receipts, settings, alerts, theme, toggleTheme,
-      addTrip, updateTripField, updateFullTrip, deleteCancelledTrip, restoreDeletedTrip, dismissAlert, snoozeAlert, resolveAlert,
-      addCustomers, removeCustomerByPhone, addCreditLedgerEntry, settleCreditLedgerEntry, addDriver, editDriver, removeDriver, updateSettings, refreshData, forceCloudSyncPublish, hardResetCloudSync 
+      trips, deletedTrips, drivers, customers, creditLedger, receipts, tripSeries, invoices, settings, alerts, syncConflicts, syncOutbox, localWriteError, auditLog, alertHistory, theme, toggleTheme,
+      addTrip, updateTripField, updateFullTrip, deleteCancelledTrip, restoreDeletedTrip, getMessageTransportKind, sendTripMessage,
+      addTripSeries, updateTripSeries, skipSeriesOccurrence, cancelSeriesOccurrence, dismissAlert, snoozeAlert, resolveAlert, acknowledgeAlert,
+      addCustomers, removeCustomerByPhone, addCreditLedgerEntry, settleCreditLedgerEntry, recordCreditLedgerPayment, closeDriverPayoutStatement, createCustomerInvoice, payCustomerInvoice, addDriver, editDriver, removeDriver, updateSettings, importSystemBackup, restoreSystemSnapshot, refreshData, forceCloudSyncPublish, resolveSyncConflict, retrySyncOutbox, retryLocalWrites, hardResetCloudSync,
+      activeWorkspace, workspaces, switchWorkspace, createWorkspace, updateWorkspace
     }}>
       {children}
     </StoreContext.Provider>
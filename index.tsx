@@ -2,6 +2,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { AppErrorBoundary } from './components/AppErrorBoundary';
+import { LocalDatabaseUnavailable } from './components/LocalDatabaseUnavailable';
+import { initializeLocalDatabase } from './services/localDatabase';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -10,10 +12,18 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <AppErrorBoundary>
-      <App />
-    </AppErrorBoundary>
-  </React.StrictMode>
-);
\ No newline at end of file
+
+// Storage getters are synchronous, so the IndexedDB cache has to be hydrated before the first render.
+void initializeLocalDatabase().then(status => {
+  root.render(
+    <React.StrictMode>
+      {status.backend === 'unavailable' ? (
+        <LocalDatabaseUnavailable message={status.error} />
+      ) : (
+        <AppErrorBoundary>
+          <App />
+        </AppErrorBoundary>
+      )}
+    </React.StrictMode>
+  );
+});
\ No newline at end of file
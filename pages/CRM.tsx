@@ -3,7 +3,7 @@ import React, { useMemo, useState, useRef, useEffect, useCallback } from 'react'
 import { useLocation } from 'react-router-dom';
 import { useStore } from '../context/StoreContext';
 import { useAuth } from '../context/AuthContext';
-import { Trip, TripStatus, Driver, Customer, CustomerEntityType, CustomerGender, CustomerLocation, CustomerMarketSegment, CustomerProfileEvent, DriverFuelLogEntry, DriverCostResponsibility, DriverVehicleOwnership, Settings, CreditLedgerEntry, ReceiptRecord, CreditPartyType, CreditCycle, TripPaymentMode, TripSettlementStatus } from '../types';
+import { Trip, TripStatus, Driver, Customer, CustomerEntityType, CustomerGender, CustomerLocation, CustomerMarketSegment, CustomerProfileEvent, DriverFuelLogEntry, DriverCostResponsibility, DriverVehicleOwnership, Settings, CreditLedgerEntry, ReceiptRecord, CreditPartyType, CreditCycle, CreditPaymentMethod, PaymentCurrency, CustomerInvoice, TripPaymentMode, TripSettlementStatus, SyncConflict, SyncConflictChoice, AuditLogEntry, WorkspaceBranding } from '../types';
 import { 
   User, Users, Phone, MapPin, Search, Calendar, Star, DollarSign, 
   ShieldCheck, ArrowLeft, History, Award, AlertCircle,
@@ -14,21 +14,33 @@ import {
   X, Info, ChevronLeft, Download, Database, ShieldAlert,
   Archive, FileText, Share2, HardDrive, BarChart3, PieChart,
   ArrowUpRight, ArrowDownRight, Briefcase, ShieldQuestion,
-  UserCheck, AlertOctagon, Heart, Map, ArrowUpDown, Loader2, UserX
+  UserCheck, AlertOctagon, Heart, Map, ArrowUpDown, Loader2, UserX, Lock
 } from 'lucide-react';
 import { format, parseISO, differenceInDays, isToday, subDays } from 'date-fns';
 import * as Storage from '../services/storageService';
+import { decryptBackupEnvelope, EncryptedBackupEnvelope, encryptBackupPayload, isEncryptedBackupEnvelope, validateBackupPassphrase } from '../services/backupCrypto';
 import { parseContactsImport, ContactImportCandidate } from '../services/contactImport';
 import { buildWhatsAppLink, normalizePhoneForWhatsApp } from '../services/whatsapp';
 import { buildCustomerFromImportedContact, customerPhoneKey, mergeCustomerCollections } from '../services/customerProfile';
 import { parseGoogleMapsLink, parseGpsOrLatLngInput } from '../services/locationParser';
-import { createSyncSignature, fetchCloudSyncSignature, getCloudSyncDocId } from '../services/cloudSyncService';
-import { DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT, DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT, DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT } from '../constants';
-import { exportReceiptPdfFriendly } from '../services/receiptExport';
+import { createSyncSignature, fetchCloudSyncSignature, getCloudSyncDocId, getOrCreateCloudSyncClientId } from '../services/cloudSyncService';
+import { exportReceiptPdfFriendly, exportDriverPayoutStatementPdfFriendly } from '../services/receiptExport';
+import { DriverPayoutStatement, getCompanyShareForDriver, getFuelCostWeight } from '../services/driverPayout';
+import { CREDIT_PAYMENT_METHOD_LABELS, getCreditEntryPaidUsd, getCreditEntryRemainingUsd, isCreditEntryOutstanding } from '../services/creditLedger';
+import { DriverPayoutPanel } from '../components/DriverPayoutPanel';
+import { CustomerInvoicePanel } from '../components/CustomerInvoicePanel';
+import { SyncConflictPanel } from '../components/SyncConflictPanel';
+import { SnapshotBrowserPanel } from '../components/SnapshotBrowserPanel';
+import { BackupRestorePreview } from '../components/BackupRestorePreview';
+import { AuditLogPanel } from '../components/AuditLogPanel';
+import { PermissionNotice } from '../components/PermissionNotice';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, describeAuditActor, getEntityAuditHistory } from '../services/auditLog';
 import { truncateUiText, UI_TAG_MAX_CHARS } from '../services/uiText';
 import { buildDriverSearchText, matchesFleetQuery } from '../services/fleetDirectory';
+import { flushLocalDatabase } from '../services/localDatabase';
+import { BackupDiff, buildBackupDiff, buildDefaultRestoreSelection, describeRestoreChanges, isRestoreSelectionEmpty, RestoreSelection } from '../services/backupDiff';
 
-type ViewMode = 'CUSTOMERS' | 'FLEET' | 'FINANCE' | 'VAULT';
+type ViewMode = 'CUSTOMERS' | 'FLEET' | 'FINANCE' | 'VAULT' | 'AUDIT';
 type CustomerSort = 'SPEND' | 'RECENCY' | 'FREQUENCY';
 
 interface FleetUnitStats {
@@ -145,48 +157,12 @@ const responsibilityLabelMap: Record<DriverCostResponsibility, string> = {
   SHARED: 'Shared',
 };
 
-const getFuelCostWeight = (responsibility?: DriverCostResponsibility): number => {
-  if (responsibility === 'DRIVER') return 0;
-  if (responsibility === 'SHARED') return 0.5;
-  return 1;
-};
 
 const getTripPaymentMode = (trip: Trip): TripPaymentMode => (trip.paymentMode === 'CREDIT' ? 'CREDIT' : 'CASH');
 const getTripSettlementStatus = (trip: Trip): TripSettlementStatus => (trip.settlementStatus || 'PENDING');
 
-const clampSharePercent = (value: unknown, fallback: number): number => {
-  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
-  return Math.max(0, Math.min(100, value));
-};
-
-const getCompanyShareForDriver = (driver: Driver, settings: Settings): { rate: number; label: string } => {
-  const ownerDriverPercent = clampSharePercent(settings.ownerDriverCompanySharePercent, DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT);
-  const companyCarDriverGasPercent = clampSharePercent(settings.companyCarDriverGasCompanySharePercent, DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT);
-  const otherPercent = clampSharePercent(settings.otherDriverCompanySharePercent, DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT);
-
-  const overrideRaw = typeof driver.companyShareOverridePercent === 'number' && Number.isFinite(driver.companyShareOverridePercent)
-    ? Math.max(0, Math.min(100, driver.companyShareOverridePercent))
-    : null;
-
-  if (overrideRaw !== null) {
-    return { rate: overrideRaw / 100, label: 'MANUAL OVERRIDE' };
-  }
-
-  const ownerPaysOps =
-    driver.vehicleOwnership === 'OWNER_DRIVER' &&
-    driver.fuelCostResponsibility === 'DRIVER' &&
-    driver.maintenanceResponsibility === 'DRIVER';
 
-  if (ownerPaysOps) {
-    return { rate: ownerDriverPercent / 100, label: 'OWNER + GAS + MAINT' };
-  }
-
-  if (driver.vehicleOwnership === 'COMPANY_FLEET' && driver.fuelCostResponsibility === 'DRIVER') {
-    return { rate: companyCarDriverGasPercent / 100, label: 'COMPANY CAR + DRIVER GAS' };
-  }
-
-  return { rate: otherPercent / 100, label: 'OTHER CONFIG RULE' };
-};
+const AUDIT_FEED_LIMIT = 200;
 
 interface VaultFeedItem {
   id: string;
@@ -213,6 +189,14 @@ interface PendingVaultImport {
   fileName: string;
   payload: unknown;
   inspection: Storage.BackupInspection;
+  diff: BackupDiff;
+  selection: RestoreSelection;
+  encrypted?: boolean;
+}
+
+interface LockedVaultImport {
+  fileName: string;
+  envelope: EncryptedBackupEnvelope;
 }
 
 interface PendingContactsImport {
@@ -269,8 +253,11 @@ const getLoyaltyTierTone = (tier?: 'VIP' | 'VVIP' | 'REGULAR' | 'NEW') => {
 };
 
 export const CRMPage: React.FC = () => {
-  const { trips, deletedTrips, drivers, customers, creditLedger, receipts, alerts, settings, editDriver, addDriver, addCustomers, removeCustomerByPhone, addCreditLedgerEntry, settleCreditLedgerEntry, removeDriver, refreshData, hardResetCloudSync } = useStore();
-  const { hasCoreAccess } = useAuth();
+  const { trips, deletedTrips, drivers, customers, creditLedger, receipts, tripSeries, invoices, alerts, syncConflicts, settings, editDriver, addDriver, addCustomers, removeCustomerByPhone, addCreditLedgerEntry, settleCreditLedgerEntry, recordCreditLedgerPayment, closeDriverPayoutStatement, createCustomerInvoice, payCustomerInvoice, removeDriver, refreshData, resolveSyncConflict, importSystemBackup, restoreSystemSnapshot, hardResetCloudSync, auditLog, activeWorkspace } = useStore();
+  const { hasCoreAccess, denialReason } = useAuth();
+  const fleetLockedReason = denialReason('MANAGE_FLEET');
+  const financeLockedReason = denialReason('FINANCE_ACTIONS');
+  const vaultLockedReason = denialReason('VAULT_MANAGE');
   const location = useLocation();
   const [activeView, setActiveView] = useState<ViewMode>('CUSTOMERS');
   const [metricsWindow, setMetricsWindow] = useState<'TODAY' | '7D' | '30D' | 'ALL'>('ALL');
@@ -285,6 +272,9 @@ export const CRMPage: React.FC = () => {
   const [vaultClearArmed, setVaultClearArmed] = useState(false);
   const [vaultBusyAction, setVaultBusyAction] = useState<'EXPORT' | 'IMPORT' | 'CLEAR' | null>(null);
   const [pendingVaultImport, setPendingVaultImport] = useState<PendingVaultImport | null>(null);
+  const [lockedVaultImport, setLockedVaultImport] = useState<LockedVaultImport | null>(null);
+  const [vaultImportPassphrase, setVaultImportPassphrase] = useState('');
+  const [vaultExportPassphrase, setVaultExportPassphrase] = useState('');
   const [vaultSyncStatus, setVaultSyncStatus] = useState<'IDLE' | 'CHECKING' | 'VERIFIED' | 'NOT_VERIFIED'>('IDLE');
   const [vaultSyncDetail, setVaultSyncDetail] = useState('');
   const [vaultLastVerifiedAt, setVaultLastVerifiedAt] = useState<number | null>(null);
@@ -299,14 +289,14 @@ export const CRMPage: React.FC = () => {
   const crmLoadDoneRef = useRef<number | null>(null);
 
   const now = new Date();
-  const showOverviewMode = !selectedItem && (activeView === 'FINANCE' || activeView === 'VAULT');
+  const showOverviewMode = !selectedItem && (activeView === 'FINANCE' || activeView === 'VAULT' || activeView === 'AUDIT');
   const mobileCoreEligible = activeView === 'CUSTOMERS' || activeView === 'FLEET';
   const showMobileCorePanel = mobileCoreEligible && !selectedItem && mobilePaneMode === 'CORE';
   const showDetailPanel = Boolean(selectedItem || showOverviewMode || showMobileCorePanel);
   const syncChannel = getCloudSyncDocId();
   const localVaultSyncFingerprint = useMemo(
     () => createSyncSignature(Storage.getFullSystemData({ includeSettings: true })),
-    [trips, deletedTrips, drivers, customers, alerts, creditLedger, receipts, settings]
+    [trips, deletedTrips, drivers, customers, alerts, creditLedger, receipts, tripSeries, invoices, settings]
   );
   const contactPickerSupported = typeof navigator !== 'undefined' && typeof (navigator as any).contacts?.select === 'function';
   const savedPlacesSectionId = (phone: string) => `saved-places-${customerPhoneKey(phone)}`;
@@ -339,6 +329,11 @@ export const CRMPage: React.FC = () => {
       return;
     }
 
+    if (tab === 'audit') {
+      setActiveView(hasCoreAccess ? 'AUDIT' : 'CUSTOMERS');
+      return;
+    }
+
     if (tab === 'fleet') {
       setActiveView('FLEET');
       return;
@@ -351,7 +346,7 @@ export const CRMPage: React.FC = () => {
 
   useEffect(() => {
     if (hasCoreAccess) return;
-    if (activeView === 'FINANCE' || activeView === 'VAULT') {
+    if (activeView === 'FINANCE' || activeView === 'VAULT' || activeView === 'AUDIT') {
       setActiveView('CUSTOMERS');
       setSelectedItem(null);
     }
@@ -373,21 +368,27 @@ export const CRMPage: React.FC = () => {
       ? 'Search Yield Units...'
       : activeView === 'VAULT'
         ? 'Search Vault Actions...'
-        : 'Intelligence Search...';
+        : activeView === 'AUDIT'
+          ? 'Search Audit Trail...'
+          : 'Intelligence Search...';
 
   const emptyStateTitle =
     activeView === 'FINANCE'
       ? 'No Financial Matches'
       : activeView === 'VAULT'
         ? 'No Vault Matches'
-        : 'No Matches Identified';
+        : activeView === 'AUDIT'
+          ? 'No Audit Entries'
+          : 'No Matches Identified';
 
   const emptyStateSubtitle =
     activeView === 'FINANCE'
       ? 'Search by driver name or plate number'
       : activeView === 'VAULT'
         ? 'Search by action name or purpose'
-        : 'Refine search parameters';
+        : activeView === 'AUDIT'
+          ? 'Search by record, user, or action'
+          : 'Refine search parameters';
 
     const metricsWindowLabel = metricsWindow === 'ALL'
       ? 'ALL-TIME'
@@ -531,8 +532,11 @@ export const CRMPage: React.FC = () => {
     if (activeView === 'FINANCE') {
       return `finance:${drivers.length}:${trips.length}:${creditLedger.length}:${receipts.length}`;
     }
+    if (activeView === 'AUDIT') {
+      return `audit:${auditLog.length}`;
+    }
     return `vault:${trips.length}:${drivers.length}:${customers.length}:${syncChannel}:${vaultSyncStatus}`;
-  }, [activeView, trips.length, customers.length, alerts.length, drivers.length, creditLedger.length, receipts.length, syncChannel, vaultSyncStatus]);
+  }, [activeView, trips.length, customers.length, alerts.length, drivers.length, creditLedger.length, receipts.length, auditLog.length, syncChannel, vaultSyncStatus]);
 
   useEffect(() => {
     if (!isProcessing) return;
@@ -650,7 +654,7 @@ export const CRMPage: React.FC = () => {
       const normalizedName = String(p.name || '').trim().toLowerCase();
       const clientOpenCredits = creditLedger.filter(entry =>
         entry.partyType === 'CLIENT' &&
-        entry.status === 'OPEN' &&
+        isCreditEntryOutstanding(entry) &&
         (
           (entry.partyId && customerPhoneKey(entry.partyId) === p.phone) ||
           (!entry.partyId && entry.partyName.trim().toLowerCase() === normalizedName)
@@ -717,7 +721,7 @@ export const CRMPage: React.FC = () => {
         commonDestinations: commonDests,
         requirementTrends: reqTrends,
         openCreditCount: clientOpenCredits.length,
-        openCreditUsd: clientOpenCredits.reduce((sum, entry) => sum + (Number(entry.amountUsd) || 0), 0),
+        openCreditUsd: clientOpenCredits.reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0),
         paidCreditCount: clientPaidCredits.length,
         paidCreditUsd: clientPaidCredits.reduce((sum, entry) => sum + (Number(entry.amountUsd) || 0), 0),
         receiptCount: clientReceipts.length,
@@ -758,7 +762,7 @@ export const CRMPage: React.FC = () => {
       const revenue = dTrips.reduce((acc, t) => acc + t.fareUsd, 0);
       const fuelSpendForWindow = getDriverFuelUsdForWindow(d, missionDistance);
       const accountableFuelSpend = fuelSpendForWindow * getFuelCostWeight(d.fuelCostResponsibility);
-      const openDriverCredits = creditLedger.filter(entry => entry.partyType === 'DRIVER' && entry.status === 'OPEN' && (entry.partyId === d.id || entry.partyName.trim().toLowerCase() === d.name.trim().toLowerCase()));
+      const openDriverCredits = creditLedger.filter(entry => entry.partyType === 'DRIVER' && isCreditEntryOutstanding(entry) && (entry.partyId === d.id || entry.partyName.trim().toLowerCase() === d.name.trim().toLowerCase()));
       const paidDriverCredits = creditLedger.filter(entry => entry.partyType === 'DRIVER' && entry.status === 'PAID' && (entry.partyId === d.id || entry.partyName.trim().toLowerCase() === d.name.trim().toLowerCase()));
       const driverReceipts = receipts.filter(receipt => receipt.partyType === 'DRIVER' && (receipt.partyId === d.id || receipt.partyName.trim().toLowerCase() === d.name.trim().toLowerCase()));
       const cashSettledUsd = dTrips
@@ -807,7 +811,7 @@ export const CRMPage: React.FC = () => {
         avgRating,
         ratingCount,
         openCreditCount: openDriverCredits.length,
-        openCreditUsd: openDriverCredits.reduce((sum, entry) => sum + (Number(entry.amountUsd) || 0), 0),
+        openCreditUsd: openDriverCredits.reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0),
         paidCreditCount: paidDriverCredits.length,
         paidCreditUsd: paidDriverCredits.reduce((sum, entry) => sum + (Number(entry.amountUsd) || 0), 0),
         receiptCount: driverReceipts.length,
@@ -906,6 +910,12 @@ export const CRMPage: React.FC = () => {
         subtitle: 'Restore from backup JSON',
         tone: 'RESTORE',
       },
+      {
+        id: 'SNAPSHOTS',
+        title: 'Snapshots',
+        subtitle: 'Point-in-time restore from local snapshots',
+        tone: 'RESTORE',
+      },
       {
         id: 'CLEAR',
         title: 'Hard Reset Sync',
@@ -1000,15 +1010,28 @@ export const CRMPage: React.FC = () => {
         return;
       }
 
+      const shouldEncrypt = vaultExportPassphrase.length > 0;
+      if (shouldEncrypt) {
+        const passphraseCheck = validateBackupPassphrase(vaultExportPassphrase);
+        if (!passphraseCheck.ok) {
+          setVaultStatusMessage(passphraseCheck.reason || 'Passphrase is too weak.');
+          return;
+        }
+      }
+
       const payload = Storage.getFullSystemData({ includeSettings: false });
-      const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+      const fileContent = shouldEncrypt ? await encryptBackupPayload(payload, vaultExportPassphrase) : payload;
+      const blob = new Blob([JSON.stringify(fileContent, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const anchor = document.createElement('a');
       anchor.href = url;
-      anchor.download = `control-backup-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+      anchor.download = `control-backup-${new Date().toISOString().replace(/[:.]/g, '-')}${shouldEncrypt ? '.encrypted' : ''}.json`;
       anchor.click();
       URL.revokeObjectURL(url);
-      setVaultStatusMessage('Backup exported safely (settings excluded).');
+      setVaultExportPassphrase('');
+      setVaultStatusMessage(shouldEncrypt
+        ? 'Encrypted backup exported (settings excluded). Keep the passphrase safe; it cannot be recovered.'
+        : 'Backup exported safely (settings excluded).');
     } catch {
       setVaultStatusMessage('Backup export failed.');
     } finally {
@@ -1029,13 +1052,22 @@ export const CRMPage: React.FC = () => {
       const raw = await file.text();
       const parsed = JSON.parse(raw);
       const inspection = Storage.inspectFullSystemBackup(parsed);
+      if (inspection.encrypted && isEncryptedBackupEnvelope(parsed)) {
+        setPendingVaultImport(null);
+        setVaultImportPassphrase('');
+        setLockedVaultImport({ fileName: file.name, envelope: parsed });
+        setVaultStatusMessage(inspection.error || 'Backup is encrypted. Enter its passphrase to unlock it.');
+        return;
+      }
       if (!inspection.isValid) {
         setPendingVaultImport(null);
         setVaultStatusMessage(inspection.error || 'Backup import failed. Invalid backup structure.');
         return;
       }
 
-      setPendingVaultImport({ fileName: file.name, payload: parsed, inspection });
+      setLockedVaultImport(null);
+      const diff = buildBackupDiff(parsed, Storage.getFullSystemData({ includeSettings: true }));
+      setPendingVaultImport({ fileName: file.name, payload: parsed, inspection, diff, selection: buildDefaultRestoreSelection(diff) });
       setVaultStatusMessage('Backup parsed. Review and confirm import to apply changes.');
     } catch {
       setVaultStatusMessage('Backup import failed. Invalid JSON or data format.');
@@ -1045,6 +1077,40 @@ export const CRMPage: React.FC = () => {
     }
   };
 
+  const handleVaultUnlockImport = async () => {
+    if (!lockedVaultImport) return;
+
+    setVaultBusyAction('IMPORT');
+    try {
+      const decrypted = await decryptBackupEnvelope(lockedVaultImport.envelope, vaultImportPassphrase);
+      if (!decrypted.ok) {
+        setVaultStatusMessage(decrypted.reason || 'Unable to decrypt backup.');
+        return;
+      }
+
+      const inspection = Storage.inspectFullSystemBackup(decrypted.payload);
+      if (!inspection.isValid) {
+        setVaultStatusMessage(inspection.error || 'Decrypted backup has an invalid structure.');
+        return;
+      }
+
+      const diff = buildBackupDiff(decrypted.payload, Storage.getFullSystemData({ includeSettings: true }));
+      setPendingVaultImport({
+        fileName: lockedVaultImport.fileName,
+        payload: decrypted.payload,
+        inspection,
+        diff,
+        selection: buildDefaultRestoreSelection(diff),
+        encrypted: true,
+      });
+      setLockedVaultImport(null);
+      setVaultImportPassphrase('');
+      setVaultStatusMessage('Backup decrypted. Review and confirm import to apply changes.');
+    } finally {
+      setVaultBusyAction(null);
+    }
+  };
+
   const handleVaultConfirmImport = async () => {
     if (!pendingVaultImport) return;
 
@@ -1056,19 +1122,14 @@ export const CRMPage: React.FC = () => {
         return;
       }
 
-      const result = Storage.restoreFullSystemData(pendingVaultImport.payload);
+      const result = importSystemBackup(pendingVaultImport.payload, pendingVaultImport.fileName || 'Backup file', pendingVaultImport.selection);
       if (!result.ok) {
-        setVaultStatusMessage(result.error || 'Backup import failed.');
+        setVaultStatusMessage(result.reason || 'Backup import failed.');
         return;
       }
 
-      refreshData();
       setPendingVaultImport(null);
-      const appliedSections = Object.entries(result.applied)
-        .filter(([, applied]) => applied)
-        .map(([name]) => name.toUpperCase())
-        .join(', ');
-      setVaultStatusMessage(`Backup import applied: ${appliedSections || 'NONE'}.`);
+      setVaultStatusMessage(`Backup import applied: ${describeRestoreChanges(result.changes || {}, Boolean(result.applied?.settings)) || 'no changes'}.`);
     } catch {
       setVaultStatusMessage('Backup import failed during restore.');
     } finally {
@@ -1076,12 +1137,23 @@ export const CRMPage: React.FC = () => {
     }
   };
 
+  const handleVaultImportSelectionChange = (selection: RestoreSelection) => {
+    setPendingVaultImport(current => (current ? { ...current, selection } : current));
+  };
+
   const handleVaultCancelImport = () => {
     setPendingVaultImport(null);
+    setLockedVaultImport(null);
+    setVaultImportPassphrase('');
     setVaultStatusMessage('Backup import canceled.');
   };
 
   const handleVaultClear = async () => {
+    if (vaultLockedReason) {
+      setVaultStatusMessage(vaultLockedReason);
+      return;
+    }
+
     if (!vaultClearArmed) {
       setVaultClearArmed(true);
       setVaultStatusMessage('Click Hard Reset again to confirm. This clears data and force-resets the current sync channel.');
@@ -1118,7 +1190,7 @@ export const CRMPage: React.FC = () => {
         setVaultSyncStatus('CHECKING');
         setVaultSyncDetail(`Switching to ${nextChannel}...`);
         window.setTimeout(() => {
-          window.location.reload();
+          void flushLocalDatabase().finally(() => window.location.reload());
         }, 3000);
       }
     } catch {
@@ -1134,6 +1206,15 @@ export const CRMPage: React.FC = () => {
     setVaultStatusMessage('Clear operation canceled.');
   };
 
+  const handleResolveSyncConflict = (conflictId: string, choice: SyncConflictChoice) => {
+    const result = resolveSyncConflict(conflictId, choice);
+    if (!result.ok) {
+      setVaultStatusMessage(result.reason || 'Unable to resolve conflict.');
+      return;
+    }
+    setVaultStatusMessage(choice === 'REMOTE' ? 'Conflict resolved with the remote value.' : 'Conflict resolved; local value kept.');
+  };
+
   const handleCopySyncChannel = async () => {
     try {
       await navigator.clipboard.writeText(syncChannel);
@@ -1177,8 +1258,18 @@ export const CRMPage: React.FC = () => {
         item.subtitle.toLowerCase().includes(lower)
       );
     }
+    if (activeView === 'AUDIT') {
+      return auditLog
+        .filter(entry =>
+          entry.entityLabel.toLowerCase().includes(lower) ||
+          describeAuditActor(entry).toLowerCase().includes(lower) ||
+          AUDIT_ACTION_LABELS[entry.action].toLowerCase().includes(lower) ||
+          AUDIT_ENTITY_LABELS[entry.entityType].toLowerCase().includes(lower)
+        )
+        .slice(0, AUDIT_FEED_LIMIT);
+    }
     return [];
-  }, [activeView, customerProfiles, fleetHealth, financeRows, vaultItems, searchTerm]);
+  }, [activeView, customerProfiles, fleetHealth, financeRows, vaultItems, auditLog, searchTerm]);
 
   const searchSuggestions = useMemo((): SearchSuggestion[] => {
     if (!searchTerm.trim()) return [];
@@ -1208,6 +1299,14 @@ export const CRMPage: React.FC = () => {
       }));
     }
 
+    if (activeView === 'AUDIT') {
+      return (filteredItems as AuditLogEntry[]).slice(0, 6).map(entry => ({
+        id: entry.id,
+        title: entry.entityLabel,
+        subtitle: `${AUDIT_ACTION_LABELS[entry.action]} · ${describeAuditActor(entry)}`,
+      }));
+    }
+
     return (filteredItems as VaultFeedItem[]).slice(0, 6).map(profile => ({
       id: profile.id,
       title: profile.title,
@@ -1221,6 +1320,10 @@ export const CRMPage: React.FC = () => {
   };
 
   const handleRefuel = (stats: FleetUnitStats) => {
+    if (fleetLockedReason) {
+      showCoreStatus(fleetLockedReason);
+      return;
+    }
     const currencyInput = window.prompt('Refuel currency (USD or LBP)', 'USD');
     if (currencyInput === null) return;
     const currency = currencyInput.trim().toUpperCase() === 'LBP' ? 'LBP' : (currencyInput.trim().toUpperCase() === 'USD' ? 'USD' : null);
@@ -1297,7 +1400,7 @@ export const CRMPage: React.FC = () => {
       return;
     }
 
-    editDriver({
+    const result = editDriver({
       ...stats.driver,
       vehicleOwnership: payload.vehicleOwnership,
       fuelCostResponsibility: payload.fuelCostResponsibility,
@@ -1307,6 +1410,10 @@ export const CRMPage: React.FC = () => {
         ? Math.max(0, Math.min(100, payload.companyShareOverridePercent))
         : undefined,
     });
+    if (!result.ok) {
+      showCoreStatus(result.reason || 'Unable to update asset governance.');
+      return;
+    }
     showCoreStatus(`Asset governance updated for ${stats.driver.name}.`);
   };
 
@@ -1510,8 +1617,7 @@ export const CRMPage: React.FC = () => {
           return false;
         }
 
-        existingDriverPhones.add(normalizedPhone);
-        addDriver({
+        const added = addDriver({
           id: `imp-driver-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 7)}`,
           name: contact.name,
           phone: normalizedPhone,
@@ -1531,6 +1637,9 @@ export const CRMPage: React.FC = () => {
           fuelRangeKm: 500,
           fuelLogs: [],
         });
+        if (!added.ok) return true;
+
+        existingDriverPhones.add(normalizedPhone);
         fleetAdded += 1;
         return false;
       });
@@ -1739,6 +1848,10 @@ export const CRMPage: React.FC = () => {
   };
 
   const handleRemoveFleetProfile = (stats: FleetUnitStats) => {
+    if (fleetLockedReason) {
+      showCoreStatus(fleetLockedReason);
+      return;
+    }
     const confirmed = window.confirm(`Remove ${stats.driver.name} from Fleet and keep/add as CRM contact?`);
     if (!confirmed) return;
 
@@ -1875,6 +1988,62 @@ export const CRMPage: React.FC = () => {
     showCoreStatus(receiptPrinted ? 'Credit entry settled and printable receipt generated.' : 'Credit entry settled. Receipt popup was blocked.');
   };
 
+  const handleRecordCreditPayment = (
+    entryId: string,
+    payload: { amount: number; currency: PaymentCurrency; method: CreditPaymentMethod; fxRate?: number; notes?: string }
+  ) => {
+    const result = recordCreditLedgerPayment(entryId, payload);
+    if (!result.ok || !result.receipt) {
+      showCoreStatus(result.reason || 'Unable to record payment.');
+      return;
+    }
+
+    const receiptPrinted = exportReceiptPdfFriendly(result.receipt, activeWorkspace.branding);
+    const remainingUsd = result.receipt.remainingUsd || 0;
+    const summary = remainingUsd > 0
+      ? `Payment of $${result.receipt.amountUsd.toFixed(2)} recorded · $${remainingUsd.toFixed(2)} remaining.`
+      : `Payment of $${result.receipt.amountUsd.toFixed(2)} recorded · entry settled.`;
+    showCoreStatus(receiptPrinted ? summary : `${summary} Receipt popup was blocked.`);
+  };
+
+  const handleCreateInvoice = (payload: { partyKey: string; cycle: CreditCycle; anchorDate: string }) => {
+    const result = createCustomerInvoice(payload);
+    if (!result.ok || !result.invoice) {
+      showCoreStatus(result.reason || 'Unable to issue invoice.');
+      return;
+    }
+    showCoreStatus(`Invoice #${result.invoice.invoiceNumber} issued for ${result.invoice.partyName} · $${result.invoice.totalUsd.toFixed(2)}.`);
+  };
+
+  const handlePayInvoice = (invoiceId: string) => {
+    const invoice = invoices.find(item => item.id === invoiceId);
+    if (!invoice) return;
+    const confirmed = window.confirm(`Mark invoice #${invoice.invoiceNumber} ($${invoice.totalUsd.toFixed(2)}) as paid? All ${invoice.lines.length} linked trips will be receipted.`);
+    if (!confirmed) return;
+
+    const result = payCustomerInvoice(invoiceId);
+    if (!result.ok || !result.receipt) {
+      showCoreStatus(result.reason || 'Unable to settle invoice.');
+      return;
+    }
+    showCoreStatus(`Invoice #${invoice.invoiceNumber} paid · receipt #${result.receipt.receiptNumber}.`);
+  };
+
+  const handleCloseDriverPayout = (statement: DriverPayoutStatement) => {
+    const direction = statement.netPayoutUsd < 0 ? 'collect from' : 'pay';
+    const confirmed = window.confirm(`Close ${statement.cycle.toLowerCase()} statement for ${statement.driverName} (${statement.periodLabel}) and ${direction} the driver $${Math.abs(statement.netPayoutUsd).toFixed(2)}? Open driver credits in this statement will be marked paid.`);
+    if (!confirmed) return;
+
+    const result = closeDriverPayoutStatement(statement);
+    if (!result.ok || !result.receipt) {
+      showCoreStatus(result.reason || 'Unable to close payout statement.');
+      return;
+    }
+
+    const printed = exportDriverPayoutStatementPdfFriendly(statement, { ...activeWorkspace.branding, receiptNumber: result.receipt.receiptNumber });
+    showCoreStatus(printed ? `Payout statement closed · receipt #${result.receipt.receiptNumber}.` : 'Payout statement closed. Statement popup was blocked.');
+  };
+
   const renderIntelligenceContent = () => {
     if (!selectedItem) {
       if (activeView === 'CUSTOMERS') {
@@ -1895,9 +2064,20 @@ export const CRMPage: React.FC = () => {
             drivers={drivers}
             onCreateCreditEntry={handleCreateCreditEntry}
             onSettleCreditEntry={handleSettleCreditEntry}
+            onRecordCreditPayment={handleRecordCreditPayment}
+            exchangeRate={settings.exchangeRate}
+            trips={trips}
+            invoices={invoices}
+            onCreateInvoice={handleCreateInvoice}
+            onPayInvoice={handlePayInvoice}
+            branding={activeWorkspace.branding}
+            lockedReason={financeLockedReason}
           />
         );
       }
+      if (activeView === 'AUDIT') {
+        return <AuditLogPanel entries={auditLog} />;
+      }
       if (activeView === 'VAULT') {
         return (
           <VaultConsoleView
@@ -1913,13 +2093,24 @@ export const CRMPage: React.FC = () => {
             busyAction={vaultBusyAction}
             pendingImport={pendingVaultImport}
             onExport={handleVaultExport}
+            exportPassphrase={vaultExportPassphrase}
+            onExportPassphraseChange={setVaultExportPassphrase}
+            lockedImportFileName={lockedVaultImport?.fileName || null}
+            importPassphrase={vaultImportPassphrase}
+            onImportPassphraseChange={setVaultImportPassphrase}
+            onUnlockImport={handleVaultUnlockImport}
+            onRestoreSnapshot={restoreSystemSnapshot}
             onImport={handleVaultImportClick}
+            onImportSelectionChange={handleVaultImportSelectionChange}
             onConfirmImport={handleVaultConfirmImport}
             onCancelImport={handleVaultCancelImport}
             onClear={handleVaultClear}
             onCancelClear={handleVaultClearCancel}
             onCopySyncChannel={handleCopySyncChannel}
             onRetrySyncAudit={handleVaultRetrySyncAudit}
+            syncConflicts={syncConflicts}
+            onResolveSyncConflict={handleResolveSyncConflict}
+            lockedReason={vaultLockedReason}
           />
         );
       }
@@ -1953,7 +2144,7 @@ export const CRMPage: React.FC = () => {
     if (activeView === 'FLEET') {
       const stats = fleetHealth.find(f => f.driver.id === selectedItem);
       if (!stats) return null;
-      return <FleetReadinessView stats={stats} onRefuel={() => handleRefuel(stats)} onUpdateGovernance={payload => handleUpdateFleetGovernance(stats, payload)} onRemoveFromFleet={() => handleRemoveFleetProfile(stats)} windowLabel={metricsWindowLabel} />;
+      return <FleetReadinessView stats={stats} onRefuel={() => handleRefuel(stats)} onUpdateGovernance={payload => handleUpdateFleetGovernance(stats, payload)} onRemoveFromFleet={() => handleRemoveFleetProfile(stats)} windowLabel={metricsWindowLabel} lockedReason={fleetLockedReason} />;
     }
 
     if (activeView === 'FINANCE') {
@@ -1970,6 +2161,10 @@ export const CRMPage: React.FC = () => {
             drivers={drivers}
             onCreateCreditEntry={handleCreateCreditEntry}
             onSettleCreditEntry={handleSettleCreditEntry}
+            onRecordCreditPayment={handleRecordCreditPayment}
+            exchangeRate={settings.exchangeRate}
+            branding={activeWorkspace.branding}
+            lockedReason={financeLockedReason}
           />
         );
       }
@@ -1982,8 +2177,27 @@ export const CRMPage: React.FC = () => {
           receipts={receipts}
           customers={customers}
           drivers={drivers}
+          driver={drivers.find(driver => driver.id === row.id)}
+          trips={trips}
+          settings={settings}
           onCreateCreditEntry={handleCreateCreditEntry}
           onSettleCreditEntry={handleSettleCreditEntry}
+          onRecordCreditPayment={handleRecordCreditPayment}
+          onCloseDriverPayout={handleCloseDriverPayout}
+          branding={activeWorkspace.branding}
+          lockedReason={financeLockedReason}
+        />
+      );
+    }
+
+    if (activeView === 'AUDIT') {
+      const entry = auditLog.find(item => item.id === selectedItem);
+      if (!entry) return null;
+      return (
+        <AuditLogPanel
+          entries={getEntityAuditHistory(auditLog, entry.entityType, entry.entityId)}
+          title={`${AUDIT_ENTITY_LABELS[entry.entityType]} History · ${entry.entityLabel}`}
+          highlightedEntryId={entry.id}
         />
       );
     }
@@ -2003,13 +2217,24 @@ export const CRMPage: React.FC = () => {
           busyAction={vaultBusyAction}
           pendingImport={pendingVaultImport}
           onExport={handleVaultExport}
+          exportPassphrase={vaultExportPassphrase}
+          onExportPassphraseChange={setVaultExportPassphrase}
+          lockedImportFileName={lockedVaultImport?.fileName || null}
+          importPassphrase={vaultImportPassphrase}
+          onImportPassphraseChange={setVaultImportPassphrase}
+          onUnlockImport={handleVaultUnlockImport}
+          onRestoreSnapshot={restoreSystemSnapshot}
           onImport={handleVaultImportClick}
+          onImportSelectionChange={handleVaultImportSelectionChange}
           onConfirmImport={handleVaultConfirmImport}
           onCancelImport={handleVaultCancelImport}
           onClear={handleVaultClear}
           onCancelClear={handleVaultClearCancel}
           onCopySyncChannel={handleCopySyncChannel}
           onRetrySyncAudit={handleVaultRetrySyncAudit}
+          syncConflicts={syncConflicts}
+          onResolveSyncConflict={handleResolveSyncConflict}
+          lockedReason={vaultLockedReason}
         />
       );
     }
@@ -2032,9 +2257,10 @@ export const CRMPage: React.FC = () => {
              { id: 'CUSTOMERS', label: 'Directory', icon: User },
              { id: 'FLEET', label: 'Fleet', icon: Gauge },
              { id: 'FINANCE', label: 'Yield', icon: DollarSign },
-             { id: 'VAULT', label: 'Vault', icon: Database }
+             { id: 'VAULT', label: 'Vault', icon: Database },
+             { id: 'AUDIT', label: 'Audit', icon: History }
            ]
-            .filter(tab => hasCoreAccess || (tab.id !== 'FINANCE' && tab.id !== 'VAULT'))
+            .filter(tab => hasCoreAccess || (tab.id !== 'FINANCE' && tab.id !== 'VAULT' && tab.id !== 'AUDIT'))
             .map(tab => (
              <button key={tab.id} onClick={() => { setActiveView(tab.id as ViewMode); setSelectedItem(null); }} className={`crm-tab-button flex items-center space-x-2.5 h-10 md:h-14 border-b-2 transition-all flex-shrink-0 ${activeView === tab.id ? 'border-brand-900 dark:border-emerald-500 text-brand-900 dark:text-emerald-500' : 'border-transparent text-slate-400 dark:text-slate-50'}`}><tab.icon size={14} /><span className="text-[10px] font-black uppercase tracking-widest">{tab.label}</span></button>
            ))}
@@ -2500,13 +2726,29 @@ export const CRMPage: React.FC = () => {
                 );
               }
 
+              if (activeView === 'AUDIT') {
+                const entry = item as AuditLogEntry;
+                return (
+                  <button key={entry.id} onClick={() => setSelectedItem(entry.id)} className={`w-full p-4 md:p-5 text-left border-b border-slate-100 dark:border-white/5 transition-all relative ${selectedItem === entry.id ? 'bg-brand-50 dark:bg-emerald-500/5 border-l-4 border-l-brand-900 dark:border-l-emerald-500' : 'hover:bg-slate-50 dark:hover:bg-white/5'}`}>
+                    <div className="flex justify-between items-center gap-2 mb-2">
+                      <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">{AUDIT_ENTITY_LABELS[entry.entityType]}</span>
+                      <span className={`text-[7px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest ${entry.action === 'DELETE' || entry.action === 'CLEAR' ? 'border-red-300 text-red-500 bg-red-500/5' : entry.action === 'UPDATE' ? 'border-amber-300 text-amber-600 bg-amber-500/5' : 'border-emerald-400 text-emerald-600 bg-emerald-500/5'}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                    </div>
+                    <h4 className="text-sm font-black uppercase tracking-tight truncate text-brand-900 dark:text-white leading-none mb-1">{entry.entityLabel}</h4>
+                    <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                      {describeAuditActor(entry)} · {format(new Date(entry.timestamp), 'MMM d, HH:mm')}
+                    </p>
+                  </button>
+                );
+              }
+
               const profile = item as VaultFeedItem;
               const id = profile.id;
               return (
                 <button key={id} onClick={() => setSelectedItem(id)} className={`w-full p-4 md:p-5 text-left border-b border-slate-100 dark:border-white/5 transition-all relative ${selectedItem === id ? 'bg-brand-50 dark:bg-emerald-500/5 border-l-4 border-l-brand-900 dark:border-l-emerald-500' : 'hover:bg-slate-50 dark:hover:bg-white/5'}`}>
                   <div className="flex justify-between items-start mb-2">
                     <div className={`w-10 h-10 rounded-xl flex items-center justify-center transition-colors ${selectedItem === id ? 'bg-brand-900 text-gold-400 dark:bg-white/10 dark:text-emerald-500' : 'bg-slate-100 text-slate-400 dark:bg-brand-900/50'}`}>
-                      {profile.id === 'EXPORT' ? <Download size={18} /> : profile.id === 'IMPORT' ? <Upload size={18} /> : profile.id === 'CLEAR' ? <Archive size={18} /> : <Database size={18} />}
+                      {profile.id === 'EXPORT' ? <Download size={18} /> : profile.id === 'IMPORT' ? <Upload size={18} /> : profile.id === 'SNAPSHOTS' ? <HardDrive size={18} /> : profile.id === 'CLEAR' ? <Archive size={18} /> : <Database size={18} />}
                     </div>
                     <span className={`text-[7px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest ${profile.tone === 'DANGER' ? 'border-red-300 text-red-500 bg-red-500/5' : profile.tone === 'SAFE' ? 'border-emerald-400 text-emerald-600 bg-emerald-500/5' : profile.tone === 'RESTORE' ? 'border-blue-300 text-blue-600 bg-blue-500/5' : 'border-amber-300 text-amber-600 bg-amber-500/5'}`}>{profile.tone}</span>
                   </div>
@@ -3438,7 +3680,8 @@ const FleetReadinessView: React.FC<{
   }) => void;
   onRemoveFromFleet: () => void;
   windowLabel: string;
-}> = ({ stats, onRefuel, onUpdateGovernance, onRemoveFromFleet, windowLabel }) => {
+  lockedReason?: string;
+}> = ({ stats, onRefuel, onUpdateGovernance, onRemoveFromFleet, windowLabel, lockedReason }) => {
   const driverPhoneKey = customerPhoneKey(stats.driver.phone);
   const driverCallHref = driverPhoneKey ? `tel:+${driverPhoneKey}` : '';
   const driverWhatsappHref = buildWhatsAppLink(driverPhoneKey) || '';
@@ -3626,7 +3869,9 @@ const FleetReadinessView: React.FC<{
             <button
               type="button"
               onClick={onRemoveFromFleet}
-              className="h-8 px-3 rounded-lg border border-red-300 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-[9px] font-black uppercase tracking-widest text-red-700 dark:text-red-300 inline-flex items-center"
+              disabled={Boolean(lockedReason)}
+              title={lockedReason}
+              className="h-8 px-3 rounded-lg border border-red-300 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-[9px] font-black uppercase tracking-widest text-red-700 dark:text-red-300 inline-flex items-center disabled:opacity-40 disabled:cursor-not-allowed"
             >
               Remove Fleet
             </button>
@@ -3777,10 +4022,13 @@ const FleetReadinessView: React.FC<{
                 fuelRangeKm: Number(fuelRangeDraft),
                 companyShareOverridePercent: companyShareOverrideDraft.trim() === '' ? undefined : Number(companyShareOverrideDraft),
               })}
-              className="h-10 rounded-xl border border-indigo-300 dark:border-indigo-900/40 bg-indigo-50 dark:bg-indigo-900/10 text-[10px] font-black uppercase tracking-widest text-indigo-700 dark:text-indigo-300"
+              disabled={Boolean(lockedReason)}
+              title={lockedReason}
+              className="h-10 rounded-xl border border-indigo-300 dark:border-indigo-900/40 bg-indigo-50 dark:bg-indigo-900/10 text-[10px] font-black uppercase tracking-widest text-indigo-700 dark:text-indigo-300 disabled:opacity-40 disabled:cursor-not-allowed"
             >
               Save Governance
             </button>
+            <PermissionNotice reason={lockedReason} />
           </div>
         </div>
 
@@ -3800,7 +4048,7 @@ const FleetReadinessView: React.FC<{
           </div>
           <div className="flex justify-between items-end">
             <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Est. Range: {Math.round((stats.fuelLevel/100) * (stats.driver.fuelRangeKm || 500))} KM</p>
-            <button onClick={onRefuel} className="flex items-center space-x-2 text-[10px] font-black uppercase text-gold-600 hover:text-gold-400 transition-colors"><RefreshCcw size={12}/> <span>Log Refuel</span></button>
+            <button onClick={onRefuel} disabled={Boolean(lockedReason)} title={lockedReason} className="flex items-center space-x-2 text-[10px] font-black uppercase text-gold-600 hover:text-gold-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"><RefreshCcw size={12}/> <span>Log Refuel</span></button>
           </div>
         </div>
       </div>
@@ -3871,8 +4119,15 @@ const FinanceCreditPanel: React.FC<{
     notes?: string;
   }) => void;
   onSettleCreditEntry: (entryId: string) => void;
+  onRecordCreditPayment: (
+    entryId: string,
+    payload: { amount: number; currency: PaymentCurrency; method: CreditPaymentMethod; fxRate?: number; notes?: string }
+  ) => void;
+  exchangeRate: number;
   filterDriverId?: string;
-}> = ({ entries, receipts, customers, drivers, onCreateCreditEntry, onSettleCreditEntry, filterDriverId }) => {
+  branding: WorkspaceBranding;
+  lockedReason?: string;
+}> = ({ entries, receipts, customers, drivers, onCreateCreditEntry, onSettleCreditEntry, onRecordCreditPayment, exchangeRate, filterDriverId, branding, lockedReason }) => {
   const [partyType, setPartyType] = useState<CreditPartyType>('CLIENT');
   const [cycle, setCycle] = useState<CreditCycle>('WEEKLY');
   const [partyId, setPartyId] = useState('');
@@ -3880,6 +4135,11 @@ const FinanceCreditPanel: React.FC<{
   const [amountUsd, setAmountUsd] = useState('');
   const [dueDate, setDueDate] = useState('');
   const [notes, setNotes] = useState('');
+  const [paymentEntryId, setPaymentEntryId] = useState<string | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentCurrency, setPaymentCurrency] = useState<PaymentCurrency>('USD');
+  const [paymentFxRate, setPaymentFxRate] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<CreditPaymentMethod>('CASH');
 
   useEffect(() => {
     if (filterDriverId) {
@@ -3910,8 +4170,8 @@ const FinanceCreditPanel: React.FC<{
     return entry.partyType === 'DRIVER' && entry.partyId === filterDriverId;
   });
 
-  const openEntries = filteredEntries.filter(entry => entry.status === 'OPEN');
-  const openBacklog = openEntries.reduce((sum, entry) => sum + entry.amountUsd, 0);
+  const openEntries = filteredEntries.filter(isCreditEntryOutstanding);
+  const openBacklog = openEntries.reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0);
   const recentReceipts = receipts
     .filter(receipt => {
       if (!filterDriverId) return true;
@@ -3933,13 +4193,16 @@ const FinanceCreditPanel: React.FC<{
       return text;
     };
 
-    const headers = ['entry_id', 'party_type', 'party_name', 'cycle', 'amount_usd', 'due_date', 'notes', 'created_at'];
+    const headers = ['entry_id', 'party_type', 'party_name', 'cycle', 'status', 'amount_usd', 'paid_usd', 'remaining_usd', 'due_date', 'notes', 'created_at'];
     const rows = openEntries.map(entry => [
       entry.id,
       entry.partyType,
       entry.partyName,
       entry.cycle,
+      entry.status,
       entry.amountUsd.toFixed(2),
+      getCreditEntryPaidUsd(entry).toFixed(2),
+      getCreditEntryRemainingUsd(entry).toFixed(2),
       entry.dueDate || '',
       entry.notes || '',
       entry.createdAt,
@@ -3975,6 +4238,26 @@ const FinanceCreditPanel: React.FC<{
     setNotes('');
   };
 
+  const openPaymentForm = (entry: CreditLedgerEntry) => {
+    setPaymentEntryId(entry.id);
+    setPaymentAmount(getCreditEntryRemainingUsd(entry).toFixed(2));
+    setPaymentCurrency('USD');
+    setPaymentFxRate(String(exchangeRate || ''));
+    setPaymentMethod('CASH');
+  };
+
+  const submitPayment = () => {
+    if (!paymentEntryId) return;
+    onRecordCreditPayment(paymentEntryId, {
+      amount: Number(paymentAmount),
+      currency: paymentCurrency,
+      method: paymentMethod,
+      ...(paymentCurrency === 'LBP' ? { fxRate: Number(paymentFxRate) } : {}),
+    });
+    setPaymentEntryId(null);
+    setPaymentAmount('');
+  };
+
   return (
     <div className="bg-white dark:bg-brand-900 border border-slate-200 dark:border-white/10 rounded-[2rem] p-6 md:p-8 space-y-5">
       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
@@ -3991,6 +4274,7 @@ const FinanceCreditPanel: React.FC<{
           Export Open CSV
         </button>
       </div>
+      <PermissionNotice reason={lockedReason} />
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
         <select value={partyType} onChange={event => { setPartyType(event.target.value as CreditPartyType); setPartyId(''); setPartySearch(''); }} className="h-10 rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-3 text-[10px] font-black uppercase tracking-widest">
@@ -4048,7 +4332,8 @@ const FinanceCreditPanel: React.FC<{
         <button
           type="button"
           onClick={submitCredit}
-          disabled={!partyId || !Number.isFinite(Number(amountUsd)) || Number(amountUsd) <= 0}
+          disabled={Boolean(lockedReason) || !partyId || !Number.isFinite(Number(amountUsd)) || Number(amountUsd) <= 0}
+          title={lockedReason}
           className="h-10 rounded-xl border border-blue-300 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-900/10 text-[10px] font-black uppercase tracking-widest text-blue-700 dark:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed"
         >
           Add Credit
@@ -4061,18 +4346,84 @@ const FinanceCreditPanel: React.FC<{
           {openEntries.length === 0 ? (
             <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400">No open credits.</p>
           ) : (
-            openEntries.slice(0, 8).map(entry => (
-              <div key={entry.id} className="flex items-center justify-between border border-slate-200 dark:border-white/10 rounded-lg px-3 py-2 bg-white dark:bg-brand-900">
-                <div>
-                  <p className="text-[9px] font-black uppercase tracking-widest text-brand-900 dark:text-slate-100">{entry.partyName}</p>
-                  <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400">{entry.partyType} · {entry.cycle} · {entry.dueDate || 'No due date'}</p>
-                </div>
-                <div className="text-right">
-                  <p className="text-[10px] font-black text-blue-700 dark:text-blue-300">${entry.amountUsd.toFixed(2)}</p>
-                  <button type="button" onClick={() => onSettleCreditEntry(entry.id)} className="text-[8px] font-black uppercase tracking-widest text-emerald-600">Settle + Receipt</button>
+            openEntries.slice(0, 8).map(entry => {
+              const payments = Array.isArray(entry.payments) ? entry.payments : [];
+              return (
+                <div key={entry.id} className="border border-slate-200 dark:border-white/10 rounded-lg px-3 py-2 bg-white dark:bg-brand-900 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-[9px] font-black uppercase tracking-widest text-brand-900 dark:text-slate-100">
+                        {entry.partyName}
+                        {entry.status === 'PARTIAL' && <span className="ml-1.5 px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-[7px] text-amber-700 dark:text-amber-300">Partial</span>}
+                      </p>
+                      <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400">{entry.partyType} · {entry.cycle} · {entry.dueDate || 'No due date'}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-[10px] font-black text-blue-700 dark:text-blue-300">${getCreditEntryRemainingUsd(entry).toFixed(2)}</p>
+                      {entry.status === 'PARTIAL' && <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400">of ${entry.amountUsd.toFixed(2)}</p>}
+                      <div className="flex items-center justify-end gap-2">
+                        <button type="button" onClick={() => openPaymentForm(entry)} disabled={Boolean(lockedReason)} title={lockedReason} className="text-[8px] font-black uppercase tracking-widest text-blue-600 disabled:opacity-40 disabled:cursor-not-allowed">Record Payment</button>
+                        <button type="button" onClick={() => onSettleCreditEntry(entry.id)} disabled={Boolean(lockedReason)} title={lockedReason} className="text-[8px] font-black uppercase tracking-widest text-emerald-600 disabled:opacity-40 disabled:cursor-not-allowed">Settle + Receipt</button>
+                      </div>
+                    </div>
+                  </div>
+                  {payments.length > 0 && (
+                    <div className="border-t border-slate-100 dark:border-white/5 pt-1.5 space-y-0.5">
+                      {payments.map(payment => (
+                        <p key={payment.id} className="text-[8px] font-bold uppercase tracking-widest text-slate-400">
+                          {format(parseISO(payment.paidAt), 'MMM d')} · {CREDIT_PAYMENT_METHOD_LABELS[payment.method]} · ${payment.amountUsd.toFixed(2)}
+                          {payment.currency === 'LBP' ? ` (${Math.round(payment.amountOriginal).toLocaleString()} LBP @ ${payment.fxRateSnapshot.toLocaleString()})` : ''}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  {paymentEntryId === entry.id && (
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2 border-t border-slate-100 dark:border-white/5 pt-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={paymentCurrency === 'LBP' ? 1000 : 0.01}
+                        value={paymentAmount}
+                        onChange={event => setPaymentAmount(event.target.value)}
+                        placeholder={`Amount ${paymentCurrency}`}
+                        className="h-8 rounded-lg border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-2 text-[9px] font-black uppercase tracking-widest"
+                      />
+                      <select value={paymentCurrency} onChange={event => setPaymentCurrency(event.target.value as PaymentCurrency)} className="h-8 rounded-lg border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-2 text-[9px] font-black uppercase tracking-widest">
+                        <option value="USD">USD</option>
+                        <option value="LBP">LBP</option>
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        value={paymentFxRate}
+                        onChange={event => setPaymentFxRate(event.target.value)}
+                        disabled={paymentCurrency !== 'LBP'}
+                        placeholder="FX Rate"
+                        className="h-8 rounded-lg border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-2 text-[9px] font-black uppercase tracking-widest disabled:opacity-40"
+                      />
+                      <select value={paymentMethod} onChange={event => setPaymentMethod(event.target.value as CreditPaymentMethod)} className="h-8 rounded-lg border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-2 text-[9px] font-black uppercase tracking-widest">
+                        {(Object.keys(CREDIT_PAYMENT_METHOD_LABELS) as CreditPaymentMethod[]).map(method => (
+                          <option key={method} value={method}>{CREDIT_PAYMENT_METHOD_LABELS[method]}</option>
+                        ))}
+                      </select>
+                      <div className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          onClick={submitPayment}
+                          disabled={!Number.isFinite(Number(paymentAmount)) || Number(paymentAmount) <= 0}
+                          className="h-8 flex-1 rounded-lg border border-emerald-200 dark:border-emerald-900/40 bg-emerald-50 dark:bg-emerald-900/10 text-[8px] font-black uppercase tracking-widest text-emerald-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          Save
+                        </button>
+                        <button type="button" onClick={() => setPaymentEntryId(null)} className="h-8 px-2 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-400">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
 
@@ -4090,7 +4441,7 @@ const FinanceCreditPanel: React.FC<{
                   <p className="text-[10px] font-black text-emerald-600">${receipt.amountUsd.toFixed(2)}</p>
                   <button
                     type="button"
-                    onClick={() => exportReceiptPdfFriendly(receipt, { companyName: "Andrew's Taxi" })}
+                    onClick={() => exportReceiptPdfFriendly(receipt, branding)}
                     className="h-6 px-2 rounded-md border border-indigo-200 dark:border-indigo-900/40 bg-indigo-50 dark:bg-indigo-900/10 text-[8px] font-black uppercase tracking-widest text-indigo-700 dark:text-indigo-300"
                   >
                     PDF
@@ -4123,7 +4474,18 @@ const FinanceOverviewView: React.FC<{
     notes?: string;
   }) => void;
   onSettleCreditEntry: (entryId: string) => void;
-}> = ({ totals, rows, windowLabel, creditLedger, receipts, customers, drivers, onCreateCreditEntry, onSettleCreditEntry }) => (
+  onRecordCreditPayment: (
+    entryId: string,
+    payload: { amount: number; currency: PaymentCurrency; method: CreditPaymentMethod; fxRate?: number; notes?: string }
+  ) => void;
+  exchangeRate: number;
+  trips: Trip[];
+  invoices: CustomerInvoice[];
+  onCreateInvoice: (payload: { partyKey: string; cycle: CreditCycle; anchorDate: string }) => void;
+  onPayInvoice: (invoiceId: string) => void;
+  branding: WorkspaceBranding;
+  lockedReason?: string;
+}> = ({ totals, rows, windowLabel, creditLedger, receipts, customers, drivers, onCreateCreditEntry, onSettleCreditEntry, onRecordCreditPayment, exchangeRate, trips, invoices, onCreateInvoice, onPayInvoice, branding, lockedReason }) => (
   <div className="space-y-8 md:space-y-12 animate-in fade-in duration-700">
     <div className="border-b border-slate-200 dark:border-white/10 pb-6">
       <h2 className="text-3xl md:text-5xl font-black tracking-tighter uppercase text-brand-900 dark:text-white">Yield Command</h2>
@@ -4183,6 +4545,20 @@ const FinanceOverviewView: React.FC<{
       drivers={drivers}
       onCreateCreditEntry={onCreateCreditEntry}
       onSettleCreditEntry={onSettleCreditEntry}
+      onRecordCreditPayment={onRecordCreditPayment}
+      exchangeRate={exchangeRate}
+      branding={branding}
+      lockedReason={lockedReason}
+    />
+
+    <CustomerInvoicePanel
+      trips={trips}
+      creditLedger={creditLedger}
+      invoices={invoices}
+      branding={branding}
+      onCreateInvoice={onCreateInvoice}
+      onPayInvoice={onPayInvoice}
+      lockedReason={lockedReason}
     />
   </div>
 );
@@ -4205,7 +4581,17 @@ const FinancePerformanceView: React.FC<{
     notes?: string;
   }) => void;
   onSettleCreditEntry: (entryId: string) => void;
-}> = ({ row, totals, windowLabel, creditLedger, receipts, customers, drivers, onCreateCreditEntry, onSettleCreditEntry }) => (
+  onRecordCreditPayment: (
+    entryId: string,
+    payload: { amount: number; currency: PaymentCurrency; method: CreditPaymentMethod; fxRate?: number; notes?: string }
+  ) => void;
+  driver?: Driver;
+  trips: Trip[];
+  settings: Settings;
+  onCloseDriverPayout: (statement: DriverPayoutStatement) => void;
+  branding: WorkspaceBranding;
+  lockedReason?: string;
+}> = ({ row, totals, windowLabel, creditLedger, receipts, customers, drivers, driver, trips, settings, onCreateCreditEntry, onSettleCreditEntry, onRecordCreditPayment, onCloseDriverPayout, branding, lockedReason }) => (
   <div className="space-y-8 md:space-y-12 animate-in fade-in duration-700">
     <div className="flex flex-col md:flex-row md:items-center justify-between border-b border-slate-200 dark:border-white/10 pb-6 gap-4">
       <div>
@@ -4253,6 +4639,19 @@ const FinancePerformanceView: React.FC<{
       </div>
     </div>
 
+    {driver && (
+      <DriverPayoutPanel
+        driver={driver}
+        trips={trips}
+        creditLedger={creditLedger}
+        receipts={receipts}
+        settings={settings}
+        branding={branding}
+        onCloseStatement={onCloseDriverPayout}
+        lockedReason={lockedReason}
+      />
+    )}
+
     <FinanceCreditPanel
       entries={creditLedger}
       receipts={receipts}
@@ -4260,7 +4659,11 @@ const FinancePerformanceView: React.FC<{
       drivers={drivers}
       onCreateCreditEntry={onCreateCreditEntry}
       onSettleCreditEntry={onSettleCreditEntry}
+      onRecordCreditPayment={onRecordCreditPayment}
+      exchangeRate={settings.exchangeRate}
       filterDriverId={row.id}
+      branding={branding}
+      lockedReason={lockedReason}
     />
   </div>
 );
@@ -4278,18 +4681,30 @@ const VaultConsoleView: React.FC<{
   busyAction: 'EXPORT' | 'IMPORT' | 'CLEAR' | null;
   pendingImport: PendingVaultImport | null;
   onExport: () => void;
+  exportPassphrase: string;
+  onExportPassphraseChange: (value: string) => void;
+  lockedImportFileName: string | null;
+  importPassphrase: string;
+  onImportPassphraseChange: (value: string) => void;
+  onUnlockImport: () => void;
+  onRestoreSnapshot: (snapshotId: string, mode: 'merge' | 'replace', selection?: RestoreSelection) => Promise<{ ok: boolean; reason?: string; applied?: Storage.RestoreResult['applied']; changes?: Storage.RestoreResult['changes'] }>;
   onImport: () => void;
+  onImportSelectionChange: (selection: RestoreSelection) => void;
   onConfirmImport: () => void;
   onCancelImport: () => void;
   onClear: () => void;
   onCancelClear: () => void;
   onCopySyncChannel: () => void;
   onRetrySyncAudit: () => void;
-}> = ({ selectedActionId, counts, statusMessage, syncStatus, syncDetail, lastVerifiedAt, consecutiveFailures, syncChannel, clearArmed, busyAction, pendingImport, onExport, onImport, onConfirmImport, onCancelImport, onClear, onCancelClear, onCopySyncChannel, onRetrySyncAudit }) => {
+  syncConflicts: SyncConflict[];
+  onResolveSyncConflict: (conflictId: string, choice: SyncConflictChoice) => void;
+  lockedReason?: string;
+}> = ({ selectedActionId, counts, statusMessage, syncStatus, syncDetail, lastVerifiedAt, consecutiveFailures, syncChannel, clearArmed, busyAction, pendingImport, onExport, exportPassphrase, onExportPassphraseChange, lockedImportFileName, importPassphrase, onImportPassphraseChange, onUnlockImport, onRestoreSnapshot, onImport, onImportSelectionChange, onConfirmImport, onCancelImport, onClear, onCancelClear, onCopySyncChannel, onRetrySyncAudit, syncConflicts, onResolveSyncConflict, lockedReason }) => {
   const actionLabels: Record<string, string> = {
     STATUS: 'System Status',
     EXPORT: 'Export Backup',
     IMPORT: 'Import Backup',
+    SNAPSHOTS: 'Snapshots',
     CLEAR: 'Hard Reset Sync',
   };
   const selectedLabel = selectedActionId ? `Selected: ${actionLabels[selectedActionId] || selectedActionId}` : 'Select a vault module from feed';
@@ -4298,6 +4713,7 @@ const VaultConsoleView: React.FC<{
   const showImport = !selectedActionId || selectedActionId === 'IMPORT';
   const showClear = !selectedActionId || selectedActionId === 'CLEAR';
   const isStatusFocus = selectedActionId === 'STATUS';
+  const isSnapshotFocus = selectedActionId === 'SNAPSHOTS';
   const syncBadge =
     syncStatus === 'VERIFIED'
       ? {
@@ -4376,11 +4792,19 @@ const VaultConsoleView: React.FC<{
         ))}
       </div>
 
+      <SyncConflictPanel
+        conflicts={syncConflicts}
+        currentClientId={getOrCreateCloudSyncClientId()}
+        onResolve={onResolveSyncConflict}
+      />
+
       <div className="bg-white dark:bg-brand-900 border border-slate-200 dark:border-white/10 rounded-[2rem] p-6 md:p-8 space-y-6">
         {isStatusFocus ? (
           <div className="rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-4 py-4">
-            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">Vault status selected. Use left feed to choose Export, Import, or Hard Reset actions.</p>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">Vault status selected. Use left feed to choose Export, Import, Snapshots, or Hard Reset actions.</p>
           </div>
+        ) : isSnapshotFocus ? (
+          <SnapshotBrowserPanel onRestore={onRestoreSnapshot} lockedReason={lockedReason} />
         ) : (
           <>
             <div className={`grid gap-3 ${showExport && showImport && showClear ? 'grid-cols-1 md:grid-cols-3' : 'grid-cols-1'}`}>
@@ -4388,36 +4812,91 @@ const VaultConsoleView: React.FC<{
                 <button onClick={onExport} disabled={busyAction !== null} className="h-12 rounded-xl border border-emerald-200 dark:border-emerald-900/40 bg-emerald-50 dark:bg-emerald-900/10 text-[10px] font-black uppercase tracking-widest text-emerald-700 hover:bg-emerald-100 dark:hover:bg-emerald-900/20 disabled:opacity-50">{busyAction === 'EXPORT' ? 'Exporting...' : 'Export Backup'}</button>
               )}
               {showImport && (
-                <button onClick={onImport} disabled={busyAction !== null} className="h-12 rounded-xl border border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-900/10 text-[10px] font-black uppercase tracking-widest text-blue-700 hover:bg-blue-100 dark:hover:bg-blue-900/20 disabled:opacity-50">{busyAction === 'IMPORT' ? 'Importing...' : 'Import Backup'}</button>
+                <button onClick={onImport} disabled={busyAction !== null || Boolean(lockedReason)} title={lockedReason} className="h-12 rounded-xl border border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-900/10 text-[10px] font-black uppercase tracking-widest text-blue-700 hover:bg-blue-100 dark:hover:bg-blue-900/20 disabled:opacity-50">{busyAction === 'IMPORT' ? 'Importing...' : 'Import Backup'}</button>
               )}
               {showClear && (
-                <button onClick={onClear} disabled={!canClear} className="h-12 rounded-xl border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-100 dark:hover:bg-red-900/20 disabled:opacity-50">{busyAction === 'CLEAR' ? 'Resetting...' : clearArmed ? 'Confirm Hard Reset' : 'Hard Reset Sync'}</button>
+                <button onClick={onClear} disabled={!canClear || Boolean(lockedReason)} title={lockedReason} className="h-12 rounded-xl border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-100 dark:hover:bg-red-900/20 disabled:opacity-50">{busyAction === 'CLEAR' ? 'Resetting...' : clearArmed ? 'Confirm Hard Reset' : 'Hard Reset Sync'}</button>
               )}
             </div>
+            {(showImport || showClear) && <PermissionNotice reason={lockedReason} />}
+
+            {showExport && (
+              <div className="rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-4 py-3 space-y-2">
+                <label htmlFor="vault-export-passphrase" className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">
+                  <Lock size={12} className="text-emerald-600" />
+                  Encrypt Export (Optional)
+                </label>
+                <input
+                  id="vault-export-passphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  value={exportPassphrase}
+                  onChange={event => onExportPassphraseChange(event.target.value)}
+                  placeholder="Passphrase · leave blank for plain JSON"
+                  className="w-full h-10 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-brand-900 px-3 text-[10px] font-bold tracking-wider"
+                />
+                <p className="text-[9px] font-bold uppercase tracking-wider text-slate-400">AES-GCM with a PBKDF2-derived key. A lost passphrase cannot be recovered.</p>
+              </div>
+            )}
+
+            {showImport && lockedImportFileName && (
+              <div className="border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 rounded-xl p-4 space-y-3">
+                <p className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-amber-700 dark:text-amber-300">
+                  <Lock size={12} />
+                  Encrypted Backup
+                </p>
+                <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">{lockedImportFileName}</p>
+                <input
+                  type="password"
+                  autoComplete="off"
+                  aria-label="Backup passphrase"
+                  value={importPassphrase}
+                  onChange={event => onImportPassphraseChange(event.target.value)}
+                  onKeyDown={event => {
+                    if (event.key === 'Enter' && importPassphrase) onUnlockImport();
+                  }}
+                  placeholder="Passphrase"
+                  className="w-full h-10 rounded-xl border border-amber-200 dark:border-amber-900/40 bg-white dark:bg-brand-950 px-3 text-[10px] font-bold tracking-wider"
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <button onClick={onUnlockImport} disabled={busyAction !== null || !importPassphrase} className="h-11 rounded-xl border border-amber-300 dark:border-amber-900/50 bg-white dark:bg-brand-950 text-[10px] font-black uppercase tracking-widest text-amber-700 dark:text-amber-300 disabled:opacity-50">{busyAction === 'IMPORT' ? 'Decrypting...' : 'Unlock Backup'}</button>
+                  <button onClick={onCancelImport} disabled={busyAction !== null} className="h-11 rounded-xl border border-slate-300 dark:border-white/20 bg-white dark:bg-brand-950 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 disabled:opacity-50">Cancel</button>
+                </div>
+              </div>
+            )}
 
             {showImport && pendingImport && (
               <div className="border border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-900/10 rounded-xl p-4 space-y-3">
                 <p className="text-[10px] font-black uppercase tracking-widest text-blue-700">Pending Import</p>
-                <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">{pendingImport.fileName}</p>
+                <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">{pendingImport.fileName}{pendingImport.encrypted ? ' · decrypted' : ''}</p>
                 <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">
                   V{pendingImport.inspection.version || 'Unknown'} · {pendingImport.inspection.counts.trips} trips · {pendingImport.inspection.counts.deletedTrips} deleted · {pendingImport.inspection.counts.drivers} drivers · {pendingImport.inspection.counts.customers} customers · {pendingImport.inspection.counts.alerts} alerts{pendingImport.inspection.hasSettings ? ' · settings' : ''}
                 </p>
+                <BackupRestorePreview
+                  diff={pendingImport.diff}
+                  selection={pendingImport.selection}
+                  onSelectionChange={onImportSelectionChange}
+                  disabled={busyAction !== null}
+                />
+                <p className="text-[9px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">
+                  Whole sections merge into current data. Picked records take the backup version; picked missing records are removed.
+                </p>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                  <button onClick={onConfirmImport} disabled={busyAction !== null} className="h-11 rounded-xl border border-blue-300 dark:border-blue-900/50 bg-white dark:bg-brand-950 text-[10px] font-black uppercase tracking-widest text-blue-700 disabled:opacity-50">{busyAction === 'IMPORT' ? 'Applying...' : 'Confirm Import'}</button>
+                  <button onClick={onConfirmImport} disabled={busyAction !== null || Boolean(lockedReason) || isRestoreSelectionEmpty(pendingImport.selection)} title={lockedReason} className="h-11 rounded-xl border border-blue-300 dark:border-blue-900/50 bg-white dark:bg-brand-950 text-[10px] font-black uppercase tracking-widest text-blue-700 disabled:opacity-50">{busyAction === 'IMPORT' ? 'Applying...' : 'Confirm Import'}</button>
                   <button onClick={onCancelImport} disabled={busyAction !== null} className="h-11 rounded-xl border border-slate-300 dark:border-white/20 bg-white dark:bg-brand-950 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 disabled:opacity-50">Cancel</button>
                 </div>
               </div>
             )}
 
-            {showImport && !pendingImport && (
+            {showImport && !pendingImport && !lockedImportFileName && (
               <div className="rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-brand-950 px-4 py-3 space-y-2">
                 <div className="flex items-start gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">
                   <Database size={12} className="mt-0.5 text-blue-600" />
-                  <p>Vault import accepts Control backup JSON only.</p>
+                  <p>Vault import accepts Control backup JSON only, plain or passphrase-encrypted.</p>
                 </div>
                 <div className="flex items-start gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">
                   <ShieldAlert size={12} className="mt-0.5 text-amber-500" />
-                  <p>It applies trips, drivers, alerts, and settings; customers are merged safely by phone.</p>
+                  <p>It previews new, changed and missing records per section so you can pick what comes back; customers are merged safely by phone.</p>
                 </div>
               </div>
             )}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useStore } from '../context/StoreContext';
 import { loadGoogleMapsScript } from '../services/googleMapsLoader';
+import { isBrowserOnline, subscribeToNetworkStatus } from '../services/networkStatus';
 import { parseGoogleMapsLink, parseGpsOrLatLngInput, ParsedLocation } from '../services/locationParser';
 import {
   SPECIAL_REQUIREMENTS,
@@ -9,7 +10,7 @@ import {
   DISPATCH_NOW_MAX_MINUTES,
   DISPATCH_NOW_DEFAULT_MINUTES,
 } from '../constants';
-import { RouteResult, TripStatus, Customer, CustomerLocation, Trip, TripStop, TripPaymentMode } from '../types';
+import { RouteResult, TripStatus, Customer, CustomerLocation, Trip, TripStop, TripPaymentMode, FareBreakdownLine } from '../types';
 import { Button } from '../components/ui/Button';
 import { 
   MapPin, Navigation, Copy, Check, Save, Calculator as CalcIcon, 
@@ -20,12 +21,13 @@ import {
   Gauge,
   House, Building2, ArrowRightLeft,
   VolumeX, Moon, Briefcase, Users, Baby, Bus, PawPrint, Accessibility, Cigarette, CigaretteOff,
-  Smartphone, KeyRound
+  Smartphone, KeyRound, CloudOff
 } from 'lucide-react';
 import { format, addMinutes } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { MessageModal } from '../components/MessageModal';
 import { CustomerSnapshotCard } from '../components/CustomerSnapshotCard';
+import { MapOfflineFallback } from '../components/MapOfflineFallback';
 import { replacePlaceholders } from '../services/placeholderService';
 import {
   applyPhoneDialCode,
@@ -39,12 +41,16 @@ import {
 import { buildCustomerSnapshot, buildCustomerSnapshotForTrip } from '../services/customerSnapshot';
 import { customerPhoneKey, getCustomerPreferredPaymentMode } from '../services/customerProfile';
 import { clampTrafficIndex, computeTrafficIndex } from '../services/trafficMetrics';
+import { computeFareQuote } from '../services/fareRules';
+import { buildDriverIntelligenceMap } from '../services/driverRecommendation';
+import { findDriverScheduleConflicts, hasBlockingScheduleConflict } from '../services/driverSchedule';
 import { truncateUiText, UI_TAG_MAX_CHARS, UI_LOCATION_MAX_CHARS } from '../services/uiText';
 
 declare var google: any;
 
 const CALCULATOR_DRAFT_KEY = 'calculator_draft_v1';
 const DEFAULT_ADVANCED_MARKER_MAP_ID = 'DEMO_MAP_ID';
+const MANUAL_ROUTE_PLACE_ID = 'MANUAL';
 
 interface LocationDraft {
   place_id?: string;
@@ -119,12 +125,14 @@ const TrafficGauge: React.FC<{ index: number }> = ({ index }) => {
 };
 
 export const CalculatorPage: React.FC = () => {
-  const { settings, addTrip, theme, customers, drivers, trips, creditLedger, receipts, updateFullTrip, addCustomers } = useStore();
+  const { settings, addTrip, theme, customers, drivers, trips, creditLedger, receipts, updateFullTrip, addCustomers, getMessageTransportKind, sendTripMessage } = useStore();
   const navigate = useNavigate();
   const mapsApiKey = (settings.googleMapsApiKey || '').trim();
   
   // Maps State
   const [mapsLoaded, setMapsLoaded] = useState(false);
+  const [mapsLoadFailed, setMapsLoadFailed] = useState(false);
+  const [isOnline, setIsOnline] = useState(isBrowserOnline());
   const [error, setError] = useState<React.ReactNode | null>(null);
   const [isLocating, setIsLocating] = useState(false);
   
@@ -284,163 +292,14 @@ export const CalculatorPage: React.FC = () => {
 
   const normalizedQuoteCustomerPhone = customerPhoneKey(customerPhone.trim());
 
-  const driverIntelligenceById = useMemo(() => {
-    const intelligence = new Map<string, {
-      overall: number;
-      availabilityScore: number;
-      readinessScore: number;
-      tripFitScore: number;
-      performanceScore: number;
-      governanceScore: number;
-      isGovernanceBlocked: boolean;
-      customerAffinityTrips: number;
-      completedTrips: number;
-      totalTrips: number;
-      fairnessPenalty: number;
-      recentTrips30: number;
-      fuelRangeKm: number;
-      kmSinceOilChange: number;
-      kmSinceCheckup: number;
-      governanceAlerts: string[];
-      readinessAlerts: string[];
-      reasons: string[];
-    }>();
-    const customerTripCountsByDriver = new Map<string, number>();
-    const now = Date.now();
-    const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
-    const NINETY_MIN_MS = 90 * 60 * 1000;
-    const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
-
-    const parseTripTimestamp = (trip: Trip) => {
-      const sourceDate = trip.tripDate || trip.createdAt;
-      const timestamp = sourceDate ? new Date(sourceDate).getTime() : Number.NaN;
-      return Number.isFinite(timestamp) ? timestamp : Number.NaN;
-    };
-
-    if (normalizedQuoteCustomerPhone) {
-      trips.forEach(trip => {
-        if (!trip.driverId) return;
-        if (customerPhoneKey(trip.customerPhone) !== normalizedQuoteCustomerPhone) return;
-        customerTripCountsByDriver.set(trip.driverId, (customerTripCountsByDriver.get(trip.driverId) || 0) + 1);
-      });
-    }
-
-    activeDrivers.forEach(driver => {
-      const driverTrips = trips.filter(trip => trip.driverId === driver.id);
-      const totalTrips = driverTrips.length;
-      const completedTrips = driverTrips.filter(trip => trip.status === TripStatus.COMPLETED).length;
-
-      const recentTrips30 = driverTrips.filter(trip => {
-        const sourceDate = trip.tripDate || trip.createdAt;
-        const timestamp = sourceDate ? new Date(sourceDate).getTime() : Number.NaN;
-        return Number.isFinite(timestamp) && now - timestamp <= THIRTY_DAYS_MS;
-      }).length;
-
-      const customerAffinityTrips = customerTripCountsByDriver.get(driver.id) || 0;
-      const customerAffinityScore = Math.min(100, customerAffinityTrips * 22);
-
-      const availabilityScore = driver.currentStatus === 'AVAILABLE' ? 100 : driver.currentStatus === 'BUSY' ? 55 : 10;
-
-      const kmSinceOilChange = Math.max(0, (driver.baseMileage || 0) - (driver.lastOilChangeKm || 0));
-      const kmSinceCheckup = Math.max(0, (driver.baseMileage || 0) - (driver.lastCheckupKm || 0));
-      const fuelRangeKm = Math.max(0, Number(driver.fuelRangeKm) || 0);
-
-      const readinessAlerts: string[] = [];
-      if (fuelRangeKm < 60) readinessAlerts.push('Critical fuel range');
-      else if (fuelRangeKm < 120) readinessAlerts.push('Low fuel range');
-      if (kmSinceOilChange > 7000) readinessAlerts.push('Oil service overdue');
-      else if (kmSinceOilChange > 4500) readinessAlerts.push('Oil service approaching');
-      if (kmSinceCheckup > 12000) readinessAlerts.push('Checkup overdue');
-      else if (kmSinceCheckup > 7000) readinessAlerts.push('Checkup approaching');
-
-      const readinessPenalty =
-        (fuelRangeKm < 50 ? 38 : fuelRangeKm < 110 ? 18 : 0) +
-        (kmSinceOilChange > 7000 ? 34 : kmSinceOilChange > 4500 ? 16 : 0) +
-        (kmSinceCheckup > 12000 ? 34 : kmSinceCheckup > 7000 ? 16 : 0);
-      const readinessScore = clamp(100 - readinessPenalty, 5, 100);
-
-      const governanceAlerts: string[] = [];
-      if (driver.currentStatus === 'OFF_DUTY') governanceAlerts.push('Driver is off duty');
-      if (driver.status !== 'ACTIVE') governanceAlerts.push('Driver profile inactive');
-      const isGovernanceBlocked = driver.currentStatus === 'OFF_DUTY' || driver.status !== 'ACTIVE';
-
-      const governancePenalty =
-        (driver.currentStatus === 'OFF_DUTY' ? 60 : 0) +
-        (driver.status !== 'ACTIVE' ? 60 : 0);
-      const governanceScore = clamp(100 - governancePenalty, 0, 100);
-
-      const completionConsistency = totalTrips > 0 ? (completedTrips / totalTrips) * 100 : 72;
-      const performanceScore = clamp(58 + Math.min(42, completionConsistency * 0.42), 58, 100);
-
-      const trafficFitScore = result
-        ? result.trafficIndex >= 70
-          ? (driver.currentStatus === 'AVAILABLE' ? 86 : driver.currentStatus === 'BUSY' ? 52 : 20)
-          : (driver.currentStatus === 'AVAILABLE' ? 74 : driver.currentStatus === 'BUSY' ? 57 : 25)
-        : 58;
-      const tripFitScore = clamp(customerAffinityScore * 0.58 + trafficFitScore * 0.42, 0, 100);
-
-      const recentTrips90 = driverTrips.filter(trip => {
-        const timestamp = parseTripTimestamp(trip);
-        return Number.isFinite(timestamp) && now - timestamp <= NINETY_MIN_MS;
-      }).length;
-
-      const lastTripTimestamp = driverTrips
-        .map(parseTripTimestamp)
-        .filter(timestamp => Number.isFinite(timestamp))
-        .sort((a, b) => b - a)[0];
-      const lastTripAgeMin = Number.isFinite(lastTripTimestamp)
-        ? Math.max(0, (now - lastTripTimestamp) / 60000)
-        : Number.POSITIVE_INFINITY;
-
-      let fairnessPenalty = 0;
-      if (recentTrips90 >= 2) fairnessPenalty += Math.min(10, (recentTrips90 - 1) * 3);
-      if (lastTripAgeMin < 30) fairnessPenalty += 6;
-      else if (lastTripAgeMin < 60) fairnessPenalty += 3;
-      if (customerAffinityTrips >= 3) fairnessPenalty += 2;
-
-      const assignedBoost = selectedDriverId === driver.id ? 4 : 0;
-      const weightedOverall =
-        availabilityScore * 0.32 +
-        readinessScore * 0.24 +
-        tripFitScore * 0.16 +
-        performanceScore * 0.14 +
-        governanceScore * 0.14 +
-        assignedBoost -
-        fairnessPenalty;
-      const overall = Math.round(isGovernanceBlocked ? Math.min(weightedOverall, 38) : weightedOverall);
-
-      const reasons: string[] = [];
-      if (driver.currentStatus === 'AVAILABLE') reasons.push('Available now');
-      if (customerAffinityTrips > 0) reasons.push(`Handled ${customerAffinityTrips} trips for this customer`);
-      if (readinessScore >= 80) reasons.push('Unit readiness healthy');
-      if (performanceScore >= 80) reasons.push('Strong completion consistency');
-      if (governanceScore >= 80) reasons.push('Governance profile clean');
-      if (fairnessPenalty > 0) reasons.push('Rotation balancing applied');
-
-      intelligence.set(driver.id, {
-        overall,
-        availabilityScore,
-        readinessScore,
-        tripFitScore,
-        performanceScore,
-        governanceScore,
-        isGovernanceBlocked,
-        customerAffinityTrips,
-        completedTrips,
-        totalTrips,
-        fairnessPenalty,
-        recentTrips30,
-        fuelRangeKm,
-        kmSinceOilChange,
-        kmSinceCheckup,
-        governanceAlerts,
-        readinessAlerts,
-        reasons: reasons.slice(0, 3),
-      });
-    });
-
-    return intelligence;
-  }, [activeDrivers, trips, normalizedQuoteCustomerPhone, selectedDriverId, result]);
+  const driverIntelligenceById = useMemo(
+    () => buildDriverIntelligenceMap(activeDrivers, trips, {
+      customerPhone: normalizedQuoteCustomerPhone,
+      trafficIndex: result ? result.trafficIndex : undefined,
+      selectedDriverId,
+    }),
+    [activeDrivers, trips, normalizedQuoteCustomerPhone, selectedDriverId, result]
+  );
 
   const driverRecommendationScoreById = useMemo(() => {
     const scores = new Map<string, number>();
@@ -806,6 +665,9 @@ export const CalculatorPage: React.FC = () => {
   const [fareLbp, setFareLbp] = useState(0);
   const [showBreakdown, setShowBreakdown] = useState(false);
   const [routesApiBlocked, setRoutesApiBlocked] = useState(false);
+  const [routesUnreachable, setRoutesUnreachable] = useState(false);
+  const [manualDistanceKm, setManualDistanceKm] = useState('');
+  const [manualDurationMin, setManualDurationMin] = useState('');
 
   // Form State
   const [notes, setNotes] = useState('');
@@ -852,10 +714,21 @@ export const CalculatorPage: React.FC = () => {
 
   const handleMarkTripConfirmationSent = useCallback((_finalMsg: string) => {
     if (!lastSavedTrip) return;
-    updateFullTrip({ ...lastSavedTrip, confirmation_sent_at: new Date().toISOString() });
+    const result = updateFullTrip({ ...lastSavedTrip, confirmation_sent_at: new Date().toISOString() }, { allowScheduleConflict: true });
+    if (!result.ok) {
+      setError(result.reason || 'Unable to mark the confirmation as sent.');
+      return;
+    }
     setShowMessageModal(false);
   }, [lastSavedTrip, updateFullTrip]);
 
+  const handleSendTripConfirmationViaApi = useCallback(async () => {
+    if (!lastSavedTrip) return { ok: false, reason: 'Save the trip first.' };
+    const result = await sendTripMessage(lastSavedTrip.id, 'trip_confirmation');
+    if (result.ok) setShowMessageModal(false);
+    return result;
+  }, [lastSavedTrip, sendTripMessage]);
+
   const setMarkerPosition = (marker: any, position: any) => {
     if (!marker) return;
     if (typeof marker.setPosition === 'function') {
@@ -1011,6 +884,13 @@ export const CalculatorPage: React.FC = () => {
     }, remaining);
   };
 
+  // Stands in for a geocoded place when the route was typed in by hand; it has an address but no coordinates.
+  const buildManualPlace = (address: string) => ({
+    place_id: MANUAL_ROUTE_PLACE_ID,
+    formatted_address: address,
+    name: address,
+  });
+
   const serializePlace = (place: any): LocationDraft | undefined => {
     if (!place) return undefined;
     const location = place?.geometry?.location;
@@ -1026,6 +906,7 @@ export const CalculatorPage: React.FC = () => {
   };
 
   const deserializePlace = (draft?: LocationDraft) => {
+    if (draft?.place_id === MANUAL_ROUTE_PLACE_ID) return buildManualPlace(draft.formatted_address || draft.name || '');
     if (!draft || !Number.isFinite(draft.lat) || !Number.isFinite(draft.lng)) return null;
     return {
       place_id: draft.place_id || 'GPS',
@@ -1045,7 +926,8 @@ export const CalculatorPage: React.FC = () => {
     parsed: ParsedLocation,
     requestToken: number = inputResolveTokenRef.current
   ) => {
-    const latLng = new google.maps.LatLng(parsed.lat, parsed.lng);
+    // Pasted links and GPS coordinates still resolve offline; they just skip reverse geocoding.
+    const latLng = window.google?.maps ? new google.maps.LatLng(parsed.lat, parsed.lng) : { lat: parsed.lat, lng: parsed.lng };
     const applyPlaceResult = (addr: string, placeId?: string) => {
       if (requestToken !== inputResolveTokenRef.current) return;
 
@@ -1446,14 +1328,24 @@ export const CalculatorPage: React.FC = () => {
     return () => { (window as any).gm_authFailure = null; };
   }, []);
 
+  useEffect(() => subscribeToNetworkStatus(online => {
+    setIsOnline(online);
+    if (online) setRoutesUnreachable(false);
+  }), []);
+
   useEffect(() => {
     if (mapsApiKey) {
       setRoutesApiBlocked(false);
-      loadGoogleMapsScript(mapsApiKey).then(() => setMapsLoaded(true)).catch(() => setError("Engine load error."));
+      if (!isOnline || mapsLoaded) return;
+      setMapsLoadFailed(false);
+      loadGoogleMapsScript(mapsApiKey).then(() => setMapsLoaded(true)).catch(() => {
+        setMapsLoadFailed(true);
+        setError("Engine load error.");
+      });
     } else {
       setError("Engine configuration required.");
     }
-  }, [mapsApiKey]);
+  }, [mapsApiKey, isOnline, mapsLoaded]);
 
   useEffect(() => {
     resizeNotesTextarea();
@@ -1672,6 +1564,8 @@ export const CalculatorPage: React.FC = () => {
 
     if (hasUnresolvedStop) return;
 
+    if (pickupPlace?.place_id === MANUAL_ROUTE_PLACE_ID || destPlace?.place_id === MANUAL_ROUTE_PLACE_ID) return;
+
     if (pickupPlace && destPlace && !routesApiBlocked) fetchRoute(pickupPlace, destPlace, stopsDraft);
   }, [pickupPlace, destPlace, stopsDraft, stopCandidates, tripDate, routesApiBlocked]);
 
@@ -1712,10 +1606,6 @@ export const CalculatorPage: React.FC = () => {
     });
   }, [mapsLoaded, stopsDraft, stopCandidates]);
 
-  useEffect(() => {
-    if (result) calculateFare(result);
-  }, [result, isRoundTrip, addWaitTime, waitTimeHours, settings]);
-
   const fetchRoute = async (origin: any, destination: any, stopInputs: string[] = []) => {
     const requestId = startCalculationLoading();
     try {
@@ -1853,10 +1743,14 @@ export const CalculatorPage: React.FC = () => {
         surplusMin
       });
       setResolvedStops(waypointStops);
+      setRoutesUnreachable(false);
     } catch (routeError: any) {
       const message = String(routeError?.message || 'Routing error');
       const statusCode = Number(routeError?.status || 0);
-      if (statusCode === 403 || message.includes('PERMISSION_DENIED') || message.includes('API_KEY') || message.includes('REQUEST_DENIED')) {
+      if (routeError instanceof TypeError) {
+        setRoutesUnreachable(true);
+        setError('Routes API unreachable. Enter the distance and duration manually below the stops.');
+      } else if (statusCode === 403 || message.includes('PERMISSION_DENIED') || message.includes('API_KEY') || message.includes('REQUEST_DENIED')) {
         setRoutesApiBlocked(true);
         setError('Routes API returned 403 (Forbidden). Enable Routes API, attach billing, and allow your localhost referrer in key restrictions.');
       } else if (statusCode === 400 || message.includes('INVALID_ARGUMENT')) {
@@ -1870,6 +1764,41 @@ export const CalculatorPage: React.FC = () => {
     }
   };
 
+  const canEnterRouteManually = !isOnline || routesUnreachable || routesApiBlocked || mapsLoadFailed || !mapsApiKey;
+
+  const applyManualRoute = () => {
+    const pickupText = (pickupInputRef.current?.value || pickupPlace?.formatted_address || '').trim();
+    const destinationText = (destInputRef.current?.value || destPlace?.formatted_address || '').trim();
+    const distanceKm = Number(manualDistanceKm);
+    const durationMin = Math.round(Number(manualDurationMin));
+
+    if (!pickupText || !destinationText) {
+      setError('Enter pickup and drop-off before using a manual route.');
+      return;
+    }
+    if (!Number.isFinite(distanceKm) || distanceKm <= 0 || !Number.isFinite(durationMin) || durationMin <= 0) {
+      setError('Manual route needs a distance in km and a duration in minutes above zero.');
+      return;
+    }
+
+    if (!pickupPlace) setPickupPlace(buildManualPlace(pickupText));
+    if (!destPlace) setDestPlace(buildManualPlace(destinationText));
+    setResolvedStops(stopsDraft.map(value => value.trim()).filter(Boolean).map(text => ({ text })));
+    setResult({
+      distanceKm,
+      distanceText: `${distanceKm.toFixed(1)} km`,
+      durationMin,
+      durationText: `${durationMin} min`,
+      pickupAddress: pickupText,
+      destinationAddress: destinationText,
+      durationInTrafficMin: durationMin,
+      durationInTrafficText: `${durationMin} min`,
+      trafficIndex: computeTrafficIndex(durationMin, durationMin),
+      surplusMin: 0,
+    });
+    setError(null);
+  };
+
   const addStopField = () => {
     setStopsDraft(prev => [...prev, '']);
     setStopCandidates(prev => [...prev, null]);
@@ -1895,16 +1824,6 @@ export const CalculatorPage: React.FC = () => {
     }));
   };
 
-  const calculateFare = (route: RouteResult) => {
-    const base = Math.ceil(route.distanceKm * (isRoundTrip ? 2 : 1) * settings.ratePerKm);
-    const wait = addWaitTime ? Math.ceil(waitTimeHours * settings.hourlyWaitRate) : 0;
-    const computedFare = base + wait;
-    const minimumFare = Number.isFinite(MIN_RIDE_FARE_USD) ? Math.max(0, MIN_RIDE_FARE_USD) : 7;
-    const finalFare = Math.max(minimumFare, computedFare);
-    setFareUsd(finalFare);
-    setFareLbp(finalFare * settings.exchangeRate);
-  };
-
   const toggleRequirement = (id: string) => {
     setSelectedRequirements(prev => 
       prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]
@@ -2169,6 +2088,11 @@ export const CalculatorPage: React.FC = () => {
       surplusMin: result!.surplusMin, 
       isRoundTrip, 
       waitTimeHours: addWaitTime ? waitTimeHours : 0,
+      ratePerKmSnapshot: settings.ratePerKm,
+      hourlyWaitRateSnapshot: settings.hourlyWaitRate,
+      fareRulesSnapshot: settings.fareRules,
+      fareBreakdown: fareComputation.breakdown,
+      congestionSurchargeUsd: fareComputation.congestionSurchargeUsd,
       fareUsd, 
       fareLbp, 
       exchangeRateSnapshot: settings.exchangeRate, 
@@ -2238,7 +2162,19 @@ export const CalculatorPage: React.FC = () => {
       setStopCandidates(resolvedStopsForSave);
 
       const tripData = buildCurrentTripData(resolvedStopsForSave);
-      addTrip(tripData);
+      const scheduleConflicts = findDriverScheduleConflicts(tripData, trips);
+      if (
+        hasBlockingScheduleConflict(scheduleConflicts) &&
+        !window.confirm(`Driver schedule conflict: ${scheduleConflicts[0].message}. Save anyway?`)
+      ) {
+        setError('Dispatch not saved: the assigned driver is already booked in this window.');
+        return;
+      }
+      const saved = addTrip(tripData);
+      if (!saved.ok) {
+        setError(saved.reason || 'Dispatch not saved.');
+        return;
+      }
       setLastSavedTrip(tripData);
       setShowMessageModal(true);
       setTripSaved(true);
@@ -2391,20 +2327,52 @@ export const CalculatorPage: React.FC = () => {
         computedFareUsd: 0,
         minimumFareUsd: Math.max(0, MIN_RIDE_FARE_USD),
         minimumFareApplied: false,
+        congestionSurchargeUsd: 0,
+        breakdown: [] as FareBreakdownLine[],
       };
     }
 
-    const base = Math.ceil(result.distanceKm * (isRoundTrip ? 2 : 1) * settings.ratePerKm);
-    const wait = addWaitTime ? Math.ceil(waitTimeHours * settings.hourlyWaitRate) : 0;
-    const computedFareUsd = base + wait;
-    const minimumFareUsd = Math.max(0, MIN_RIDE_FARE_USD);
+    const quote = computeFareQuote({
+      distanceKm: result.distanceKm,
+      isRoundTrip,
+      waitTimeHours: addWaitTime ? waitTimeHours : 0,
+      tripDate: tripDate || new Date().toISOString(),
+      pickup: {
+        lat: readCoordinateFromLocation(pickupPlace?.geometry?.location, 'lat'),
+        lng: readCoordinateFromLocation(pickupPlace?.geometry?.location, 'lng'),
+      },
+      destination: {
+        lat: readCoordinateFromLocation(destPlace?.geometry?.location, 'lat'),
+        lng: readCoordinateFromLocation(destPlace?.geometry?.location, 'lng'),
+      },
+      stopCount: stopsDraft.filter(value => value.trim().length > 0).length,
+      specialRequirements: selectedRequirements,
+      trafficIndex: result.trafficIndex,
+      surplusMin: result.surplusMin,
+      ratePerKm: settings.ratePerKm,
+      hourlyWaitRate: settings.hourlyWaitRate,
+      rules: settings.fareRules,
+    });
 
     return {
-      computedFareUsd,
-      minimumFareUsd,
-      minimumFareApplied: computedFareUsd < minimumFareUsd,
+      fareUsd: quote.fareUsd,
+      computedFareUsd: quote.computedFareUsd,
+      minimumFareUsd: quote.minimumFareUsd,
+      minimumFareApplied: quote.minimumFareApplied,
+      congestionSurchargeUsd: quote.congestionSurchargeUsd,
+      breakdown: quote.breakdown,
     };
-  }, [result, isRoundTrip, addWaitTime, waitTimeHours, settings.ratePerKm, settings.hourlyWaitRate]);
+  }, [result, isRoundTrip, addWaitTime, waitTimeHours, tripDate, pickupPlace, destPlace, stopsDraft, selectedRequirements, settings.ratePerKm, settings.hourlyWaitRate, settings.fareRules]);
+
+  useEffect(() => {
+    if (!result || typeof fareComputation.fareUsd !== 'number') return;
+    setFareUsd(fareComputation.fareUsd);
+    setFareLbp(fareComputation.fareUsd * settings.exchangeRate);
+  }, [result, fareComputation, settings.exchangeRate]);
+
+  const selectedDriverScheduleConflicts = result && selectedDriverId && pickupPlace && destPlace
+    ? findDriverScheduleConflicts(buildCurrentTripData(), trips)
+    : [];
 
   const confirmPending = (type: 'pickup' | 'dest') => {
     const loc = new google.maps.LatLng(pendingLocation!.lat, pendingLocation!.lng);
@@ -3256,6 +3224,44 @@ export const CalculatorPage: React.FC = () => {
                      </p>
                    )}
                  </div>
+                 {canEnterRouteManually && (
+                   <div className="space-y-2 rounded-xl border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 p-3">
+                     <label className="inline-flex items-center gap-1 text-[9px] font-black text-amber-700 dark:text-amber-300 uppercase tracking-widest">
+                       <CloudOff size={11} />
+                       Manual Route{!isOnline ? ' · Offline' : ''}
+                     </label>
+                     <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                       <input
+                         type="number"
+                         min="0"
+                         step="0.1"
+                         value={manualDistanceKm}
+                         onChange={event => setManualDistanceKm(event.target.value)}
+                         placeholder="Distance km"
+                         className="h-9 w-full rounded-lg border border-slate-200 dark:border-brand-800 bg-white dark:bg-brand-950 px-3 text-[10px] font-bold"
+                       />
+                       <input
+                         type="number"
+                         min="0"
+                         step="1"
+                         value={manualDurationMin}
+                         onChange={event => setManualDurationMin(event.target.value)}
+                         placeholder="Duration min"
+                         className="h-9 w-full rounded-lg border border-slate-200 dark:border-brand-800 bg-white dark:bg-brand-950 px-3 text-[10px] font-bold"
+                       />
+                       <button
+                         type="button"
+                         onClick={applyManualRoute}
+                         className="h-9 px-3 rounded-lg bg-brand-900 text-gold-400 text-[8px] font-black uppercase tracking-widest"
+                       >
+                         Use Route
+                       </button>
+                     </div>
+                     <p className="text-[8px] font-bold uppercase tracking-widest text-amber-700/80 dark:text-amber-300/80">
+                       Routes API unreachable. Quote from your own distance and duration; traffic is not applied.
+                     </p>
+                   </div>
+                 )}
                  <div className="flex justify-end">
                    <button
                      type="button"
@@ -3948,6 +3954,11 @@ export const CalculatorPage: React.FC = () => {
                           Minimum Fare Applied (${fareComputation.minimumFareUsd})
                          </span>
                         )}
+                        {fareComputation.congestionSurchargeUsd > 0 && (
+                         <span className="inline-flex items-center h-5 mt-2 ml-1 px-2 rounded-md border border-orange-300/50 bg-orange-500/10 text-[8px] font-black uppercase tracking-widest text-orange-300">
+                          Traffic Surcharge +${fareComputation.congestionSurchargeUsd}
+                         </span>
+                        )}
                     </div>
                     <div className="grid w-full grid-cols-1 gap-1.5 sm:grid-cols-2 lg:grid-cols-4 lg:w-auto lg:min-w-0">
                        <button
@@ -4019,6 +4030,20 @@ export const CalculatorPage: React.FC = () => {
                        <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">Traffic Surplus</span>
                        <span className="text-[10px] font-black uppercase tracking-widest text-amber-400">+{Math.max(0, Math.round(result.surplusMin))} min</span>
                      </div>
+                     {fareComputation.breakdown.length > 0 && (
+                       <div className="pt-2 mt-1 border-t border-brand-800 space-y-1.5">
+                         <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 inline-flex items-center gap-1">
+                           <DollarSign size={10} className="text-gold-400" />
+                           Tariff Rules Applied
+                         </span>
+                         {fareComputation.breakdown.map((line, index) => (
+                           <div key={`${line.kind}-${line.ruleId || index}`} className="flex items-center justify-between gap-2">
+                             <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 truncate">{line.label}</span>
+                             <span className="text-[10px] font-black uppercase tracking-widest text-white">+${line.amountUsd}</span>
+                           </div>
+                         ))}
+                       </div>
+                     )}
                    </div>
                  )}
 
@@ -4030,6 +4055,18 @@ export const CalculatorPage: React.FC = () => {
                          Assigned: {assignedDriver.name} ({assignedDriver.plateNumber})
                        </span>
                      </div>
+                     {selectedDriverScheduleConflicts.length > 0 && (
+                       <div className="mt-2 space-y-1">
+                         {selectedDriverScheduleConflicts.slice(0, 2).map(conflict => (
+                           <p
+                             key={`calc-conflict-${conflict.conflictingTripId}`}
+                             className={`text-[8px] font-black uppercase tracking-widest ${conflict.kind === 'OVERLAP' ? 'text-red-400' : 'text-amber-400'}`}
+                           >
+                             {conflict.message}
+                           </p>
+                         ))}
+                       </div>
+                     )}
                    </div>
                  )}
 
@@ -4375,6 +4412,9 @@ export const CalculatorPage: React.FC = () => {
 
          <div id="calc-stage-map" className={`relative min-w-0 overflow-hidden bg-slate-200 dark:bg-brand-950 h-[45vh] min-h-[300px] lg:h-full lg:min-h-0 lg:flex-1 transition-all duration-300 ${isRouteStageVisible ? 'opacity-100' : 'hidden opacity-0'}`}>
          <div ref={mapRef} className="w-full h-full" />
+         {!mapsLoaded && (!isOnline || mapsLoadFailed) && (
+           <MapOfflineFallback offline={!isOnline} hint="Type the addresses and use Manual Route to keep quoting without the map." />
+         )}
          
          {calculating && (
            <div className="absolute inset-0 bg-brand-950/40 backdrop-blur-[2px] z-20 flex flex-col items-center justify-center animate-fade-in">
@@ -4679,6 +4719,8 @@ export const CalculatorPage: React.FC = () => {
           operatorPhone={settings.operatorWhatsApp}
           customerSnapshot={savedTripSnapshot || undefined}
           onMarkSent={handleMarkTripConfirmationSent}
+          apiTemplateName={settings.whatsAppCloud.templates.trip_confirmation.name}
+          onSendViaApi={getMessageTransportKind('trip_confirmation') === 'CLOUD_API' ? handleSendTripConfirmationViaApi : undefined}
         />
       )}
 
@@ -1,11 +1,14 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { useStore } from '../context/StoreContext';
-import { Driver, TripStatus, DriverAvailability } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { Driver, Trip, TripStatus, DriverAvailability } from '../types';
 import { isToday, parseISO, subDays } from 'date-fns';
 import { Button } from '../components/ui/Button';
 import { HorizontalScrollArea } from '../components/ui/HorizontalScrollArea';
 import { UnitSnapshotCard } from '../components/UnitSnapshotCard';
+import { DriverTimeline } from '../components/DriverTimeline';
+import { PermissionNotice } from '../components/PermissionNotice';
 import {
   applyPhoneDialCode,
   buildWhatsAppLink,
@@ -15,11 +18,12 @@ import {
   PHONE_COUNTRY_PRESETS,
 } from '../services/whatsapp';
 import { buildUnitSnapshotMetrics } from '../services/unitSnapshot';
+import { getEntityAuditHistory } from '../services/auditLog';
 import { 
   Plus, User, Car, Phone, Trash2, Edit2, XCircle, Star, Hash, Activity, 
   X, Power, CheckCircle, Clock, Trophy, Map, DollarSign, TrendingUp, 
   Medal, Download, Copy, Check, Info, Users, ExternalLink, PhoneForwarded,
-  Fuel, Search, UserX, AlertCircle, ArrowUpRight, List as ListIcon, LayoutGrid, Maximize2, Minimize2
+  Fuel, Search, UserX, AlertCircle, ArrowUpRight, List as ListIcon, LayoutGrid, Maximize2, Minimize2, GanttChart
 } from 'lucide-react';
 
 const ownershipLabelMap = {
@@ -35,9 +39,11 @@ const responsibilityLabelMap = {
 } as const;
 
 export const DriversPage: React.FC = () => {
-  const { drivers, trips, addDriver, editDriver, removeDriver } = useStore();
+  const { drivers, trips, auditLog, addDriver, editDriver, removeDriver, updateFullTrip } = useStore();
+  const { denialReason } = useAuth();
+  const fleetLockedReason = denialReason('MANAGE_FLEET');
   const [metricsWindow, setMetricsWindow] = useState<'TODAY' | '7D' | '30D' | 'ALL'>('ALL');
-  const [desktopView, setDesktopView] = useState<'TABLE' | 'GRID'>('TABLE');
+  const [desktopView, setDesktopView] = useState<'TABLE' | 'GRID' | 'TIMELINE'>('TABLE');
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -199,12 +205,42 @@ export const DriversPage: React.FC = () => {
     return buildUnitSnapshotMetrics(unitSnapshotDriver, trips);
   }, [unitSnapshotDriver, trips]);
 
+  const unitSnapshotAuditHistory = useMemo(
+    () => (unitSnapshotDriver ? getEntityAuditHistory(auditLog, 'DRIVER', unitSnapshotDriver.id) : []),
+    [auditLog, unitSnapshotDriver]
+  );
+
   const showActionMessage = (message: string, tone: 'SUCCESS' | 'ERROR') => {
     setActionMessage(message);
     setActionTone(tone);
     setTimeout(() => setActionMessage(''), 2400);
   };
 
+  const handleTimelineReassign = (trip: Trip, nextDriverId: string | null) => {
+    const targetDriver = nextDriverId ? drivers.find(driver => driver.id === nextDriverId) : null;
+    const updatedTrip: Trip = { ...trip, driverId: nextDriverId || undefined };
+    let result = updateFullTrip(updatedTrip);
+    if (!result.ok && result.conflicts && result.conflicts.length > 0) {
+      if (!window.confirm(`Driver schedule conflict: ${result.reason}. Reassign anyway?`)) {
+        showActionMessage('Reassignment cancelled: driver schedule conflict.', 'ERROR');
+        return;
+      }
+      result = updateFullTrip(updatedTrip, { allowScheduleConflict: true });
+    }
+
+    if (!result.ok) {
+      showActionMessage(result.reason || 'Reassignment failed.', 'ERROR');
+      return;
+    }
+
+    const tripLabel = `Trip #${trip.id.toString().slice(-4)}`;
+    const warning = result.conflicts?.[0]?.message;
+    showActionMessage(
+      `${tripLabel} ${targetDriver ? `reassigned to ${targetDriver.name}` : 'unassigned'}${warning ? ` · ${warning}` : ''}.`,
+      warning ? 'ERROR' : 'SUCCESS'
+    );
+  };
+
   useEffect(() => {
     const isTypingTarget = (target: EventTarget | null): boolean => {
       if (!(target instanceof HTMLElement)) return false;
@@ -270,6 +306,10 @@ export const DriversPage: React.FC = () => {
   };
 
   const handleAvailabilityChange = (driver: Driver, nextStatus: DriverAvailability) => {
+    if (fleetLockedReason) {
+      showActionMessage(fleetLockedReason, 'ERROR');
+      return;
+    }
     if (driver.status !== 'ACTIVE' && nextStatus !== 'OFF_DUTY') {
       showActionMessage('Inactive units can only be set to Standby.', 'ERROR');
       editDriver({ ...driver, currentStatus: 'OFF_DUTY' });
@@ -377,7 +417,11 @@ export const DriversPage: React.FC = () => {
       companyShareOverridePercent: existing?.companyShareOverridePercent,
     };
 
-    if (editingId) editDriver(driverData); else addDriver(driverData);
+    const result = editingId ? editDriver(driverData) : addDriver(driverData);
+    if (!result.ok) {
+      showActionMessage(result.reason || 'Unable to save unit.', 'ERROR');
+      return;
+    }
     showActionMessage(editingId ? 'Unit profile updated.' : 'Unit onboarded successfully.', 'SUCCESS');
     resetForm();
   };
@@ -392,7 +436,11 @@ export const DriversPage: React.FC = () => {
     const confirmed = window.confirm(`Remove unit ${driver.name} (${driver.plateNumber})?`);
     if (!confirmed) return;
 
-    removeDriver(driver.id);
+    const result = removeDriver(driver.id);
+    if (!result.ok) {
+      showActionMessage(result.reason || 'Unable to remove unit.', 'ERROR');
+      return;
+    }
     showActionMessage('Unit removed successfully.', 'SUCCESS');
   };
 
@@ -541,6 +589,14 @@ export const DriversPage: React.FC = () => {
               <LayoutGrid size={12} />
               Grid
             </button>
+            <button
+              type="button"
+              onClick={() => setDesktopView('TIMELINE')}
+              className={`h-8 px-2.5 rounded-lg text-[8px] font-black uppercase tracking-widest inline-flex items-center gap-1.5 transition-colors ${desktopView === 'TIMELINE' ? 'bg-brand-900 text-gold-400 dark:bg-brand-800' : 'text-slate-500 dark:text-slate-300'}`}
+            >
+              <GanttChart size={12} />
+              Timeline
+            </button>
             {desktopView === 'TABLE' && (
               <button
                 type="button"
@@ -559,12 +615,13 @@ export const DriversPage: React.FC = () => {
               <Download size={14} className="mr-2" />
               Export CSV
             </Button>
-            <Button onClick={() => setIsFormOpen(true)} variant="gold" size="sm" className="h-9 px-3 text-[10px] shadow-lg shadow-gold-500/20 w-full sm:w-auto whitespace-nowrap sm:shrink-0">
+            <Button onClick={() => setIsFormOpen(true)} disabled={Boolean(fleetLockedReason)} title={fleetLockedReason} variant="gold" size="sm" className="h-9 px-3 text-[10px] shadow-lg shadow-gold-500/20 w-full sm:w-auto whitespace-nowrap sm:shrink-0">
               <Plus size={14} className="mr-1.5 shrink-0" />
               Onboard Unit
             </Button>
           </div>
         </div>
+        <PermissionNotice reason={fleetLockedReason} className="mt-3" />
       </div>
 
       {actionMessage && (
@@ -646,7 +703,7 @@ export const DriversPage: React.FC = () => {
                         <div className={`w-1.5 h-1.5 rounded-full ${avail.color.replace('text-', 'bg-')} ${driver.currentStatus === 'AVAILABLE' ? 'animate-pulse' : ''}`} />
                         <span className={`text-[9px] font-black uppercase tracking-widest ${avail.color}`}>{avail.label}</span>
                       </div>
-                      <select value={driver.currentStatus} onChange={(e) => handleAvailabilityChange(driver, e.target.value as DriverAvailability)} className="text-[8px] font-black uppercase tracking-widest border-none bg-transparent p-0 focus:ring-0 cursor-pointer text-slate-400">
+                      <select value={driver.currentStatus} onChange={(e) => handleAvailabilityChange(driver, e.target.value as DriverAvailability)} disabled={Boolean(fleetLockedReason)} title={fleetLockedReason} className="text-[8px] font-black uppercase tracking-widest border-none bg-transparent p-0 focus:ring-0 cursor-pointer text-slate-400 disabled:cursor-not-allowed">
                         <option value="AVAILABLE">Make Active</option>
                         <option value="BUSY">Make Occupied</option>
                         <option value="OFF_DUTY">Go Standby</option>
@@ -677,8 +734,8 @@ export const DriversPage: React.FC = () => {
                   <td className="px-3 py-3 text-right">
                     <div className="flex items-center justify-end space-x-1">
                       <button type="button" onClick={() => openDriverWhatsApp(driver.phone)} title="Open WhatsApp" aria-label={`Open WhatsApp for ${driver.name}`} className="p-1 text-blue-600 hover:bg-blue-50 dark:hover:bg-brand-800 rounded-lg transition-colors"><Phone size={12} /></button>
-                      <button type="button" onClick={() => handleEditClick(driver)} title="Edit unit" aria-label={`Edit ${driver.name}`} className="p-1 text-slate-400 hover:text-brand-900 dark:hover:text-white rounded-lg transition-colors"><Edit2 size={12}/></button>
-                      <button type="button" onClick={() => handleRemoveDriver(driver)} title="Remove unit" aria-label={`Remove ${driver.name}`} className="p-1 text-slate-200 hover:text-red-500 rounded-lg transition-colors"><Trash2 size={12}/></button>
+                      <button type="button" onClick={() => handleEditClick(driver)} disabled={Boolean(fleetLockedReason)} title={fleetLockedReason || 'Edit unit'} aria-label={`Edit ${driver.name}`} className="p-1 text-slate-400 hover:text-brand-900 dark:hover:text-white rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"><Edit2 size={12}/></button>
+                      <button type="button" onClick={() => handleRemoveDriver(driver)} disabled={Boolean(fleetLockedReason)} title={fleetLockedReason || 'Remove unit'} aria-label={`Remove ${driver.name}`} className="p-1 text-slate-200 hover:text-red-500 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"><Trash2 size={12}/></button>
                     </div>
                   </td>
                 </tr>
@@ -698,6 +755,18 @@ export const DriversPage: React.FC = () => {
       </div>
       )}
 
+      {/* Desktop Timeline View */}
+      {desktopView === 'TIMELINE' && (
+        <div className="hidden md:block">
+          <DriverTimeline
+            drivers={rankedDrivers}
+            trips={trips}
+            onReassignTrip={handleTimelineReassign}
+            onOpenDriver={setUnitSnapshotDriverId}
+          />
+        </div>
+      )}
+
       {/* Desktop Grid View */}
       {desktopView === 'GRID' && (
         <div className="hidden md:grid grid-cols-2 xl:grid-cols-3 gap-4">
@@ -756,6 +825,7 @@ export const DriversPage: React.FC = () => {
                   <select
                     value={driver.currentStatus}
                     onChange={(e) => handleAvailabilityChange(driver, e.target.value as DriverAvailability)}
+                    disabled={Boolean(fleetLockedReason)}
                     className="w-full text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 p-2"
                   >
                     <option value="AVAILABLE">Make Active</option>
@@ -765,9 +835,9 @@ export const DriversPage: React.FC = () => {
                 </div>
 
                 <div className="flex justify-end items-center mt-4 space-x-2">
-                  <button type="button" onClick={() => handleEditClick(driver)} aria-label={`Edit ${driver.name}`} className="p-2 text-slate-400"><Edit2 size={16}/></button>
+                  <button type="button" onClick={() => handleEditClick(driver)} disabled={Boolean(fleetLockedReason)} title={fleetLockedReason} aria-label={`Edit ${driver.name}`} className="p-2 text-slate-400 disabled:opacity-40"><Edit2 size={16}/></button>
                   <button type="button" onClick={() => openDriverWhatsApp(driver.phone)} aria-label={`Open WhatsApp for ${driver.name}`} className="p-2 text-blue-500"><Phone size={16}/></button>
-                  <button type="button" onClick={() => handleRemoveDriver(driver)} aria-label={`Remove ${driver.name}`} className="p-2 text-red-400"><Trash2 size={16}/></button>
+                  <button type="button" onClick={() => handleRemoveDriver(driver)} disabled={Boolean(fleetLockedReason)} title={fleetLockedReason} aria-label={`Remove ${driver.name}`} className="p-2 text-red-400 disabled:opacity-40"><Trash2 size={16}/></button>
                 </div>
               </div>
             );
@@ -837,6 +907,7 @@ export const DriversPage: React.FC = () => {
                 <select
                   value={driver.currentStatus}
                   onChange={(e) => handleAvailabilityChange(driver, e.target.value as DriverAvailability)}
+                  disabled={Boolean(fleetLockedReason)}
                   className="w-full text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 p-2"
                 >
                   <option value="AVAILABLE">Make Active</option>
@@ -846,9 +917,9 @@ export const DriversPage: React.FC = () => {
               </div>
 
               <div className="flex justify-end items-center mt-4 space-x-2">
-                 <button type="button" onClick={() => handleEditClick(driver)} aria-label={`Edit ${driver.name}`} className="p-2 text-slate-400"><Edit2 size={16}/></button>
+                 <button type="button" onClick={() => handleEditClick(driver)} disabled={Boolean(fleetLockedReason)} title={fleetLockedReason} aria-label={`Edit ${driver.name}`} className="p-2 text-slate-400 disabled:opacity-40"><Edit2 size={16}/></button>
                   <button type="button" onClick={() => openDriverWhatsApp(driver.phone)} aria-label={`Open WhatsApp for ${driver.name}`} className="p-2 text-blue-500"><Phone size={16}/></button>
-                  <button type="button" onClick={() => handleRemoveDriver(driver)} aria-label={`Remove ${driver.name}`} className="p-2 text-red-400"><Trash2 size={16}/></button>
+                  <button type="button" onClick={() => handleRemoveDriver(driver)} disabled={Boolean(fleetLockedReason)} title={fleetLockedReason} aria-label={`Remove ${driver.name}`} className="p-2 text-red-400 disabled:opacity-40"><Trash2 size={16}/></button>
               </div>
             </div>
           );
@@ -884,7 +955,7 @@ export const DriversPage: React.FC = () => {
               </button>
             </div>
             <div className="p-4 max-h-[70vh] overflow-y-auto">
-              <UnitSnapshotCard driver={unitSnapshotDriver} metrics={unitSnapshotMetrics} />
+              <UnitSnapshotCard driver={unitSnapshotDriver} metrics={unitSnapshotMetrics} auditHistory={unitSnapshotAuditHistory} />
             </div>
           </div>
         </div>
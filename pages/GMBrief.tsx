@@ -2,14 +2,16 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { useLocation } from 'react-router-dom';
 import { useStore } from '../context/StoreContext';
-import { TripStatus, Trip, Driver, Settings, TripPaymentMode, TripSettlementStatus } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { TripStatus, Trip, Driver, TripPaymentMode, TripSettlementStatus } from '../types';
 import { loadGoogleMapsScript } from '../services/googleMapsLoader';
+import { isBrowserOnline, subscribeToNetworkStatus } from '../services/networkStatus';
 import { parseGoogleMapsLink } from '../services/locationParser';
 import { buildWhatsAppLink } from '../services/whatsapp';
+import { findAllDriverScheduleConflicts } from '../services/driverSchedule';
+import { getCompanyShareForDriver, getFuelCostWeight } from '../services/driverPayout';
+import { getCreditEntryRemainingUsd, isCreditEntryOutstanding } from '../services/creditLedger';
 import {
-  DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT,
-  DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT,
-  DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT,
   DISPATCH_NOW_MIN_MINUTES,
   DISPATCH_NOW_MAX_MINUTES,
 } from '../constants';
@@ -19,52 +21,16 @@ import {
 } from 'lucide-react';
 import { format, isToday, parseISO, startOfDay, addHours, addMinutes, isSameHour, addDays } from 'date-fns';
 import { Button } from '../components/ui/Button';
+import { WorkspacePortfolioPanel } from '../components/WorkspacePortfolioPanel';
+import { AlertResponsePanel } from '../components/AlertResponsePanel';
+import { MapOfflineFallback } from '../components/MapOfflineFallback';
+import { getWorkspaces } from '../services/workspaces';
 
 declare var google: any;
 
-const clampSharePercent = (value: unknown, fallback: number): number => {
-  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
-  return Math.max(0, Math.min(100, value));
-};
-
-const getCompanyShareForDriver = (driver: Driver, settings: Settings): { rate: number; label: string } => {
-  const ownerDriverPercent = clampSharePercent(settings.ownerDriverCompanySharePercent, DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT);
-  const companyCarDriverGasPercent = clampSharePercent(settings.companyCarDriverGasCompanySharePercent, DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT);
-  const otherPercent = clampSharePercent(settings.otherDriverCompanySharePercent, DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT);
-
-  const overrideRaw = typeof driver.companyShareOverridePercent === 'number' && Number.isFinite(driver.companyShareOverridePercent)
-    ? Math.max(0, Math.min(100, driver.companyShareOverridePercent))
-    : null;
-
-  if (overrideRaw !== null) {
-    return { rate: overrideRaw / 100, label: 'MANUAL OVERRIDE' };
-  }
-
-  const ownerPaysOps =
-    driver.vehicleOwnership === 'OWNER_DRIVER' &&
-    driver.fuelCostResponsibility === 'DRIVER' &&
-    driver.maintenanceResponsibility === 'DRIVER';
-
-  if (ownerPaysOps) {
-    return { rate: ownerDriverPercent / 100, label: 'OWNER + GAS + MAINT' };
-  }
-
-  if (driver.vehicleOwnership === 'COMPANY_FLEET' && driver.fuelCostResponsibility === 'DRIVER') {
-    return { rate: companyCarDriverGasPercent / 100, label: 'COMPANY CAR + DRIVER GAS' };
-  }
-
-  return { rate: otherPercent / 100, label: 'OTHER CONFIG RULE' };
-};
-
 const getTripPaymentMode = (trip: Trip): TripPaymentMode => (trip.paymentMode === 'CREDIT' ? 'CREDIT' : 'CASH');
 const getTripSettlementStatus = (trip: Trip): TripSettlementStatus => (trip.settlementStatus || 'PENDING');
 
-const getFuelCostWeight = (responsibility?: Driver['fuelCostResponsibility']): number => {
-  if (responsibility === 'DRIVER') return 0;
-  if (responsibility === 'SHARED') return 0.5;
-  return 1;
-};
-
 interface FleetYieldDriverRow {
   driverId: string;
   driverName: string;
@@ -828,6 +794,8 @@ const TemporalPulse: React.FC<{ trips: Trip[]; isFullscreen?: boolean }> = ({ tr
 const FleetHeatmap: React.FC<{ trips: Trip[], apiKey: string, theme: string, mapIdLight?: string, mapIdDark?: string, className?: string }> = ({ trips, apiKey, theme, mapIdLight, mapIdDark, className }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const [mapsLoaded, setMapsLoaded] = useState(false);
+  const [mapsLoadFailed, setMapsLoadFailed] = useState(false);
+  const [isOnline, setIsOnline] = useState(isBrowserOnline());
   const [timePulse, setTimePulse] = useState(() => Date.now());
   const [forecastRouteVersion, setForecastRouteVersion] = useState(0);
   const [layerCounts, setLayerCounts] = useState({
@@ -1139,13 +1107,19 @@ const FleetHeatmap: React.FC<{ trips: Trip[], apiKey: string, theme: string, map
     };
   }, []);
   
+  useEffect(() => subscribeToNetworkStatus(setIsOnline), []);
+
   useEffect(() => {
-    if (apiKey) {
+    if (apiKey && isOnline && !mapsLoaded) {
+      setMapsLoadFailed(false);
       loadGoogleMapsScript(apiKey)
         .then(() => setMapsLoaded(true))
-        .catch(err => console.error("Maps load error in Brief:", err));
+        .catch(err => {
+          setMapsLoadFailed(true);
+          console.error("Maps load error in Brief:", err);
+        });
     }
-  }, [apiKey]);
+  }, [apiKey, isOnline, mapsLoaded]);
 
   const recenterMap = () => {
     if (!mapInstance.current || !mapsLoaded || trips.length === 0) return;
@@ -1413,6 +1387,7 @@ const FleetHeatmap: React.FC<{ trips: Trip[], apiKey: string, theme: string, map
   return (
     <div className={`relative w-full ${className || 'h-[400px]'} rounded-[2.5rem] overflow-hidden border border-slate-200 dark:border-brand-800 shadow-2xl group/map`}>
       <div ref={mapRef} className="w-full h-full" />
+      {!mapsLoaded && (!isOnline || mapsLoadFailed) && <MapOfflineFallback offline={!isOnline} />}
       <div className="absolute top-6 left-6 flex space-x-2 pointer-events-none">
         <div className="bg-brand-900/95 backdrop-blur-xl p-4 rounded-2xl border border-white/10 shadow-2xl pointer-events-auto">
           <div className="flex items-center space-x-3">
@@ -1455,7 +1430,10 @@ const FleetHeatmap: React.FC<{ trips: Trip[], apiKey: string, theme: string, map
 };
 
 export const GMBriefPage: React.FC = () => {
-  const { trips, drivers, creditLedger, receipts, settings, theme } = useStore();
+  const { trips, drivers, creditLedger, receipts, settings, theme, activeWorkspace, alertHistory } = useStore();
+  const { isOwner } = useAuth();
+  // Owners see every workspace known on this device, not just the ones their memberships list.
+  const portfolioWorkspaces = useMemo(() => (isOwner ? getWorkspaces() : []), [isOwner]);
   const location = useLocation();
   type GmPanel = 'HEATMAP' | 'TEMPORAL' | 'FLEET_YIELD' | 'ACCOUNTING' | 'SYNTHESIS';
   type GmBundle = 'SPACE_TIME' | 'ACCOUNT_AUDIT' | 'SYNTHESIS';
@@ -1670,6 +1648,8 @@ export const GMBriefPage: React.FC = () => {
     };
   }, [location.search]);
 
+  const scheduleConflicts = useMemo(() => findAllDriverScheduleConflicts(trips), [trips]);
+
   const stats = useMemo(() => {
     const todayTrips = trips.filter(t => isToday(parseISO(t.tripDate || t.createdAt)));
     const revenueToday = todayTrips.filter(t => t.status !== TripStatus.CANCELLED).reduce((acc, t) => acc + t.fareUsd, 0);
@@ -1897,10 +1877,10 @@ export const GMBriefPage: React.FC = () => {
       return sum + (driverRevenue * getCompanyShareForDriver(driver, settings).rate);
     }, 0);
 
-    const openEntries = creditLedger.filter(entry => entry.status === 'OPEN');
-    const openBacklogUsd = openEntries.reduce((sum, entry) => sum + entry.amountUsd, 0);
-    const weeklyOpenUsd = openEntries.filter(entry => entry.cycle === 'WEEKLY').reduce((sum, entry) => sum + entry.amountUsd, 0);
-    const monthlyOpenUsd = openEntries.filter(entry => entry.cycle === 'MONTHLY').reduce((sum, entry) => sum + entry.amountUsd, 0);
+    const openEntries = creditLedger.filter(isCreditEntryOutstanding);
+    const openBacklogUsd = openEntries.reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0);
+    const weeklyOpenUsd = openEntries.filter(entry => entry.cycle === 'WEEKLY').reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0);
+    const monthlyOpenUsd = openEntries.filter(entry => entry.cycle === 'MONTHLY').reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0);
     const overdueOpenCount = openEntries.filter(entry => {
       if (!entry.dueDate) return false;
       const due = parseISO(entry.dueDate);
@@ -2190,6 +2170,8 @@ export const GMBriefPage: React.FC = () => {
     }
   };
 
+  const driverNameById = new Map(drivers.map(driver => [driver.id, driver.name] as const));
+
   const missionIntelCards = [
     {
       id: 'load',
@@ -2247,6 +2229,14 @@ export const GMBriefPage: React.FC = () => {
       icon: <AlertOctagon size={12} className="text-orange-300" />,
       tone: 'text-orange-300 border-orange-500/30 bg-orange-500/10',
     },
+    {
+      id: 'scheduleConflicts',
+      label: 'Schedule Clashes',
+      value: `${scheduleConflicts.length}`,
+      sub: `${scheduleConflicts.filter(conflict => conflict.kind === 'OVERLAP').length} overlaps · ${scheduleConflicts.filter(conflict => conflict.kind === 'DEADHEAD').length} tight`,
+      icon: <AlertTriangle size={12} className="text-red-300" />,
+      tone: 'text-red-300 border-red-500/30 bg-red-500/10',
+    },
     {
       id: 'traffic',
       label: 'Traffic Pulse',
@@ -2320,6 +2310,18 @@ export const GMBriefPage: React.FC = () => {
                 </div>
               ))}
             </div>
+            {scheduleConflicts.length > 0 && (
+              <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-3.5 space-y-2">
+                <p className="text-[8px] font-black uppercase tracking-widest text-red-300">Driver Schedule Conflicts</p>
+                <ul className="space-y-1.5 max-h-40 overflow-y-auto pr-1">
+                  {scheduleConflicts.slice(0, 8).map(conflict => (
+                    <li key={`gm-conflict-${conflict.tripId}-${conflict.conflictingTripId}`} className="text-[10px] font-bold text-slate-100 leading-tight">
+                      <span className="font-black uppercase text-red-200">{driverNameById.get(conflict.driverId) || 'Unknown unit'}</span> · {conflict.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -2408,6 +2410,10 @@ export const GMBriefPage: React.FC = () => {
                 receiptedTripTodayUsd={accountingMetrics.receiptedTripTodayUsd}
               />
             </div>
+            <AlertResponsePanel history={alertHistory} />
+            {portfolioWorkspaces.length > 1 && (
+              <WorkspacePortfolioPanel workspaces={portfolioWorkspaces} activeWorkspaceId={activeWorkspace.id} />
+            )}
           </div>
         )}
 
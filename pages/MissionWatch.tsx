@@ -4,9 +4,10 @@ import { useStore } from '../context/StoreContext';
 import { format, differenceInMinutes, parseISO } from 'date-fns';
 import { Clock, MessageCircle, Zap, ExternalLink, X } from 'lucide-react';
 import { buildWhatsAppLink, normalizePhoneForWhatsApp } from '../services/whatsapp';
+import { AlertResponseStrip } from '../components/AlertResponseStrip';
 
 export const MissionWatchPage: React.FC = () => {
-  const { alerts, trips, drivers, snoozeAlert, resolveAlert } = useStore();
+  const { alerts, trips, drivers, settings, snoozeAlert, resolveAlert, acknowledgeAlert } = useStore();
   const navigate = useNavigate();
   const location = useLocation();
   const [clockTick, setClockTick] = useState(Date.now());
@@ -159,9 +160,16 @@ export const MissionWatchPage: React.FC = () => {
             return (
               <div key={alert.id} className={`p-4 rounded-2xl border transition-all ${isUrgent ? 'bg-red-50 dark:bg-red-900/10 border-red-100 dark:border-red-900/30' : 'bg-slate-50 dark:bg-brand-950 border-slate-100 dark:border-white/5'}`}>
                 <div className="flex justify-between items-start mb-2">
-                  <span className={`text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-widest ${isLate ? 'bg-red-500 text-white' : 'bg-brand-900 text-gold-400'}`}>
-                    {alert.type}
-                  </span>
+                  <div className="flex items-center gap-1">
+                    <span className={`text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-widest ${isLate ? 'bg-red-500 text-white' : 'bg-brand-900 text-gold-400'}`}>
+                      {alert.type}
+                    </span>
+                    {alert.severity && alert.severity !== 'INFO' && (
+                      <span className={`text-[8px] font-black px-1.5 py-0.5 rounded border uppercase tracking-widest ${alert.severity === 'CRITICAL' ? 'border-red-300 text-red-600 bg-red-500/5' : 'border-amber-300 text-amber-600 bg-amber-500/5'}`}>
+                        {alert.severity}
+                      </span>
+                    )}
+                  </div>
                   <div className="flex items-center text-slate-400">
                     <Clock size={10} className="mr-1" />
                     <span className={`text-[10px] font-black ${isLate ? 'text-red-500' : isUrgent ? 'text-amber-500' : 'text-slate-400'}`}>
@@ -170,7 +178,7 @@ export const MissionWatchPage: React.FC = () => {
                   </div>
                 </div>
 
-                <h4 className="text-xs font-black uppercase tracking-tight text-brand-900 dark:text-white mb-1 line-clamp-1">{alert.customerName}</h4>
+                <h4 className="text-xs font-black uppercase tracking-tight text-brand-900 dark:text-white mb-1 line-clamp-1">{alert.customerName || alert.driverName}</h4>
                 <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{alert.label}</p>
 
                 {(customerWhatsAppHref || driverWhatsAppHref) && (
@@ -193,6 +201,7 @@ export const MissionWatchPage: React.FC = () => {
                     Snoozed until {format(parseISO(alert.snoozedUntil), 'MMM d, HH:mm')}
                   </p>
                 )}
+                <AlertResponseStrip alert={alert} settings={settings} now={new Date(clockTick)} />
 
                 <div className="mt-3 pt-3 border-t border-slate-200 dark:border-white/5 flex items-center justify-between gap-2">
                   <button
@@ -203,6 +212,14 @@ export const MissionWatchPage: React.FC = () => {
                     View Vector
                   </button>
                   <div className="flex items-center gap-1.5">
+                    {isLate && !alert.acknowledgedAt && (
+                      <button
+                        onClick={() => acknowledgeAlert(alert.id)}
+                        className="h-7 px-2 rounded-md border border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-900/10 text-[7px] font-black uppercase tracking-widest text-blue-700 dark:text-blue-300"
+                      >
+                        Ack
+                      </button>
+                    )}
                     <button
                       onClick={() => snoozeAlert(alert.id, 10)}
                       className="h-7 px-2 rounded-md border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 text-[7px] font-black uppercase tracking-widest text-amber-700 dark:text-amber-300"
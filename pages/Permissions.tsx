@@ -0,0 +1,69 @@
+import React from 'react';
+import { Check, ShieldCheck, X } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { PermissionNotice } from '../components/PermissionNotice';
+import { AUTH_ROLE_LABELS, AUTH_ROLES, CAPABILITIES, CAPABILITY_DESCRIPTORS, hasCapability } from '../services/permissions';
+
+export const PermissionsPage: React.FC = () => {
+  const { role, can, denialReason } = useAuth();
+  const canViewMatrix = can('APPROVE_ACCESS');
+
+  return (
+    <div className="app-page-shell p-4 md:p-6 bg-slate-50 dark:bg-brand-950 transition-colors duration-300 min-h-full pb-20">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h2 className="text-2xl font-black text-brand-900 dark:text-slate-100 uppercase tracking-tight inline-flex items-center gap-2">
+              <ShieldCheck size={22} />
+              Permissions
+            </h2>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mt-1">
+              Signed in as {AUTH_ROLE_LABELS[role]} · roles are set on allowed_users/{'{uid}'}
+            </p>
+          </div>
+        </div>
+
+        {!canViewMatrix ? (
+          <PermissionNotice reason={denialReason('APPROVE_ACCESS')} />
+        ) : (
+          <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-4 md:p-6 overflow-x-auto">
+            <table className="w-full min-w-[560px] text-left">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-brand-800">
+                  <th className="py-3 pr-3 text-[9px] font-black uppercase tracking-widest text-slate-400">Capability</th>
+                  {AUTH_ROLES.map(roleKey => (
+                    <th
+                      key={roleKey}
+                      className={`py-3 px-2 text-center text-[9px] font-black uppercase tracking-widest ${roleKey === role ? 'text-brand-900 dark:text-gold-400' : 'text-slate-400'}`}
+                    >
+                      {AUTH_ROLE_LABELS[roleKey]}{roleKey === role ? ' · You' : ''}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-brand-800">
+                {CAPABILITIES.map(capability => (
+                  <tr key={capability}>
+                    <td className="py-3 pr-3">
+                      <p className="text-[10px] font-black uppercase tracking-widest text-brand-900 dark:text-slate-100">{CAPABILITY_DESCRIPTORS[capability].label}</p>
+                      <p className="text-[9px] font-bold uppercase tracking-wider text-slate-400 mt-0.5">{CAPABILITY_DESCRIPTORS[capability].description}</p>
+                    </td>
+                    {AUTH_ROLES.map(roleKey => (
+                      <td key={roleKey} className={`py-3 px-2 text-center ${roleKey === role ? 'bg-gold-500/5' : ''}`}>
+                        {hasCapability(roleKey, capability) ? (
+                          <Check size={14} aria-label="Allowed" className="inline text-emerald-600" />
+                        ) : (
+                          <X size={14} aria-label="Not allowed" className="inline text-slate-300 dark:text-brand-700" />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
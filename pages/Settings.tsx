@@ -3,11 +3,20 @@ import React, { useState, useEffect } from 'react';
 import { useStore } from '../context/StoreContext';
 import { useAuth } from '../context/AuthContext';
 import { Button } from '../components/ui/Button';
-import { Save, Coins, Clock, Activity, MessageSquare, Info, Phone, Fuel, ExternalLink, Maximize2, Minimize2 } from 'lucide-react';
-import { MessageTemplates } from '../types';
+import { PermissionNotice } from '../components/PermissionNotice';
+import { WorkspaceManagerPanel } from '../components/WorkspaceManagerPanel';
+import { BackgroundNotificationsPanel } from '../components/BackgroundNotificationsPanel';
+import { Save, Coins, Clock, Activity, MessageSquare, Info, Phone, Fuel, ExternalLink, Maximize2, Minimize2, Plus, Trash2, Zap } from 'lucide-react';
+import { AlertEscalationConfig, AlertRule, AlertRuleTarget, AlertRuleTrigger, AlertSeverity, AutoDispatchConfig, CongestionPricingConfig, FareRulesConfig, MessageTemplateKey, MessageTemplates, WhatsAppCloudConfig, WhatsAppCloudTemplateMapping } from '../types';
 import { getApp, getApps, initializeApp } from 'firebase/app';
 import { addDoc, collection, doc, getFirestore, onSnapshot, query, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
-import { DEFAULT_TEMPLATES, DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT, DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT, DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT } from '../constants';
+import { DEFAULT_TEMPLATES, DEFAULT_WORKSPACE_ID, DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT, DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT, DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT, SPECIAL_REQUIREMENTS } from '../constants';
+import { normalizeFareRules } from '../services/fareRules';
+import { normalizeAutoDispatchConfig } from '../services/autoDispatch';
+import { normalizeAlertEscalationConfig } from '../services/alertEscalation';
+import { MESSAGE_TEMPLATE_KEYS, MESSAGE_TEMPLATE_LABELS, normalizeWhatsAppCloudConfig } from '../services/messaging';
+import { getWhatsAppCloudApiBaseUrl, getWhatsAppCloudToken, setWhatsAppCloudApiBaseUrl, setWhatsAppCloudToken } from '../services/storageService';
+import { ALERT_RULE_MAX_LEAD_MINUTES, ALERT_RULE_TARGET_LABELS, ALERT_RULE_TRIGGER_KEYS, ALERT_RULE_TRIGGERS, ALERT_SEVERITIES, createAlertRule, normalizeAlertRules, validateAlertRules } from '../services/alertRules';
 import {
   applyPhoneDialCode,
   DEFAULT_PHONE_DIAL_CODE,
@@ -47,9 +56,10 @@ const isFirebaseConfigured = Boolean(
 const mailCollectionName = String(import.meta.env.VITE_FIREBASE_MAIL_COLLECTION || '').trim();
 
 export const SettingsPage: React.FC = () => {
-  const { settings, updateSettings } = useStore();
-  const { role, user } = useAuth();
-  const isAdmin = role === 'admin';
+  const { settings, updateSettings, activeWorkspace } = useStore();
+  const { user, can, denialReason } = useAuth();
+  const canApproveAccess = can('APPROVE_ACCESS');
+  const pricingLockedReason = denialReason('EDIT_PRICING');
   const [exchangeRate, setExchangeRate] = useState(settings.exchangeRate.toString());
   const [hourlyWaitRate, setHourlyWaitRate] = useState(settings.hourlyWaitRate.toString());
   const [ratePerKm, setRatePerKm] = useState(settings.ratePerKm.toString());
@@ -70,6 +80,15 @@ export const SettingsPage: React.FC = () => {
   const [operatorUseCustomDialCode, setOperatorUseCustomDialCode] = useState(false);
   const [operatorCustomDialCode, setOperatorCustomDialCode] = useState('');
   const [templates, setTemplates] = useState<MessageTemplates>(settings.templates);
+  const [fareRules, setFareRules] = useState<FareRulesConfig>(settings.fareRules);
+  const [holidayDatesInput, setHolidayDatesInput] = useState(settings.fareRules.holidayDates.join(', '));
+  const [autoDispatch, setAutoDispatch] = useState<AutoDispatchConfig>(settings.autoDispatch);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(settings.alertRules);
+  const [alertEscalation, setAlertEscalation] = useState<AlertEscalationConfig>(settings.alertEscalation);
+  const [whatsAppCloud, setWhatsAppCloud] = useState<WhatsAppCloudConfig>(settings.whatsAppCloud);
+  const [whatsAppCloudToken, setWhatsAppCloudTokenDraft] = useState(getWhatsAppCloudToken());
+  const [whatsAppCloudApiBaseUrl, setWhatsAppCloudApiBaseUrlDraft] = useState(getWhatsAppCloudApiBaseUrl());
+  const [newAlertRuleTrigger, setNewAlertRuleTrigger] = useState<AlertRuleTrigger>('PICKUP_DUE');
   const [message, setMessage] = useState('');
   const [messageTone, setMessageTone] = useState<'SUCCESS' | 'ERROR'>('SUCCESS');
   const [isConfigFullView, setIsConfigFullView] = useState(false);
@@ -111,7 +130,7 @@ export const SettingsPage: React.FC = () => {
   const operatorEffectiveDialCode = operatorIntlEnabled ? selectedOperatorIntlDialCode : DEFAULT_PHONE_DIAL_CODE;
 
   useEffect(() => {
-    if (!isAdmin || !isFirebaseConfigured) {
+    if (!canApproveAccess || !isFirebaseConfigured) {
       setPendingAccessRequests([]);
       return;
     }
@@ -146,7 +165,7 @@ export const SettingsPage: React.FC = () => {
     );
 
     return () => unsubscribe();
-  }, [isAdmin]);
+  }, [canApproveAccess]);
 
   useEffect(() => {
     setExchangeRate(settings.exchangeRate.toString());
@@ -178,6 +197,12 @@ export const SettingsPage: React.FC = () => {
       setOperatorCustomDialCode(detectedDialCode);
     }
     setTemplates(settings.templates);
+    setFareRules(settings.fareRules);
+    setHolidayDatesInput(settings.fareRules.holidayDates.join(', '));
+    setAutoDispatch(settings.autoDispatch);
+    setAlertRules(settings.alertRules);
+    setAlertEscalation(settings.alertEscalation);
+    setWhatsAppCloud(settings.whatsAppCloud);
   }, [settings]);
 
   useEffect(() => {
@@ -236,7 +261,23 @@ export const SettingsPage: React.FC = () => {
       return;
     }
 
-    updateSettings({
+    const alertRulesCheck = validateAlertRules(alertRules);
+    if (!alertRulesCheck.ok) {
+      setMessageTone('ERROR');
+      setMessage(alertRulesCheck.reason || 'Alert rules are invalid.');
+      setTimeout(() => setMessage(''), 3000);
+      return;
+    }
+
+    const normalizedWhatsAppCloud = normalizeWhatsAppCloudConfig(whatsAppCloud);
+    if (normalizedWhatsAppCloud.enabled && (!normalizedWhatsAppCloud.phoneNumberId || !whatsAppCloudToken.trim())) {
+      setMessageTone('ERROR');
+      setMessage('Enter the WhatsApp phone number ID and access token, or turn the Cloud API off.');
+      setTimeout(() => setMessage(''), 3000);
+      return;
+    }
+
+    const result = updateSettings({
       exchangeRate: parseOrDefault(exchangeRate, 90000),
       hourlyWaitRate: parseOrDefault(hourlyWaitRate, 5),
       ratePerKm: parseOrDefault(ratePerKm, 1.1),
@@ -255,13 +296,73 @@ export const SettingsPage: React.FC = () => {
       ownerDriverCompanySharePercent: parseOrDefault(ownerDriverCompanySharePercent, DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT),
       companyCarDriverGasCompanySharePercent: parseOrDefault(companyCarDriverGasCompanySharePercent, DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT),
       otherDriverCompanySharePercent: parseOrDefault(otherDriverCompanySharePercent, DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT),
+      fareRules: normalizeFareRules({
+        ...fareRules,
+        holidayDates: holidayDatesInput.split(/[\s,]+/).filter(Boolean),
+      }),
+      autoDispatch: normalizeAutoDispatchConfig(autoDispatch),
+      alertRules: normalizeAlertRules(alertRules),
+      alertEscalation: normalizeAlertEscalationConfig(alertEscalation),
+      whatsAppCloud: normalizedWhatsAppCloud,
       templates
     });
+    if (!result.ok) {
+      setMessageTone('ERROR');
+      setMessage(result.reason || 'Unable to save settings.');
+      setTimeout(() => setMessage(''), 3000);
+      return;
+    }
+    setWhatsAppCloudToken(whatsAppCloudToken);
+    setWhatsAppCloudApiBaseUrl(whatsAppCloudApiBaseUrl);
     setMessageTone('SUCCESS');
     setMessage('Settings saved successfully.');
     setTimeout(() => setMessage(''), 3000);
   };
 
+  const updateFareRules = (patch: Partial<FareRulesConfig>) => {
+    setFareRules(prev => ({ ...prev, ...patch }));
+  };
+
+  const updateCongestionPricing = (patch: Partial<CongestionPricingConfig>) => {
+    setFareRules(prev => ({ ...prev, congestion: { ...prev.congestion, ...patch } }));
+  };
+
+  const updateWhatsAppCloudTemplate = (key: MessageTemplateKey, patch: Partial<WhatsAppCloudTemplateMapping>) => {
+    setWhatsAppCloud(prev => ({ ...prev, templates: { ...prev.templates, [key]: { ...prev.templates[key], ...patch } } }));
+  };
+
+  const updateAlertRule = (id: string, patch: Partial<AlertRule>) => {
+    setAlertRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...patch } : rule));
+  };
+
+  const handleRemoveAlertRule = (rule: AlertRule) => {
+    if (!window.confirm(`Remove alert rule "${rule.name}"? Its open alerts clear once settings are saved.`)) return;
+    setAlertRules(prev => prev.filter(item => item.id !== rule.id));
+  };
+
+  const handleAddFareZone = () => {
+    const id = `zone-${Date.now()}`;
+    updateFareRules({
+      zones: [...fareRules.zones, { id, name: `Zone ${fareRules.zones.length + 1}`, lat: 33.8938, lng: 35.5018, radiusKm: 3 }],
+    });
+  };
+
+  const handleRemoveFareZone = (zoneId: string) => {
+    updateFareRules({
+      zones: fareRules.zones.filter(zone => zone.id !== zoneId),
+      zoneFlatRates: fareRules.zoneFlatRates.filter(rate => rate.fromZoneId !== zoneId && rate.toZoneId !== zoneId),
+    });
+  };
+
+  const handleAddZoneFlatRate = () => {
+    if (fareRules.zones.length === 0) return;
+    const firstZoneId = fareRules.zones[0].id;
+    const secondZoneId = fareRules.zones[1]?.id || firstZoneId;
+    updateFareRules({
+      zoneFlatRates: [...fareRules.zoneFlatRates, { id: `zone-rate-${Date.now()}`, fromZoneId: firstZoneId, toZoneId: secondZoneId, fareUsd: 0 }],
+    });
+  };
+
   const handleTemplateChange = (key: keyof MessageTemplates, value: string) => {
     setTemplates(prev => ({ ...prev, [key]: value }));
   };
@@ -274,7 +375,7 @@ export const SettingsPage: React.FC = () => {
   };
 
   const handleApproveAccessRequest = async (request: AccessRequestRecord) => {
-    if (!isAdmin || !isFirebaseConfigured || !user) return;
+    if (!canApproveAccess || !isFirebaseConfigured || !user) return;
 
     try {
       setAccessQueueBusyUid(request.uid);
@@ -286,7 +387,8 @@ export const SettingsPage: React.FC = () => {
         doc(firestore, 'allowed_users', request.uid),
         {
           enabled: true,
-          role: approvedRole,
+          // Approvals outside the main workspace only grant a role in the workspace they were made from.
+          ...(activeWorkspace.id === DEFAULT_WORKSPACE_ID ? { role: approvedRole } : { workspaces: { [activeWorkspace.id]: approvedRole } }),
           note: request.email || request.displayName || 'Approved via Settings queue',
           approvedByUid: user.uid,
           approvedByEmail: user.email || '',
@@ -337,7 +439,7 @@ export const SettingsPage: React.FC = () => {
   };
 
   const handleRejectAccessRequest = async (request: AccessRequestRecord) => {
-    if (!isAdmin || !isFirebaseConfigured || !user) return;
+    if (!canApproveAccess || !isFirebaseConfigured || !user) return;
 
     try {
       setAccessQueueBusyUid(request.uid);
@@ -382,8 +484,8 @@ export const SettingsPage: React.FC = () => {
 
         <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors mb-8">
           <h3 className="text-sm font-black text-brand-900 dark:text-gold-500 uppercase tracking-widest mb-4 border-b pb-4 dark:border-brand-800">Access Requests Queue</h3>
-          {!isAdmin ? (
-            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Only admin accounts can approve or reject operator requests.</p>
+          {!canApproveAccess ? (
+            <PermissionNotice reason={denialReason('APPROVE_ACCESS')} />
           ) : pendingAccessRequests.length === 0 ? (
             <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">No pending requests.</p>
           ) : (
@@ -435,6 +537,8 @@ export const SettingsPage: React.FC = () => {
           ) : null}
         </div>
 
+        <WorkspaceManagerPanel />
+
         <form onSubmit={handleSave} className="space-y-8">
           {/* Financial & Distance Settings */}
           <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors">
@@ -568,6 +672,499 @@ export const SettingsPage: React.FC = () => {
             <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Used in CRM finance calculations to compute company owed share per driver.</p>
           </div>
 
+          <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors">
+            <h3 className="text-sm font-black text-brand-900 dark:text-gold-500 uppercase tracking-widest mb-6 border-b pb-4 dark:border-brand-800">Tariff Rules</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Night Surcharge %</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={fareRules.nightSurchargePercent}
+                  onChange={(e) => updateFareRules({ nightSurchargePercent: Number(e.target.value) })}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-lg font-black p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Night Starts (Hour)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="23"
+                  value={fareRules.nightStartHour}
+                  onChange={(e) => updateFareRules({ nightStartHour: Number(e.target.value) })}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-lg font-black p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Night Ends (Hour)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="23"
+                  value={fareRules.nightEndHour}
+                  onChange={(e) => updateFareRules({ nightEndHour: Number(e.target.value) })}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-lg font-black p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Holiday Surcharge %</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={fareRules.holidaySurchargePercent}
+                  onChange={(e) => updateFareRules({ holidaySurchargePercent: Number(e.target.value) })}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-lg font-black p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Holiday Dates (YYYY-MM-DD, comma separated)</label>
+                <input
+                  type="text"
+                  value={holidayDatesInput}
+                  onChange={(e) => setHolidayDatesInput(e.target.value)}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm h-[52px] px-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                  placeholder="2026-12-25, 2027-01-01"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Per-Stop Fee (USD)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={fareRules.perStopFeeUsd}
+                  onChange={(e) => updateFareRules({ perStopFeeUsd: Number(e.target.value) })}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-lg font-black p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+            </div>
+
+            <div className="mt-6">
+              <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Requirement Surcharges (USD)</label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {SPECIAL_REQUIREMENTS.map(requirement => (
+                  <div key={requirement.id}>
+                    <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">{requirement.short}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={fareRules.requirementSurchargesUsd[requirement.id] ?? 0}
+                      onChange={(e) => updateFareRules({
+                        requirementSurchargesUsd: { ...fareRules.requirementSurchargesUsd, [requirement.id]: Number(e.target.value) },
+                      })}
+                      className="block w-full rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                      aria-label={`${requirement.label} surcharge`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Fare Zones</label>
+                <Button type="button" variant="outline" className="h-8 text-[9px] px-3" onClick={handleAddFareZone}>
+                  <Plus size={12} className="mr-1" /> Add Zone
+                </Button>
+              </div>
+              {fareRules.zones.length === 0 ? (
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">No zones defined. Fares use the distance rate.</p>
+              ) : (
+                <div className="space-y-2">
+                  {fareRules.zones.map(zone => (
+                    <div key={zone.id} className="grid grid-cols-2 md:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                      <input
+                        type="text"
+                        value={zone.name}
+                        onChange={(e) => updateFareRules({ zones: fareRules.zones.map(item => item.id === zone.id ? { ...item, name: e.target.value } : item) })}
+                        className="col-span-2 md:col-span-1 rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                        aria-label="Zone name"
+                      />
+                      <input
+                        type="number"
+                        step="0.0001"
+                        value={zone.lat}
+                        onChange={(e) => updateFareRules({ zones: fareRules.zones.map(item => item.id === zone.id ? { ...item, lat: Number(e.target.value) } : item) })}
+                        className="rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                        aria-label="Zone latitude"
+                      />
+                      <input
+                        type="number"
+                        step="0.0001"
+                        value={zone.lng}
+                        onChange={(e) => updateFareRules({ zones: fareRules.zones.map(item => item.id === zone.id ? { ...item, lng: Number(e.target.value) } : item) })}
+                        className="rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                        aria-label="Zone longitude"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={zone.radiusKm}
+                        onChange={(e) => updateFareRules({ zones: fareRules.zones.map(item => item.id === zone.id ? { ...item, radiusKm: Number(e.target.value) } : item) })}
+                        className="rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                        aria-label="Zone radius in km"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveFareZone(zone.id)}
+                        className="h-9 w-9 rounded-lg border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-red-600 dark:text-red-300 inline-flex items-center justify-center"
+                        aria-label={`Remove ${zone.name}`}
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Zone Flat Fares</label>
+                <Button type="button" variant="outline" className="h-8 text-[9px] px-3" onClick={handleAddZoneFlatRate} disabled={fareRules.zones.length === 0}>
+                  <Plus size={12} className="mr-1" /> Add Flat Fare
+                </Button>
+              </div>
+              {fareRules.zoneFlatRates.length === 0 ? (
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">No flat fares. Add zones first, then link two zones with a fixed price.</p>
+              ) : (
+                <div className="space-y-2">
+                  {fareRules.zoneFlatRates.map(rate => (
+                    <div key={rate.id} className="grid grid-cols-2 md:grid-cols-[2fr_2fr_1fr_auto] gap-2 items-center">
+                      {(['fromZoneId', 'toZoneId'] as const).map(field => (
+                        <select
+                          key={field}
+                          value={rate[field]}
+                          onChange={(e) => updateFareRules({ zoneFlatRates: fareRules.zoneFlatRates.map(item => item.id === rate.id ? { ...item, [field]: e.target.value } : item) })}
+                          className="rounded-lg border-slate-200 dark:border-brand-800 text-[10px] font-black uppercase tracking-widest h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                          aria-label={field === 'fromZoneId' ? 'From zone' : 'To zone'}
+                        >
+                          {fareRules.zones.map(zone => (
+                            <option key={zone.id} value={zone.id}>{zone.name}</option>
+                          ))}
+                        </select>
+                      ))}
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={rate.fareUsd}
+                        onChange={(e) => updateFareRules({ zoneFlatRates: fareRules.zoneFlatRates.map(item => item.id === rate.id ? { ...item, fareUsd: Number(e.target.value) } : item) })}
+                        className="rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                        aria-label="Flat fare in USD"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updateFareRules({ zoneFlatRates: fareRules.zoneFlatRates.filter(item => item.id !== rate.id) })}
+                        className="h-9 w-9 rounded-lg border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-red-600 dark:text-red-300 inline-flex items-center justify-center"
+                        aria-label="Remove flat fare"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="mt-6 pt-6 border-t border-slate-100 dark:border-brand-800">
+              <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Congestion Pricing</label>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <select
+                  value={fareRules.congestion.mode}
+                  onChange={(e) => {
+                    const nextMode = e.target.value === 'SURPLUS_PER_MINUTE' || e.target.value === 'INDEX_MULTIPLIER' ? e.target.value : 'OFF';
+                    updateCongestionPricing({ mode: nextMode });
+                  }}
+                  className="rounded-lg border-slate-200 dark:border-brand-800 text-[10px] font-black uppercase tracking-widest h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                  aria-label="Congestion pricing mode"
+                >
+                  <option value="OFF">Off</option>
+                  <option value="SURPLUS_PER_MINUTE">Per Surplus Minute</option>
+                  <option value="INDEX_MULTIPLIER">Traffic Index Tiers</option>
+                </select>
+                {fareRules.congestion.mode === 'SURPLUS_PER_MINUTE' && (
+                  <>
+                    <div>
+                      <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">USD / Surplus Min</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.05"
+                        value={fareRules.congestion.surplusRateUsdPerMin}
+                        onChange={(e) => updateCongestionPricing({ surplusRateUsdPerMin: Number(e.target.value) })}
+                        className="block w-full rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                      />
+                    </div>
+                    <div>
+                      <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Grace (Min)</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={fareRules.congestion.surplusGraceMin}
+                        onChange={(e) => updateCongestionPricing({ surplusGraceMin: Number(e.target.value) })}
+                        className="block w-full rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                      />
+                    </div>
+                    <div>
+                      <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Cap (USD, 0 = none)</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={fareRules.congestion.surplusCapUsd}
+                        onChange={(e) => updateCongestionPricing({ surplusCapUsd: Number(e.target.value) })}
+                        className="block w-full rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              {fareRules.congestion.mode === 'INDEX_MULTIPLIER' && (
+                <div className="mt-3 space-y-2">
+                  {fareRules.congestion.tiers.map((tier, index) => (
+                    <div key={`tier-${index}`} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={tier.minTrafficIndex}
+                        onChange={(e) => updateCongestionPricing({
+                          tiers: fareRules.congestion.tiers.map((item, i) => i === index ? { ...item, minTrafficIndex: Number(e.target.value) } : item),
+                        })}
+                        className="rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                        aria-label="Minimum traffic index"
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        step="0.05"
+                        value={tier.multiplier}
+                        onChange={(e) => updateCongestionPricing({
+                          tiers: fareRules.congestion.tiers.map((item, i) => i === index ? { ...item, multiplier: Number(e.target.value) } : item),
+                        })}
+                        className="rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                        aria-label="Fare multiplier"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updateCongestionPricing({ tiers: fareRules.congestion.tiers.filter((_, i) => i !== index) })}
+                        className="h-9 w-9 rounded-lg border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-red-600 dark:text-red-300 inline-flex items-center justify-center"
+                        aria-label="Remove tier"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="h-8 text-[9px] px-3"
+                    onClick={() => updateCongestionPricing({ tiers: [...fareRules.congestion.tiers, { minTrafficIndex: 50, multiplier: 1.1 }] })}
+                  >
+                    <Plus size={12} className="mr-1" /> Add Tier
+                  </Button>
+                </div>
+              )}
+              <p className="mt-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Per-minute mode bills traffic surplus beyond the grace period up to the cap. Tier mode applies the highest matching multiplier to the base fare.</p>
+            </div>
+            <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Flat fares apply in both directions. Night and holiday surcharges are computed on the subtotal; the minimum fare still applies last.</p>
+          </div>
+
+          <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors">
+            <h3 className="text-sm font-black text-brand-900 dark:text-gold-500 uppercase tracking-widest mb-6 border-b pb-4 dark:border-brand-800">Auto Dispatch</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Mode</label>
+                <select
+                  value={autoDispatch.enabled ? 'ON' : 'OFF'}
+                  onChange={(e) => setAutoDispatch(prev => ({ ...prev, enabled: e.target.value === 'ON' }))}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm font-black uppercase tracking-widest h-[52px] px-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                >
+                  <option value="OFF">Manual Assignment</option>
+                  <option value="ON">Auto-Assign Top Driver</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Lead Time (Minutes Before Pickup)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="5"
+                  value={autoDispatch.leadMinutes}
+                  onChange={(e) => setAutoDispatch(prev => ({ ...prev, leadMinutes: Number(e.target.value) }))}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-lg font-black p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+            </div>
+            <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Unassigned confirmed trips get the highest-scoring eligible driver once pickup is within the lead time. Off-duty, inactive and double-booked drivers are skipped; the reasoning is appended to trip notes.</p>
+          </div>
+
+          <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors">
+            <h3 className="text-sm font-black text-brand-900 dark:text-gold-500 uppercase tracking-widest mb-6 border-b pb-4 dark:border-brand-800">Alert Rules</h3>
+            <div className="space-y-3">
+              {alertRules.length === 0 && (
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">No alert rules. Mission Watch stays quiet until one is added.</p>
+              )}
+              {alertRules.map(rule => {
+                const descriptor = ALERT_RULE_TRIGGERS[rule.trigger];
+                const hasLeadTime = descriptor.timing !== 'WHILE_TRUE';
+                return (
+                  <div key={rule.id} className={`rounded-xl border p-4 ${rule.enabled ? 'border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950' : 'border-dashed border-slate-200 dark:border-brand-800 opacity-70'}`}>
+                    <div className="flex items-center justify-between gap-3 mb-3">
+                      <div className="min-w-0">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-brand-900 dark:text-slate-100">{descriptor.label}</p>
+                        <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400">{descriptor.description}</p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => updateAlertRule(rule.id, { enabled: !rule.enabled })}
+                          className={`h-8 px-3 rounded-lg border text-[8px] font-black uppercase tracking-widest ${rule.enabled ? 'border-emerald-300 text-emerald-700 bg-emerald-50 dark:border-emerald-900/40 dark:text-emerald-300 dark:bg-emerald-900/10' : 'border-slate-200 dark:border-brand-800 text-slate-500 bg-white dark:bg-brand-900'}`}
+                        >
+                          {rule.enabled ? 'On' : 'Off'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveAlertRule(rule)}
+                          className="h-8 w-8 rounded-lg border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-red-600 dark:text-red-300 inline-flex items-center justify-center"
+                          aria-label={`Remove ${rule.name}`}
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                      <label className="col-span-2 text-[8px] font-black uppercase tracking-widest text-slate-400">
+                        Label
+                        <input
+                          value={rule.name}
+                          onChange={(e) => updateAlertRule(rule.id, { name: e.target.value })}
+                          className="mt-1 w-full rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-white dark:bg-brand-900 text-slate-900 dark:text-slate-100 normal-case tracking-normal"
+                        />
+                      </label>
+                      {hasLeadTime && (
+                        <label className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                          {descriptor.timing === 'AFTER_COMPLETION' ? 'Minutes After' : 'Minutes Before'}
+                          <input
+                            type="number"
+                            min="0"
+                            max={ALERT_RULE_MAX_LEAD_MINUTES}
+                            step="5"
+                            value={rule.leadMinutes}
+                            onChange={(e) => updateAlertRule(rule.id, { leadMinutes: Number(e.target.value) })}
+                            className="mt-1 w-full rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-white dark:bg-brand-900 text-slate-900 dark:text-slate-100"
+                          />
+                        </label>
+                      )}
+                      {descriptor.thresholdLabel && (
+                        <label className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                          {descriptor.thresholdLabel}
+                          <input
+                            type="number"
+                            min="1"
+                            value={rule.threshold ?? ''}
+                            onChange={(e) => updateAlertRule(rule.id, { threshold: Number(e.target.value) })}
+                            className="mt-1 w-full rounded-lg border-slate-200 dark:border-brand-800 text-sm font-black h-9 px-2 border bg-white dark:bg-brand-900 text-slate-900 dark:text-slate-100"
+                          />
+                        </label>
+                      )}
+                      <label className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                        Severity
+                        <select
+                          value={rule.severity}
+                          onChange={(e) => updateAlertRule(rule.id, { severity: e.target.value as AlertSeverity })}
+                          className="mt-1 w-full rounded-lg border-slate-200 dark:border-brand-800 text-[10px] font-black uppercase h-9 px-2 border bg-white dark:bg-brand-900 text-slate-900 dark:text-slate-100"
+                        >
+                          {ALERT_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                        </select>
+                      </label>
+                      <label className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                        Notify
+                        <select
+                          value={rule.notify ? rule.target : 'NONE'}
+                          onChange={(e) => updateAlertRule(rule.id, e.target.value === 'NONE'
+                            ? { notify: false }
+                            : { notify: true, target: e.target.value as AlertRuleTarget })}
+                          className="mt-1 w-full rounded-lg border-slate-200 dark:border-brand-800 text-[10px] font-black uppercase h-9 px-2 border bg-white dark:bg-brand-900 text-slate-900 dark:text-slate-100"
+                        >
+                          {(Object.keys(ALERT_RULE_TARGET_LABELS) as AlertRuleTarget[]).map(target => (
+                            <option key={target} value={target}>{ALERT_RULE_TARGET_LABELS[target]}</option>
+                          ))}
+                          <option value="NONE">Watch Only</option>
+                        </select>
+                      </label>
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="flex flex-wrap items-center gap-2 pt-2">
+                <select
+                  value={newAlertRuleTrigger}
+                  onChange={(e) => setNewAlertRuleTrigger(e.target.value as AlertRuleTrigger)}
+                  className="rounded-lg border-slate-200 dark:border-brand-800 text-[10px] font-black uppercase h-8 px-2 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100"
+                  aria-label="Alert rule trigger"
+                >
+                  {ALERT_RULE_TRIGGER_KEYS.map(trigger => <option key={trigger} value={trigger}>{ALERT_RULE_TRIGGERS[trigger].label}</option>)}
+                </select>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="h-8 text-[9px] px-3"
+                  onClick={() => setAlertRules(prev => [...prev, createAlertRule(newAlertRuleTrigger)])}
+                >
+                  <Plus size={12} className="mr-1" /> Add Rule
+                </Button>
+              </div>
+            </div>
+            <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Every rule shows in Mission Watch. Desktop notifications go only to the roles picked under Notify; Watch Only rules never notify.</p>
+          </div>
+
+          <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors">
+            <h3 className="text-sm font-black text-brand-900 dark:text-gold-500 uppercase tracking-widest mb-6 border-b pb-4 dark:border-brand-800">Alert Escalation</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Mode</label>
+                <select
+                  value={alertEscalation.enabled ? 'ON' : 'OFF'}
+                  onChange={(e) => setAlertEscalation(prev => ({ ...prev, enabled: e.target.value === 'ON' }))}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm font-black uppercase tracking-widest h-[52px] px-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                >
+                  <option value="ON">Escalate Unacknowledged</option>
+                  <option value="OFF">Notify Once</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Re-Notify Louder After (Min)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={alertEscalation.renotifyAfterMinutes}
+                  onChange={(e) => setAlertEscalation(prev => ({ ...prev, renotifyAfterMinutes: Number(e.target.value) }))}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-lg font-black p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Operator WhatsApp After (Min)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={alertEscalation.whatsAppAfterMinutes}
+                  onChange={(e) => setAlertEscalation(prev => ({ ...prev, whatsAppAfterMinutes: Number(e.target.value) }))}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-lg font-black p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+            </div>
+            <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Minutes count from when the alert came due. Acknowledging stops escalation. The last tier prepares a WhatsApp message to the Operator WhatsApp number below; it still needs one tap to send.</p>
+          </div>
+
+          <BackgroundNotificationsPanel />
+
           {/* Messaging Templates */}
           <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors">
             <div className="flex justify-between items-center mb-6 border-b pb-4 dark:border-brand-800">
@@ -782,7 +1379,7 @@ export const SettingsPage: React.FC = () => {
                   <div className="flex items-start">
                      <Info size={14} className="text-brand-600 mr-2 mt-0.5" />
                     <p className="text-[10px] font-bold text-brand-800 dark:text-slate-400 uppercase leading-relaxed">
-                        Supported Placeholders: <span className="text-gold-600">{"{customer_name}"}</span>, <span className="text-gold-600">{"{pickup}"}</span>, <span className="text-gold-600">{"{destination}"}</span>, <span className="text-gold-600">{"{trip_datetime_formatted}"}</span>, <span className="text-gold-600">{"{fare_usd}"}</span>, <span className="text-gold-600">{"{fare_lbp}"}</span>, <span className="text-gold-600">{"{driver_name}"}</span>, <span className="text-gold-600">{"{driver_name_with_plate}"}</span>, <span className="text-gold-600">{"{google_review_link}"}</span>, <span className="text-gold-600">{"{booking_url}"}</span>, <span className="text-gold-600">{"{fare_estimator_url}"}</span>, <span className="text-gold-600">{"{custom_request_url}"}</span>, <span className="text-gold-600">{"{promotional_offer_url}"}</span>, <span className="text-gold-600">{"{coupon_program_url}"}</span>, <span className="text-gold-600">{"{loyalty_program_url}"}</span>, <span className="text-gold-600">{"{service_links_block}"}</span>
+                        Supported Placeholders: <span className="text-gold-600">{"{company_name}"}</span>, <span className="text-gold-600">{"{customer_name}"}</span>, <span className="text-gold-600">{"{pickup}"}</span>, <span className="text-gold-600">{"{destination}"}</span>, <span className="text-gold-600">{"{trip_datetime_formatted}"}</span>, <span className="text-gold-600">{"{fare_usd}"}</span>, <span className="text-gold-600">{"{fare_lbp}"}</span>, <span className="text-gold-600">{"{driver_name}"}</span>, <span className="text-gold-600">{"{driver_name_with_plate}"}</span>, <span className="text-gold-600">{"{google_review_link}"}</span>, <span className="text-gold-600">{"{booking_url}"}</span>, <span className="text-gold-600">{"{fare_estimator_url}"}</span>, <span className="text-gold-600">{"{custom_request_url}"}</span>, <span className="text-gold-600">{"{promotional_offer_url}"}</span>, <span className="text-gold-600">{"{coupon_program_url}"}</span>, <span className="text-gold-600">{"{loyalty_program_url}"}</span>, <span className="text-gold-600">{"{service_links_block}"}</span>
                     </p>
                   </div>
                </div>
@@ -816,9 +1413,111 @@ export const SettingsPage: React.FC = () => {
             </div>
           </div>
 
+          <div className="bg-white dark:bg-brand-900 rounded-2xl shadow-xl border border-slate-200 dark:border-brand-800 p-6 md:p-8 transition-colors">
+            <div className="flex justify-between items-center mb-6 border-b pb-4 dark:border-brand-800">
+              <h3 className="text-sm font-black text-brand-900 dark:text-gold-500 uppercase tracking-widest">WhatsApp Cloud API</h3>
+              <Zap size={18} className="text-gold-600" />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Mode</label>
+                <select
+                  value={whatsAppCloud.enabled ? 'ON' : 'OFF'}
+                  onChange={(e) => setWhatsAppCloud(prev => ({ ...prev, enabled: e.target.value === 'ON' }))}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm font-black uppercase tracking-widest h-[52px] px-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                >
+                  <option value="OFF">WhatsApp Links Only</option>
+                  <option value="ON">Send Via Cloud API</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">API Base URL (This Device)</label>
+                <input
+                  type="text"
+                  value={whatsAppCloudApiBaseUrl}
+                  onChange={(e) => setWhatsAppCloudApiBaseUrlDraft(e.target.value)}
+                  placeholder="https://graph.facebook.com"
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm font-bold p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">API Version</label>
+                <input
+                  type="text"
+                  value={whatsAppCloud.apiVersion}
+                  onChange={(e) => setWhatsAppCloud(prev => ({ ...prev, apiVersion: e.target.value }))}
+                  placeholder="v21.0"
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm font-bold p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Phone Number ID</label>
+                <input
+                  type="text"
+                  value={whatsAppCloud.phoneNumberId}
+                  onChange={(e) => setWhatsAppCloud(prev => ({ ...prev, phoneNumberId: e.target.value }))}
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm font-bold p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Access Token (This Device)</label>
+                <input
+                  type="password"
+                  value={whatsAppCloudToken}
+                  onChange={(e) => setWhatsAppCloudTokenDraft(e.target.value)}
+                  autoComplete="off"
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm font-bold p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Status Feed URL</label>
+                <input
+                  type="text"
+                  value={whatsAppCloud.statusFeedUrl}
+                  onChange={(e) => setWhatsAppCloud(prev => ({ ...prev, statusFeedUrl: e.target.value }))}
+                  placeholder="https://relay.example.com/webhook/events"
+                  className="block w-full rounded-xl border-slate-200 dark:border-brand-800 shadow-sm focus:border-brand-900 dark:focus:border-gold-600 focus:ring-brand-900 dark:focus:ring-gold-600 text-sm font-bold p-3 border bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 transition-all"
+                />
+              </div>
+            </div>
+
+            <div className="mt-6 space-y-3">
+              {MESSAGE_TEMPLATE_KEYS.map(key => (
+                <div key={key} className="grid grid-cols-1 md:grid-cols-[140px_1fr_90px_2fr] gap-2 items-center">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-brand-900 dark:text-slate-200">{MESSAGE_TEMPLATE_LABELS[key]}</span>
+                  <input
+                    type="text"
+                    value={whatsAppCloud.templates[key].name}
+                    onChange={(e) => updateWhatsAppCloudTemplate(key, { name: e.target.value })}
+                    placeholder="Approved template name"
+                    className="h-10 rounded-lg border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 px-3 text-xs font-bold text-slate-900 dark:text-slate-100"
+                  />
+                  <input
+                    type="text"
+                    value={whatsAppCloud.templates[key].language}
+                    onChange={(e) => updateWhatsAppCloudTemplate(key, { language: e.target.value })}
+                    placeholder="en"
+                    title="Template language code"
+                    className="h-10 rounded-lg border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 px-3 text-xs font-bold text-slate-900 dark:text-slate-100"
+                  />
+                  <input
+                    type="text"
+                    value={whatsAppCloud.templates[key].parameters.join(', ')}
+                    onChange={(e) => updateWhatsAppCloudTemplate(key, { parameters: e.target.value.split(',').map(item => item.trim()) })}
+                    placeholder="{customer_name}, {trip_datetime_formatted}"
+                    title="Placeholders filling {{1}}, {{2}}, ... in order"
+                    className="h-10 rounded-lg border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 px-3 text-xs font-mono text-slate-900 dark:text-slate-100"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Messages with an approved template name go out through the Cloud API from the API button; the rest keep using WhatsApp links. Parameters are placeholders from the templates above, in {'{{1}}'}, {'{{2}}'} order. The access token stays on this device and is left out of sync and backups. Delivered and read ticks come from the status feed, a relay for Meta's webhooks.</p>
+          </div>
+
           <div className="pt-6 flex flex-col sm:flex-row items-center justify-between gap-4">
             <span className={`${messageTone === 'ERROR' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'} font-black text-[10px] uppercase tracking-widest transition-all`}>{message}</span>
-            <Button type="submit" variant="gold" size="lg" className="w-full sm:w-auto min-w-[200px] shadow-xl shadow-gold-500/20">
+            <PermissionNotice reason={pricingLockedReason} />
+            <Button type="submit" disabled={Boolean(pricingLockedReason)} title={pricingLockedReason} variant="gold" size="lg" className="w-full sm:w-auto min-w-[200px] shadow-xl shadow-gold-500/20">
               <Save size={18} className="mr-2" />
               Commit Settings
             </Button>
@@ -1,22 +1,25 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useStore } from '../context/StoreContext';
-import { Trip, TripStatus, Driver, Customer, CustomerLocation, TripStop, TripPaymentMode, TripSettlementStatus } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { Trip, TripStatus, Driver, Customer, CustomerLocation, TripStop, TripPaymentMode, TripSettlementStatus, TripSeries } from '../types';
 import { useLocation } from 'react-router-dom';
-import { format, isToday, isFuture, isPast, parseISO } from 'date-fns';
+import { addDays, format, isToday, isFuture, isPast, parseISO } from 'date-fns';
 import { 
   Search, Phone, User, UserCheck, Star, MapPin, Navigation, Clock, X, Check,
   FileText, CheckCircle2, XCircle, Car, Calendar,
   Download, AlertTriangle, DollarSign, List as ListIcon, 
   MessageCircle, Send, Settings, MailCheck, HeartHandshake,
-  LayoutGrid, MoreVertical, ExternalLink, ArrowRightLeft, UserX, ClipboardX, Trash2, Archive, ChevronDown, ChevronUp, Maximize2, Minimize2
+  LayoutGrid, MoreVertical, ExternalLink, ArrowRightLeft, UserX, ClipboardX, Trash2, Archive, ChevronDown, ChevronUp, Maximize2, Minimize2, Repeat, Pause, Play
 } from 'lucide-react';
 import { Button } from '../components/ui/Button';
 import { HorizontalScrollArea } from '../components/ui/HorizontalScrollArea';
 import { MessageModal } from '../components/MessageModal';
 import { CustomerSnapshotCard } from '../components/CustomerSnapshotCard';
 import { UnitSnapshotCard } from '../components/UnitSnapshotCard';
-import { MIN_RIDE_FARE_USD } from '../constants';
+import { AuditHistoryList } from '../components/AuditHistoryList';
+import { TripMessageLogList } from '../components/TripMessageLogList';
+import { TripSeriesDraft, TripSeriesEditor } from '../components/TripSeriesEditor';
 import { formatTripDestination, formatTripPickup, formatTripStops, replacePlaceholders } from '../services/placeholderService';
 import { buildWhatsAppLink, sanitizeCommunicationText } from '../services/whatsapp';
 import { buildCustomerSnapshotForTrip, CustomerSnapshot } from '../services/customerSnapshot';
@@ -24,12 +27,18 @@ import { customerPhoneKey } from '../services/customerProfile';
 import { parseGoogleMapsLink, parseGpsOrLatLngInput } from '../services/locationParser';
 import { loadGoogleMapsScript } from '../services/googleMapsLoader';
 import { computeTrafficIndex } from '../services/trafficMetrics';
+import { buildFareQuoteInputFromTrip, computeFareQuote } from '../services/fareRules';
 import { buildUnitSnapshotMetrics } from '../services/unitSnapshot';
+import { getEntityAuditHistory } from '../services/auditLog';
+import { describeTripMessageDelivery, getLatestTripMessage } from '../services/messaging';
+import { findDriverScheduleConflicts } from '../services/driverSchedule';
+import { buildSeriesTemplateFromTrip, describeRecurrenceRule, isOpenSeriesOccurrence, toSeriesDateKey } from '../services/tripSeries';
 
 declare var google: any;
 
 type ViewMode = 'TABLE' | 'CARD';
 type TripModalFocusTarget = 'DEFAULT' | 'REQUOTE';
+type SeriesEditorState = { mode: 'CREATE'; trip: Trip } | { mode: 'EDIT'; series: TripSeries };
 const OPERATOR_INDEX_MARKERS = ['NEW', 'CORP', 'AIRPORT', 'PRIORITY', 'FOLLOWUP', 'VIP', 'VVIP'] as const;
 
 const extractIndexMarkers = (text?: string): string[] => {
@@ -55,7 +64,10 @@ const isPositiveFeedbackRating = (rating?: number): boolean => {
 };
 
 export const TripsPage: React.FC = () => {
-  const { trips, deletedTrips, drivers, customers, creditLedger, receipts, updateFullTrip, deleteCancelledTrip, restoreDeletedTrip, settings, addCustomers } = useStore();
+  const {
+    trips, deletedTrips, drivers, customers, creditLedger, receipts, tripSeries, auditLog, updateFullTrip, deleteCancelledTrip, restoreDeletedTrip, settings, addCustomers,
+    addTripSeries, updateTripSeries, skipSeriesOccurrence, cancelSeriesOccurrence, getMessageTransportKind, sendTripMessage,
+  } = useStore();
   const location = useLocation();
   const [filterText, setFilterText] = useState('');
   const [timeFilter, setTimeFilter] = useState<'ALL' | 'TODAY' | 'UPCOMING' | 'PAST'>('ALL');
@@ -82,6 +94,8 @@ export const TripsPage: React.FC = () => {
   const [actionToast, setActionToast] = useState<{ tone: 'SUCCESS' | 'ERROR'; message: string } | null>(null);
   const [completedTripsCollapsed, setCompletedTripsCollapsed] = useState(true);
   const [deletedTripsCollapsed, setDeletedTripsCollapsed] = useState(true);
+  const [seriesCollapsed, setSeriesCollapsed] = useState(true);
+  const [seriesEditor, setSeriesEditor] = useState<SeriesEditorState | null>(null);
   const [handledDeepLinkKey, setHandledDeepLinkKey] = useState<string>('');
   const [isTableFullView, setIsTableFullView] = useState(false);
   const [inlineAssignTripId, setInlineAssignTripId] = useState<number | null>(null);
@@ -417,6 +431,16 @@ export const TripsPage: React.FC = () => {
     return buildUnitSnapshotMetrics(unitSnapshotDriver, trips);
   }, [unitSnapshotDriver, trips]);
 
+  const unitSnapshotAuditHistory = useMemo(
+    () => (unitSnapshotDriver ? getEntityAuditHistory(auditLog, 'DRIVER', unitSnapshotDriver.id) : []),
+    [auditLog, unitSnapshotDriver]
+  );
+
+  const snapshotPreviewAuditHistory = useMemo(
+    () => (snapshotPreviewData ? getEntityAuditHistory(auditLog, 'CUSTOMER', snapshotPreviewData.normalizedPhone) : []),
+    [auditLog, snapshotPreviewData]
+  );
+
   const getTripIndexMarkers = (trip: Trip): string[] => {
     const normalizedPhone = customerPhoneKey(trip.customerPhone);
     const directoryCustomer = normalizedPhone
@@ -494,7 +518,8 @@ export const TripsPage: React.FC = () => {
       paymentMode: targetMode,
     };
 
-    updateFullTrip(updatedTrip);
+    const commit = commitTripUpdate(updatedTrip);
+    if (!commit.ok) return;
 
     if (selectedTrip?.id === trip.id) {
       setSelectedTrip(updatedTrip);
@@ -504,7 +529,8 @@ export const TripsPage: React.FC = () => {
   };
 
   const handleApplyRequote = (updatedTrip: Trip) => {
-    updateFullTrip(updatedTrip);
+    const commit = commitTripUpdate(updatedTrip);
+    if (!commit.ok) return;
     setSelectedTrip(updatedTrip);
   };
 
@@ -541,6 +567,8 @@ export const TripsPage: React.FC = () => {
     return `\n\nLinks:\n${operationalServiceLinks.join('\n')}`;
   }, [operationalServiceLinks]);
 
+  const messagingTemplate = messagingContext?.type === 'FEEDBACK_REQ' ? 'feedback_request' : 'feedback_thanks';
+
   const messagingInitialMessage = useMemo(() => {
     if (!messagingContext) return '';
 
@@ -604,6 +632,25 @@ export const TripsPage: React.FC = () => {
     window.setTimeout(() => setActionToast(null), 2200);
   };
 
+  const commitTripUpdate = (updatedTrip: Trip): { ok: boolean; warning?: string } => {
+    let result = updateFullTrip(updatedTrip);
+    if (!result.ok && result.conflicts && result.conflicts.length > 0) {
+      const proceed = window.confirm(`Driver schedule conflict: ${result.reason}. Save anyway?`);
+      if (!proceed) {
+        showActionToast('Update cancelled: driver schedule conflict.', 'ERROR');
+        return { ok: false };
+      }
+      result = updateFullTrip(updatedTrip, { allowScheduleConflict: true });
+    }
+
+    if (!result.ok) {
+      showActionToast(result.reason || 'Trip update failed.', 'ERROR');
+      return { ok: false };
+    }
+
+    return { ok: true, warning: result.conflicts?.[0]?.message };
+  };
+
   const parseDurationToMinutes = (duration?: string) => {
     const seconds = duration ? Number.parseFloat(duration.replace('s', '')) : 0;
     return Math.ceil((Number.isFinite(seconds) ? seconds : 0) / 60);
@@ -951,41 +998,43 @@ export const TripsPage: React.FC = () => {
       const surplusMin = Math.max(0, durationInTrafficMin - baselineDurationMin);
 
       const distanceKm = distanceMeters / 1000;
-      const ratePerKm = trip.ratePerKmSnapshot || settings.ratePerKm;
-      const hourlyWaitRate = trip.hourlyWaitRateSnapshot || settings.hourlyWaitRate;
       const exchangeRate = trip.exchangeRateSnapshot || settings.exchangeRate;
-      const effectiveDistance = distanceKm * (trip.isRoundTrip ? 2 : 1);
-      const baseFare = Math.ceil(effectiveDistance * ratePerKm);
-      const waitFare = Math.ceil((trip.waitTimeHours || 0) * hourlyWaitRate);
-      const computedFare = baseFare + waitFare;
-      const minimumFare = Number.isFinite(MIN_RIDE_FARE_USD) ? Math.max(0, MIN_RIDE_FARE_USD) : 7;
-      const fareUsd = Math.max(minimumFare, computedFare);
+      const routedTrip: Trip = {
+        ...trip,
+        pickupText: resolvedPickup.pickupText,
+        pickupPlaceId: resolvedPickup.pickupPlaceId,
+        pickupOriginalLink: resolvedPickup.pickupOriginalLink,
+        pickupLat: resolvedPickup.pickupLat,
+        pickupLng: resolvedPickup.pickupLng,
+        destinationText: resolvedDestination.destinationText,
+        destinationPlaceId: resolvedDestination.destinationPlaceId,
+        destinationOriginalLink: resolvedDestination.destinationOriginalLink,
+        destLat: resolvedDestination.destLat,
+        destLng: resolvedDestination.destLng,
+        stops: resolvedStops,
+        distanceKm,
+        distanceText: `${distanceKm.toFixed(1)} km`,
+        durationMin: baselineDurationMin,
+        durationText: `${baselineDurationMin} min`,
+        durationInTrafficMin,
+        durationInTrafficText: `${durationInTrafficMin} min`,
+        trafficIndex: computeTrafficIndex(durationInTrafficMin, baselineDurationMin),
+        surplusMin,
+      };
+      const fareInput = buildFareQuoteInputFromTrip(routedTrip, settings);
+      const quote = computeFareQuote(fareInput);
 
       return {
         ok: true,
         updatedTrip: {
-          ...trip,
-          pickupText: resolvedPickup.pickupText,
-          pickupPlaceId: resolvedPickup.pickupPlaceId,
-          pickupOriginalLink: resolvedPickup.pickupOriginalLink,
-          pickupLat: resolvedPickup.pickupLat,
-          pickupLng: resolvedPickup.pickupLng,
-          destinationText: resolvedDestination.destinationText,
-          destinationPlaceId: resolvedDestination.destinationPlaceId,
-          destinationOriginalLink: resolvedDestination.destinationOriginalLink,
-          destLat: resolvedDestination.destLat,
-          destLng: resolvedDestination.destLng,
-          stops: resolvedStops,
-          distanceKm,
-          distanceText: `${distanceKm.toFixed(1)} km`,
-          durationMin: baselineDurationMin,
-          durationText: `${baselineDurationMin} min`,
-          durationInTrafficMin,
-          durationInTrafficText: `${durationInTrafficMin} min`,
-          trafficIndex: computeTrafficIndex(durationInTrafficMin, baselineDurationMin),
-          surplusMin,
-          fareUsd,
-          fareLbp: fareUsd * exchangeRate,
+          ...routedTrip,
+          ratePerKmSnapshot: fareInput.ratePerKm,
+          hourlyWaitRateSnapshot: fareInput.hourlyWaitRate,
+          fareRulesSnapshot: fareInput.rules,
+          fareBreakdown: quote.breakdown,
+          congestionSurchargeUsd: quote.congestionSurchargeUsd,
+          fareUsd: quote.fareUsd,
+          fareLbp: quote.fareUsd * exchangeRate,
         },
       };
     } catch (error: any) {
@@ -1198,7 +1247,8 @@ export const TripsPage: React.FC = () => {
       driverId: normalizedDriverId,
     };
 
-    updateFullTrip(updatedTrip);
+    const commit = commitTripUpdate(updatedTrip);
+    if (!commit.ok) return;
 
     if (selectedTrip?.id === trip.id) {
       setSelectedTrip(updatedTrip);
@@ -1208,6 +1258,10 @@ export const TripsPage: React.FC = () => {
     setInlineAssignQuery('');
     setShowInlineAssignSuggestions(false);
     setInlineAssignHighlightedIndex(0);
+    if (commit.warning) {
+      showActionToast(`Assigned to ${assignedDriver.name} · ${commit.warning}.`, 'ERROR');
+      return;
+    }
     showActionToast(`Trip #${trip.id.toString().slice(-4)} assigned to ${assignedDriver.name}.`);
   };
 
@@ -1249,13 +1303,18 @@ export const TripsPage: React.FC = () => {
       tripDate: candidateDate.toISOString(),
     };
 
-    updateFullTrip(updatedTrip);
+    const commit = commitTripUpdate(updatedTrip);
+    if (!commit.ok) return;
 
     if (selectedTrip?.id === trip.id) {
       setSelectedTrip(updatedTrip);
     }
 
     closeInlineScheduleEditor();
+    if (commit.warning) {
+      showActionToast(`Schedule updated · ${commit.warning}.`, 'ERROR');
+      return;
+    }
     showActionToast(`Trip #${trip.id.toString().slice(-4)} schedule updated.`);
   };
 
@@ -1264,9 +1323,13 @@ export const TripsPage: React.FC = () => {
     const wasCompleted = selectedTrip.status !== TripStatus.COMPLETED && updatedTrip.status === TripStatus.COMPLETED;
     const feedbackJustReceived = selectedTrip.rating === undefined && updatedTrip.rating !== undefined;
 
-    updateFullTrip(updatedTrip);
+    const commit = commitTripUpdate(updatedTrip);
+    if (!commit.ok) return;
     setIsModalOpen(false);
     setModalFocusTarget('DEFAULT');
+    if (commit.warning) {
+      showActionToast(commit.warning, 'ERROR');
+    }
 
     if (wasCompleted) {
       setManifestState('DONE');
@@ -1320,12 +1383,155 @@ export const TripsPage: React.FC = () => {
       ...trip,
       status: TripStatus.CONFIRMED,
     };
-    updateFullTrip(reopenedTrip);
+    const commit = commitTripUpdate(reopenedTrip);
+    if (!commit.ok) return;
+
     setManifestState('DONE');
     setManifestMessage(`Completed trip #${trip.id.toString().slice(-4)} reopened to active missions.`);
+    if (commit.warning) {
+      showActionToast(`Trip reopened · ${commit.warning}.`, 'ERROR');
+      return;
+    }
     showActionToast(`Trip #${trip.id.toString().slice(-4)} reopened to active missions.`);
   };
 
+  const seriesById = useMemo(() => new Map(tripSeries.map(series => [series.id, series] as const)), [tripSeries]);
+
+  const seriesOverview = useMemo(() => {
+    const nowMs = Date.now();
+    return tripSeries.map(series => {
+      const upcoming = trips
+        .filter(trip => trip.seriesId === series.id && isOpenSeriesOccurrence(trip) && new Date(trip.tripDate).getTime() >= nowMs)
+        .sort((a, b) => new Date(a.tripDate).getTime() - new Date(b.tripDate).getTime());
+      return { series, upcomingCount: upcoming.length, nextTrip: upcoming[0] || null };
+    });
+  }, [tripSeries, trips]);
+
+  const seriesEditorDraft = useMemo((): TripSeriesDraft | null => {
+    if (!seriesEditor) return null;
+    if (seriesEditor.mode === 'EDIT') {
+      const { series } = seriesEditor;
+      return {
+        label: series.label,
+        recurrence: series.recurrence,
+        occurrenceStatus: series.occurrenceStatus,
+        driverId: series.template.driverId || '',
+        fareUsd: series.template.fareUsd,
+        active: series.active,
+      };
+    }
+
+    const { trip } = seriesEditor;
+    const anchor = parseISO(trip.tripDate || trip.createdAt);
+    const safeAnchor = Number.isNaN(anchor.getTime()) ? new Date() : anchor;
+    return {
+      label: `${trip.customerName} · ${trip.destinationText.split(',')[0]}`,
+      recurrence: {
+        frequency: 'WEEKDAYS',
+        weekdays: [safeAnchor.getDay()],
+        startDate: toSeriesDateKey(addDays(safeAnchor, 1)),
+        timeOfDay: format(safeAnchor, 'HH:mm'),
+      },
+      occurrenceStatus: trip.status === TripStatus.CONFIRMED ? TripStatus.CONFIRMED : TripStatus.QUOTED,
+      driverId: trip.driverId || '',
+      fareUsd: trip.fareUsd,
+      active: true,
+    };
+  }, [seriesEditor]);
+
+  const openMakeRecurring = (trip: Trip) => {
+    setIsModalOpen(false);
+    setModalFocusTarget('DEFAULT');
+    setSeriesEditor({ mode: 'CREATE', trip });
+  };
+
+  const handleSeriesEditorSubmit = (draft: TripSeriesDraft, applyToFutureOccurrences: boolean): { ok: boolean; reason?: string } => {
+    if (!seriesEditor) return { ok: false, reason: 'No series selected.' };
+
+    if (seriesEditor.mode === 'CREATE') {
+      const template = buildSeriesTemplateFromTrip(seriesEditor.trip);
+      const result = addTripSeries({
+        label: draft.label,
+        active: true,
+        recurrence: draft.recurrence,
+        occurrenceStatus: draft.occurrenceStatus,
+        template: {
+          ...template,
+          driverId: draft.driverId || undefined,
+          fareUsd: draft.fareUsd,
+          fareLbp: draft.fareUsd * template.exchangeRateSnapshot,
+        },
+      });
+      if (!result.ok) return result;
+      setSeriesEditor(null);
+      setSeriesCollapsed(false);
+      showActionToast(`Recurring series created · ${describeRecurrenceRule(draft.recurrence)}.`);
+      return { ok: true };
+    }
+
+    const { series } = seriesEditor;
+    const result = updateTripSeries({
+      ...series,
+      label: draft.label || series.label,
+      active: draft.active,
+      recurrence: draft.recurrence,
+      occurrenceStatus: draft.occurrenceStatus,
+      template: {
+        ...series.template,
+        driverId: draft.driverId || undefined,
+        fareUsd: draft.fareUsd,
+        fareLbp: draft.fareUsd * series.template.exchangeRateSnapshot,
+      },
+    }, { applyToFutureOccurrences });
+    if (!result.ok) return result;
+    setSeriesEditor(null);
+    showActionToast(applyToFutureOccurrences
+      ? `Series updated · ${result.updatedCount || 0} upcoming updated, ${result.cancelledCount || 0} cancelled.`
+      : 'Series updated for new occurrences.');
+    return { ok: true };
+  };
+
+  const handleToggleSeriesActive = (series: TripSeries) => {
+    const nextActive = !series.active;
+    if (!nextActive && !window.confirm(`Pause "${series.label}"? Upcoming occurrences already created will be cancelled.`)) return;
+    const result = updateTripSeries({ ...series, active: nextActive }, { applyToFutureOccurrences: !nextActive });
+    if (!result.ok) {
+      showActionToast(result.reason || 'Series update failed.', 'ERROR');
+      return;
+    }
+    showActionToast(nextActive ? `"${series.label}" resumed.` : `"${series.label}" paused · ${result.cancelledCount || 0} upcoming cancelled.`);
+  };
+
+  const handleSkipSeriesOccurrence = (trip: Trip) => {
+    const occurrenceLabel = trip.seriesOccurrenceDate || `#${trip.id.toString().slice(-4)}`;
+    if (!window.confirm(`Skip the ${occurrenceLabel} occurrence? It will be removed from the log and not recreated.`)) return;
+    const result = skipSeriesOccurrence(trip.id);
+    if (!result.ok) {
+      showActionToast(result.reason || 'Could not skip occurrence.', 'ERROR');
+      return;
+    }
+    if (selectedTrip?.id === trip.id) {
+      setSelectedTrip(null);
+      setIsModalOpen(false);
+    }
+    showActionToast(`Occurrence ${occurrenceLabel} skipped.`);
+  };
+
+  const handleCancelSeriesOccurrence = (trip: Trip) => {
+    const occurrenceLabel = trip.seriesOccurrenceDate || `#${trip.id.toString().slice(-4)}`;
+    if (!window.confirm(`Cancel the ${occurrenceLabel} occurrence? The rest of the series is unaffected.`)) return;
+    const result = cancelSeriesOccurrence(trip.id);
+    if (!result.ok) {
+      showActionToast(result.reason || 'Could not cancel occurrence.', 'ERROR');
+      return;
+    }
+    if (selectedTrip?.id === trip.id) {
+      setSelectedTrip(null);
+      setIsModalOpen(false);
+    }
+    showActionToast(`Occurrence ${occurrenceLabel} cancelled.`);
+  };
+
   const handleAssignLocationFromTrip = (
     trip: Trip,
     target: 'HOME' | 'BUSINESS' | 'FREQUENT' | 'SMART_PICKUP',
@@ -1753,6 +1959,14 @@ export const TripsPage: React.FC = () => {
                               </button>
                             </div>
                              <span className="text-[10px] font-black text-slate-300 tracking-widest text-center">#{trip.id.toString().slice(-4)}</span>
+                             {trip.seriesId && (
+                               <span
+                                 className="inline-flex items-center gap-0.5 h-4 px-1 rounded-md border border-violet-200 dark:border-violet-900/40 bg-violet-50 dark:bg-violet-900/10 text-[7px] font-black uppercase tracking-widest text-violet-700 dark:text-violet-300"
+                                 title={seriesById.get(trip.seriesId)?.label || 'Recurring series'}
+                               >
+                                 <Repeat size={8} /> Series
+                               </span>
+                             )}
                          </div>
                       </td>
                        <td className={`${isTableFullView ? 'w-[96px]' : 'w-[78px]'} pl-0 pr-0 py-3 whitespace-nowrap relative overflow-visible`}>
@@ -2000,6 +2214,15 @@ export const TripsPage: React.FC = () => {
                                           >
                                             <span className="block truncate uppercase">{driverOption.name}</span>
                                             <span className="block truncate text-[6px] font-bold text-slate-500 dark:text-slate-400">{driverOption.plateNumber}</span>
+                                            {(() => {
+                                              const conflict = findDriverScheduleConflicts({ ...trip, driverId: driverOption.id }, trips)[0];
+                                              if (!conflict) return null;
+                                              return (
+                                                <span className={`block truncate text-[6px] font-black uppercase ${conflict.kind === 'OVERLAP' ? 'text-red-500' : 'text-amber-500'}`} title={conflict.message}>
+                                                  {conflict.kind === 'OVERLAP' ? 'Overlaps' : 'Tight gap'} #{conflict.conflictingTripId.toString().slice(-4)}
+                                                </span>
+                                              );
+                                            })()}
                                           </button>
                                         ))
                                       ) : (
@@ -2033,9 +2256,15 @@ export const TripsPage: React.FC = () => {
                       </td>
                        <td className="px-0.5 py-3">
                          <div className="flex items-center space-x-1">
-                            <MailCheck size={13} className={trip.confirmation_sent_at ? 'text-emerald-500' : 'text-slate-200 dark:text-brand-800'} />
-                            <MessageCircle size={13} className={trip.feedback_request_sent_at ? 'text-blue-500' : 'text-slate-200 dark:text-brand-800'} />
-                            <HeartHandshake size={13} className={trip.thank_you_sent_at ? 'text-gold-500' : 'text-slate-200 dark:text-brand-800'} />
+                            <span title={describeTripMessageDelivery(trip, 'trip_confirmation')}>
+                              <MailCheck size={13} className={getLatestTripMessage(trip, 'trip_confirmation')?.status === 'FAILED' ? 'text-red-500' : trip.confirmation_sent_at ? 'text-emerald-500' : 'text-slate-200 dark:text-brand-800'} />
+                            </span>
+                            <span title={describeTripMessageDelivery(trip, 'feedback_request')}>
+                              <MessageCircle size={13} className={getLatestTripMessage(trip, 'feedback_request')?.status === 'FAILED' ? 'text-red-500' : trip.feedback_request_sent_at ? 'text-blue-500' : 'text-slate-200 dark:text-brand-800'} />
+                            </span>
+                            <span title={describeTripMessageDelivery(trip, 'feedback_thanks')}>
+                              <HeartHandshake size={13} className={getLatestTripMessage(trip, 'feedback_thanks')?.status === 'FAILED' ? 'text-red-500' : trip.thank_you_sent_at ? 'text-gold-500' : 'text-slate-200 dark:text-brand-800'} />
+                            </span>
                          </div>
                       </td>
                        <td className="sticky right-0 z-10 w-[56px] px-0.5 py-3 text-right bg-white dark:bg-brand-900 group-hover:bg-slate-50 dark:group-hover:bg-brand-800 border-l border-slate-100 dark:border-brand-800">
@@ -2210,6 +2439,11 @@ export const TripsPage: React.FC = () => {
                                ))}
                              </div>
                            )}
+                           {trip.seriesId && (
+                             <span className="mt-1.5 inline-flex items-center gap-1 h-4 px-1.5 rounded-md border border-violet-200 dark:border-violet-900/40 bg-violet-50 dark:bg-violet-900/10 text-[7px] font-black uppercase tracking-widest text-violet-700 dark:text-violet-300">
+                               <Repeat size={8} /> {seriesById.get(trip.seriesId)?.label || 'Series'}
+                             </span>
+                           )}
                         </div>
                         <div className="text-right">
                           <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Traffic / Unit</p>
@@ -2279,6 +2513,81 @@ export const TripsPage: React.FC = () => {
           </div>
         )}
 
+        {tripSeries.length > 0 && (
+        <div className={`${seriesCollapsed ? 'bg-slate-50/50 dark:bg-brand-950/40 border-slate-200/60 dark:border-brand-800/50 shadow-none' : 'bg-white dark:bg-brand-900 border-slate-200 dark:border-brand-800 shadow-sm'} rounded-[2rem] border ${seriesCollapsed ? 'p-2.5 md:p-3' : 'p-6 md:p-8'} space-y-4 transition-colors`}>
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`${seriesCollapsed ? 'text-[10px] font-bold text-slate-400 dark:text-slate-500 tracking-wider' : 'text-xl font-black text-brand-900 dark:text-white tracking-tight'} uppercase`}>{seriesCollapsed ? 'Recurring' : 'Recurring Series'}</h3>
+              {!seriesCollapsed && (
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">Occurrences are created automatically up to two weeks ahead</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <div className={`inline-flex items-center gap-1.5 rounded-lg border px-2 py-1 text-[8px] font-black uppercase tracking-widest ${seriesCollapsed ? 'border-transparent bg-transparent text-slate-400/80 dark:text-slate-500/80' : 'border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 text-slate-500 dark:text-slate-300'}`}>
+                <Repeat size={12} />
+                {seriesCollapsed ? tripSeries.length : `${tripSeries.filter(series => series.active).length} Active`}
+              </div>
+              <button
+                type="button"
+                onClick={() => setSeriesCollapsed(prev => !prev)}
+                className={`h-8 ${seriesCollapsed ? 'w-8 px-0 justify-center' : 'px-2.5'} rounded-lg border text-[8px] font-black uppercase tracking-widest inline-flex items-center gap-1 ${seriesCollapsed ? 'border-transparent bg-transparent text-slate-400 dark:text-slate-500' : 'border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 text-slate-600 dark:text-slate-300'}`}
+              >
+                {seriesCollapsed ? <ChevronDown size={12} /> : <ChevronUp size={12} />}
+                {!seriesCollapsed && 'Minimize'}
+              </button>
+            </div>
+          </div>
+
+          {!seriesCollapsed && (
+            <div className="space-y-3">
+              {seriesOverview.map(({ series, upcomingCount, nextTrip }) => {
+                const driver = drivers.find(d => d.id === series.template.driverId);
+                return (
+                  <div key={series.id} className={`rounded-2xl border border-slate-200 dark:border-brand-800 bg-slate-50/80 dark:bg-brand-950 p-4 md:p-5 ${series.active ? '' : 'opacity-60'}`}>
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-brand-900 dark:text-white truncate">{series.label}</p>
+                        <p className="text-[9px] font-bold uppercase tracking-wide text-violet-700 dark:text-violet-300 mt-1">{describeRecurrenceRule(series.recurrence)}</p>
+                        <p className="text-[9px] font-bold uppercase tracking-wide text-slate-500 dark:text-slate-300 mt-1">{series.template.customerName} · {driver?.name || 'Unassigned'} · ${series.template.fareUsd}</p>
+                        <p className="text-[9px] font-bold uppercase tracking-wide text-slate-500 dark:text-slate-300 mt-1 truncate">{series.template.pickupText.split(',')[0]} → {series.template.destinationText.split(',')[0]}</p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <span className={`inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-[8px] font-black uppercase tracking-widest ${series.active ? 'border-violet-200 dark:border-violet-900/40 bg-violet-50 dark:bg-violet-900/10 text-violet-700 dark:text-violet-300' : 'border-slate-200 dark:border-brand-800 bg-white dark:bg-brand-900 text-slate-500 dark:text-slate-400'}`}>
+                          {series.active ? series.occurrenceStatus : 'Paused'}
+                        </span>
+                        <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 mt-2">
+                          {nextTrip ? `Next ${format(parseISO(nextTrip.tripDate), 'EEE d MMM, HH:mm')}` : 'No upcoming'} · {upcomingCount} queued
+                        </p>
+                        {series.skippedDates.length > 0 && (
+                          <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 mt-1">{series.skippedDates.length} skipped</p>
+                        )}
+                        <div className="mt-2 flex items-center justify-end gap-1.5">
+                          <button
+                            type="button"
+                            onClick={() => handleToggleSeriesActive(series)}
+                            className="h-7 px-2 rounded-md border border-slate-200 dark:border-brand-800 bg-white dark:bg-brand-900 text-[8px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 inline-flex items-center gap-1"
+                          >
+                            {series.active ? <Pause size={10} /> : <Play size={10} />}
+                            {series.active ? 'Pause' : 'Resume'}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setSeriesEditor({ mode: 'EDIT', series })}
+                            className="h-7 px-2 rounded-md border border-violet-200 dark:border-violet-900/40 bg-violet-50 dark:bg-violet-900/10 text-[8px] font-black uppercase tracking-widest text-violet-700 dark:text-violet-300"
+                          >
+                            Edit
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        )}
+
         <div className={`${completedTripsCollapsed ? 'bg-slate-50/50 dark:bg-brand-950/40 border-slate-200/60 dark:border-brand-800/50 shadow-none' : 'bg-white dark:bg-brand-900 border-slate-200 dark:border-brand-800 shadow-sm'} rounded-[2rem] border ${completedTripsCollapsed ? 'p-2.5 md:p-3' : 'p-6 md:p-8'} space-y-4 transition-colors`}>
           <div className="flex items-center justify-between">
             <div>
@@ -2459,7 +2768,7 @@ export const TripsPage: React.FC = () => {
             </div>
             <div className="p-4 max-h-[70vh] overflow-y-auto">
               {snapshotPreviewData ? (
-                <CustomerSnapshotCard snapshot={snapshotPreviewData} />
+                <CustomerSnapshotCard snapshot={snapshotPreviewData} auditHistory={snapshotPreviewAuditHistory} />
               ) : (
                 <div className="rounded-xl border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 px-4 py-3 text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">
                   Snapshot unavailable for this customer.
@@ -2494,7 +2803,7 @@ export const TripsPage: React.FC = () => {
               </button>
             </div>
             <div className="p-4 max-h-[70vh] overflow-y-auto">
-              <UnitSnapshotCard driver={unitSnapshotDriver} metrics={unitSnapshotMetrics} />
+              <UnitSnapshotCard driver={unitSnapshotDriver} metrics={unitSnapshotMetrics} auditHistory={unitSnapshotAuditHistory} />
             </div>
           </div>
         </div>
@@ -2524,10 +2833,27 @@ export const TripsPage: React.FC = () => {
             onRequoteDestination={handleRequoteDestination}
             onApplyRequote={handleApplyRequote}
             onDeleteCancelled={handleDeleteCancelled}
+            onMakeRecurring={openMakeRecurring}
+            onSkipOccurrence={handleSkipSeriesOccurrence}
+            onCancelOccurrence={handleCancelSeriesOccurrence}
+            seriesLabel={selectedTrip.seriesId ? seriesById.get(selectedTrip.seriesId)?.label : undefined}
             initialFocusTarget={modalFocusTarget}
          />
       )}
 
+      {seriesEditor && seriesEditorDraft && (
+        <TripSeriesEditor
+          mode={seriesEditor.mode}
+          initialDraft={seriesEditorDraft}
+          routeLabel={seriesEditor.mode === 'CREATE'
+            ? `${seriesEditor.trip.pickupText.split(',')[0]} → ${seriesEditor.trip.destinationText.split(',')[0]}`
+            : `${seriesEditor.series.template.pickupText.split(',')[0]} → ${seriesEditor.series.template.destinationText.split(',')[0]}`}
+          drivers={activeDrivers}
+          onClose={() => setSeriesEditor(null)}
+          onSubmit={handleSeriesEditorSubmit}
+        />
+      )}
+
       {messagingContext && (
         <MessageModal 
           isOpen={true}
@@ -2539,9 +2865,19 @@ export const TripsPage: React.FC = () => {
           initialMessage={messagingInitialMessage}
           onMarkSent={(finalMsg) => {
             const field = messagingContext.type === 'FEEDBACK_REQ' ? 'feedback_request_sent_at' : 'thank_you_sent_at';
-            updateFullTrip({ ...messagingContext.trip, [field]: new Date().toISOString() });
+            const result = updateFullTrip({ ...messagingContext.trip, [field]: new Date().toISOString() }, { allowScheduleConflict: true });
+            if (!result.ok) {
+              showActionToast(result.reason || 'Trip update failed.', 'ERROR');
+              return;
+            }
             setMessagingContext(null);
           }}
+          apiTemplateName={settings.whatsAppCloud.templates[messagingTemplate].name}
+          onSendViaApi={getMessageTransportKind(messagingTemplate) === 'CLOUD_API' ? async () => {
+            const result = await sendTripMessage(messagingContext.trip.id, messagingTemplate);
+            if (result.ok) setMessagingContext(null);
+            return result;
+          } : undefined}
         />
       )}
 
@@ -2575,7 +2911,11 @@ const TripUpdateModal: React.FC<{
   onRequoteDestination: (trip: Trip, pickupInput: string, destinationInput: string, stopInputs: string[]) => Promise<{ ok: true; updatedTrip: Trip } | { ok: false; reason: string }>;
   onApplyRequote: (trip: Trip) => void;
   onDeleteCancelled: (trip: Trip) => void;
-}> = ({ trip, drivers, initialFocusTarget = 'DEFAULT', onClose, onSave, onCopy, onWhatsApp, customerPhone, operatorPhone, mapsApiKey, buildDriverTemplate, buildCustomerTemplate, buildOperatorTemplate, copiedType, customerSnapshot, onAssignLocation, onSetCustomerPriority, onRequoteDestination, onApplyRequote, onDeleteCancelled }) => {
+  onMakeRecurring: (trip: Trip) => void;
+  onSkipOccurrence: (trip: Trip) => void;
+  onCancelOccurrence: (trip: Trip) => void;
+  seriesLabel?: string;
+}> = ({ trip, drivers, initialFocusTarget = 'DEFAULT', onClose, onSave, onCopy, onWhatsApp, customerPhone, operatorPhone, mapsApiKey, buildDriverTemplate, buildCustomerTemplate, buildOperatorTemplate, copiedType, customerSnapshot, onAssignLocation, onSetCustomerPriority, onRequoteDestination, onApplyRequote, onDeleteCancelled, onMakeRecurring, onSkipOccurrence, onCancelOccurrence, seriesLabel }) => {
   type PlaceAutocompleteSuggestion = {
     placeId: string;
     primaryText: string;
@@ -2583,6 +2923,14 @@ const TripUpdateModal: React.FC<{
     fullText: string;
   };
 
+  const { settings, trips, auditLog } = useStore();
+  const { denialReason } = useAuth();
+  const settlementLockedReason = denialReason('FINANCE_ACTIONS');
+  const tripAuditHistory = useMemo(() => getEntityAuditHistory(auditLog, 'TRIP', trip.id), [auditLog, trip.id]);
+  const customerAuditHistory = useMemo(
+    () => (customerSnapshot ? getEntityAuditHistory(auditLog, 'CUSTOMER', customerSnapshot.normalizedPhone) : []),
+    [auditLog, customerSnapshot]
+  );
   const [status, setStatus] = useState<TripStatus>(trip.status);
   const [driverId, setDriverId] = useState<string>(trip.driverId || '');
   const [driverSearchQuery, setDriverSearchQuery] = useState('');
@@ -2975,17 +3323,11 @@ const TripUpdateModal: React.FC<{
   };
 
   const minimumFareInfo = useMemo(() => {
-    const minimumFareUsd = Math.max(0, MIN_RIDE_FARE_USD);
-    const distanceKm = Number.isFinite(liveTrip.distanceKm) ? liveTrip.distanceKm : 0;
-    const distanceFactor = liveTrip.isRoundTrip ? 2 : 1;
-    const ratePerKm = Number.isFinite(liveTrip.ratePerKmSnapshot) ? liveTrip.ratePerKmSnapshot : 0;
-    const waitTimeHours = Number.isFinite(liveTrip.waitTimeHours) ? liveTrip.waitTimeHours : 0;
-    const hourlyWaitRate = Number.isFinite(liveTrip.hourlyWaitRateSnapshot) ? liveTrip.hourlyWaitRateSnapshot : 0;
-    const computedFareUsd = Math.ceil(distanceKm * distanceFactor * ratePerKm) + Math.ceil(waitTimeHours * hourlyWaitRate);
-    const minimumFareApplied = computedFareUsd > 0 && computedFareUsd < minimumFareUsd && liveTrip.fareUsd === minimumFareUsd;
+    const quote = computeFareQuote(buildFareQuoteInputFromTrip(liveTrip, settings));
+    const minimumFareApplied = quote.computedFareUsd > 0 && quote.minimumFareApplied && liveTrip.fareUsd === quote.minimumFareUsd;
 
     return {
-      minimumFareUsd,
+      minimumFareUsd: quote.minimumFareUsd,
       minimumFareApplied,
     };
   }, [
@@ -2994,9 +3336,21 @@ const TripUpdateModal: React.FC<{
     liveTrip.ratePerKmSnapshot,
     liveTrip.waitTimeHours,
     liveTrip.hourlyWaitRateSnapshot,
+    liveTrip.fareRulesSnapshot,
+    liveTrip.stops,
+    liveTrip.specialRequirements,
+    liveTrip.tripDate,
+    liveTrip.trafficIndex,
+    liveTrip.surplusMin,
     liveTrip.fareUsd,
+    settings,
   ]);
 
+  const scheduleConflicts = useMemo(
+    () => findDriverScheduleConflicts(liveTrip, trips),
+    [trips, liveTrip.driverId, liveTrip.tripDate, liveTrip.status, liveTrip.durationMin, liveTrip.durationInTrafficMin, liveTrip.isRoundTrip, liveTrip.waitTimeHours]
+  );
+
   const driverPhone = drivers.find(d => d.id === driverId)?.phone;
   const driverTemplate = buildDriverTemplate(liveTrip);
   const customerTemplate = buildCustomerTemplate(liveTrip);
@@ -3096,10 +3450,9 @@ const TripUpdateModal: React.FC<{
     );
     setStopsDraft((result.updatedTrip.stops || []).map(stop => stop.originalLink || stop.text).filter(Boolean));
     setStopCandidates((result.updatedTrip.stops || []).map(stop => ({ ...stop })));
-    const minimumFareUsd = Math.max(0, MIN_RIDE_FARE_USD);
-    const requoteComputedFareUsd = Math.ceil(result.updatedTrip.distanceKm * (result.updatedTrip.isRoundTrip ? 2 : 1) * result.updatedTrip.ratePerKmSnapshot)
-      + Math.ceil(result.updatedTrip.waitTimeHours * result.updatedTrip.hourlyWaitRateSnapshot);
-    const minimumFareApplied = requoteComputedFareUsd > 0 && requoteComputedFareUsd < minimumFareUsd && result.updatedTrip.fareUsd === minimumFareUsd;
+    const requoteQuote = computeFareQuote(buildFareQuoteInputFromTrip(result.updatedTrip, settings));
+    const minimumFareUsd = requoteQuote.minimumFareUsd;
+    const minimumFareApplied = requoteQuote.computedFareUsd > 0 && requoteQuote.minimumFareApplied && result.updatedTrip.fareUsd === minimumFareUsd;
     setRequoteMessage(
       minimumFareApplied
         ? `New quote ready: $${result.updatedTrip.fareUsd} · ${result.updatedTrip.distanceText} · ${result.updatedTrip.stops?.length || 0} stop(s) · minimum fare applied ($${minimumFareUsd})`
@@ -3161,7 +3514,7 @@ const TripUpdateModal: React.FC<{
           <button onClick={onClose} className="p-2 text-slate-400 hover:text-red-500 transition-colors"><X size={28}/></button>
         </div>
         <div className="p-6 md:p-8 space-y-6 overflow-y-auto scrollbar-hide min-h-0 flex-1 pb-[calc(1.5rem+env(safe-area-inset-bottom))] md:pb-8">
-          {customerSnapshot && <CustomerSnapshotCard snapshot={customerSnapshot} />}
+          {customerSnapshot && <CustomerSnapshotCard snapshot={customerSnapshot} auditHistory={customerAuditHistory} />}
 
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
              <div><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-2 px-1">Phase Status</label><select value={status} onChange={e => setStatus(e.target.value as TripStatus)} className="w-full border border-slate-200 dark:border-brand-800 rounded-xl h-12 px-4 bg-slate-50 dark:bg-brand-950 text-brand-900 dark:text-white text-[11px] font-black uppercase outline-none focus:ring-2 focus:ring-gold-500 transition-all">
@@ -3260,6 +3613,16 @@ const TripUpdateModal: React.FC<{
                    </div>
                  )}
                </div>
+               {scheduleConflicts.length > 0 && (
+                 <div className={`mt-2 rounded-xl border px-3 py-2 space-y-1 ${scheduleConflicts.some(conflict => conflict.kind === 'OVERLAP') ? 'border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10' : 'border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10'}`}>
+                   <p className="text-[8px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">Schedule Conflicts</p>
+                   {scheduleConflicts.slice(0, 3).map(conflict => (
+                     <p key={`schedule-conflict-${conflict.conflictingTripId}`} className={`text-[9px] font-bold ${conflict.kind === 'OVERLAP' ? 'text-red-600 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}`}>
+                       {conflict.message}
+                     </p>
+                   ))}
+                 </div>
+               )}
              </div>
           </div>
 
@@ -3273,7 +3636,7 @@ const TripUpdateModal: React.FC<{
             </div>
             <div>
               <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-2 px-1">Settlement</label>
-              <select value={settlementStatus} onChange={e => setSettlementStatus(e.target.value as TripSettlementStatus)} className="w-full border border-slate-200 dark:border-brand-800 rounded-xl h-12 px-4 bg-slate-50 dark:bg-brand-950 text-brand-900 dark:text-white text-[11px] font-black uppercase outline-none focus:ring-2 focus:ring-gold-500 transition-all">
+              <select value={settlementStatus} onChange={e => setSettlementStatus(e.target.value as TripSettlementStatus)} disabled={Boolean(settlementLockedReason)} title={settlementLockedReason} className="w-full border border-slate-200 dark:border-brand-800 rounded-xl h-12 px-4 bg-slate-50 dark:bg-brand-950 text-brand-900 dark:text-white text-[11px] font-black uppercase outline-none focus:ring-2 focus:ring-gold-500 transition-all disabled:opacity-60 disabled:cursor-not-allowed">
                 <option value="PENDING" className="text-brand-900">Pending</option>
                 <option value="SETTLED" className="text-brand-900">Settled</option>
                 <option value="RECEIPTED" className="text-brand-900">Receipted</option>
@@ -3499,6 +3862,17 @@ const TripUpdateModal: React.FC<{
                 <p className="text-[11px] font-black text-brand-900 dark:text-white mt-1">{liveTrip.durationInTrafficText || liveTrip.durationText}</p>
               </div>
             </div>
+            {liveTrip.fareBreakdown && liveTrip.fareBreakdown.length > 0 && (
+              <div className="rounded-xl border border-slate-200 dark:border-brand-800 bg-slate-50 dark:bg-brand-950 px-3 py-2 space-y-1">
+                <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">Tariff Breakdown</p>
+                {liveTrip.fareBreakdown.map((line, index) => (
+                  <div key={`${line.kind}-${line.ruleId || index}`} className="flex items-center justify-between gap-2">
+                    <span className="text-[8px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300 truncate">{line.label}</span>
+                    <span className="text-[9px] font-black text-brand-900 dark:text-white">+${line.amountUsd}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             {requoteMessage && (
               <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-300">{requoteMessage}</p>
             )}
@@ -3557,6 +3931,27 @@ const TripUpdateModal: React.FC<{
             <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} className="w-full border border-slate-200 dark:border-brand-800 rounded-2xl p-4 bg-slate-50 dark:bg-brand-950 text-slate-900 dark:text-slate-100 text-sm font-medium focus:ring-2 focus:ring-gold-500 outline-none transition-all" placeholder="Enter logs..." />
           </div>
 
+          <div className="pt-4 border-t border-slate-100 dark:border-brand-800 space-y-3">
+            <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block px-1">Recurring Series</label>
+            {trip.seriesId ? (
+              <>
+                <p className="text-[9px] font-black uppercase tracking-widest text-violet-700 dark:text-violet-300 px-1">
+                  {seriesLabel || 'Series removed'}{trip.seriesOccurrenceDate ? ` · ${trip.seriesOccurrenceDate}` : ''}
+                </p>
+                {isOpenSeriesOccurrence(trip) && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <button type="button" onClick={() => onSkipOccurrence(trip)} className="h-10 rounded-xl border border-violet-300 dark:border-violet-900/40 bg-violet-50 dark:bg-violet-900/10 text-[9px] font-black uppercase tracking-widest text-violet-700 dark:text-violet-300">Skip This Date</button>
+                    <button type="button" onClick={() => onCancelOccurrence(trip)} className="h-10 rounded-xl border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/10 text-[9px] font-black uppercase tracking-widest text-red-700 dark:text-red-300">Cancel Occurrence</button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <button type="button" onClick={() => onMakeRecurring(trip)} className="w-full h-10 rounded-xl border border-violet-300 dark:border-violet-900/40 bg-violet-50 dark:bg-violet-900/10 text-[9px] font-black uppercase tracking-widest text-violet-700 dark:text-violet-300 inline-flex items-center justify-center gap-1.5">
+                <Repeat size={12} /> Make Recurring
+              </button>
+            )}
+          </div>
+
           <div className="pt-4 border-t border-slate-100 dark:border-brand-800 space-y-3">
             <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block px-1">Customer Priority</label>
             <div className="grid grid-cols-2 gap-2">
@@ -3580,6 +3975,11 @@ const TripUpdateModal: React.FC<{
               <p className="text-[9px] font-black uppercase tracking-widest text-emerald-700 dark:text-emerald-300">{locationActionMessage}</p>
             )}
           </div>
+
+          <div className="pt-4 border-t border-slate-100 dark:border-brand-800 space-y-3">
+            {trip.messageLog && trip.messageLog.length > 0 && <TripMessageLogList records={trip.messageLog} />}
+            <AuditHistoryList entries={tripAuditHistory} />
+          </div>
         </div>
         <div className="px-6 md:px-8 py-5 md:py-6 bg-slate-50 dark:bg-brand-950 border-t dark:border-brand-800 flex gap-4 pb-[max(1.25rem,env(safe-area-inset-bottom))] md:pb-6">
           {trip.status === TripStatus.CANCELLED && (
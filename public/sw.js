@@ -0,0 +1,236 @@
+// App worker: precaches the built app shell for offline use, and keeps the alert schedule the app posts so each
+// notification shows when it comes due, including while the app tab is in the background or closed.
+// Message types match services/alertNotifications.ts.
+
+// Filled in at build time by the precache plugin in vite.config.ts; empty in dev, which leaves fetches alone.
+const PRECACHE_MANIFEST = { version: 'dev', urls: [] };
+const SHELL_CACHE_PREFIX = 'control-shell-';
+const NAVIGATION_TIMEOUT_MS = 3000;
+
+const STATE_CACHE = 'control-alert-notifications';
+const STATE_PATH = 'alert-notification-state.json';
+const PERIODIC_CHECK_TAG = 'control-alert-check';
+const ACTION_MESSAGE = 'ALERT_NOTIFICATION_ACTION';
+const STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+const TIMER_WINDOW_MS = 5 * 60 * 1000;
+
+let nextTimer = null;
+
+const stateUrl = () => new URL(STATE_PATH, self.registration.scope).toString();
+
+const readState = async () => {
+  try {
+    const cache = await caches.open(STATE_CACHE);
+    const response = await cache.match(stateUrl());
+    const state = response ? await response.json() : null;
+    return {
+      notifications: Array.isArray(state && state.notifications) ? state.notifications : [],
+      shown: Array.isArray(state && state.shown) ? state.shown : [],
+    };
+  } catch {
+    return { notifications: [], shown: [] };
+  }
+};
+
+const writeState = async state => {
+  const cache = await caches.open(STATE_CACHE);
+  await cache.put(stateUrl(), new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const supportsTriggers = () => typeof self.TimestampTrigger === 'function';
+
+const buildOptions = notification => ({
+  body: notification.body,
+  icon: new URL('favicon.svg', self.registration.scope).toString(),
+  tag: notification.tag,
+  requireInteraction: notification.level > 0,
+  data: {
+    id: notification.id,
+    alertId: notification.alertId,
+    tripId: notification.tripId,
+    fireAt: notification.fireAt,
+    escalationHref: notification.escalationHref,
+  },
+  actions: [
+    { action: 'snooze', title: 'Snooze 10' },
+    { action: 'resolve', title: 'Resolve' },
+    { action: 'open', title: typeof notification.tripId === 'number' ? 'Open trip' : 'Open watch' },
+  ],
+});
+
+const showNow = notification => self.registration.showNotification(notification.title, buildOptions(notification));
+
+const markShown = async ids => {
+  const state = await readState();
+  const shown = new Set(state.shown);
+  ids.forEach(id => shown.add(id));
+  await writeState({ ...state, shown: Array.from(shown) });
+};
+
+const armTimer = notifications => {
+  if (nextTimer) clearTimeout(nextTimer);
+  nextTimer = null;
+  const now = Date.now();
+  const next = notifications
+    .map(notification => notification.fireAt)
+    .filter(fireAt => fireAt > now && fireAt - now <= TIMER_WINDOW_MS)
+    .sort((a, b) => a - b)[0];
+  // Only useful while the worker happens to stay awake; triggers, push and periodic sync cover the rest.
+  if (next) nextTimer = setTimeout(() => void flushDue(), next - now);
+};
+
+const flushDue = async () => {
+  const state = await readState();
+  const now = Date.now();
+  const shown = new Set(state.shown);
+  const due = state.notifications.filter(notification => (
+    !shown.has(notification.id) && notification.fireAt <= now && now - notification.fireAt <= STALE_AFTER_MS
+  ));
+  await Promise.allSettled(due.map(showNow));
+  due.forEach(notification => shown.add(notification.id));
+  await writeState({ ...state, shown: Array.from(shown) });
+  armTimer(state.notifications);
+  return due.length;
+};
+
+const schedule = async notifications => {
+  const state = await readState();
+  const nextIds = new Set(notifications.map(notification => notification.id));
+  const shown = new Set(state.shown.filter(id => nextIds.has(id)));
+
+  if (supportsTriggers()) {
+    const pending = await self.registration.getNotifications({ includeTriggered: true });
+    const now = Date.now();
+    pending.forEach(notification => {
+      const data = notification.data || {};
+      if (data.fireAt > now && !nextIds.has(data.id)) notification.close();
+    });
+    const scheduledIds = new Set(pending.map(notification => (notification.data || {}).id));
+    await Promise.allSettled(notifications
+      .filter(notification => !shown.has(notification.id) && !scheduledIds.has(notification.id))
+      .map(notification => self.registration.showNotification(notification.title, {
+        ...buildOptions(notification),
+        showTrigger: new self.TimestampTrigger(notification.fireAt),
+      })));
+    notifications.forEach(notification => shown.add(notification.id));
+  }
+
+  await writeState({ notifications, shown: Array.from(shown) });
+  return flushDue();
+};
+
+const closeAlertNotifications = async alertId => {
+  const open = await self.registration.getNotifications();
+  open.forEach(notification => {
+    if ((notification.data || {}).alertId === alertId) notification.close();
+  });
+};
+
+const routeFor = data => (typeof data.tripId === 'number' ? `/trips?id=${data.tripId}` : '/watch');
+
+const shellCacheName = () => `${SHELL_CACHE_PREFIX}${PRECACHE_MANIFEST.version}`;
+
+const scopedUrl = file => new URL(file, self.registration.scope).toString();
+
+// Bad coverage is worse than none: after a short wait the cached shell answers and the slow response is dropped.
+const respondToNavigation = async request => {
+  const cachedShell = caches.match(scopedUrl('index.html'), { cacheName: shellCacheName() });
+  const network = fetch(request);
+  const timeout = new Promise(resolve => setTimeout(() => resolve(null), NAVIGATION_TIMEOUT_MS));
+  try {
+    const response = await Promise.race([network, timeout]);
+    if (response) return response;
+  } catch {
+    // Offline: fall through to the cached shell.
+  }
+  return (await cachedShell) || network;
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    if (PRECACHE_MANIFEST.urls.length > 0) {
+      const cache = await caches.open(shellCacheName());
+      await cache.addAll(PRECACHE_MANIFEST.urls.map(file => new Request(scopedUrl(file), { cache: 'reload' })));
+    }
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== shellCacheName())
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || PRECACHE_MANIFEST.urls.length === 0) return;
+  if (new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(respondToNavigation(request));
+    return;
+  }
+  event.respondWith(caches.match(request, { cacheName: shellCacheName() }).then(cached => cached || fetch(request)));
+});
+
+self.addEventListener('message', event => {
+  const message = event.data || {};
+  if (message.type === 'SCHEDULE_ALERT_NOTIFICATIONS') {
+    event.waitUntil(schedule(Array.isArray(message.notifications) ? message.notifications : []));
+  }
+  if (message.type === 'SHOW_ALERT_NOTIFICATION' && message.notification) {
+    event.waitUntil(showNow(message.notification).then(() => markShown([message.notification.id])));
+  }
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === PERIODIC_CHECK_TAG) event.waitUntil(flushDue());
+});
+
+// A push either carries a ready notification ({ title, body, ... }) or is a bare wake-up that flushes the stored schedule.
+self.addEventListener('push', event => {
+  event.waitUntil((async () => {
+    let payload = null;
+    try {
+      payload = event.data ? event.data.json() : null;
+    } catch {
+      payload = null;
+    }
+    if (payload && payload.title) {
+      await showNow({ id: payload.tag || String(Date.now()), tag: payload.tag || 'control-push', level: 0, ...payload });
+      return;
+    }
+    await flushDue();
+  })());
+});
+
+self.addEventListener('notificationclick', event => {
+  const data = event.notification.data || {};
+  const action = event.action || (data.escalationHref ? 'escalate' : 'open');
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    if (action === 'escalate') {
+      await self.clients.openWindow(data.escalationHref);
+      return;
+    }
+    if (action !== 'open') await closeAlertNotifications(data.alertId);
+
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find(item => item.focused) || windows.find(item => item.visibilityState === 'visible') || windows[0];
+    if (client) {
+      client.postMessage({ type: ACTION_MESSAGE, action, alertId: data.alertId, tripId: data.tripId });
+      if (action === 'open') await client.focus();
+      return;
+    }
+
+    const route = routeFor(data);
+    const separator = route.includes('?') ? '&' : '?';
+    await self.clients.openWindow(`${self.registration.scope}#${route}${separator}alertId=${encodeURIComponent(data.alertId)}&alertAction=${action}`);
+  })());
+});
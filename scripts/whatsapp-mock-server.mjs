@@ -0,0 +1,214 @@
+// Local stand-in for the WhatsApp Cloud API and a webhook relay, for trying the messaging flow without Meta.
+// Run `npm run mock:whatsapp`, then in Settings set API Base URL to http://localhost:8790 and
+// Status Feed URL to http://localhost:8790/webhook/events. Any access token works unless MOCK_ACCESS_TOKEN is set.
+//
+//   POST /:version/:phoneNumberId/messages  accepts template/text sends and returns a wamid
+//   GET  /webhook                           Meta's hub.challenge verification (WEBHOOK_VERIFY_TOKEN)
+//   POST /webhook                           stores real webhook deliveries (checked against WHATSAPP_APP_SECRET when set)
+//   GET  /webhook/events?since=N            the feed the app polls: { cursor, events: [webhook body, ...] }
+//   GET  /messages                          every message the mock accepted, for inspection
+//
+// Each accepted message reports sent, delivered and read a few seconds apart. Numbers ending in 0000 fail instead.
+
+import { createServer } from 'node:http';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8790);
+const ACCESS_TOKEN = process.env.MOCK_ACCESS_TOKEN || '';
+const VERIFY_TOKEN = process.env.WEBHOOK_VERIFY_TOKEN || 'control-mock';
+const APP_SECRET = process.env.WHATSAPP_APP_SECRET || '';
+const FEED_KEY = process.env.FEED_KEY || '';
+const MAX_EVENTS = 1000;
+const STATUS_DELAYS_MS = { sent: 1000, delivered: 3000, read: 8000 };
+
+const events = [];
+const messages = [];
+let lastSeq = 0;
+
+const pushEvent = body => {
+  lastSeq += 1;
+  events.push({ seq: lastSeq, body });
+  if (events.length > MAX_EVENTS) events.splice(0, events.length - MAX_EVENTS);
+};
+
+const buildStatusWebhook = (phoneNumberId, message, status, errors) => ({
+  object: 'whatsapp_business_account',
+  entry: [{
+    id: 'MOCK_WABA_ID',
+    changes: [{
+      field: 'messages',
+      value: {
+        messaging_product: 'whatsapp',
+        metadata: { display_phone_number: '15550000000', phone_number_id: phoneNumberId },
+        statuses: [{
+          id: message.id,
+          status,
+          timestamp: String(Math.floor(Date.now() / 1000)),
+          recipient_id: message.to,
+          ...(errors ? { errors } : {}),
+        }],
+      },
+    }],
+  }],
+});
+
+const simulateDelivery = (phoneNumberId, message) => {
+  if (message.to.endsWith('0000')) {
+    setTimeout(() => pushEvent(buildStatusWebhook(phoneNumberId, message, 'failed', [
+      { code: 131026, title: 'Message undeliverable' },
+    ])), STATUS_DELAYS_MS.sent);
+    return;
+  }
+  Object.entries(STATUS_DELAYS_MS).forEach(([status, delay]) => {
+    setTimeout(() => pushEvent(buildStatusWebhook(phoneNumberId, message, status)), delay);
+  });
+};
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': typeof payload === 'string' ? 'text/plain' : 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(typeof payload === 'string' ? payload : JSON.stringify(payload));
+};
+
+const graphError = (res, status, code, message) => send(res, status, {
+  error: { message, type: 'OAuthException', code, fbtrace_id: `MOCK${randomBytes(6).toString('hex')}` },
+});
+
+const readBody = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const parseJson = raw => {
+  try {
+    return JSON.parse(raw.toString('utf8'));
+  } catch {
+    return null;
+  }
+};
+
+const validateSend = body => {
+  if (!body || body.messaging_product !== 'whatsapp') return 'The parameter messaging_product is required.';
+  if (!/^\d{7,15}$/.test(String(body.to || ''))) return 'The parameter to must be a phone number in international format.';
+  if (body.type === 'template') {
+    if (!body.template || !body.template.name) return 'The parameter template[name] is required.';
+    if (!body.template.language || !body.template.language.code) return 'The parameter template[language][code] is required.';
+    const parameters = (body.template.components || []).flatMap(component => component.parameters || []);
+    const invalid = parameters.find(parameter => parameter.type === 'text' && (!parameter.text || /[\n\t]| {5,}/.test(parameter.text)));
+    if (invalid) return 'Param text cannot be empty or have new-line/tab characters or more than 4 consecutive spaces.';
+    return '';
+  }
+  if (body.type === 'text') return body.text && body.text.body ? '' : 'The parameter text[body] is required.';
+  return `Unsupported message type ${body.type}.`;
+};
+
+const handleSend = async (req, res, phoneNumberId) => {
+  const auth = String(req.headers.authorization || '');
+  const token = auth.startsWith('Bearer ') ? auth.slice(7).trim() : '';
+  if (!token || (ACCESS_TOKEN && token !== ACCESS_TOKEN)) {
+    graphError(res, 401, 190, 'Invalid OAuth access token - Cannot parse access token');
+    return;
+  }
+
+  const body = parseJson(await readBody(req));
+  const problem = validateSend(body);
+  if (problem) {
+    graphError(res, 400, 100, problem);
+    return;
+  }
+
+  const message = {
+    id: `wamid.MOCK${randomBytes(12).toString('hex').toUpperCase()}`,
+    to: body.to,
+    type: body.type,
+    template: body.template,
+    text: body.text,
+    acceptedAt: new Date().toISOString(),
+  };
+  messages.push(message);
+  console.log(`[send] ${message.id} -> +${message.to} ${body.type === 'template' ? body.template.name : 'text'}`);
+  simulateDelivery(phoneNumberId, message);
+
+  send(res, 200, {
+    messaging_product: 'whatsapp',
+    contacts: [{ input: body.to, wa_id: body.to }],
+    messages: [{ id: message.id, message_status: 'accepted' }],
+  });
+};
+
+const hasValidSignature = (req, raw) => {
+  if (!APP_SECRET) return true;
+  const header = String(req.headers['x-hub-signature-256'] || '');
+  const expected = `sha256=${createHmac('sha256', APP_SECRET).update(raw).digest('hex')}`;
+  return header.length === expected.length && timingSafeEqual(Buffer.from(header), Buffer.from(expected));
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const path = url.pathname.replace(/\/+$/, '') || '/';
+
+  try {
+    if (req.method === 'OPTIONS') {
+      send(res, 204, '');
+      return;
+    }
+
+    const sendMatch = path.match(/^\/v[\d.]+\/([^/]+)\/messages$/);
+    if (req.method === 'POST' && sendMatch) {
+      await handleSend(req, res, decodeURIComponent(sendMatch[1]));
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/webhook') {
+      const verified = url.searchParams.get('hub.mode') === 'subscribe' && url.searchParams.get('hub.verify_token') === VERIFY_TOKEN;
+      send(res, verified ? 200 : 403, verified ? url.searchParams.get('hub.challenge') || '' : 'Verification failed');
+      return;
+    }
+
+    if (req.method === 'POST' && path === '/webhook') {
+      const raw = await readBody(req);
+      if (!hasValidSignature(req, raw)) {
+        send(res, 401, 'Invalid signature');
+        return;
+      }
+      const body = parseJson(raw);
+      if (body) pushEvent(body);
+      send(res, 200, 'EVENT_RECEIVED');
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/webhook/events') {
+      if (FEED_KEY && url.searchParams.get('key') !== FEED_KEY) {
+        send(res, 403, { error: 'Invalid feed key' });
+        return;
+      }
+      const since = Number(url.searchParams.get('since') || 0);
+      send(res, 200, {
+        cursor: lastSeq,
+        events: events.filter(event => event.seq > since).map(event => event.body),
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/messages') {
+      send(res, 200, { messages });
+      return;
+    }
+
+    send(res, 404, { error: `No mock route for ${req.method} ${path}` });
+  } catch (error) {
+    console.error('[mock] request failed', error);
+    send(res, 500, { error: 'Mock server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`WhatsApp Cloud API mock listening on http://localhost:${PORT}`);
+  console.log(`Status feed: http://localhost:${PORT}/webhook/events${FEED_KEY ? '?key=<FEED_KEY>' : ''}`);
+});
@@ -0,0 +1,215 @@
+import { format, parseISO } from 'date-fns';
+import { ALERT_ESCALATION_MAX_MINUTES, ALERT_HISTORY_RETENTION_DAYS, DEFAULT_ALERT_RENOTIFY_AFTER_MINUTES, DEFAULT_ALERT_WHATSAPP_AFTER_MINUTES } from '../constants';
+import { AlertEscalationConfig, AlertHistoryEntry, AlertHistoryOutcome, MissionAlert } from '../types';
+
+export type AlertEscalationLevel = 0 | 1 | 2;
+
+export const ALERT_ESCALATION_LABELS: Record<AlertEscalationLevel, string> = {
+  0: 'Notified',
+  1: 'Re-notified',
+  2: 'Operator WhatsApp',
+};
+
+export const ALERT_HISTORY_OUTCOME_LABELS: Record<AlertHistoryOutcome, string> = {
+  RESOLVED: 'Resolved',
+  DISMISSED: 'Dismissed',
+  SNOOZED: 'Snoozed',
+  CLEARED: 'Cleared',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const clampMinutes = (value: unknown, fallback: number): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 1) return fallback;
+  return Math.min(ALERT_ESCALATION_MAX_MINUTES, Math.round(parsed));
+};
+
+export const normalizeAlertEscalationConfig = (raw: unknown): AlertEscalationConfig => {
+  const source = isRecord(raw) ? raw : {};
+  return {
+    enabled: source.enabled !== false,
+    renotifyAfterMinutes: clampMinutes(source.renotifyAfterMinutes, DEFAULT_ALERT_RENOTIFY_AFTER_MINUTES),
+    whatsAppAfterMinutes: clampMinutes(source.whatsAppAfterMinutes, DEFAULT_ALERT_WHATSAPP_AFTER_MINUTES),
+  };
+};
+
+const toTime = (value?: string): number => {
+  if (!value) return NaN;
+  return parseISO(value).getTime();
+};
+
+export const isAlertDue = (alert: MissionAlert, now: Date): boolean => {
+  const due = toTime(alert.targetTime);
+  return !alert.triggered && Number.isFinite(due) && due <= now.getTime();
+};
+
+// Derived from how long the alert has been due rather than stored, so every device agrees without syncing it.
+export const getAlertEscalationLevel = (alert: MissionAlert, config: AlertEscalationConfig, at: Date): AlertEscalationLevel => {
+  if (!config.enabled || alert.notify === false) return 0;
+  const due = toTime(alert.targetTime);
+  if (!Number.isFinite(due)) return 0;
+  const overdueMinutes = (at.getTime() - due) / 60000;
+  if (overdueMinutes >= config.whatsAppAfterMinutes) return 2;
+  if (overdueMinutes >= config.renotifyAfterMinutes) return 1;
+  return 0;
+};
+
+// Acknowledging stops the clock, so the level an alert reached is the one at the moment someone responded.
+export const getAlertReachedLevel = (alert: MissionAlert, config: AlertEscalationConfig, now: Date): AlertEscalationLevel => {
+  const acknowledgedAt = toTime(alert.acknowledgedAt);
+  return getAlertEscalationLevel(alert, config, Number.isFinite(acknowledgedAt) ? new Date(acknowledgedAt) : now);
+};
+
+export const describeAlertSubject = (alert: MissionAlert): string => (
+  alert.customerName || alert.driverName || (alert.tripId ? `Trip #${alert.tripId}` : 'Unknown')
+);
+
+export const buildAlertEscalationMessage = (alert: MissionAlert, now: Date): string => {
+  const due = parseISO(alert.targetTime);
+  const overdueMinutes = Math.max(0, Math.round((now.getTime() - due.getTime()) / 60000));
+  return [
+    `ESCALATION · ${alert.severity || 'WARNING'}`,
+    alert.label,
+    `${describeAlertSubject(alert)}${alert.tripId ? ` · Trip #${alert.tripId}` : ''}`,
+    `Due ${Number.isNaN(due.getTime()) ? '—' : format(due, 'HH:mm')} · no acknowledgement for ${overdueMinutes} min.`,
+    'Please check Mission Watch.',
+  ].join('\n');
+};
+
+export const getAlertHistoryId = (alert: MissionAlert): string => `${alert.id}@${alert.targetTime}`;
+
+export const buildAlertHistoryEntry = (
+  alert: MissionAlert,
+  outcome: AlertHistoryOutcome,
+  config: AlertEscalationConfig,
+  closedAt: Date,
+  closedBy?: string
+): AlertHistoryEntry => ({
+  id: getAlertHistoryId(alert),
+  alertId: alert.id,
+  ...(alert.ruleId ? { ruleId: alert.ruleId } : {}),
+  type: alert.type,
+  label: alert.label,
+  ...(alert.severity ? { severity: alert.severity } : {}),
+  ...(alert.tripId !== undefined ? { tripId: alert.tripId } : {}),
+  ...(alert.driverId ? { driverId: alert.driverId } : {}),
+  subject: describeAlertSubject(alert),
+  firedAt: alert.targetTime,
+  ...(alert.acknowledgedAt ? { acknowledgedAt: alert.acknowledgedAt, acknowledgedBy: alert.acknowledgedBy } : {}),
+  closedAt: closedAt.toISOString(),
+  ...(closedBy ? { closedBy } : {}),
+  outcome,
+  escalationLevel: getAlertReachedLevel(alert, config, closedAt),
+});
+
+export const pruneAlertHistory = (entries: AlertHistoryEntry[], now: Date = new Date()): AlertHistoryEntry[] => {
+  const cutoff = now.getTime() - ALERT_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return entries
+    .filter(entry => toTime(entry.closedAt) >= cutoff)
+    .sort((a, b) => toTime(b.closedAt) - toTime(a.closedAt));
+};
+
+// A CLEARED alert went away by itself (driver assigned, unit refuelled), so without an acknowledgement nobody responded to it.
+const getResponse = (entry: AlertHistoryEntry): { at: number; by: string } | null => {
+  if (entry.acknowledgedAt) return { at: toTime(entry.acknowledgedAt), by: entry.acknowledgedBy || 'Unknown user' };
+  if (entry.outcome === 'CLEARED') return null;
+  return { at: toTime(entry.closedAt), by: entry.closedBy || 'Unknown user' };
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export interface AlertResponseGroupRow {
+  key: string;
+  total: number;
+  responded: number;
+  medianResponseMinutes: number | null;
+  escalated: number;
+}
+
+export interface AlertResponseReport {
+  total: number;
+  responded: number;
+  medianResponseMinutes: number | null;
+  averageResponseMinutes: number | null;
+  escalated: number;
+  sentToWhatsApp: number;
+  byAlert: AlertResponseGroupRow[];
+  byResponder: AlertResponseGroupRow[];
+}
+
+const getResponseMinutes = (entries: AlertHistoryEntry[]): number[] => entries.flatMap(entry => {
+  const response = getResponse(entry);
+  return response ? [Math.max(0, (response.at - toTime(entry.firedAt)) / 60000)] : [];
+});
+
+const summarizeGroup = (key: string, entries: AlertHistoryEntry[]): AlertResponseGroupRow => {
+  const minutes = getResponseMinutes(entries);
+  return {
+    key,
+    total: entries.length,
+    responded: minutes.length,
+    medianResponseMinutes: median(minutes),
+    escalated: entries.filter(entry => entry.escalationLevel >= 1).length,
+  };
+};
+
+const groupBy = (entries: AlertHistoryEntry[], getKey: (entry: AlertHistoryEntry) => string | null): AlertResponseGroupRow[] => {
+  const groups = new Map<string, AlertHistoryEntry[]>();
+  entries.forEach(entry => {
+    const key = getKey(entry);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+  return Array.from(groups.entries())
+    .map(([key, items]) => summarizeGroup(key, items))
+    .sort((a, b) => b.total - a.total);
+};
+
+export const summarizeAlertResponseTimes = (history: AlertHistoryEntry[], since: Date): AlertResponseReport => {
+  const entries = history.filter(entry => toTime(entry.firedAt) >= since.getTime());
+  const overall = summarizeGroup('all', entries);
+  const minutes = getResponseMinutes(entries);
+
+  return {
+    total: overall.total,
+    responded: overall.responded,
+    medianResponseMinutes: overall.medianResponseMinutes,
+    averageResponseMinutes: minutes.length > 0 ? minutes.reduce((sum, value) => sum + value, 0) / minutes.length : null,
+    escalated: overall.escalated,
+    sentToWhatsApp: entries.filter(entry => entry.escalationLevel >= 2).length,
+    byAlert: groupBy(entries, entry => entry.label.replace(/\s*\(.*\)$/, '')),
+    byResponder: groupBy(entries, entry => getResponse(entry)?.by || null),
+  };
+};
+
+// Escalated notices also beep in the open tab, since many desktops show notifications silently.
+export const playEscalationTone = (level: AlertEscalationLevel): void => {
+  const AudioContextClass = typeof window !== 'undefined'
+    ? window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+    : undefined;
+  if (!AudioContextClass || level === 0) return;
+  try {
+    const context = new AudioContextClass();
+    const beeps = level >= 2 ? 3 : 2;
+    for (let i = 0; i < beeps; i += 1) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + i * 0.35;
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.25, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.25);
+    }
+    window.setTimeout(() => void context.close(), beeps * 350 + 200);
+  } catch (error) {
+    console.warn('[alerts] escalation tone unavailable', error);
+  }
+};
@@ -0,0 +1,318 @@
+import { parseISO } from 'date-fns';
+import { ALERT_NOTIFICATION_HORIZON_HOURS } from '../constants';
+import { AuthRole, MissionAlert, Settings } from '../types';
+import { isAlertForRole } from './alertRules';
+import { AlertEscalationLevel, buildAlertEscalationMessage, getAlertEscalationLevel, getAlertHistoryId } from './alertEscalation';
+import { buildWhatsAppLink } from './whatsapp';
+
+export type AlertNotificationAction = 'snooze' | 'resolve' | 'open';
+
+export interface AlertNotificationActionMessage {
+  action: AlertNotificationAction;
+  alertId: string;
+  tripId?: number;
+}
+
+// What the service worker needs to show one escalation tier of one alert occurrence without the page.
+export interface ScheduledAlertNotification {
+  id: string;
+  alertId: string;
+  tripId?: number;
+  tag: string;
+  title: string;
+  body: string;
+  fireAt: number;
+  level: AlertEscalationLevel;
+  escalationHref?: string;
+}
+
+export type BackgroundDeliveryMode = 'TRIGGERS' | 'PUSH' | 'PERIODIC_SYNC' | 'OPEN_TAB';
+
+export const BACKGROUND_DELIVERY_LABELS: Record<BackgroundDeliveryMode, string> = {
+  TRIGGERS: 'Scheduled by the browser',
+  PUSH: 'Web Push wake-ups',
+  PERIODIC_SYNC: 'Periodic background check',
+  OPEN_TAB: 'Only while a tab is open',
+};
+
+export interface BackgroundNotificationStatus {
+  serviceWorker: boolean;
+  permission: NotificationPermission | 'unsupported';
+  delivery: BackgroundDeliveryMode;
+  pushConfigured: boolean;
+  pushSubscribed: boolean;
+}
+
+export const ALERT_NOTIFICATION_ACTION_MESSAGE = 'ALERT_NOTIFICATION_ACTION';
+const SCHEDULE_MESSAGE = 'SCHEDULE_ALERT_NOTIFICATIONS';
+const SHOW_MESSAGE = 'SHOW_ALERT_NOTIFICATION';
+const PERIODIC_CHECK_TAG = 'control-alert-check';
+const PERIODIC_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}sw.js`;
+const WEB_PUSH_PUBLIC_KEY = String(import.meta.env.VITE_WEB_PUSH_PUBLIC_KEY || '').trim();
+const ACTIONS: AlertNotificationAction[] = ['snooze', 'resolve', 'open'];
+
+type PeriodicSyncManager = {
+  register: (tag: string, options: { minInterval: number }) => Promise<void>;
+  getTags: () => Promise<string[]>;
+};
+
+const getPeriodicSync = (registration: ServiceWorkerRegistration): PeriodicSyncManager | undefined => (
+  (registration as unknown as { periodicSync?: PeriodicSyncManager }).periodicSync
+);
+
+export const isAlertServiceWorkerSupported = (): boolean => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+export const supportsNotificationTriggers = (): boolean => typeof window !== 'undefined' && 'TimestampTrigger' in window;
+
+export const isAlertPushConfigured = (): boolean => Boolean(WEB_PUSH_PUBLIC_KEY);
+
+export const buildAlertNotificationContent = (
+  alert: MissionAlert,
+  level: AlertEscalationLevel,
+  operatorWhatsApp: string,
+  at: Date
+): { title: string; body: string; escalationHref: string | null } => {
+  const prefix = level > 0 ? 'ESCALATED: ' : alert.severity === 'CRITICAL' ? 'CRITICAL: ' : '';
+  const title = alert.driverId
+    ? `${prefix}${alert.type === 'REFUEL' ? 'FUEL ADVISORY' : 'FLEET ADVISORY'}: ${alert.driverName}`
+    : `${prefix}MISSION UPDATE: ${alert.customerName}`;
+
+  const body = alert.type === 'REFUEL'
+    ? `${alert.label}. Unit ${alert.driverName} requires immediate refueling.`
+    : alert.type === 'SERVICE'
+      ? `${alert.label}. Unit ${alert.driverName} is due for service.`
+      : `${alert.label} check required for Trip #${alert.tripId}`;
+  const escalationHref = level >= 2 && operatorWhatsApp
+    ? buildWhatsAppLink(operatorWhatsApp, buildAlertEscalationMessage(alert, at))
+    : null;
+
+  return {
+    title,
+    body: escalationHref ? `${body}\nClick to send the escalation to the operator on WhatsApp.` : body,
+    escalationHref,
+  };
+};
+
+export const buildScheduledAlertNotification = (
+  alert: MissionAlert,
+  level: AlertEscalationLevel,
+  settings: Settings,
+  fireAt: Date
+): ScheduledAlertNotification => {
+  const content = buildAlertNotificationContent(alert, level, settings.operatorWhatsApp, fireAt);
+  const occurrence = getAlertHistoryId(alert);
+  return {
+    id: `${occurrence}#${level}`,
+    alertId: alert.id,
+    ...(typeof alert.tripId === 'number' ? { tripId: alert.tripId } : {}),
+    tag: `${occurrence}#${level}`,
+    title: content.title,
+    body: content.body,
+    fireAt: fireAt.getTime(),
+    level,
+    ...(content.escalationHref ? { escalationHref: content.escalationHref } : {}),
+  };
+};
+
+// Every future tier of every alert this role would be notified about, so a closed tab still gets the first notice and each escalation.
+export const planAlertNotifications = (
+  alerts: MissionAlert[],
+  settings: Settings,
+  role: AuthRole,
+  now: Date = new Date()
+): ScheduledAlertNotification[] => {
+  const horizon = now.getTime() + ALERT_NOTIFICATION_HORIZON_HOURS * 60 * 60 * 1000;
+  const config = settings.alertEscalation;
+  const tiers: Array<{ level: AlertEscalationLevel; offsetMinutes: number }> = [
+    { level: 0, offsetMinutes: 0 },
+    ...(config.enabled
+      ? [
+        { level: 1 as AlertEscalationLevel, offsetMinutes: config.renotifyAfterMinutes },
+        { level: 2 as AlertEscalationLevel, offsetMinutes: config.whatsAppAfterMinutes },
+      ]
+      : []),
+  ];
+
+  return alerts
+    .filter(alert => !alert.triggered && !alert.acknowledgedAt && alert.notify !== false && isAlertForRole(alert, role))
+    .flatMap(alert => {
+      const due = parseISO(alert.targetTime).getTime();
+      if (!Number.isFinite(due)) return [];
+      return tiers.flatMap(tier => {
+        const fireAt = new Date(due + tier.offsetMinutes * 60 * 1000);
+        if (fireAt.getTime() <= now.getTime() || fireAt.getTime() > horizon) return [];
+        // A tier that the other one overtakes (re-notify set later than WhatsApp) never fires on its own.
+        if (getAlertEscalationLevel(alert, config, fireAt) !== tier.level) return [];
+        return [buildScheduledAlertNotification(alert, tier.level, settings, fireAt)];
+      });
+    })
+    .sort((a, b) => a.fireAt - b.fireAt);
+};
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const registerAlertServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isAlertServiceWorkerSupported()) return Promise.resolve(null);
+  if (!registrationPromise) {
+    registrationPromise = navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      .then(async registration => {
+        const periodicSync = getPeriodicSync(registration);
+        if (periodicSync) {
+          await periodicSync.register(PERIODIC_CHECK_TAG, { minInterval: PERIODIC_CHECK_INTERVAL_MS }).catch(() => undefined);
+        }
+        return registration;
+      })
+      .catch(error => {
+        console.warn('[notifications] service worker registration failed', error);
+        return null;
+      });
+  }
+  return registrationPromise;
+};
+
+const postToServiceWorker = async (message: Record<string, unknown>): Promise<boolean> => {
+  const registration = await registerAlertServiceWorker();
+  if (!registration) return false;
+  const ready = await navigator.serviceWorker.ready;
+  if (!ready.active) return false;
+  ready.active.postMessage(message);
+  return true;
+};
+
+export const scheduleAlertNotifications = async (notifications: ScheduledAlertNotification[]): Promise<void> => {
+  const permitted = typeof Notification !== 'undefined' && Notification.permission === 'granted';
+  await postToServiceWorker({ type: SCHEDULE_MESSAGE, notifications: permitted ? notifications : [] });
+};
+
+const ensureNotificationPermission = async (): Promise<boolean> => {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+// Shown through the service worker when there is one so page notifications carry the same actions as background ones.
+export const showAlertNotification = async (
+  notification: ScheduledAlertNotification,
+  onOpen: (message: AlertNotificationActionMessage) => void
+): Promise<void> => {
+  if (!(await ensureNotificationPermission())) return;
+  if (await postToServiceWorker({ type: SHOW_MESSAGE, notification })) return;
+
+  const fallback = new Notification(notification.title, {
+    body: notification.body,
+    icon: '/favicon.svg',
+    tag: notification.tag,
+    requireInteraction: notification.level > 0,
+  });
+  fallback.onclick = () => {
+    if (notification.escalationHref) {
+      window.open(notification.escalationHref, '_blank', 'noopener,noreferrer');
+    } else {
+      window.focus();
+      onOpen({ action: 'open', alertId: notification.alertId, tripId: notification.tripId });
+    }
+    fallback.close();
+  };
+};
+
+const toActionMessage = (raw: unknown): AlertNotificationActionMessage | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const source = raw as Record<string, unknown>;
+  const action = String(source.action || '') as AlertNotificationAction;
+  const alertId = String(source.alertId || '');
+  if (!ACTIONS.includes(action) || !alertId) return null;
+  const tripId = Number(source.tripId);
+  return { action, alertId, ...(source.tripId !== undefined && source.tripId !== '' && Number.isFinite(tripId) ? { tripId } : {}) };
+};
+
+export const subscribeToAlertNotificationActions = (handler: (message: AlertNotificationActionMessage) => void): (() => void) => {
+  if (!isAlertServiceWorkerSupported()) return () => undefined;
+  const listener = (event: MessageEvent) => {
+    if (!event.data || event.data.type !== ALERT_NOTIFICATION_ACTION_MESSAGE) return;
+    const message = toActionMessage(event.data);
+    if (message) handler(message);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+export const getAlertNotificationRoute = (message: Pick<AlertNotificationActionMessage, 'tripId'>): string => (
+  typeof message.tripId === 'number' ? `/trips?id=${message.tripId}` : '/watch'
+);
+
+// A notification clicked with no tab open starts the app on `#/trips?id=…&alertId=…&alertAction=…`; the action params are taken off once read.
+export const consumeAlertNotificationActionFromUrl = (): AlertNotificationActionMessage | null => {
+  if (typeof window === 'undefined') return null;
+  const hash = window.location.hash.replace(/^#/, '');
+  const queryIndex = hash.indexOf('?');
+  if (queryIndex < 0) return null;
+
+  const params = new URLSearchParams(hash.slice(queryIndex + 1));
+  const message = toActionMessage({
+    action: params.get('alertAction'),
+    alertId: params.get('alertId'),
+    tripId: params.get('id') ?? undefined,
+  });
+  if (!message) return null;
+
+  params.delete('alertAction');
+  params.delete('alertId');
+  const rest = params.toString();
+  const nextHash = `#${hash.slice(0, queryIndex)}${rest ? `?${rest}` : ''}`;
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}${nextHash}`);
+  return message;
+};
+
+const urlBase64ToUint8Array = (value: string): Uint8Array<ArrayBuffer> => {
+  const padded = `${value}${'='.repeat((4 - (value.length % 4)) % 4)}`.replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i += 1) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+};
+
+export const getAlertPushSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await registerAlertServiceWorker();
+  if (!registration || !('pushManager' in registration)) return null;
+  return registration.pushManager.getSubscription();
+};
+
+export const getBackgroundNotificationStatus = async (): Promise<BackgroundNotificationStatus> => {
+  const registration = await registerAlertServiceWorker();
+  const pushSubscribed = Boolean(await getAlertPushSubscription().catch(() => null));
+  const periodicTags = registration ? await getPeriodicSync(registration)?.getTags().catch(() => []) : [];
+  const delivery: BackgroundDeliveryMode = supportsNotificationTriggers()
+    ? 'TRIGGERS'
+    : pushSubscribed
+      ? 'PUSH'
+      : (periodicTags || []).includes(PERIODIC_CHECK_TAG) ? 'PERIODIC_SYNC' : 'OPEN_TAB';
+
+  return {
+    serviceWorker: Boolean(registration),
+    permission: typeof Notification === 'undefined' ? 'unsupported' : Notification.permission,
+    delivery,
+    pushConfigured: isAlertPushConfigured(),
+    pushSubscribed,
+  };
+};
+
+export const enableBackgroundNotifications = async (): Promise<{ ok: boolean; reason?: string }> => {
+  if (!isAlertServiceWorkerSupported()) return { ok: false, reason: 'This browser does not support service workers.' };
+  if (!(await ensureNotificationPermission())) return { ok: false, reason: 'Notification permission was not granted.' };
+  const registration = await registerAlertServiceWorker();
+  if (!registration) return { ok: false, reason: 'The service worker could not be registered.' };
+  if (!WEB_PUSH_PUBLIC_KEY) return { ok: true };
+
+  try {
+    const existing = await registration.pushManager.getSubscription();
+    if (!existing) {
+      await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(WEB_PUSH_PUBLIC_KEY) });
+    }
+    return { ok: true };
+  } catch (error) {
+    console.warn('[notifications] push subscription failed', error);
+    return { ok: false, reason: 'Notifications are on, but the Web Push subscription failed.' };
+  }
+};
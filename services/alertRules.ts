@@ -0,0 +1,323 @@
+import { addMinutes, parseISO } from 'date-fns';
+import { AlertRule, AlertRuleTarget, AlertRuleTrigger, AlertSeverity, AuthRole, Driver, MissionAlert, Trip, TripStatus } from '../types';
+
+type AlertRuleTiming = 'BEFORE_PICKUP' | 'BEFORE_ARRIVAL' | 'AFTER_COMPLETION' | 'WHILE_TRUE';
+
+export interface AlertRuleTriggerDescriptor {
+  label: string;
+  description: string;
+  alertType: MissionAlert['type'];
+  timing: AlertRuleTiming;
+  thresholdLabel?: string;
+  defaultThreshold?: number;
+}
+
+export const ALERT_RULE_TRIGGERS: Record<AlertRuleTrigger, AlertRuleTriggerDescriptor> = {
+  PICKUP_DUE: {
+    label: 'Pickup Due',
+    description: 'Open trip reaching its pickup time',
+    alertType: 'PICKUP',
+    timing: 'BEFORE_PICKUP',
+  },
+  ARRIVAL_CHECK: {
+    label: 'Arrival Check',
+    description: 'Open trip reaching its ETA at the destination',
+    alertType: 'DROP_OFF',
+    timing: 'BEFORE_ARRIVAL',
+  },
+  UNASSIGNED_BEFORE_PICKUP: {
+    label: 'No Driver Assigned',
+    description: 'Quoted or confirmed trip still has no driver',
+    alertType: 'PICKUP',
+    timing: 'BEFORE_PICKUP',
+  },
+  CONFIRMATION_NOT_SENT: {
+    label: 'Confirmation Not Sent',
+    description: 'Confirmed trip without a confirmation message sent',
+    alertType: 'PICKUP',
+    timing: 'BEFORE_PICKUP',
+  },
+  FEEDBACK_FOLLOW_UP: {
+    label: 'Feedback Follow-Up',
+    description: 'Completed trip with no feedback or rating yet',
+    alertType: 'FOLLOW_UP',
+    timing: 'AFTER_COMPLETION',
+  },
+  LOW_FUEL: {
+    label: 'Low Fuel',
+    description: 'Active unit below the fuel threshold',
+    alertType: 'REFUEL',
+    timing: 'WHILE_TRUE',
+    thresholdLabel: 'Fuel %',
+    defaultThreshold: 15,
+  },
+  OIL_SERVICE_DUE: {
+    label: 'Oil Service Due',
+    description: 'Active unit past the km threshold since its last oil change',
+    alertType: 'SERVICE',
+    timing: 'WHILE_TRUE',
+    thresholdLabel: 'Km Since Oil',
+    defaultThreshold: 5000,
+  },
+};
+
+export const ALERT_RULE_TRIGGER_KEYS = Object.keys(ALERT_RULE_TRIGGERS) as AlertRuleTrigger[];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['INFO', 'WARNING', 'CRITICAL'];
+
+export const ALERT_RULE_TARGET_LABELS: Record<AlertRuleTarget, string> = {
+  ALL: 'Everyone',
+  OPS: 'Ops + Admin',
+  ADMIN: 'Admin Only',
+};
+
+export const ALERT_RULE_MAX_LEAD_MINUTES = 7 * 24 * 60;
+
+// Follow-ups for trips completed longer ago than this are not raised, so old history does not flood Mission Watch.
+const FOLLOW_UP_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// The first three ids reproduce the alert ids used before rules existed (pickup-<trip>, dropoff-<trip>, refuel-<driver>).
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'pickup', name: 'Pickup Due', trigger: 'PICKUP_DUE', enabled: true, leadMinutes: 0, severity: 'WARNING', target: 'ALL', notify: true },
+  { id: 'dropoff', name: 'Arrival Check', trigger: 'ARRIVAL_CHECK', enabled: true, leadMinutes: 0, severity: 'INFO', target: 'ALL', notify: true },
+  { id: 'refuel', name: 'Low Fuel Alert', trigger: 'LOW_FUEL', enabled: true, leadMinutes: 0, threshold: 15, severity: 'WARNING', target: 'ALL', notify: true },
+  { id: 'unassigned', name: 'Driver Not Assigned', trigger: 'UNASSIGNED_BEFORE_PICKUP', enabled: false, leadMinutes: 30, severity: 'CRITICAL', target: 'OPS', notify: true },
+  { id: 'confirmation', name: 'Confirmation Not Sent', trigger: 'CONFIRMATION_NOT_SENT', enabled: false, leadMinutes: 120, severity: 'WARNING', target: 'OPS', notify: true },
+  { id: 'follow-up', name: 'Ask For Feedback', trigger: 'FEEDBACK_FOLLOW_UP', enabled: false, leadMinutes: 60, severity: 'INFO', target: 'OPS', notify: false },
+  { id: 'oil-service', name: 'Oil Service Due', trigger: 'OIL_SERVICE_DUE', enabled: false, leadMinutes: 0, threshold: 5000, severity: 'WARNING', target: 'ADMIN', notify: true },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const normalizeAlertRule = (raw: unknown): AlertRule | null => {
+  if (!isRecord(raw)) return null;
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+  const trigger = raw.trigger as AlertRuleTrigger;
+  if (!id || !ALERT_RULE_TRIGGERS[trigger]) return null;
+
+  const descriptor = ALERT_RULE_TRIGGERS[trigger];
+  const leadMinutes = Number(raw.leadMinutes);
+  const threshold = Number(raw.threshold);
+  return {
+    id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : descriptor.label,
+    trigger,
+    enabled: raw.enabled !== false,
+    leadMinutes: Number.isFinite(leadMinutes) ? Math.max(0, Math.min(ALERT_RULE_MAX_LEAD_MINUTES, Math.round(leadMinutes))) : 0,
+    ...(descriptor.thresholdLabel
+      ? { threshold: Number.isFinite(threshold) && threshold > 0 ? threshold : descriptor.defaultThreshold }
+      : {}),
+    severity: ALERT_SEVERITIES.includes(raw.severity as AlertSeverity) ? raw.severity as AlertSeverity : 'WARNING',
+    target: ALERT_RULE_TARGET_LABELS[raw.target as AlertRuleTarget] ? raw.target as AlertRuleTarget : 'ALL',
+    notify: raw.notify !== false,
+  };
+};
+
+// Settings saved before rules existed get the defaults, which match the old hard-coded alerts.
+export const normalizeAlertRules = (raw: unknown): AlertRule[] => {
+  if (!Array.isArray(raw)) return DEFAULT_ALERT_RULES.map(rule => ({ ...rule }));
+  const seen = new Set<string>();
+  return raw
+    .map(normalizeAlertRule)
+    .filter((rule): rule is AlertRule => {
+      if (!rule || seen.has(rule.id)) return false;
+      seen.add(rule.id);
+      return true;
+    });
+};
+
+export const createAlertRule = (trigger: AlertRuleTrigger): AlertRule => {
+  const descriptor = ALERT_RULE_TRIGGERS[trigger];
+  return {
+    id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: descriptor.label,
+    trigger,
+    enabled: true,
+    leadMinutes: descriptor.timing === 'WHILE_TRUE' ? 0 : 30,
+    ...(descriptor.thresholdLabel ? { threshold: descriptor.defaultThreshold } : {}),
+    severity: 'WARNING',
+    target: 'ALL',
+    notify: true,
+  };
+};
+
+export const validateAlertRules = (rules: AlertRule[]): { ok: boolean; reason?: string } => {
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (!rule.name.trim()) return { ok: false, reason: 'Every alert rule needs a name.' };
+    if (ids.has(rule.id)) return { ok: false, reason: `Alert rule ${rule.name} is duplicated.` };
+    ids.add(rule.id);
+    if (!Number.isFinite(rule.leadMinutes) || rule.leadMinutes < 0 || rule.leadMinutes > ALERT_RULE_MAX_LEAD_MINUTES) {
+      return { ok: false, reason: `${rule.name}: lead time must be between 0 and ${ALERT_RULE_MAX_LEAD_MINUTES} minutes.` };
+    }
+    if (ALERT_RULE_TRIGGERS[rule.trigger].thresholdLabel && !(Number(rule.threshold) > 0)) {
+      return { ok: false, reason: `${rule.name}: threshold must be greater than zero.` };
+    }
+  }
+  return { ok: true };
+};
+
+export const isAlertForRole = (alert: MissionAlert, role: AuthRole): boolean => {
+  const target = alert.target || 'ALL';
+  if (target === 'ALL') return true;
+  if (target === 'OPS') return role === 'ops' || role === 'admin';
+  return role === 'admin';
+};
+
+// Alerts created before rules existed carry no ruleId but are still owned by the default rules.
+const isRuleManagedAlert = (alert: MissionAlert): boolean => (
+  Boolean(alert.ruleId) || alert.type === 'PICKUP' || alert.type === 'DROP_OFF' || alert.type === 'REFUEL'
+);
+
+const parseTime = (value?: string): Date | null => {
+  if (!value) return null;
+  const parsed = parseISO(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const getTripPickupTime = (trip: Trip): Date | null => parseTime(trip.tripDate) || parseTime(trip.createdAt);
+
+const getDriverOdometerKm = (driver: Driver, trips: Trip[]): number => (
+  (driver.baseMileage || 0) + trips
+    .filter(trip => trip.driverId === driver.id && trip.status === TripStatus.COMPLETED)
+    .reduce((sum, trip) => sum + (trip.distanceKm || 0), 0)
+);
+
+const isOpenTrip = (trip: Trip): boolean => trip.status !== TripStatus.CANCELLED && trip.status !== TripStatus.COMPLETED;
+
+const matchesTripRule = (rule: AlertRule, trip: Trip): boolean => {
+  switch (rule.trigger) {
+    case 'PICKUP_DUE':
+    case 'ARRIVAL_CHECK':
+      return isOpenTrip(trip);
+    case 'UNASSIGNED_BEFORE_PICKUP':
+      return isOpenTrip(trip) && !trip.driverId;
+    case 'CONFIRMATION_NOT_SENT':
+      return trip.status === TripStatus.CONFIRMED && !trip.confirmation_sent_at;
+    case 'FEEDBACK_FOLLOW_UP':
+      return trip.status === TripStatus.COMPLETED && !String(trip.feedback || '').trim() && trip.rating === undefined;
+    default:
+      return false;
+  }
+};
+
+const getTripRuleTargetTime = (rule: AlertRule, trip: Trip): Date | null => {
+  const pickup = getTripPickupTime(trip);
+  if (!pickup) return null;
+  switch (ALERT_RULE_TRIGGERS[rule.trigger].timing) {
+    case 'BEFORE_PICKUP':
+      return addMinutes(pickup, -rule.leadMinutes);
+    case 'BEFORE_ARRIVAL':
+      return addMinutes(pickup, (trip.durationInTrafficMin || trip.durationMin || 0) - rule.leadMinutes);
+    case 'AFTER_COMPLETION':
+      return addMinutes(parseTime(trip.completedAt) || pickup, rule.leadMinutes);
+    default:
+      return null;
+  }
+};
+
+const buildTripRuleAlerts = (rule: AlertRule, trips: Trip[], now: Date): MissionAlert[] => trips.flatMap(trip => {
+  if (!matchesTripRule(rule, trip)) return [];
+  const targetTime = getTripRuleTargetTime(rule, trip);
+  if (!targetTime) return [];
+  if (rule.trigger === 'FEEDBACK_FOLLOW_UP' && now.getTime() - targetTime.getTime() > FOLLOW_UP_LOOKBACK_MS) return [];
+  return [{
+    id: `${rule.id}-${trip.id}`,
+    tripId: trip.id,
+    type: ALERT_RULE_TRIGGERS[rule.trigger].alertType,
+    ruleId: rule.id,
+    severity: rule.severity,
+    target: rule.target,
+    notify: rule.notify,
+    targetTime: targetTime.toISOString(),
+    label: rule.name,
+    triggered: false,
+    customerName: trip.customerName,
+  }];
+});
+
+const buildDriverRuleAlerts = (rule: AlertRule, drivers: Driver[], trips: Trip[], now: Date): MissionAlert[] => drivers.flatMap(driver => {
+  if (driver.status !== 'ACTIVE') return [];
+  const odometer = getDriverOdometerKm(driver, trips);
+  const threshold = Number(rule.threshold) || ALERT_RULE_TRIGGERS[rule.trigger].defaultThreshold || 0;
+  let label = '';
+
+  if (rule.trigger === 'LOW_FUEL') {
+    const kmSinceRefuel = Math.max(0, odometer - (driver.lastRefuelKm ?? driver.baseMileage ?? 0));
+    const fuelRemainingPercent = Math.max(0, Math.min(100, (1 - (kmSinceRefuel / Math.max(1, driver.fuelRangeKm || 500))) * 100));
+    if (fuelRemainingPercent >= threshold) return [];
+    label = `${rule.name} (${Math.round(fuelRemainingPercent)}%)`;
+  } else if (rule.trigger === 'OIL_SERVICE_DUE') {
+    const kmSinceOilChange = Math.max(0, odometer - (driver.lastOilChangeKm || 0));
+    if (kmSinceOilChange <= threshold) return [];
+    label = `${rule.name} (${Math.round(kmSinceOilChange).toLocaleString()} km)`;
+  } else {
+    return [];
+  }
+
+  return [{
+    id: `${rule.id}-${driver.id}`,
+    driverId: driver.id,
+    type: ALERT_RULE_TRIGGERS[rule.trigger].alertType,
+    ruleId: rule.id,
+    severity: rule.severity,
+    target: rule.target,
+    notify: rule.notify,
+    targetTime: now.toISOString(),
+    label,
+    triggered: false,
+    driverName: driver.name,
+  }];
+});
+
+export const evaluateAlertRules = (rules: AlertRule[], trips: Trip[], drivers: Driver[], now: Date = new Date()): MissionAlert[] => (
+  rules
+    .filter(rule => rule.enabled)
+    .flatMap(rule => (ALERT_RULE_TRIGGERS[rule.trigger].timing === 'WHILE_TRUE'
+      ? buildDriverRuleAlerts(rule, drivers, trips, now)
+      : buildTripRuleAlerts(rule, trips, now)))
+);
+
+// Regenerates every rule-owned alert while keeping what operators did to the existing ones: resolved stays resolved,
+// snoozes keep their later time, acknowledgements stay, and condition alerts keep the time they first fired. Other alerts pass through untouched.
+export const reconcileRuleAlerts = (
+  previous: MissionAlert[],
+  rules: AlertRule[],
+  trips: Trip[],
+  drivers: Driver[],
+  now: Date = new Date()
+): MissionAlert[] => {
+  const existingById = new Map(previous.filter(isRuleManagedAlert).map(alert => [alert.id, alert] as const));
+
+  const generated = evaluateAlertRules(rules, trips, drivers, now).map(alert => {
+    const existing = existingById.get(alert.id);
+    if (!existing) return alert;
+
+    const acknowledgement = existing.acknowledgedAt
+      ? { acknowledgedAt: existing.acknowledgedAt, acknowledgedBy: existing.acknowledgedBy }
+      : {};
+
+    if (alert.driverId) {
+      return { ...alert, ...acknowledgement, targetTime: existing.targetTime, snoozedUntil: existing.snoozedUntil, triggered: existing.triggered };
+    }
+
+    const existingTarget = new Date(existing.targetTime).getTime();
+    const generatedTarget = new Date(alert.targetTime).getTime();
+    const keepSnoozedTarget = !existing.triggered
+      && Number.isFinite(existingTarget)
+      && Number.isFinite(generatedTarget)
+      && existingTarget > generatedTarget;
+
+    const targetTime = keepSnoozedTarget ? existing.targetTime : alert.targetTime;
+    return {
+      ...alert,
+      // An acknowledgement belongs to one occurrence; a moved pickup time is a new one.
+      ...(targetTime === existing.targetTime ? acknowledgement : {}),
+      targetTime,
+      snoozedUntil: keepSnoozedTarget ? (existing.snoozedUntil || existing.targetTime) : undefined,
+      triggered: existing.triggered,
+    };
+  });
+
+  return [...previous.filter(alert => !isRuleManagedAlert(alert)), ...generated];
+};
@@ -0,0 +1,142 @@
+import { AuditAction, AuditEntityType, AuditFieldChange, AuditLogEntry, AuthRole, CreditLedgerEntry, SyncCollectionKey, Trip, Workspace } from '../types';
+
+export interface AuditActor {
+  uid?: string;
+  email?: string;
+  role: AuthRole;
+  system?: string;
+}
+
+export interface AuditEventInput {
+  entityType: AuditEntityType;
+  entityId: string | number;
+  entityLabel: string;
+  action: AuditAction;
+  before?: object;
+  after?: object;
+  note?: string;
+}
+
+// Version stamps and derived timelines change on almost every save and would drown out the edits people care about.
+const IGNORED_AUDIT_FIELDS = new Set(['updatedAt', 'updatedBy', 'availabilityLog', 'profileTimeline', 'lastEnrichedAt']);
+const REDACTED_AUDIT_FIELDS = new Set(['googleMapsApiKey']);
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  TRIP: 'Trip',
+  TRIP_SERIES: 'Trip Series',
+  DRIVER: 'Driver',
+  CUSTOMER: 'Customer',
+  CREDIT_LEDGER: 'Ledger Entry',
+  INVOICE: 'Invoice',
+  SETTINGS: 'Settings',
+  VAULT: 'Vault',
+  WORKSPACE: 'Workspace',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+  RESTORE: 'Restored',
+  PAYMENT: 'Payment',
+  SETTLE: 'Settled',
+  CLEAR: 'Cleared',
+  IMPORT: 'Imported',
+};
+
+export const AUDIT_ENTITY_BY_SYNC_COLLECTION: Partial<Record<SyncCollectionKey, AuditEntityType>> = {
+  trips: 'TRIP',
+  deletedTrips: 'TRIP',
+  drivers: 'DRIVER',
+  customers: 'CUSTOMER',
+  creditLedger: 'CREDIT_LEDGER',
+  tripSeries: 'TRIP_SERIES',
+  invoices: 'INVOICE',
+  settings: 'SETTINGS',
+};
+
+const summarizeAuditValue = (field: string, value: unknown): unknown => {
+  if (REDACTED_AUDIT_FIELDS.has(field)) return value ? '••••' : value;
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  return value;
+};
+
+const sameAuditValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const diffAuditFields = (before: object | undefined, after: object | undefined): AuditFieldChange[] => {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)])).sort();
+
+  return fields
+    .filter(field => !IGNORED_AUDIT_FIELDS.has(field) && !sameAuditValue(previous[field], next[field]))
+    .map(field => ({
+      field,
+      ...(previous[field] !== undefined ? { before: summarizeAuditValue(field, previous[field]) } : {}),
+      ...(next[field] !== undefined ? { after: summarizeAuditValue(field, next[field]) } : {}),
+    }));
+};
+
+export const buildAuditEntry = (payload: AuditEventInput & { actor: AuditActor; timestamp: string }): AuditLogEntry => ({
+  id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: payload.timestamp,
+  ...(payload.actor.uid ? { actorUid: payload.actor.uid } : {}),
+  ...(payload.actor.email ? { actorEmail: payload.actor.email } : {}),
+  actorRole: payload.actor.role,
+  ...(payload.actor.system ? { actorSystem: payload.actor.system } : {}),
+  entityType: payload.entityType,
+  entityId: String(payload.entityId),
+  entityLabel: payload.entityLabel,
+  action: payload.action,
+  changes: diffAuditFields(payload.before, payload.after),
+  ...(payload.note ? { note: payload.note } : {}),
+});
+
+export const describeTripForAudit = (trip: Trip): string => `Trip #${trip.id} · ${trip.customerName || 'Unknown'}`;
+
+export const describeLedgerEntryForAudit = (entry: CreditLedgerEntry): string => `${entry.partyName} · $${entry.amountUsd.toFixed(2)}`;
+
+// Logos are stored as data URLs; the audit trail only records whether one is set.
+export const toWorkspaceAuditRecord = (workspace: Workspace): object => ({
+  name: workspace.name,
+  syncDocId: workspace.syncDocId,
+  companyName: workspace.branding.companyName,
+  logo: workspace.branding.logoDataUrl ? 'Set' : 'None',
+});
+
+export const collectLedgerAuditEvents = (previous: CreditLedgerEntry[], next: CreditLedgerEntry[], note?: string): AuditEventInput[] => {
+  const previousById = new Map(previous.map(entry => [entry.id, entry]));
+  return next.flatMap((entry): AuditEventInput[] => {
+    const before = previousById.get(entry.id);
+    if (before === entry || (before && diffAuditFields(before, entry).length === 0)) return [];
+    const action: AuditAction = !before
+      ? 'CREATE'
+      : entry.status === 'PAID' && before.status !== 'PAID'
+        ? 'SETTLE'
+        : (entry.payments?.length || 0) > (before.payments?.length || 0)
+          ? 'PAYMENT'
+          : 'UPDATE';
+    return [{ entityType: 'CREDIT_LEDGER', entityId: entry.id, entityLabel: describeLedgerEntryForAudit(entry), action, before, after: entry, note }];
+  });
+};
+
+export const getEntityAuditHistory = (entries: AuditLogEntry[], entityType: AuditEntityType, entityId: string | number): AuditLogEntry[] => {
+  const key = String(entityId);
+  return entries
+    .filter(entry => entry.entityType === entityType && entry.entityId === key)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
+
+export const describeAuditActor = (entry: AuditLogEntry): string => {
+  if (entry.actorSystem) return `System · ${entry.actorSystem}`;
+  const who = entry.actorEmail || (entry.actorUid ? `uid ${entry.actorUid.slice(0, 8)}` : 'Unknown user');
+  return entry.actorRole && entry.actorRole !== 'unknown' ? `${who} (${entry.actorRole})` : who;
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const encoded = JSON.stringify(value);
+  return encoded.length > 120 ? `${encoded.slice(0, 117)}...` : encoded;
+};
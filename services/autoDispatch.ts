@@ -0,0 +1,117 @@
+import { format } from 'date-fns';
+import { AutoDispatchConfig, Driver, Trip, TripStatus } from '../types';
+import { AUTO_DISPATCH_MAX_LEAD_MINUTES, DEFAULT_AUTO_DISPATCH_LEAD_MINUTES } from '../constants';
+import { buildDriverIntelligenceMap, rankDriversByIntelligence } from './driverRecommendation';
+import { findDriverScheduleConflicts } from './driverSchedule';
+
+export interface AutoDispatchAssignment {
+  tripId: number;
+  driverId: string;
+  driverName: string;
+  score: number;
+  note: string;
+}
+
+// Trips whose pickup passed longer ago than this are left for manual handling.
+const AUTO_DISPATCH_OVERDUE_GRACE_MIN = 15;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+export const normalizeAutoDispatchConfig = (raw: unknown): AutoDispatchConfig => {
+  if (!isRecord(raw)) {
+    return { enabled: false, leadMinutes: DEFAULT_AUTO_DISPATCH_LEAD_MINUTES };
+  }
+
+  const leadMinutes = Number(raw.leadMinutes);
+  return {
+    enabled: raw.enabled === true,
+    leadMinutes: Number.isFinite(leadMinutes)
+      ? Math.max(1, Math.min(AUTO_DISPATCH_MAX_LEAD_MINUTES, Math.round(leadMinutes)))
+      : DEFAULT_AUTO_DISPATCH_LEAD_MINUTES,
+  };
+};
+
+export const isTripDueForAutoDispatch = (trip: Trip, config: AutoDispatchConfig, nowMs: number): boolean => {
+  if (trip.status !== TripStatus.CONFIRMED || trip.driverId) return false;
+  const pickupMs = new Date(trip.tripDate).getTime();
+  if (!Number.isFinite(pickupMs)) return false;
+  const minutesUntilPickup = (pickupMs - nowMs) / 60000;
+  return minutesUntilPickup <= config.leadMinutes && minutesUntilPickup >= -AUTO_DISPATCH_OVERDUE_GRACE_MIN;
+};
+
+export const planAutoDispatch = (
+  trips: Trip[],
+  drivers: Driver[],
+  config: AutoDispatchConfig,
+  nowMs: number = Date.now()
+): AutoDispatchAssignment[] => {
+  if (!config.enabled) return [];
+
+  const dueTrips = trips
+    .filter(trip => isTripDueForAutoDispatch(trip, config, nowMs))
+    .sort((a, b) => new Date(a.tripDate).getTime() - new Date(b.tripDate).getTime());
+  if (dueTrips.length === 0) return [];
+
+  const activeDrivers = drivers.filter(driver => driver.status === 'ACTIVE');
+  const stamp = format(new Date(nowMs), 'yyyy-MM-dd HH:mm');
+  const assignments: AutoDispatchAssignment[] = [];
+  // Assignments made earlier in this pass count towards overlap checks for later trips.
+  let workingTrips = trips;
+
+  dueTrips.forEach(trip => {
+    const intelligence = buildDriverIntelligenceMap(activeDrivers, workingTrips, {
+      customerPhone: trip.customerPhone,
+      trafficIndex: trip.trafficIndex,
+      nowMs,
+    });
+
+    const skipped: string[] = [];
+    const eligible = rankDriversByIntelligence(activeDrivers, intelligence).filter(driver => {
+      const insight = intelligence.get(driver.id);
+      if (!insight || insight.isGovernanceBlocked) {
+        skipped.push(`${driver.name} (${insight?.governanceAlerts[0] || 'blocked'})`);
+        return false;
+      }
+      const conflict = findDriverScheduleConflicts({ ...trip, driverId: driver.id }, workingTrips)[0];
+      if (conflict) {
+        skipped.push(`${driver.name} (${conflict.kind === 'OVERLAP' ? 'overlaps' : 'too close to'} trip #${conflict.conflictingTripId.toString().slice(-4)})`);
+        return false;
+      }
+      return true;
+    });
+
+    const chosen = eligible[0];
+    if (!chosen) return;
+
+    const insight = intelligence.get(chosen.id);
+    const score = insight?.overall || 0;
+    const runnerUp = eligible[1];
+    const runnerUpScore = runnerUp ? intelligence.get(runnerUp.id)?.overall || 0 : null;
+
+    const noteParts = [
+      `[Auto-dispatch ${stamp}] Assigned ${chosen.name} (score ${score})`,
+      insight && insight.reasons.length > 0 ? `why: ${insight.reasons.join(', ')}` : '',
+      runnerUp ? `runner-up: ${runnerUp.name} (${runnerUpScore})` : '',
+      skipped.length > 0 ? `skipped: ${skipped.slice(0, 4).join(', ')}` : '',
+    ].filter(Boolean);
+
+    assignments.push({
+      tripId: trip.id,
+      driverId: chosen.id,
+      driverName: chosen.name,
+      score,
+      note: noteParts.join(' · '),
+    });
+
+    workingTrips = workingTrips.map(item => (item.id === trip.id ? { ...item, driverId: chosen.id } : item));
+  });
+
+  return assignments;
+};
+
+export const appendAutoDispatchNote = (notes: string | undefined, note: string): string => {
+  const existing = String(notes || '').trim();
+  return existing ? `${existing}\n${note}` : note;
+};
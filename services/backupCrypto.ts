@@ -0,0 +1,110 @@
+export const ENCRYPTED_BACKUP_FORMAT = 'control-encrypted-backup';
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackupEnvelope {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  cipher: 'AES-GCM';
+  kdf: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  createdAt: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+const deriveBackupKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackupEnvelope = (value: unknown): value is EncryptedBackupEnvelope => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const record = value as Record<string, unknown>;
+  return record.format === ENCRYPTED_BACKUP_FORMAT
+    && typeof record.salt === 'string'
+    && typeof record.iv === 'string'
+    && typeof record.ciphertext === 'string';
+};
+
+export const validateBackupPassphrase = (passphrase: string): { ok: boolean; reason?: string } => {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    return { ok: false, reason: `Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters.` };
+  }
+  return { ok: true };
+};
+
+export const encryptBackupPayload = async (payload: unknown, passphrase: string): Promise<EncryptedBackupEnvelope> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveBackupKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const plaintext = new TextEncoder().encode(JSON.stringify(payload));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    cipher: 'AES-GCM',
+    kdf: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const decryptBackupEnvelope = async (
+  envelope: EncryptedBackupEnvelope,
+  passphrase: string
+): Promise<{ ok: boolean; reason?: string; payload?: unknown }> => {
+  // Every backup this app writes uses the same count; anything else is foreign or crafted to stall the browser.
+  const iterations = Number(envelope.iterations);
+  if (iterations !== PBKDF2_ITERATIONS) {
+    return { ok: false, reason: 'Encrypted backup has unsupported key settings.' };
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveBackupKey(passphrase, fromBase64(envelope.salt), iterations);
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.ciphertext));
+  } catch {
+    // AES-GCM authenticates the ciphertext, so a wrong passphrase and a tampered file fail the same way.
+    return { ok: false, reason: 'Wrong passphrase or damaged backup file.' };
+  }
+
+  try {
+    return { ok: true, payload: JSON.parse(new TextDecoder().decode(plaintext)) };
+  } catch {
+    return { ok: false, reason: 'Decrypted backup is not valid JSON.' };
+  }
+};
@@ -0,0 +1,213 @@
+import { AuditFieldChange, SyncCollectionKey } from '../types';
+import { getSyncRecordKey, getSyncRecordLabel, SYNC_COLLECTION_KEYS, SYNC_COLLECTION_LABELS } from './syncMerge';
+
+export type RestoreCollectionKey = Exclude<SyncCollectionKey, 'settings'>;
+
+// NEW: only in the backup. CHANGED: in both with different content. MISSING: only in current data.
+export type BackupRecordStatus = 'NEW' | 'CHANGED' | 'MISSING';
+
+export interface BackupRecordChange {
+  key: string;
+  label: string;
+  status: BackupRecordStatus;
+  fields?: AuditFieldChange[];
+}
+
+export interface BackupCollectionDiff {
+  collection: RestoreCollectionKey;
+  label: string;
+  backupCount: number;
+  currentCount: number;
+  inBackup: boolean;
+  newCount: number;
+  changedCount: number;
+  missingCount: number;
+  records: BackupRecordChange[];
+}
+
+export interface BackupDiff {
+  collections: BackupCollectionDiff[];
+  hasSettings: boolean;
+  settingsChanged: boolean;
+  hasDifferences: boolean;
+}
+
+// 'all' applies the whole collection with the restore mode; a key list applies just those records.
+export interface RestoreSelection {
+  collections: Partial<Record<RestoreCollectionKey, 'all' | string[]>>;
+  settings: boolean;
+}
+
+export interface RestoreCollectionChanges {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+const VERSION_FIELDS = new Set(['updatedAt', 'updatedBy']);
+const FIELD_DIFF_COLLECTIONS = new Set<RestoreCollectionKey>(['trips', 'customers']);
+
+const asRecord = (value: unknown): Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {}
+);
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const contentSignature = (record: Record<string, unknown>): string => JSON.stringify(
+  Object.keys(record)
+    .filter(key => !VERSION_FIELDS.has(key))
+    .sort()
+    .map(key => [key, record[key]])
+);
+
+export const toRecordMap = (collection: RestoreCollectionKey, items: unknown): Map<string, Record<string, unknown>> => {
+  const map = new Map<string, Record<string, unknown>>();
+  (Array.isArray(items) ? items : []).forEach(item => {
+    if (typeof item !== 'object' || item === null) return;
+    const record = item as Record<string, unknown>;
+    const key = getSyncRecordKey(collection, record);
+    if (key) map.set(key, record);
+  });
+  return map;
+};
+
+export const diffRecordFields = (current: Record<string, unknown>, backup: Record<string, unknown>): AuditFieldChange[] => {
+  const fields = Array.from(new Set([...Object.keys(current), ...Object.keys(backup)])).sort();
+  return fields
+    .filter(field => !VERSION_FIELDS.has(field) && !sameValue(current[field], backup[field]))
+    .map(field => ({
+      field,
+      ...(current[field] !== undefined ? { before: current[field] } : {}),
+      ...(backup[field] !== undefined ? { after: backup[field] } : {}),
+    }));
+};
+
+export const buildBackupDiff = (backupPayload: unknown, currentPayload: unknown): BackupDiff => {
+  const backup = asRecord(backupPayload);
+  const current = asRecord(currentPayload);
+
+  const collections = SYNC_COLLECTION_KEYS.map((collection): BackupCollectionDiff => {
+    const backupRecords = toRecordMap(collection, backup[collection]);
+    const currentRecords = toRecordMap(collection, current[collection]);
+    const records: BackupRecordChange[] = [];
+
+    backupRecords.forEach((record, key) => {
+      const currentRecord = currentRecords.get(key);
+      if (!currentRecord) {
+        records.push({ key, label: getSyncRecordLabel(collection, record), status: 'NEW' });
+      } else if (contentSignature(record) !== contentSignature(currentRecord)) {
+        records.push({
+          key,
+          label: getSyncRecordLabel(collection, record),
+          status: 'CHANGED',
+          ...(FIELD_DIFF_COLLECTIONS.has(collection) ? { fields: diffRecordFields(currentRecord, record) } : {}),
+        });
+      }
+    });
+
+    // The audit log is append-only, so entries newer than the backup are never offered for removal.
+    if (collection !== 'auditLog' && Array.isArray(backup[collection])) {
+      currentRecords.forEach((record, key) => {
+        if (!backupRecords.has(key)) {
+          records.push({ key, label: getSyncRecordLabel(collection, record), status: 'MISSING' });
+        }
+      });
+    }
+
+    return {
+      collection,
+      label: SYNC_COLLECTION_LABELS[collection],
+      backupCount: backupRecords.size,
+      currentCount: currentRecords.size,
+      inBackup: Array.isArray(backup[collection]),
+      newCount: records.filter(record => record.status === 'NEW').length,
+      changedCount: records.filter(record => record.status === 'CHANGED').length,
+      missingCount: records.filter(record => record.status === 'MISSING').length,
+      records,
+    };
+  });
+
+  const hasSettings = typeof backup.settings === 'object' && backup.settings !== null;
+  const settingsChanged = hasSettings && !sameValue(backup.settings, current.settings);
+
+  return {
+    collections,
+    hasSettings,
+    settingsChanged,
+    hasDifferences: settingsChanged || collections.some(item => item.records.length > 0),
+  };
+};
+
+// Mirrors what a plain import did before selection existed: every section in the backup, settings included.
+export const buildDefaultRestoreSelection = (diff: BackupDiff): RestoreSelection => ({
+  collections: diff.collections.reduce<RestoreSelection['collections']>((selection, item) => {
+    if (item.inBackup) selection[item.collection] = 'all';
+    return selection;
+  }, {}),
+  settings: diff.hasSettings,
+});
+
+export const isRestoreSelectionEmpty = (selection: RestoreSelection): boolean => (
+  !selection.settings
+  && Object.values(selection.collections).every(choice => choice === undefined || (Array.isArray(choice) && choice.length === 0))
+);
+
+// Selected keys take the backup's version of a record, or drop it when the backup never had it.
+export const applySelectedRecords = <T extends object>(collection: RestoreCollectionKey, current: T[], incoming: T[], keys: string[]): T[] => {
+  const selected = new Set(keys);
+  const incomingByKey = toRecordMap(collection, incoming);
+  const placed = new Set<string>();
+
+  const next = current.flatMap(item => {
+    const key = getSyncRecordKey(collection, item as Record<string, unknown>);
+    if (!key || !selected.has(key)) return [item];
+    placed.add(key);
+    const replacement = incomingByKey.get(key);
+    if (replacement) return [replacement as T];
+    return collection === 'auditLog' ? [item] : [];
+  });
+
+  incoming.forEach(item => {
+    const key = getSyncRecordKey(collection, item as Record<string, unknown>);
+    if (!key || !selected.has(key) || placed.has(key)) return;
+    placed.add(key);
+    next.push(item);
+  });
+
+  return next;
+};
+
+export const countRestoreChanges = (collection: RestoreCollectionKey, before: unknown[], after: unknown[]): RestoreCollectionChanges => {
+  const previous = toRecordMap(collection, before);
+  const next = toRecordMap(collection, after);
+  let added = 0;
+  let updated = 0;
+  next.forEach((record, key) => {
+    const prior = previous.get(key);
+    if (!prior) {
+      added += 1;
+    } else if (contentSignature(prior) !== contentSignature(record)) {
+      updated += 1;
+    }
+  });
+  return {
+    added,
+    updated,
+    removed: Array.from(previous.keys()).filter(key => !next.has(key)).length,
+  };
+};
+
+export const describeRestoreChanges = (changes: Partial<Record<RestoreCollectionKey, RestoreCollectionChanges>>, settingsApplied: boolean): string => {
+  const parts = SYNC_COLLECTION_KEYS.flatMap(collection => {
+    const item = changes[collection];
+    if (!item || item.added + item.updated + item.removed === 0) return [];
+    const counts = [
+      item.added ? `+${item.added}` : '',
+      item.updated ? `~${item.updated}` : '',
+      item.removed ? `-${item.removed}` : '',
+    ].filter(Boolean).join(' ');
+    return [`${SYNC_COLLECTION_LABELS[collection]} ${counts}`];
+  });
+  if (settingsApplied) parts.push('Settings');
+  return parts.join(', ');
+};
@@ -1,6 +1,11 @@
 import type { AuthError } from 'firebase/auth';
+import { SyncCollectionKey, Workspace } from '../types';
+import { getSyncRecordKey, SYNC_COLLECTION_KEYS } from './syncMerge';
+import { connectFirestoreEmulatorOnce } from './firebaseEmulator';
+import { getActiveWorkspace } from './workspaces';
 
 type SyncStatus = 'disabled' | 'connecting' | 'ready' | 'error';
+type SyncRecordSection = Exclude<SyncCollectionKey, 'settings'>;
 
 interface StartCloudSyncOptions {
   clientId: string;
@@ -12,6 +17,10 @@ export interface CloudSyncSession {
   isEnabled: boolean;
   isReady: () => boolean;
   publish: (payload: unknown, signature: string) => Promise<boolean>;
+  // Re-reads the cloud state and hands it to onRemoteData even if its signature was already seen.
+  refresh: () => Promise<void>;
+  // Holds a named lease on this sync doc for ttlMs so a job runs on one client at a time; false when another holder is live.
+  claimLease: (name: string, ttlMs: number) => Promise<boolean>;
   stop: () => void;
 }
 
@@ -29,8 +38,19 @@ const CLOUD_COLLECTION = import.meta.env.VITE_FIREBASE_SYNC_COLLECTION || 'contr
 const DEFAULT_CLOUD_DOC_ID = import.meta.env.VITE_FIREBASE_SYNC_DOC_ID || 'shared';
 const FALLBACK_CLOUD_DOC_ID = 'shared';
 const POLL_INTERVAL_MS = 3000;
+const INCONSISTENT_READ_ATTEMPTS = 3;
+const INCONSISTENT_READ_RETRY_MS = 500;
 const PAYLOAD_CHUNK_COLLECTION = 'payloadChunks';
-const PAYLOAD_CHUNK_CHAR_SIZE = 240000;
+const LEASE_COLLECTION = 'leases';
+const WORKSPACE_DIRECTORY_COLLECTION = 'workspace_directory';
+const SYNC_PROTOCOL = 'delta-v1';
+const SECTION_COLLECTION = 'sections';
+const RECORD_COLLECTION = 'records';
+const MAX_RECORD_WRITES_PER_TRANSACTION = 400;
+
+type RemoteRecordEntry = { json: string; data: unknown };
+type RemoteSectionState = { records: Map<string, RemoteRecordEntry>; cursor: number };
+type RecordWrite = { section: SyncRecordSection; key: string; json: string | null; position: number };
 
 type FirebaseRuntime = {
   app: {
@@ -45,18 +65,31 @@ type FirebaseRuntime = {
     signInAnonymously: (auth: unknown) => Promise<unknown>;
   };
   firestore: {
+    collection: (...pathSegments: unknown[]) => unknown;
+    connectFirestoreEmulator: (firestore: unknown, host: string, port: number) => void;
     deleteField: () => unknown;
     doc: (...pathSegments: unknown[]) => { path?: string };
-    getDoc: (docRef: unknown) => Promise<{
-      exists: () => boolean;
-      data: () => Record<string, unknown> | undefined;
-    }>;
+    getDoc: (docRef: unknown) => Promise<FirestoreDocSnapshot>;
+    getDocs: (query: unknown) => Promise<{ docs: Array<{ id: string; data: () => Record<string, unknown> }> }>;
     getFirestore: (app?: unknown) => unknown;
+    query: (reference: unknown, ...constraints: unknown[]) => unknown;
+    runTransaction: <T>(firestore: unknown, update: (transaction: FirestoreTransaction) => Promise<T>) => Promise<T>;
     serverTimestamp: () => unknown;
     setDoc: (docRef: unknown, data: Record<string, unknown>, options?: { merge?: boolean }) => Promise<void>;
+    where: (field: string, op: '>', value: unknown) => unknown;
   };
 };
 
+type FirestoreDocSnapshot = {
+  exists: () => boolean;
+  data: () => Record<string, unknown> | undefined;
+};
+
+type FirestoreTransaction = {
+  get: (docRef: unknown) => Promise<FirestoreDocSnapshot>;
+  set: (docRef: unknown, data: Record<string, unknown>, options?: { merge?: boolean }) => unknown;
+};
+
 let firebaseRuntimePromise: Promise<FirebaseRuntime> | null = null;
 
 const loadFirebaseRuntime = async (): Promise<FirebaseRuntime> => {
@@ -100,14 +133,46 @@ const isPermissionDeniedError = (error: unknown) => {
 };
 
 const buildPermissionHint = (path: string) =>
-  `permission-denied path=${path} (Check Firestore rules on /${CLOUD_COLLECTION}/{docId} and /${CLOUD_COLLECTION}/{docId}/${PAYLOAD_CHUNK_COLLECTION}/{chunkId}, Anonymous Auth enabled, and Firestore App Check enforcement).`;
+  `permission-denied path=${path} (Check Firestore rules on /${CLOUD_COLLECTION}/{docId}, /${CLOUD_COLLECTION}/{docId}/${SECTION_COLLECTION}/{section}/${RECORD_COLLECTION}/{recordKey} and /${CLOUD_COLLECTION}/{docId}/${PAYLOAD_CHUNK_COLLECTION}/{chunkId}, Anonymous Auth enabled, and Firestore App Check enforcement).`;
+
+const getSyncFirestore = (firestoreApi: FirebaseRuntime['firestore'], app: unknown) =>
+  connectFirestoreEmulatorOnce(firestoreApi.getFirestore(app) as object, firestoreApi.connectFirestoreEmulator);
+
+const isDeltaRoot = (data: Record<string, unknown> | undefined): boolean =>
+  Boolean(data) && data?.protocol === SYNC_PROTOCOL && typeof data?.signature === 'string';
+
+const readNonNegativeInt = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+
+const readSectionRevisions = (data: Record<string, unknown> | undefined): Partial<Record<SyncRecordSection, number>> => {
+  const raw = data?.sectionRevisions && typeof data.sectionRevisions === 'object' ? data.sectionRevisions as Record<string, unknown> : {};
+  const revisions: Partial<Record<SyncRecordSection, number>> = {};
+  SYNC_COLLECTION_KEYS.forEach(section => {
+    revisions[section] = readNonNegativeInt(raw[section]);
+  });
+  return revisions;
+};
+
+const readSectionSignatures = (data: Record<string, unknown> | undefined): Partial<Record<SyncRecordSection | 'settings', string>> => {
+  const raw = data?.sectionSignatures && typeof data.sectionSignatures === 'object' ? data.sectionSignatures as Record<string, unknown> : {};
+  const signatures: Partial<Record<SyncRecordSection | 'settings', string>> = {};
+  [...SYNC_COLLECTION_KEYS, 'settings' as const].forEach(section => {
+    if (typeof raw[section] === 'string') signatures[section] = raw[section] as string;
+  });
+  return signatures;
+};
 
 const normalizeCloudDocId = (value: string): string => {
   const normalized = String(value || '').trim();
   return normalized || FALLBACK_CLOUD_DOC_ID;
 };
 
+// Only the main workspace may fall back to the shared doc; any other workspace reading it would pull in foreign data.
 const getCloudSyncDocIdCandidates = (): string[] => {
+  const workspace = getActiveWorkspace();
+  if (workspace.syncDocId) {
+    return [workspace.syncDocId];
+  }
   const primary = normalizeCloudDocId(DEFAULT_CLOUD_DOC_ID);
   if (primary === FALLBACK_CLOUD_DOC_ID) {
     return [primary];
@@ -115,15 +180,6 @@ const getCloudSyncDocIdCandidates = (): string[] => {
   return [primary, FALLBACK_CLOUD_DOC_ID];
 };
 
-const chunkString = (text: string, chunkSize: number): string[] => {
-  if (!text) return [''];
-  const chunks: string[] = [];
-  for (let index = 0; index < text.length; index += chunkSize) {
-    chunks.push(text.slice(index, index + chunkSize));
-  }
-  return chunks;
-};
-
 const hasChunkedPayload = (data: Record<string, unknown> | undefined): boolean => {
   if (!data) return false;
   return data.payloadChunked === true && typeof data.payloadChunkCount === 'number' && Number(data.payloadChunkCount) > 0;
@@ -185,6 +241,8 @@ const resolveRemotePayload = async (
 };
 
 export const getCloudSyncDocId = () => {
+  const workspace = getActiveWorkspace();
+  if (workspace.syncDocId) return workspace.syncDocId;
   return normalizeCloudDocId(DEFAULT_CLOUD_DOC_ID);
 };
 
@@ -208,11 +266,56 @@ const hashString = (value: string): string => {
   return (hash >>> 0).toString(16).padStart(8, '0');
 };
 
+const stableStringify = (value: unknown): string => {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(item => (item === undefined ? 'null' : stableStringify(item))).join(',')}]`;
+  const record = value as Record<string, unknown>;
+  const entries = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+  return `{${entries.join(',')}}`;
+};
+
 const fingerprintSection = (value: unknown): string => {
-  const encoded = JSON.stringify(value ?? null);
+  const encoded = stableStringify(value ?? null);
   return `${encoded.length}:${hashString(encoded)}`;
 };
 
+// Record order differs between devices after merges, so collections are fingerprinted as an unordered set.
+const fingerprintRecords = (records: unknown[]): string => {
+  const encoded = records.map(record => stableStringify(record)).sort().join('\n');
+  return `${encoded.length}:${hashString(encoded)}`;
+};
+
+const SYNC_SECTION_TAGS: Record<SyncRecordSection, string> = {
+  trips: 't',
+  deletedTrips: 'dt',
+  drivers: 'd',
+  customers: 'c',
+  alerts: 'a',
+  creditLedger: 'cl',
+  receipts: 'rc',
+  tripSeries: 'ts',
+  invoices: 'inv',
+  auditLog: 'al',
+  alertHistory: 'ah',
+};
+
+const createSectionSignature = (section: SyncRecordSection, items: unknown[]): string =>
+  `${SYNC_SECTION_TAGS[section]}:${items.length}:${fingerprintRecords(items)}`;
+
+export const createSyncSectionSignatures = (payload: unknown): Record<SyncRecordSection | 'settings', string> => {
+  const record = payload && typeof payload === 'object' ? payload as Record<string, unknown> : {};
+  const sections = {} as Record<SyncRecordSection | 'settings', string>;
+  SYNC_COLLECTION_KEYS.forEach(section => {
+    sections[section] = createSectionSignature(section, Array.isArray(record[section]) ? record[section] as unknown[] : []);
+  });
+  sections.settings = `s:${fingerprintSection(record.settings && typeof record.settings === 'object' ? record.settings : {})}`;
+  return sections;
+};
+
 export const createSyncSignature = (payload: unknown): string => {
   if (!payload || typeof payload !== 'object') return '{}';
   const record = payload as Record<string, unknown>;
@@ -220,29 +323,15 @@ export const createSyncSignature = (payload: unknown): string => {
     ? Math.max(0, Math.floor(record.syncEpoch))
     : 0;
   const resetToken = typeof record.resetToken === 'string' ? record.resetToken.trim() : '';
-
   const version = typeof record.version === 'string' ? record.version : '0';
-  const trips = Array.isArray(record.trips) ? record.trips : [];
-  const deletedTrips = Array.isArray(record.deletedTrips) ? record.deletedTrips : [];
-  const drivers = Array.isArray(record.drivers) ? record.drivers : [];
-  const customers = Array.isArray(record.customers) ? record.customers : [];
-  const alerts = Array.isArray(record.alerts) ? record.alerts : [];
-  const creditLedger = Array.isArray(record.creditLedger) ? record.creditLedger : [];
-  const receipts = Array.isArray(record.receipts) ? record.receipts : [];
-  const settings = record.settings && typeof record.settings === 'object' ? record.settings : {};
+  const sections = createSyncSectionSignatures(payload);
 
   return [
     `v:${version}`,
     `e:${syncEpoch}`,
     `r:${resetToken}`,
-    `t:${trips.length}:${fingerprintSection(trips)}`,
-    `dt:${deletedTrips.length}:${fingerprintSection(deletedTrips)}`,
-    `d:${drivers.length}:${fingerprintSection(drivers)}`,
-    `c:${customers.length}:${fingerprintSection(customers)}`,
-    `a:${alerts.length}:${fingerprintSection(alerts)}`,
-    `cl:${creditLedger.length}:${fingerprintSection(creditLedger)}`,
-    `rc:${receipts.length}:${fingerprintSection(receipts)}`,
-    `s:${fingerprintSection(settings)}`,
+    ...SYNC_COLLECTION_KEYS.map(section => sections[section]),
+    sections.settings,
   ].join('|');
 };
 
@@ -270,20 +359,20 @@ export const fetchCloudSyncSignature = async (): Promise<CloudSyncSignatureFetch
       }
     }
 
-    const firestore = firestoreApi.getFirestore(app);
+    const firestore = getSyncFirestore(firestoreApi, app);
 
     for (const activeDocId of docIdCandidates) {
       try {
         const syncRef = firestoreApi.doc(firestore, CLOUD_COLLECTION, activeDocId);
         const snapshot = await firestoreApi.getDoc(syncRef);
         const data = snapshot.data() as Record<string, unknown> | undefined;
-        const hasRemotePayload = Boolean(data?.payload) || hasChunkedPayload(data);
+        const hasRemotePayload = isDeltaRoot(data) || Boolean(data?.payload) || hasChunkedPayload(data);
 
         if (!hasRemotePayload) {
           continue;
         }
 
-        const resolvedPayload = await resolveRemotePayload(firestoreApi, firestore, activeDocId, data);
+        const resolvedPayload = isDeltaRoot(data) ? null : await resolveRemotePayload(firestoreApi, firestore, activeDocId, data);
 
         const signature = typeof data?.signature === 'string' && data.signature
           ? data.signature
@@ -336,6 +425,65 @@ export const fetchCloudSyncSignature = async (): Promise<CloudSyncSignatureFetch
   }
 };
 
+export interface WorkspaceDirectoryResult {
+  ok: boolean;
+  entries: unknown[];
+  reason?: string;
+}
+
+const connectDirectoryFirestore = async () => {
+  const runtime = await loadFirebaseRuntime();
+  const { app: appApi, auth: authApi, firestore: firestoreApi } = runtime;
+  const app = appApi.getApps().length ? appApi.getApp() : appApi.initializeApp(getFirebaseConfig());
+  const auth = authApi.getAuth(app);
+  if (!auth.currentUser) await authApi.signInAnonymously(auth);
+  return { firestoreApi, firestore: getSyncFirestore(firestoreApi, app) };
+};
+
+// Names, branding and sync channels are shared here so every device resolves a workspace the same way.
+export const fetchWorkspaceDirectory = async (workspaceIds: string[]): Promise<WorkspaceDirectoryResult> => {
+  if (!hasRequiredFirebaseConfig()) return { ok: false, entries: [], reason: 'Cloud sync is not configured for this app.' };
+
+  try {
+    const { firestoreApi, firestore } = await connectDirectoryFirestore();
+    const entries: unknown[] = [];
+    for (const workspaceId of Array.from(new Set(workspaceIds))) {
+      try {
+        const snapshot = await firestoreApi.getDoc(firestoreApi.doc(firestore, WORKSPACE_DIRECTORY_COLLECTION, workspaceId));
+        const data = snapshot.exists() ? snapshot.data() : undefined;
+        if (data) entries.push({ ...data, id: workspaceId });
+      } catch (error) {
+        if (!isPermissionDeniedError(error)) throw error;
+      }
+    }
+    return { ok: true, entries };
+  } catch (error) {
+    return { ok: false, entries: [], reason: `Failed to read workspace directory: ${getErrorMessage(error)}` };
+  }
+};
+
+export const publishWorkspaceDirectoryEntry = async (workspace: Workspace): Promise<{ ok: boolean; reason?: string }> => {
+  if (!hasRequiredFirebaseConfig()) return { ok: false, reason: 'Cloud sync is not configured for this app.' };
+
+  try {
+    const { firestoreApi, firestore } = await connectDirectoryFirestore();
+    await firestoreApi.setDoc(firestoreApi.doc(firestore, WORKSPACE_DIRECTORY_COLLECTION, workspace.id), {
+      id: workspace.id,
+      name: workspace.name,
+      syncDocId: workspace.syncDocId,
+      branding: { ...workspace.branding },
+      createdAt: workspace.createdAt,
+      updatedAt: workspace.updatedAt || workspace.createdAt,
+      publishedAt: firestoreApi.serverTimestamp(),
+    });
+    return { ok: true };
+  } catch (error) {
+    const path = `${WORKSPACE_DIRECTORY_COLLECTION}/${workspace.id}`;
+    if (isPermissionDeniedError(error)) return { ok: false, reason: `permission-denied path=${path}` };
+    return { ok: false, reason: `Failed to publish workspace ${workspace.id}: ${getErrorMessage(error)}` };
+  }
+};
+
 export const startCloudSync = async (options: StartCloudSyncOptions): Promise<CloudSyncSession> => {
   if (!isCloudSyncConfigured()) {
     options.onStatusChange?.('disabled', 'Firebase env config missing.');
@@ -343,6 +491,8 @@ export const startCloudSync = async (options: StartCloudSyncOptions): Promise<Cl
       isEnabled: false,
       isReady: () => false,
       publish: async () => false,
+      refresh: async () => undefined,
+      claimLease: async () => false,
       stop: () => undefined,
     };
   }
@@ -370,6 +520,8 @@ export const startCloudSync = async (options: StartCloudSyncOptions): Promise<Cl
             isEnabled: false,
             isReady: () => false,
             publish: async () => false,
+            refresh: async () => undefined,
+            claimLease: async () => false,
             stop: () => undefined,
           };
         }
@@ -382,13 +534,15 @@ export const startCloudSync = async (options: StartCloudSyncOptions): Promise<Cl
       `auth uid=${auth.currentUser?.uid || 'none'} anon=${auth.currentUser?.isAnonymous ? 'yes' : 'no'}`
     );
 
-    const firestore = firestoreApi.getFirestore(app);
-    let legacyRef = firestoreApi.doc(firestore, CLOUD_COLLECTION, activeDocId);
+    const firestore = getSyncFirestore(firestoreApi, app);
+    let rootRef = firestoreApi.doc(firestore, CLOUD_COLLECTION, activeDocId);
 
     let ready = false;
     let stopped = false;
     let permissionDenied = false;
-    let seenLegacySignature: string | null = null;
+    let seenSignature: string | null = null;
+    let degraded = false;
+    const remoteSections = new Map<SyncRecordSection, RemoteSectionState>();
 
     ready = true;
     options.onStatusChange?.('ready');
@@ -407,7 +561,7 @@ export const startCloudSync = async (options: StartCloudSyncOptions): Promise<Cl
           { merge: true }
         );
         activeDocId = docId;
-        legacyRef = ref;
+        rootRef = ref;
         return { ok: true, permissionDenied: false };
       } catch (error) {
         if (isPermissionDeniedError(error)) {
@@ -441,60 +595,221 @@ export const startCloudSync = async (options: StartCloudSyncOptions): Promise<Cl
       if (bootstrapResult.permissionDenied) {
         permissionDenied = true;
       }
-      options.onStatusChange?.('error', bootstrapResult.message || `bootstrap failed path=${legacyRef.path}`);
+      degraded = !permissionDenied;
+      options.onStatusChange?.('error', bootstrapResult.message || `bootstrap failed path=${rootRef.path}`);
     }
 
-    const pullLegacy = async (channel: 'legacy:init' | 'legacy:poll') => {
-      if (stopped || permissionDenied) return;
+    const reportDegraded = (status: 'connecting' | 'error', message: string) => {
+      degraded = true;
+      options.onStatusChange?.(status, message);
+    };
 
-      try {
-        const snapshot = await firestoreApi.getDoc(legacyRef);
-        const data = snapshot.data() as Record<string, unknown> | undefined;
-        const signature = typeof data?.signature === 'string' ? data.signature : null;
-        const hasRemotePayload = Boolean(data?.payload) || hasChunkedPayload(data);
+    // Offline spells and failed publishes flip the status away from ready; the next successful round trip restores it.
+    const reportRecovered = () => {
+      if (!degraded || permissionDenied) return;
+      degraded = false;
+      ready = true;
+      options.onStatusChange?.('ready');
+    };
 
-        if (!hasRemotePayload) {
+    const getSectionState = (section: SyncRecordSection): RemoteSectionState => {
+      let state = remoteSections.get(section);
+      if (!state) {
+        state = { records: new Map(), cursor: 0 };
+        remoteSections.set(section, state);
+      }
+      return state;
+    };
+
+    // Tabs on one device share the client id, so each session holds leases under its own id.
+    const leaseHolderId = `${options.clientId}:${Math.random().toString(36).slice(2, 10)}`;
+
+    const getRecordRef = (section: SyncRecordSection, key: string) =>
+      firestoreApi.doc(firestore, CLOUD_COLLECTION, activeDocId, SECTION_COLLECTION, section, RECORD_COLLECTION, encodeURIComponent(key));
+
+    const fetchSectionRecords = async (section: SyncRecordSection, sinceRevision: number) => {
+      const recordsRef = firestoreApi.collection(firestore, CLOUD_COLLECTION, activeDocId, SECTION_COLLECTION, section, RECORD_COLLECTION);
+      const snapshot = await firestoreApi.getDocs(
+        sinceRevision > 0 ? firestoreApi.query(recordsRef, firestoreApi.where('rev', '>', sinceRevision)) : recordsRef
+      );
+      return snapshot.docs.map(recordDoc => recordDoc.data());
+    };
+
+    // A full fetch restores the publisher's order; records first seen on a delta pull are newer, so they lead.
+    const applySectionRecords = (state: RemoteSectionState, docs: Record<string, unknown>[], replace: boolean) => {
+      const ordered = replace
+        ? docs.slice().sort((a, b) => readNonNegativeInt(a.position) - readNonNegativeInt(b.position) || readNonNegativeInt(b.rev) - readNonNegativeInt(a.rev))
+        : docs;
+      const existing = replace ? new Map<string, RemoteRecordEntry>() : state.records;
+      const added = new Map<string, RemoteRecordEntry>();
+
+      ordered.forEach(recordDoc => {
+        const key = typeof recordDoc.key === 'string' ? recordDoc.key : '';
+        if (!key) return;
+        if (recordDoc.deleted === true || typeof recordDoc.data !== 'string') {
+          existing.delete(key);
+          added.delete(key);
           return;
         }
-
-        if (signature && signature === seenLegacySignature && channel === 'legacy:poll') {
+        let entry: RemoteRecordEntry;
+        try {
+          entry = { json: recordDoc.data, data: JSON.parse(recordDoc.data) };
+        } catch {
           return;
         }
+        if (existing.has(key)) {
+          existing.set(key, entry);
+        } else {
+          added.set(key, entry);
+        }
+      });
 
-        const resolvedPayload = await resolveRemotePayload(firestoreApi, firestore, activeDocId, data);
-        if (!resolvedPayload) {
+      state.records = replace ? added : new Map([...added, ...existing]);
+    };
+
+    const getSectionItems = (section: SyncRecordSection) =>
+      Array.from(getSectionState(section).records.values()).map(entry => entry.data);
+
+    const refreshSection = async (section: SyncRecordSection, revision: number, expectedSignature: string | undefined) => {
+      const state = getSectionState(section);
+      if (revision > state.cursor) {
+        applySectionRecords(state, await fetchSectionRecords(section, state.cursor), state.cursor === 0);
+      } else if (revision < state.cursor) {
+        applySectionRecords(state, await fetchSectionRecords(section, 0), true);
+      }
+      state.cursor = revision;
+
+      if (expectedSignature && createSectionSignature(section, getSectionItems(section)) !== expectedSignature) {
+        applySectionRecords(state, await fetchSectionRecords(section, 0), true);
+      }
+    };
+
+    // Returns null while the root and its records disagree, e.g. mid-way through another client's publish.
+    const refreshRemoteState = async (data: Record<string, unknown>): Promise<Record<string, unknown> | null> => {
+      const revisions = readSectionRevisions(data);
+      const expectedSignatures = readSectionSignatures(data);
+
+      for (const section of SYNC_COLLECTION_KEYS) {
+        await refreshSection(section, revisions[section] || 0, expectedSignatures[section]);
+      }
+
+      let settings: unknown;
+      if (typeof data.settingsData === 'string') {
+        try {
+          settings = JSON.parse(data.settingsData);
+        } catch {
+          settings = undefined;
+        }
+      }
+
+      const resetToken = typeof data.resetToken === 'string' ? data.resetToken.trim() : '';
+      const payload: Record<string, unknown> = {
+        syncEpoch: readNonNegativeInt(data.syncEpoch),
+        ...(resetToken ? { resetToken } : {}),
+        ...Object.fromEntries(SYNC_COLLECTION_KEYS.map(section => [section, getSectionItems(section)])),
+        ...(settings && typeof settings === 'object' ? { settings } : {}),
+        timestamp: new Date(readNonNegativeInt(data.updatedAtMs) || Date.now()).toISOString(),
+        version: typeof data.version === 'string' ? data.version : '0',
+      };
+
+      const signatures = createSyncSectionSignatures(payload);
+      const isConsistent = [...SYNC_COLLECTION_KEYS, 'settings' as const].every(section =>
+        !expectedSignatures[section] || expectedSignatures[section] === signatures[section]
+      );
+      return isConsistent ? payload : null;
+    };
+
+    const emitLegacyPayload = async (data: Record<string, unknown> | undefined, channel: string) => {
+      const signature = typeof data?.signature === 'string' ? data.signature : null;
+      const hasRemotePayload = Boolean(data?.payload) || hasChunkedPayload(data);
+
+      if (!data || !hasRemotePayload) {
+        return;
+      }
+
+      if (signature && signature === seenSignature && channel === 'legacy:poll') {
+        return;
+      }
+
+      const resolvedPayload = await resolveRemotePayload(firestoreApi, firestore, activeDocId, data);
+      if (!resolvedPayload) {
+        return;
+      }
+
+      const payloadRecord = resolvedPayload && typeof resolvedPayload === 'object'
+        ? resolvedPayload as Record<string, unknown>
+        : null;
+      const topLevelSyncEpoch = typeof data.syncEpoch === 'number' && Number.isFinite(data.syncEpoch)
+        ? Math.max(0, Math.floor(data.syncEpoch))
+        : null;
+      const payloadSyncEpoch = payloadRecord && typeof payloadRecord.syncEpoch === 'number' && Number.isFinite(payloadRecord.syncEpoch)
+        ? Math.max(0, Math.floor(payloadRecord.syncEpoch))
+        : null;
+      const syncEpoch = topLevelSyncEpoch ?? payloadSyncEpoch ?? 0;
+      const topLevelResetToken = typeof data.resetToken === 'string' ? data.resetToken.trim() : '';
+      const payloadResetToken = payloadRecord && typeof payloadRecord.resetToken === 'string'
+        ? String(payloadRecord.resetToken).trim()
+        : '';
+      const resetToken = topLevelResetToken || payloadResetToken || undefined;
+
+      seenSignature = signature;
+      options.onRemoteData(resolvedPayload, {
+        updatedBy: typeof data.updatedBy === 'string' ? data.updatedBy : undefined,
+        signature: signature || createSyncSignature(resolvedPayload),
+        syncEpoch,
+        resetToken,
+        channel,
+      });
+    };
+
+    const pull = async (mode: 'init' | 'poll' | 'refresh') => {
+      if (stopped || permissionDenied) return;
+
+      try {
+        let data: Record<string, unknown> | undefined;
+        let payload: Record<string, unknown> | null = null;
+        for (let attempt = 0; attempt < INCONSISTENT_READ_ATTEMPTS && !payload; attempt += 1) {
+          if (attempt > 0) await new Promise(resolve => setTimeout(resolve, INCONSISTENT_READ_RETRY_MS));
+          if (stopped) return;
+          const snapshot = await firestoreApi.getDoc(rootRef);
+          data = snapshot.data() as Record<string, unknown> | undefined;
+
+          if (!isDeltaRoot(data)) {
+            await emitLegacyPayload(data, `legacy:${mode}`);
+            reportRecovered();
+            return;
+          }
+
+          if (String(data.signature) === seenSignature && mode === 'poll') {
+            reportRecovered();
+            return;
+          }
+
+          payload = await refreshRemoteState(data);
+        }
+
+        if (!payload) {
+          reportDegraded('connecting', `${mode} path=${rootRef.path} remote records do not match the root signature yet; retrying`);
           return;
         }
 
-        const payloadRecord = resolvedPayload && typeof resolvedPayload === 'object'
-          ? resolvedPayload as Record<string, unknown>
-          : null;
-        const topLevelSyncEpoch = typeof data?.syncEpoch === 'number' && Number.isFinite(data.syncEpoch)
-          ? Math.max(0, Math.floor(data.syncEpoch))
-          : null;
-        const payloadSyncEpoch = payloadRecord && typeof payloadRecord.syncEpoch === 'number' && Number.isFinite(payloadRecord.syncEpoch)
-          ? Math.max(0, Math.floor(payloadRecord.syncEpoch))
-          : null;
-        const syncEpoch = topLevelSyncEpoch ?? payloadSyncEpoch ?? 0;
-        const topLevelResetToken = typeof data?.resetToken === 'string' ? data.resetToken.trim() : '';
-        const payloadResetToken = payloadRecord && typeof payloadRecord.resetToken === 'string'
-          ? String(payloadRecord.resetToken).trim()
-          : '';
-        const resetToken = topLevelResetToken || payloadResetToken || undefined;
+        const signature = String(data.signature);
+
+        reportRecovered();
 
-        seenLegacySignature = signature;
-        options.onRemoteData(resolvedPayload, {
+        seenSignature = signature;
+        options.onRemoteData(payload, {
           updatedBy: typeof data.updatedBy === 'string' ? data.updatedBy : undefined,
-          signature: signature || createSyncSignature(resolvedPayload),
-          syncEpoch,
-          resetToken,
-          channel,
+          signature,
+          syncEpoch: readNonNegativeInt(data.syncEpoch),
+          resetToken: typeof data.resetToken === 'string' && data.resetToken.trim() ? data.resetToken.trim() : undefined,
+          channel: `delta:${mode}`,
         });
       } catch (error) {
         if (isPermissionDeniedError(error)) {
           permissionDenied = true;
           ready = false;
-          options.onStatusChange?.('error', buildPermissionHint(legacyRef.path));
+          options.onStatusChange?.('error', buildPermissionHint(rootRef.path));
           return;
         }
 
@@ -506,19 +821,57 @@ export const startCloudSync = async (options: StartCloudSyncOptions): Promise<Cl
           normalized.includes('unavailable');
 
         if (isOffline) {
-          options.onStatusChange?.('connecting', 'offline: waiting for connectivity');
+          reportDegraded('connecting', 'offline: waiting for connectivity');
           return;
         }
 
-        options.onStatusChange?.('error', `legacy:poll path=${legacyRef.path} ${message}`);
+        reportDegraded('error', `${mode} path=${rootRef.path} ${message}`);
       }
     };
 
-    await pullLegacy('legacy:init');
+    // The root fields go out with the last batch, so readers never see a signature the committed records cannot rebuild.
+    // Every batch re-checks the root signature the diff was taken against and aborts if another client published first.
+    const writeRecords = async (writes: RecordWrite[], rootFields: Record<string, unknown>, baseSignature: string | null) => {
+      const batchCount = Math.max(1, Math.ceil(writes.length / MAX_RECORD_WRITES_PER_TRANSACTION));
+      for (let batchIndex = 0; batchIndex < batchCount; batchIndex += 1) {
+        const batch = writes.slice(batchIndex * MAX_RECORD_WRITES_PER_TRANSACTION, (batchIndex + 1) * MAX_RECORD_WRITES_PER_TRANSACTION);
+        const isLastBatch = batchIndex === batchCount - 1;
+        await firestoreApi.runTransaction(firestore, async transaction => {
+          const rootSnapshot = await transaction.get(rootRef);
+          const rootData = rootSnapshot.data();
+          const currentSignature = isDeltaRoot(rootData) ? String(rootData?.signature) : null;
+          if (currentSignature !== baseSignature) {
+            throw new Error('Remote changed during publish; merge before publishing again.');
+          }
+          const revisions = readSectionRevisions(rootData);
+          const nextRevisions: Partial<Record<SyncRecordSection, number>> = {};
+          batch.forEach(write => {
+            nextRevisions[write.section] = (revisions[write.section] || 0) + 1;
+          });
+          const nowMs = Date.now();
 
-    void pullLegacy('legacy:poll');
+          batch.forEach(write => {
+            transaction.set(getRecordRef(write.section, write.key), {
+              key: write.key,
+              data: write.json,
+              deleted: write.json === null,
+              position: write.position,
+              rev: nextRevisions[write.section],
+              updatedBy: options.clientId,
+              updatedAtMs: nowMs,
+            });
+          });
+
+          transaction.set(rootRef, { sectionRevisions: nextRevisions, ...(isLastBatch ? rootFields : {}) }, { merge: true });
+        });
+      }
+    };
+
+    await pull('init');
+
+    void pull('poll');
     const interval = window.setInterval(() => {
-      void pullLegacy('legacy:poll');
+      void pull('poll');
     }, POLL_INTERVAL_MS);
 
     return {
@@ -526,75 +879,100 @@ export const startCloudSync = async (options: StartCloudSyncOptions): Promise<Cl
       isReady: () => ready && !permissionDenied,
       publish: async (payload: unknown, signature: string) => {
         if (permissionDenied) {
-          options.onStatusChange?.('error', buildPermissionHint(legacyRef.path));
+          options.onStatusChange?.('error', buildPermissionHint(rootRef.path));
           return false;
         }
 
         try {
-          const nowMs = Date.now();
-          const payloadText = JSON.stringify(payload);
-          const chunks = chunkString(payloadText, PAYLOAD_CHUNK_CHAR_SIZE);
-          const shouldChunk = chunks.length > 1;
-
-          if (shouldChunk) {
-            await Promise.all(
-              chunks.map((chunk, index) =>
-                firestoreApi.setDoc(
-                  firestoreApi.doc(firestore, CLOUD_COLLECTION, activeDocId, PAYLOAD_CHUNK_COLLECTION, `chunk-${String(index).padStart(5, '0')}`),
-                  {
-                    index,
-                    data: chunk,
-                    signature,
-                    updatedBy: options.clientId,
-                    updatedAt: firestoreApi.serverTimestamp(),
-                    updatedAtMs: nowMs,
-                  },
-                  { merge: true }
-                )
-              )
-            );
+          const rootSnapshot = await firestoreApi.getDoc(rootRef);
+          const rootData = rootSnapshot.data() as Record<string, unknown> | undefined;
+          if (isDeltaRoot(rootData) && !(await refreshRemoteState(rootData))) {
+            reportDegraded('connecting', `publish path=${rootRef.path} waiting for another client's publish to finish`);
+            return false;
           }
 
-          await firestoreApi.setDoc(
-            legacyRef,
-            {
-              ...(shouldChunk
-                ? {
-                    payload: firestoreApi.deleteField(),
-                    payloadChunked: true,
-                    payloadChunkCount: chunks.length,
-                    payloadEncoding: 'json',
-                  }
-                : {
-                    payload,
-                    payloadChunked: false,
-                    payloadChunkCount: 0,
-                    payloadEncoding: 'inline',
-                  }),
-              signature,
-              syncEpoch: typeof (payload as { syncEpoch?: unknown }).syncEpoch === 'number'
-                ? Math.max(0, Math.floor((payload as { syncEpoch?: number }).syncEpoch || 0))
-                : 0,
-              resetToken: typeof (payload as { resetToken?: unknown }).resetToken === 'string'
-                ? String((payload as { resetToken?: string }).resetToken || '').trim()
-                : '',
-              updatedBy: options.clientId,
-              updatedAt: firestoreApi.serverTimestamp(),
-              updatedAtMs: nowMs,
-            },
-            { merge: true }
-          );
+          const payloadRecord = payload && typeof payload === 'object' ? payload as Record<string, unknown> : {};
+          const localSignatures = createSyncSectionSignatures(payloadRecord);
+          const remoteSignatures = isDeltaRoot(rootData) ? readSectionSignatures(rootData) : {};
+          const sectionSignatures: Record<string, string> = { settings: localSignatures.settings };
+          const publishedSections: Array<{ section: SyncRecordSection; records: Map<string, RemoteRecordEntry> }> = [];
+          const writes: RecordWrite[] = [];
+
+          SYNC_COLLECTION_KEYS.forEach(section => {
+            sectionSignatures[section] = localSignatures[section];
+            if (remoteSignatures[section] === localSignatures[section]) return;
+
+            const remoteRecords = getSectionState(section).records;
+            const records = new Map<string, RemoteRecordEntry>();
+            const items = Array.isArray(payloadRecord[section]) ? payloadRecord[section] as unknown[] : [];
+
+            items.forEach((item, position) => {
+              if (!item || typeof item !== 'object') return;
+              const key = getSyncRecordKey(section, item as Record<string, unknown>);
+              if (!key || records.has(key)) return;
+              const json = stableStringify(item);
+              records.set(key, { json, data: JSON.parse(json) });
+              if (remoteRecords.get(key)?.json !== json) {
+                writes.push({ section, key, json, position });
+              }
+            });
+
+            remoteRecords.forEach((_, key) => {
+              if (!records.has(key)) writes.push({ section, key, json: null, position: 0 });
+            });
+
+            // Readers verify against what the records can actually rebuild, which drops keyless or duplicate rows.
+            sectionSignatures[section] = createSectionSignature(section, Array.from(records.values()).map(entry => entry.data));
+            publishedSections.push({ section, records });
+          });
+
+          const settings = payloadRecord.settings;
+          await writeRecords(writes, {
+            protocol: SYNC_PROTOCOL,
+            signature,
+            sectionSignatures,
+            ...(settings && typeof settings === 'object' ? { settingsData: stableStringify(settings) } : {}),
+            syncEpoch: readNonNegativeInt(payloadRecord.syncEpoch),
+            resetToken: typeof payloadRecord.resetToken === 'string' ? payloadRecord.resetToken.trim() : '',
+            version: typeof payloadRecord.version === 'string' ? payloadRecord.version : '0',
+            payload: firestoreApi.deleteField(),
+            payloadChunked: false,
+            payloadChunkCount: 0,
+            updatedBy: options.clientId,
+            updatedAt: firestoreApi.serverTimestamp(),
+            updatedAtMs: Date.now(),
+          }, isDeltaRoot(rootData) ? String(rootData?.signature) : null);
+          publishedSections.forEach(({ section, records }) => {
+            getSectionState(section).records = records;
+          });
 
           return true;
         } catch (error) {
           if (isPermissionDeniedError(error)) {
             permissionDenied = true;
             ready = false;
-            options.onStatusChange?.('error', buildPermissionHint(legacyRef.path));
+            options.onStatusChange?.('error', buildPermissionHint(rootRef.path));
             return false;
           }
 
-          options.onStatusChange?.('error', `publish path=${legacyRef.path} ${getErrorMessage(error)}`);
+          reportDegraded('error', `publish path=${rootRef.path} ${getErrorMessage(error)}`);
+          return false;
+        }
+      },
+      refresh: () => pull('refresh'),
+      claimLease: async (name: string, ttlMs: number) => {
+        if (stopped || permissionDenied) return false;
+        try {
+          const leaseRef = firestoreApi.doc(firestore, CLOUD_COLLECTION, activeDocId, LEASE_COLLECTION, name);
+          return await firestoreApi.runTransaction(firestore, async transaction => {
+            const lease = (await transaction.get(leaseRef)).data();
+            const nowMs = Date.now();
+            if (lease && lease.holderId !== leaseHolderId && readNonNegativeInt(lease.expiresAtMs) > nowMs) return false;
+            transaction.set(leaseRef, { holderId: leaseHolderId, expiresAtMs: nowMs + ttlMs, updatedAt: firestoreApi.serverTimestamp() });
+            return true;
+          });
+        } catch (error) {
+          console.warn(`[cloud-sync] lease ${name} not claimed: ${getErrorMessage(error)}`);
           return false;
         }
       },
@@ -610,6 +988,8 @@ export const startCloudSync = async (options: StartCloudSyncOptions): Promise<Cl
       isEnabled: false,
       isReady: () => false,
       publish: async () => false,
+      refresh: async () => undefined,
+      claimLease: async () => false,
       stop: () => undefined,
     };
   }
@@ -0,0 +1,23 @@
+import { endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from 'date-fns';
+import { CreditCycle } from '../types';
+
+export interface CreditCyclePeriod {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export const getCreditCyclePeriod = (cycle: CreditCycle, anchor: Date): CreditCyclePeriod => {
+  if (cycle === 'MONTHLY') {
+    const start = startOfMonth(anchor);
+    return { start, end: endOfMonth(anchor), label: format(start, 'MMMM yyyy') };
+  }
+  const start = startOfWeek(anchor, { weekStartsOn: 1 });
+  const end = endOfWeek(anchor, { weekStartsOn: 1 });
+  return { start, end, label: `${format(start, 'dd MMM')} – ${format(end, 'dd MMM yyyy')}` };
+};
+
+export const isWithinCreditCyclePeriod = (period: CreditCyclePeriod, iso: string | undefined): boolean => {
+  const timestamp = iso ? new Date(iso).getTime() : NaN;
+  return Number.isFinite(timestamp) && timestamp >= period.start.getTime() && timestamp <= period.end.getTime();
+};
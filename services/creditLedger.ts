@@ -0,0 +1,79 @@
+import { CreditLedgerEntry, CreditLedgerPayment, CreditPaymentMethod, PaymentCurrency } from '../types';
+
+export const CREDIT_PAYMENT_METHOD_LABELS: Record<CreditPaymentMethod, string> = {
+  CASH: 'Cash',
+  BANK_TRANSFER: 'Bank Transfer',
+  OMT: 'OMT',
+  WHISH: 'Whish',
+};
+
+// Anything below a cent is rounding noise from LBP conversions, not a real balance.
+const BALANCE_TOLERANCE_USD = 0.01;
+
+const roundUsd = (value: number) => Math.round(value * 100) / 100;
+
+export const isCreditEntryOutstanding = (entry: CreditLedgerEntry): boolean => entry.status !== 'PAID';
+
+export const getCreditEntryPaidUsd = (entry: CreditLedgerEntry): number => {
+  const payments = Array.isArray(entry.payments) ? entry.payments : [];
+  // Entries settled before payment history existed carry no payments but were paid in full.
+  if (payments.length === 0) return entry.status === 'PAID' ? entry.amountUsd : 0;
+  return roundUsd(payments.reduce((sum, payment) => sum + (Number(payment.amountUsd) || 0), 0));
+};
+
+export const getCreditEntryRemainingUsd = (entry: CreditLedgerEntry): number => {
+  if (entry.status === 'PAID') return 0;
+  return roundUsd(Math.max(0, (Number(entry.amountUsd) || 0) - getCreditEntryPaidUsd(entry)));
+};
+
+export const convertPaymentToUsd = (amount: number, currency: PaymentCurrency, fxRate: number): number => {
+  if (currency === 'LBP') return fxRate > 0 ? roundUsd(amount / fxRate) : 0;
+  return roundUsd(amount);
+};
+
+export const validateCreditPayment = (
+  entry: CreditLedgerEntry,
+  amount: number,
+  currency: PaymentCurrency,
+  fxRate: number
+): string | null => {
+  if (entry.status === 'PAID') return 'Entry is already settled.';
+  if (!Number.isFinite(amount) || amount <= 0) return 'Payment amount must be greater than zero.';
+  if (currency === 'LBP' && (!Number.isFinite(fxRate) || fxRate <= 0)) return 'Exchange rate is required for LBP payments.';
+  const amountUsd = convertPaymentToUsd(amount, currency, fxRate);
+  if (amountUsd <= 0) return 'Payment amount is too small.';
+  if (amountUsd - getCreditEntryRemainingUsd(entry) > BALANCE_TOLERANCE_USD) {
+    return `Payment exceeds the remaining balance of $${getCreditEntryRemainingUsd(entry).toFixed(2)}.`;
+  }
+  return null;
+};
+
+export const applyCreditLedgerPayment = (entry: CreditLedgerEntry, payment: CreditLedgerPayment): CreditLedgerEntry => {
+  const nextEntry: CreditLedgerEntry = {
+    ...entry,
+    payments: [...(Array.isArray(entry.payments) ? entry.payments : []), payment],
+  };
+  const remainingUsd = (Number(entry.amountUsd) || 0) - getCreditEntryPaidUsd(nextEntry);
+  if (remainingUsd > BALANCE_TOLERANCE_USD) {
+    return { ...nextEntry, status: 'PARTIAL' };
+  }
+  return { ...nextEntry, status: 'PAID', paidAt: payment.paidAt, receiptId: payment.receiptId };
+};
+
+export const buildFullSettlementPayment = (
+  entry: CreditLedgerEntry,
+  options: { paidAt: string; receiptId: string; fxRate: number; method?: CreditPaymentMethod; notes?: string }
+): CreditLedgerPayment => {
+  const remainingUsd = getCreditEntryRemainingUsd(entry);
+  return {
+    id: `payment-${Date.parse(options.paidAt) || Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    paidAt: options.paidAt,
+    amountUsd: remainingUsd,
+    currency: 'USD',
+    amountOriginal: remainingUsd,
+    fxRateSnapshot: options.fxRate,
+    method: options.method || 'CASH',
+    receiptId: options.receiptId,
+    ...(options.notes ? { notes: options.notes } : {}),
+  };
+};
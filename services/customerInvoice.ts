@@ -0,0 +1,133 @@
+import { addDays } from 'date-fns';
+import { CreditCycle, CreditLedgerEntry, CustomerInvoice, InvoiceLineItem, Trip, TripStatus } from '../types';
+import { DEFAULT_EXCHANGE_RATE } from '../constants';
+import { customerPhoneKey } from './customerProfile';
+import { CreditCyclePeriod, isWithinCreditCyclePeriod } from './creditCycle';
+import { getCreditEntryRemainingUsd } from './creditLedger';
+
+export interface InvoiceCandidate {
+  partyKey: string;
+  partyId?: string;
+  partyName: string;
+  partyPhone?: string;
+  trips: Trip[];
+  totalUsd: number;
+  totalLbp: number;
+}
+
+const INVOICE_DUE_DAYS: Record<CreditCycle, number> = {
+  WEEKLY: 7,
+  MONTHLY: 30,
+};
+
+export const getInvoicePartyKey = (trip: Pick<Trip, 'customerPhone' | 'customerName'>): string => {
+  return customerPhoneKey(trip.customerPhone) || `name:${trip.customerName.trim().toLowerCase()}`;
+};
+
+export const isInvoiceableCreditTrip = (trip: Trip): boolean => {
+  return (
+    trip.status === TripStatus.COMPLETED &&
+    trip.paymentMode === 'CREDIT' &&
+    (trip.settlementStatus || 'PENDING') !== 'RECEIPTED' &&
+    !trip.invoiceId
+  );
+};
+
+export const getTripFareLbp = (trip: Trip): number => {
+  if (Number.isFinite(trip.fareLbp) && trip.fareLbp > 0) return Math.round(trip.fareLbp);
+  const rate = Number.isFinite(trip.exchangeRateSnapshot) && trip.exchangeRateSnapshot > 0 ? trip.exchangeRateSnapshot : DEFAULT_EXCHANGE_RATE;
+  return Math.round((Number(trip.fareUsd) || 0) * rate);
+};
+
+// Partial payments already posted on the trip's ledger entry are not billed again.
+export const getTripInvoiceAmounts = (trip: Trip, creditLedger: CreditLedgerEntry[]): { usd: number; lbp: number } => {
+  const fareUsd = Math.max(0, Number(trip.fareUsd) || 0);
+  const fareLbp = getTripFareLbp(trip);
+  const entry = trip.creditLedgerEntryId ? creditLedger.find(item => item.id === trip.creditLedgerEntryId) : undefined;
+  if (!entry) return { usd: fareUsd, lbp: fareLbp };
+
+  const usd = Math.min(fareUsd, getCreditEntryRemainingUsd(entry));
+  return { usd, lbp: fareUsd > 0 ? Math.round(fareLbp * (usd / fareUsd)) : 0 };
+};
+
+export const findOpenInvoiceForLedgerEntry = (invoices: CustomerInvoice[], entryId: string): CustomerInvoice | undefined => {
+  return invoices.find(invoice => invoice.status === 'OPEN' && invoice.lines.some(line => line.ledgerEntryId === entryId));
+};
+
+export const listInvoiceCandidates = (trips: Trip[], period: CreditCyclePeriod, creditLedger: CreditLedgerEntry[]): InvoiceCandidate[] => {
+  const groups = new Map<string, InvoiceCandidate>();
+
+  trips.forEach(trip => {
+    if (!isInvoiceableCreditTrip(trip) || !isWithinCreditCyclePeriod(period, trip.completedAt || trip.tripDate)) return;
+    const amounts = getTripInvoiceAmounts(trip, creditLedger);
+    if (amounts.usd <= 0) return;
+    const partyKey = getInvoicePartyKey(trip);
+    const group = groups.get(partyKey) || {
+      partyKey,
+      ...(customerPhoneKey(trip.customerPhone) ? { partyId: customerPhoneKey(trip.customerPhone), partyPhone: trip.customerPhone } : {}),
+      partyName: trip.customerName,
+      trips: [],
+      totalUsd: 0,
+      totalLbp: 0,
+    };
+    group.trips.push(trip);
+    group.totalUsd += amounts.usd;
+    group.totalLbp += amounts.lbp;
+    groups.set(partyKey, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.totalUsd - a.totalUsd);
+};
+
+// Numbers run per calendar year and never reuse a slot, so deleted or merged invoices cannot cause duplicates.
+export const buildNextInvoiceNumber = (invoices: CustomerInvoice[], issuedAtIso: string): string => {
+  const year = new Date(issuedAtIso).getFullYear();
+  const prefix = `INV-${year}-`;
+  const lastSequence = invoices.reduce((max, invoice) => {
+    if (!invoice.invoiceNumber.startsWith(prefix)) return max;
+    const sequence = Number(invoice.invoiceNumber.slice(prefix.length));
+    return Number.isFinite(sequence) ? Math.max(max, sequence) : max;
+  }, 0);
+  return `${prefix}${String(lastSequence + 1).padStart(4, '0')}`;
+};
+
+export const buildCustomerInvoice = (
+  candidate: InvoiceCandidate,
+  cycle: CreditCycle,
+  period: CreditCyclePeriod,
+  existingInvoices: CustomerInvoice[],
+  creditLedger: CreditLedgerEntry[],
+  issuedAtIso: string
+): CustomerInvoice => {
+  const lines: InvoiceLineItem[] = candidate.trips
+    .map(trip => {
+      const amounts = getTripInvoiceAmounts(trip, creditLedger);
+      return {
+        tripId: trip.id,
+        tripDate: trip.tripDate || trip.completedAt || trip.createdAt,
+        routeLabel: `${trip.pickupText} → ${trip.destinationText}`,
+        fareUsd: amounts.usd,
+        fareLbp: amounts.lbp,
+        exchangeRateSnapshot: trip.exchangeRateSnapshot,
+        ...(trip.creditLedgerEntryId ? { ledgerEntryId: trip.creditLedgerEntryId } : {}),
+      };
+    })
+    .sort((a, b) => new Date(a.tripDate).getTime() - new Date(b.tripDate).getTime());
+
+  return {
+    id: `invoice-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    invoiceNumber: buildNextInvoiceNumber(existingInvoices, issuedAtIso),
+    ...(candidate.partyId ? { partyId: candidate.partyId } : {}),
+    partyName: candidate.partyName,
+    ...(candidate.partyPhone ? { partyPhone: candidate.partyPhone } : {}),
+    cycle,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    issuedAt: issuedAtIso,
+    dueDate: addDays(new Date(issuedAtIso), INVOICE_DUE_DAYS[cycle]).toISOString().slice(0, 10),
+    status: 'OPEN',
+    lines,
+    totalUsd: Math.round(lines.reduce((sum, line) => sum + line.fareUsd, 0) * 100) / 100,
+    totalLbp: lines.reduce((sum, line) => sum + line.fareLbp, 0),
+  };
+};
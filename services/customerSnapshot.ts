@@ -1,5 +1,6 @@
 import { CreditLedgerEntry, Customer, CustomerMarketSegment, Driver, ReceiptRecord, Trip, TripStatus } from '../types';
 import { customerPhoneKey } from './customerProfile';
+import { getCreditEntryPaidUsd, getCreditEntryRemainingUsd, isCreditEntryOutstanding } from './creditLedger';
 
 interface SolvencySnapshot {
   openCreditUsd: number;
@@ -69,12 +70,10 @@ const buildSolvencySnapshot = (
   receipts: ReceiptRecord[]
 ): SolvencySnapshot => {
   const openCreditUsd = entries
-    .filter(entry => entry.status === 'OPEN')
-    .reduce((sum, entry) => sum + entry.amountUsd, 0);
-  const paidCreditUsd = entries
-    .filter(entry => entry.status === 'PAID')
-    .reduce((sum, entry) => sum + entry.amountUsd, 0);
-  const overdueOpenCount = entries.filter(entry => entry.status === 'OPEN' && isOverdue(entry.dueDate)).length;
+    .filter(isCreditEntryOutstanding)
+    .reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0);
+  const paidCreditUsd = entries.reduce((sum, entry) => sum + getCreditEntryPaidUsd(entry), 0);
+  const overdueOpenCount = entries.filter(entry => isCreditEntryOutstanding(entry) && isOverdue(entry.dueDate)).length;
 
   const sortedReceipts = receipts
     .slice()
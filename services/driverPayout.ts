@@ -0,0 +1,280 @@
+import { format } from 'date-fns';
+import { CreditCycle, CreditLedgerEntry, Driver, DriverCostResponsibility, DriverFuelLogEntry, Settings, Trip, TripPaymentMode, TripStatus } from '../types';
+import {
+  DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT,
+  DEFAULT_EXCHANGE_RATE,
+  DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT,
+  DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT,
+} from '../constants';
+import { getCreditCyclePeriod, isWithinCreditCyclePeriod } from './creditCycle';
+import { getCreditEntryRemainingUsd, isCreditEntryOutstanding } from './creditLedger';
+
+export interface DriverPayoutTripLine {
+  tripId: number;
+  completedAt: string;
+  customerName: string;
+  routeLabel: string;
+  paymentMode: TripPaymentMode;
+  fareUsd: number;
+  companyShareUsd: number;
+  driverShareUsd: number;
+}
+
+export interface DriverPayoutFuelLine {
+  id: string;
+  timestamp: string;
+  amountUsd: number;
+  deductionUsd: number;
+  note?: string;
+}
+
+export interface DriverPayoutStatement {
+  id: string;
+  driverId: string;
+  driverName: string;
+  plateNumber: string;
+  cycle: CreditCycle;
+  periodStart: string;
+  periodEnd: string;
+  periodLabel: string;
+  shareRuleLabel: string;
+  companyShareRate: number;
+  fuelResponsibility: DriverCostResponsibility;
+  fuelDeductionRate: number;
+  tripLines: DriverPayoutTripLine[];
+  fuelLines: DriverPayoutFuelLine[];
+  openCredits: CreditLedgerEntry[];
+  grossFareUsd: number;
+  companyShareUsd: number;
+  driverShareUsd: number;
+  cashCollectedUsd: number;
+  fuelDeductionUsd: number;
+  openCreditUsd: number;
+  // Positive: the company pays the driver. Negative: the driver remits to the company.
+  netPayoutUsd: number;
+  closedEntryId?: string;
+}
+
+const roundUsd = (value: number) => Math.round(value * 100) / 100;
+
+export const clampSharePercent = (value: unknown, fallback: number): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.max(0, Math.min(100, value));
+};
+
+export const getCompanyShareForDriver = (driver: Driver, settings: Settings): { rate: number; label: string } => {
+  const ownerDriverPercent = clampSharePercent(settings.ownerDriverCompanySharePercent, DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT);
+  const companyCarDriverGasPercent = clampSharePercent(settings.companyCarDriverGasCompanySharePercent, DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT);
+  const otherPercent = clampSharePercent(settings.otherDriverCompanySharePercent, DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT);
+
+  const overrideRaw = typeof driver.companyShareOverridePercent === 'number' && Number.isFinite(driver.companyShareOverridePercent)
+    ? Math.max(0, Math.min(100, driver.companyShareOverridePercent))
+    : null;
+
+  if (overrideRaw !== null) {
+    return { rate: overrideRaw / 100, label: 'MANUAL OVERRIDE' };
+  }
+
+  const ownerPaysOps =
+    driver.vehicleOwnership === 'OWNER_DRIVER' &&
+    driver.fuelCostResponsibility === 'DRIVER' &&
+    driver.maintenanceResponsibility === 'DRIVER';
+
+  if (ownerPaysOps) {
+    return { rate: ownerDriverPercent / 100, label: 'OWNER + GAS + MAINT' };
+  }
+
+  if (driver.vehicleOwnership === 'COMPANY_FLEET' && driver.fuelCostResponsibility === 'DRIVER') {
+    return { rate: companyCarDriverGasPercent / 100, label: 'COMPANY CAR + DRIVER GAS' };
+  }
+
+  return { rate: otherPercent / 100, label: 'OTHER CONFIG RULE' };
+};
+
+// Share of fuel spend carried by the company.
+export const getFuelCostWeight = (responsibility?: DriverCostResponsibility): number => {
+  if (responsibility === 'DRIVER') return 0;
+  if (responsibility === 'SHARED') return 0.5;
+  return 1;
+};
+
+export const getFuelLogUsd = (log: DriverFuelLogEntry, exchangeRate: number = DEFAULT_EXCHANGE_RATE): number => {
+  if (Number.isFinite(log?.amountUsd)) {
+    return Math.max(0, Number(log.amountUsd));
+  }
+
+  const fallbackRate = Number.isFinite(exchangeRate) && exchangeRate > 0 ? exchangeRate : DEFAULT_EXCHANGE_RATE;
+  const amountLbp = Number(log?.amountLbp);
+  if (Number.isFinite(amountLbp) && amountLbp > 0) {
+    return amountLbp / fallbackRate;
+  }
+
+  const amountOriginal = Number(log?.amountOriginal);
+  const fxRate = Number(log?.fxRateSnapshot);
+  if (log?.currency === 'LBP' && Number.isFinite(amountOriginal) && amountOriginal > 0) {
+    return amountOriginal / (Number.isFinite(fxRate) && fxRate > 0 ? fxRate : fallbackRate);
+  }
+
+  return 0;
+};
+
+export const isDriverLedgerEntry = (entry: CreditLedgerEntry, driver: Driver): boolean => {
+  if (entry.partyType !== 'DRIVER') return false;
+  return entry.partyId === driver.id || entry.partyName.trim().toLowerCase() === driver.name.trim().toLowerCase();
+};
+
+export const getPayoutStatementId = (driverId: string, cycle: CreditCycle, periodStart: Date): string => {
+  return `payout-${driverId}-${cycle}-${format(periodStart, 'yyyy-MM-dd')}`;
+};
+
+export const buildDriverPayoutStatement = (
+  driver: Driver,
+  trips: Trip[],
+  creditLedger: CreditLedgerEntry[],
+  settings: Settings,
+  cycle: CreditCycle,
+  anchor: Date
+): DriverPayoutStatement => {
+  const period = getCreditCyclePeriod(cycle, anchor);
+  const inPeriod = (iso: string | undefined) => isWithinCreditCyclePeriod(period, iso);
+
+  const companyShare = getCompanyShareForDriver(driver, settings);
+  const tripLines: DriverPayoutTripLine[] = trips
+    .filter(trip => trip.driverId === driver.id && trip.status === TripStatus.COMPLETED && inPeriod(trip.completedAt || trip.tripDate))
+    .map(trip => {
+      const fareUsd = Math.max(0, Number(trip.fareUsd) || 0);
+      const companyShareUsd = roundUsd(fareUsd * companyShare.rate);
+      return {
+        tripId: trip.id,
+        completedAt: trip.completedAt || trip.tripDate,
+        customerName: trip.customerName,
+        routeLabel: `${trip.pickupText} → ${trip.destinationText}`,
+        paymentMode: trip.paymentMode === 'CREDIT' ? 'CREDIT' as const : 'CASH' as const,
+        fareUsd,
+        companyShareUsd,
+        driverShareUsd: roundUsd(fareUsd - companyShareUsd),
+      };
+    })
+    .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime());
+
+  // Refuels are fronted by the company; the driver's part of the fuel responsibility comes off the payout.
+  const fuelDeductionRate = 1 - getFuelCostWeight(driver.fuelCostResponsibility);
+  const fuelLines: DriverPayoutFuelLine[] = (Array.isArray(driver.fuelLogs) ? driver.fuelLogs : [])
+    .filter(log => inPeriod(log.timestamp))
+    .map(log => {
+      const amountUsd = roundUsd(getFuelLogUsd(log, settings.exchangeRate));
+      return {
+        id: log.id,
+        timestamp: log.timestamp,
+        amountUsd,
+        deductionUsd: roundUsd(amountUsd * fuelDeductionRate),
+        ...(log.note ? { note: log.note } : {}),
+      };
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const statementId = getPayoutStatementId(driver.id, cycle, period.start);
+  const closedEntry = creditLedger.find(entry => entry.payoutStatementId === statementId);
+  const openCredits = creditLedger.filter(entry => (
+    isCreditEntryOutstanding(entry) &&
+    !entry.payoutStatementId &&
+    isDriverLedgerEntry(entry, driver)
+  ));
+
+  const grossFareUsd = roundUsd(tripLines.reduce((sum, line) => sum + line.fareUsd, 0));
+  const companyShareUsd = roundUsd(tripLines.reduce((sum, line) => sum + line.companyShareUsd, 0));
+  const driverShareUsd = roundUsd(grossFareUsd - companyShareUsd);
+  const cashCollectedUsd = roundUsd(tripLines.filter(line => line.paymentMode === 'CASH').reduce((sum, line) => sum + line.fareUsd, 0));
+  const fuelDeductionUsd = roundUsd(fuelLines.reduce((sum, line) => sum + line.deductionUsd, 0));
+  const openCreditUsd = roundUsd(openCredits.reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0));
+
+  return {
+    id: statementId,
+    driverId: driver.id,
+    driverName: driver.name,
+    plateNumber: driver.plateNumber,
+    cycle,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    periodLabel: period.label,
+    shareRuleLabel: companyShare.label,
+    companyShareRate: companyShare.rate,
+    fuelResponsibility: driver.fuelCostResponsibility,
+    fuelDeductionRate,
+    tripLines,
+    fuelLines,
+    openCredits,
+    grossFareUsd,
+    companyShareUsd,
+    driverShareUsd,
+    cashCollectedUsd,
+    fuelDeductionUsd,
+    openCreditUsd,
+    netPayoutUsd: roundUsd(driverShareUsd - cashCollectedUsd - fuelDeductionUsd - openCreditUsd),
+    ...(closedEntry ? { closedEntryId: closedEntry.id } : {}),
+  };
+};
+
+export const describePayoutDirection = (netPayoutUsd: number): string => {
+  if (netPayoutUsd > 0) return 'Company pays driver';
+  if (netPayoutUsd < 0) return 'Driver remits to company';
+  return 'Balanced';
+};
+
+const escapeCsvCell = (value: unknown): string => {
+  const raw = String(value ?? '');
+  if (!/[",\n]/.test(raw)) return raw;
+  return `"${raw.replace(/"/g, '""')}"`;
+};
+
+export const buildDriverPayoutStatementCsv = (statement: DriverPayoutStatement): string => {
+  const lines: unknown[][] = [
+    ['Driver', statement.driverName],
+    ['Plate', statement.plateNumber],
+    ['Cycle', statement.cycle],
+    ['Period', statement.periodLabel],
+    ['Share Rule', `${statement.shareRuleLabel} (${Math.round(statement.companyShareRate * 100)}% company)`],
+    ['Fuel Responsibility', `${statement.fuelResponsibility} (${Math.round(statement.fuelDeductionRate * 100)}% deducted)`],
+    [],
+    ['Trip ID', 'Completed At', 'Customer', 'Route', 'Payment', 'Fare USD', 'Company Share USD', 'Driver Share USD'],
+    ...statement.tripLines.map(line => [
+      line.tripId,
+      format(new Date(line.completedAt), 'yyyy-MM-dd HH:mm'),
+      line.customerName,
+      line.routeLabel,
+      line.paymentMode,
+      line.fareUsd.toFixed(2),
+      line.companyShareUsd.toFixed(2),
+      line.driverShareUsd.toFixed(2),
+    ]),
+    [],
+    ['Fuel Log', 'Timestamp', 'Amount USD', 'Deduction USD', 'Note'],
+    ...statement.fuelLines.map(line => [
+      line.id,
+      format(new Date(line.timestamp), 'yyyy-MM-dd HH:mm'),
+      line.amountUsd.toFixed(2),
+      line.deductionUsd.toFixed(2),
+      line.note || '',
+    ]),
+    [],
+    ['Open Credit', 'Created At', 'Cycle', 'Amount USD', 'Notes'],
+    ...statement.openCredits.map(entry => [
+      entry.id,
+      format(new Date(entry.createdAt), 'yyyy-MM-dd'),
+      entry.cycle,
+      Number(entry.amountUsd || 0).toFixed(2),
+      entry.notes || '',
+    ]),
+    [],
+    ['Gross Fares USD', statement.grossFareUsd.toFixed(2)],
+    ['Company Share USD', statement.companyShareUsd.toFixed(2)],
+    ['Driver Share USD', statement.driverShareUsd.toFixed(2)],
+    ['Cash Collected By Driver USD', statement.cashCollectedUsd.toFixed(2)],
+    ['Fuel Deduction USD', statement.fuelDeductionUsd.toFixed(2)],
+    ['Open Credits USD', statement.openCreditUsd.toFixed(2)],
+    ['Net Payout USD', statement.netPayoutUsd.toFixed(2)],
+    ['Direction', describePayoutDirection(statement.netPayoutUsd)],
+  ];
+
+  return lines.map(line => line.map(escapeCsvCell).join(',')).join('\n');
+};
@@ -0,0 +1,210 @@
+import { Driver, Trip, TripStatus } from '../types';
+import { customerPhoneKey } from './customerProfile';
+import { buildDriverShiftSummary } from './driverShifts';
+
+export interface DriverIntelligence {
+  overall: number;
+  availabilityScore: number;
+  readinessScore: number;
+  tripFitScore: number;
+  performanceScore: number;
+  governanceScore: number;
+  isGovernanceBlocked: boolean;
+  customerAffinityTrips: number;
+  completedTrips: number;
+  totalTrips: number;
+  fairnessPenalty: number;
+  shiftOnlineMinutes: number;
+  utilizationPercent7d: number;
+  recentTrips30: number;
+  fuelRangeKm: number;
+  kmSinceOilChange: number;
+  kmSinceCheckup: number;
+  governanceAlerts: string[];
+  readinessAlerts: string[];
+  reasons: string[];
+}
+
+export interface DriverIntelligenceContext {
+  customerPhone?: string;
+  trafficIndex?: number;
+  selectedDriverId?: string;
+  nowMs?: number;
+}
+
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
+const NINETY_MIN_MS = 90 * 60 * 1000;
+const LONG_SHIFT_MIN = 10 * 60;
+const EXTENDED_SHIFT_MIN = 12 * 60;
+// Utilization is noisy until a driver has logged a few hours online in the window.
+const MIN_ONLINE_HOURS_FOR_UTILIZATION = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const parseTripTimestamp = (trip: Trip) => {
+  const sourceDate = trip.tripDate || trip.createdAt;
+  const timestamp = sourceDate ? new Date(sourceDate).getTime() : Number.NaN;
+  return Number.isFinite(timestamp) ? timestamp : Number.NaN;
+};
+
+export const buildDriverIntelligenceMap = (
+  drivers: Driver[],
+  trips: Trip[],
+  context: DriverIntelligenceContext = {}
+): Map<string, DriverIntelligence> => {
+  const intelligence = new Map<string, DriverIntelligence>();
+  const customerTripCountsByDriver = new Map<string, number>();
+  const now = context.nowMs ?? Date.now();
+  const normalizedCustomerPhone = customerPhoneKey(String(context.customerPhone || '').trim());
+  const hasRoute = typeof context.trafficIndex === 'number' && Number.isFinite(context.trafficIndex);
+
+  if (normalizedCustomerPhone) {
+    trips.forEach(trip => {
+      if (!trip.driverId) return;
+      if (customerPhoneKey(trip.customerPhone) !== normalizedCustomerPhone) return;
+      customerTripCountsByDriver.set(trip.driverId, (customerTripCountsByDriver.get(trip.driverId) || 0) + 1);
+    });
+  }
+
+  drivers.forEach(driver => {
+    const driverTrips = trips.filter(trip => trip.driverId === driver.id);
+    const totalTrips = driverTrips.length;
+    const completedTrips = driverTrips.filter(trip => trip.status === TripStatus.COMPLETED).length;
+
+    const recentTrips30 = driverTrips.filter(trip => {
+      const timestamp = parseTripTimestamp(trip);
+      return Number.isFinite(timestamp) && now - timestamp <= THIRTY_DAYS_MS;
+    }).length;
+
+    const customerAffinityTrips = customerTripCountsByDriver.get(driver.id) || 0;
+    const customerAffinityScore = Math.min(100, customerAffinityTrips * 22);
+
+    const availabilityScore = driver.currentStatus === 'AVAILABLE' ? 100 : driver.currentStatus === 'BUSY' ? 55 : 10;
+
+    const kmSinceOilChange = Math.max(0, (driver.baseMileage || 0) - (driver.lastOilChangeKm || 0));
+    const kmSinceCheckup = Math.max(0, (driver.baseMileage || 0) - (driver.lastCheckupKm || 0));
+    const fuelRangeKm = Math.max(0, Number(driver.fuelRangeKm) || 0);
+
+    const readinessAlerts: string[] = [];
+    if (fuelRangeKm < 60) readinessAlerts.push('Critical fuel range');
+    else if (fuelRangeKm < 120) readinessAlerts.push('Low fuel range');
+    if (kmSinceOilChange > 7000) readinessAlerts.push('Oil service overdue');
+    else if (kmSinceOilChange > 4500) readinessAlerts.push('Oil service approaching');
+    if (kmSinceCheckup > 12000) readinessAlerts.push('Checkup overdue');
+    else if (kmSinceCheckup > 7000) readinessAlerts.push('Checkup approaching');
+
+    const readinessPenalty =
+      (fuelRangeKm < 50 ? 38 : fuelRangeKm < 110 ? 18 : 0) +
+      (kmSinceOilChange > 7000 ? 34 : kmSinceOilChange > 4500 ? 16 : 0) +
+      (kmSinceCheckup > 12000 ? 34 : kmSinceCheckup > 7000 ? 16 : 0);
+    const readinessScore = clamp(100 - readinessPenalty, 5, 100);
+
+    const governanceAlerts: string[] = [];
+    if (driver.currentStatus === 'OFF_DUTY') governanceAlerts.push('Driver is off duty');
+    if (driver.status !== 'ACTIVE') governanceAlerts.push('Driver profile inactive');
+    const isGovernanceBlocked = driver.currentStatus === 'OFF_DUTY' || driver.status !== 'ACTIVE';
+
+    const governancePenalty =
+      (driver.currentStatus === 'OFF_DUTY' ? 60 : 0) +
+      (driver.status !== 'ACTIVE' ? 60 : 0);
+    const governanceScore = clamp(100 - governancePenalty, 0, 100);
+
+    const completionConsistency = totalTrips > 0 ? (completedTrips / totalTrips) * 100 : 72;
+    const performanceScore = clamp(58 + Math.min(42, completionConsistency * 0.42), 58, 100);
+
+    const trafficFitScore = hasRoute
+      ? Number(context.trafficIndex) >= 70
+        ? (driver.currentStatus === 'AVAILABLE' ? 86 : driver.currentStatus === 'BUSY' ? 52 : 20)
+        : (driver.currentStatus === 'AVAILABLE' ? 74 : driver.currentStatus === 'BUSY' ? 57 : 25)
+      : 58;
+    const tripFitScore = clamp(customerAffinityScore * 0.58 + trafficFitScore * 0.42, 0, 100);
+
+    const recentTrips90 = driverTrips.filter(trip => {
+      const timestamp = parseTripTimestamp(trip);
+      return Number.isFinite(timestamp) && now - timestamp <= NINETY_MIN_MS;
+    }).length;
+
+    const lastTripTimestamp = driverTrips
+      .map(parseTripTimestamp)
+      .filter(timestamp => Number.isFinite(timestamp))
+      .sort((a, b) => b - a)[0];
+    const lastTripAgeMin = Number.isFinite(lastTripTimestamp)
+      ? Math.max(0, (now - lastTripTimestamp) / 60000)
+      : Number.POSITIVE_INFINITY;
+
+    let fairnessPenalty = 0;
+    if (recentTrips90 >= 2) fairnessPenalty += Math.min(10, (recentTrips90 - 1) * 3);
+    if (lastTripAgeMin < 30) fairnessPenalty += 6;
+    else if (lastTripAgeMin < 60) fairnessPenalty += 3;
+    if (customerAffinityTrips >= 3) fairnessPenalty += 2;
+
+    const shiftSummary = buildDriverShiftSummary(driver, driverTrips, now);
+    const shiftOnlineMinutes = shiftSummary.currentShift?.onlineMinutes || 0;
+    const utilizationPercent7d = shiftSummary.utilizationPercentWindow;
+    const hasUtilizationSignal = shiftSummary.onlineHoursWindow >= MIN_ONLINE_HOURS_FOR_UTILIZATION;
+    if (shiftOnlineMinutes >= EXTENDED_SHIFT_MIN) fairnessPenalty += 8;
+    else if (shiftOnlineMinutes >= LONG_SHIFT_MIN) fairnessPenalty += 4;
+    if (hasUtilizationSignal) {
+      if (utilizationPercent7d >= 70) fairnessPenalty += 4;
+      else if (utilizationPercent7d >= 50) fairnessPenalty += 2;
+      else if (utilizationPercent7d < 20) fairnessPenalty = Math.max(0, fairnessPenalty - 3);
+    }
+
+    const assignedBoost = context.selectedDriverId === driver.id ? 4 : 0;
+    const weightedOverall =
+      availabilityScore * 0.32 +
+      readinessScore * 0.24 +
+      tripFitScore * 0.16 +
+      performanceScore * 0.14 +
+      governanceScore * 0.14 +
+      assignedBoost -
+      fairnessPenalty;
+    const overall = Math.round(isGovernanceBlocked ? Math.min(weightedOverall, 38) : weightedOverall);
+
+    const reasons: string[] = [];
+    if (driver.currentStatus === 'AVAILABLE') reasons.push('Available now');
+    if (customerAffinityTrips > 0) reasons.push(`Handled ${customerAffinityTrips} trips for this customer`);
+    if (readinessScore >= 80) reasons.push('Unit readiness healthy');
+    if (performanceScore >= 80) reasons.push('Strong completion consistency');
+    if (governanceScore >= 80) reasons.push('Governance profile clean');
+    if (shiftOnlineMinutes >= LONG_SHIFT_MIN) reasons.push(`On shift ${Math.floor(shiftOnlineMinutes / 60)}h`);
+    else if (hasUtilizationSignal && utilizationPercent7d < 20) reasons.push('Under-utilized this week');
+    if (fairnessPenalty > 0) reasons.push('Rotation balancing applied');
+
+    intelligence.set(driver.id, {
+      overall,
+      availabilityScore,
+      readinessScore,
+      tripFitScore,
+      performanceScore,
+      governanceScore,
+      isGovernanceBlocked,
+      customerAffinityTrips,
+      completedTrips,
+      totalTrips,
+      fairnessPenalty,
+      shiftOnlineMinutes,
+      utilizationPercent7d,
+      recentTrips30,
+      fuelRangeKm,
+      kmSinceOilChange,
+      kmSinceCheckup,
+      governanceAlerts,
+      readinessAlerts,
+      reasons: reasons.slice(0, 3),
+    });
+  });
+
+  return intelligence;
+};
+
+export const rankDriversByIntelligence = (
+  drivers: Driver[],
+  intelligence: Map<string, DriverIntelligence>
+): Driver[] => {
+  return [...drivers].sort((a, b) => {
+    const scoreDelta = (intelligence.get(b.id)?.overall || 0) - (intelligence.get(a.id)?.overall || 0);
+    if (scoreDelta !== 0) return scoreDelta;
+    return a.name.localeCompare(b.name);
+  });
+};
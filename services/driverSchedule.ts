@@ -0,0 +1,143 @@
+import { Trip, TripStatus } from '../types';
+import { DEADHEAD_AVERAGE_SPEED_KMH, DEADHEAD_ROAD_FACTOR } from '../constants';
+import { distanceKmBetween, GeoPoint, isFiniteGeoPoint } from './geoDistance';
+
+export interface DriverBusyWindow {
+  tripId: number;
+  driverId: string;
+  startMs: number;
+  endMs: number;
+  pickup: GeoPoint | null;
+  dropoff: GeoPoint | null;
+}
+
+export type DriverScheduleConflictKind = 'OVERLAP' | 'DEADHEAD';
+
+export interface DriverScheduleConflict {
+  kind: DriverScheduleConflictKind;
+  driverId: string;
+  tripId: number;
+  conflictingTripId: number;
+  gapMin: number;
+  deadheadMin: number;
+  deadheadEstimated: boolean;
+  message: string;
+}
+
+const MAX_DEADHEAD_SCAN_MS = 6 * 60 * 60 * 1000;
+
+const shortTripId = (tripId: number) => tripId.toString().slice(-4);
+
+const toGeoPoint = (lat?: number, lng?: number): GeoPoint | null => {
+  const point = { lat: Number(lat), lng: Number(lng) };
+  return isFiniteGeoPoint(point) ? point : null;
+};
+
+export const getTripSpanMinutes = (trip: Trip): number => {
+  const legMin = Math.max(0, Number(trip.durationInTrafficMin || trip.durationMin) || 0);
+  const waitMin = Math.max(0, Number(trip.waitTimeHours) || 0) * 60;
+  return legMin * (trip.isRoundTrip ? 2 : 1) + waitMin;
+};
+
+export const getTripBusyWindow = (trip: Trip): DriverBusyWindow | null => {
+  if (!trip.driverId) return null;
+  const startMs = new Date(trip.tripDate || trip.createdAt).getTime();
+  if (!Number.isFinite(startMs)) return null;
+
+  const totalMin = getTripSpanMinutes(trip);
+  const pickup = toGeoPoint(trip.pickupLat, trip.pickupLng);
+
+  return {
+    tripId: trip.id,
+    driverId: trip.driverId,
+    startMs,
+    endMs: startMs + totalMin * 60000,
+    pickup,
+    dropoff: trip.isRoundTrip ? pickup : toGeoPoint(trip.destLat, trip.destLng),
+  };
+};
+
+export const estimateDeadheadMinutes = (from: GeoPoint | null, to: GeoPoint | null): number | null => {
+  if (!from || !to) return null;
+  const roadKm = distanceKmBetween(from, to) * DEADHEAD_ROAD_FACTOR;
+  return Math.ceil((roadKm / DEADHEAD_AVERAGE_SPEED_KMH) * 60);
+};
+
+const isSchedulableTrip = (trip: Trip) => trip.status !== TripStatus.CANCELLED && trip.status !== TripStatus.COMPLETED;
+
+const compareWindows = (
+  candidate: DriverBusyWindow,
+  other: DriverBusyWindow
+): DriverScheduleConflict | null => {
+  const [earlier, later] = candidate.startMs <= other.startMs ? [candidate, other] : [other, candidate];
+  const gapMin = Math.round((later.startMs - earlier.endMs) / 60000);
+  const estimatedDeadhead = estimateDeadheadMinutes(earlier.dropoff, later.pickup);
+  const deadheadMin = estimatedDeadhead ?? 0;
+
+  if (gapMin >= deadheadMin && gapMin >= 0) return null;
+
+  const kind: DriverScheduleConflictKind = gapMin < 0 ? 'OVERLAP' : 'DEADHEAD';
+  const message = kind === 'OVERLAP'
+    ? `Trip #${shortTripId(earlier.tripId)} overlaps trip #${shortTripId(later.tripId)} by ${Math.abs(gapMin)} min`
+    : `Only ${gapMin} min between trip #${shortTripId(earlier.tripId)} drop-off and trip #${shortTripId(later.tripId)} pickup (~${deadheadMin} min deadhead)`;
+
+  return {
+    kind,
+    driverId: candidate.driverId,
+    tripId: candidate.tripId,
+    conflictingTripId: other.tripId,
+    gapMin,
+    deadheadMin,
+    deadheadEstimated: estimatedDeadhead !== null,
+    message,
+  };
+};
+
+export const findDriverScheduleConflicts = (candidate: Trip, trips: Trip[]): DriverScheduleConflict[] => {
+  if (!isSchedulableTrip(candidate)) return [];
+  const candidateWindow = getTripBusyWindow(candidate);
+  if (!candidateWindow) return [];
+
+  const conflicts: DriverScheduleConflict[] = [];
+  trips.forEach(trip => {
+    if (trip.id === candidate.id || trip.driverId !== candidate.driverId) return;
+    if (trip.status !== TripStatus.CONFIRMED) return;
+    const busyWindow = getTripBusyWindow(trip);
+    if (!busyWindow) return;
+    const conflict = compareWindows(candidateWindow, busyWindow);
+    if (conflict) conflicts.push(conflict);
+  });
+
+  return conflicts.sort((a, b) => a.gapMin - b.gapMin);
+};
+
+export const hasBlockingScheduleConflict = (conflicts: DriverScheduleConflict[]): boolean => {
+  return conflicts.some(conflict => conflict.kind === 'OVERLAP');
+};
+
+export const findAllDriverScheduleConflicts = (trips: Trip[], nowMs: number = Date.now()): DriverScheduleConflict[] => {
+  const windowsByDriver = new Map<string, DriverBusyWindow[]>();
+  trips.forEach(trip => {
+    if (trip.status !== TripStatus.CONFIRMED) return;
+    const busyWindow = getTripBusyWindow(trip);
+    if (!busyWindow || busyWindow.endMs < nowMs) return;
+    const bucket = windowsByDriver.get(busyWindow.driverId) || [];
+    bucket.push(busyWindow);
+    windowsByDriver.set(busyWindow.driverId, bucket);
+  });
+
+  const conflicts: DriverScheduleConflict[] = [];
+  windowsByDriver.forEach(windows => {
+    const sorted = [...windows].sort((a, b) => a.startMs - b.startMs);
+    for (let i = 0; i < sorted.length; i += 1) {
+      for (let j = i + 1; j < sorted.length; j += 1) {
+        // Windows are sorted by start, so once the gap exceeds any plausible deadhead the rest are clear too.
+        if (sorted[j].startMs - sorted[i].endMs > MAX_DEADHEAD_SCAN_MS) break;
+        const conflict = compareWindows(sorted[i], sorted[j]);
+        if (conflict) conflicts.push(conflict);
+      }
+    }
+  });
+
+  return conflicts.sort((a, b) => a.gapMin - b.gapMin);
+};
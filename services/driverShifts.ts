@@ -0,0 +1,159 @@
+import { Driver, DriverAvailability, Trip, TripStatus } from '../types';
+import { getTripSpanMinutes } from './driverSchedule';
+
+export interface DriverShift {
+  startAt: string;
+  endAt?: string;
+  onlineMinutes: number;
+  tripMinutes: number;
+  tripCount: number;
+  utilizationPercent: number;
+}
+
+export interface DriverShiftSummary {
+  shifts: DriverShift[];
+  currentShift: DriverShift | null;
+  onlineHoursWindow: number;
+  tripHoursWindow: number;
+  utilizationPercentWindow: number;
+  windowDays: number;
+}
+
+const MAX_AVAILABILITY_LOG_ENTRIES = 400;
+const DEFAULT_SHIFT_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isOnlineStatus = (status: DriverAvailability) => status === 'AVAILABLE' || status === 'BUSY';
+
+const toUtilizationPercent = (tripMinutes: number, onlineMinutes: number) => {
+  return onlineMinutes > 0 ? Math.min(100, Math.round((tripMinutes / onlineMinutes) * 100)) : 0;
+};
+
+export const recordAvailabilityTransition = (previous: Driver | undefined, next: Driver, timestampIso: string = new Date().toISOString()): Driver => {
+  const existingLog = next.availabilityLog || previous?.availabilityLog || [];
+  const lastLoggedStatus = existingLog[existingLog.length - 1]?.status;
+  // Without any history we cannot know when an unchanged status began, so only real transitions start the log.
+  const isUnchanged = lastLoggedStatus
+    ? lastLoggedStatus === next.currentStatus
+    : previous?.currentStatus === next.currentStatus;
+  if (isUnchanged) {
+    return existingLog.length > 0 ? { ...next, availabilityLog: existingLog } : next;
+  }
+
+  const entry = {
+    id: `avail-${next.id}-${Date.parse(timestampIso) || Date.now()}`,
+    status: next.currentStatus,
+    timestamp: timestampIso,
+  };
+  return { ...next, availabilityLog: [...existingLog, entry].slice(-MAX_AVAILABILITY_LOG_ENTRIES) };
+};
+
+export const deriveDriverShifts = (driver: Driver, trips: Trip[], nowMs: number = Date.now()): DriverShift[] => {
+  const log = [...(driver.availabilityLog || [])]
+    .filter(entry => Number.isFinite(Date.parse(entry.timestamp)))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  if (log.length === 0) return [];
+
+  const intervals: { startMs: number; endMs: number; ongoing: boolean }[] = [];
+  let openStartMs: number | null = null;
+  log.forEach(entry => {
+    const entryMs = Date.parse(entry.timestamp);
+    if (isOnlineStatus(entry.status)) {
+      if (openStartMs === null) openStartMs = entryMs;
+      return;
+    }
+    if (openStartMs !== null) {
+      intervals.push({ startMs: openStartMs, endMs: entryMs, ongoing: false });
+      openStartMs = null;
+    }
+  });
+  if (openStartMs !== null) {
+    intervals.push({ startMs: openStartMs, endMs: Math.max(openStartMs, nowMs), ongoing: true });
+  }
+
+  const workedTrips = trips
+    .filter(trip => trip.driverId === driver.id && (trip.status === TripStatus.COMPLETED || trip.status === TripStatus.CONFIRMED))
+    .map(trip => {
+      const startMs = new Date(trip.tripDate || trip.createdAt).getTime();
+      return { startMs, endMs: startMs + getTripSpanMinutes(trip) * 60000 };
+    })
+    .filter(trip => Number.isFinite(trip.startMs));
+
+  return intervals
+    .map(interval => {
+      let tripMs = 0;
+      let tripCount = 0;
+      workedTrips.forEach(trip => {
+        const overlapMs = Math.min(trip.endMs, interval.endMs) - Math.max(trip.startMs, interval.startMs);
+        const startsInShift = trip.startMs >= interval.startMs && trip.startMs < interval.endMs;
+        if (overlapMs <= 0 && !startsInShift) return;
+        tripCount += 1;
+        tripMs += Math.max(0, overlapMs);
+      });
+      const onlineMinutes = Math.round((interval.endMs - interval.startMs) / 60000);
+      const tripMinutes = Math.round(tripMs / 60000);
+      return {
+        startAt: new Date(interval.startMs).toISOString(),
+        endAt: interval.ongoing ? undefined : new Date(interval.endMs).toISOString(),
+        onlineMinutes,
+        tripMinutes,
+        tripCount,
+        utilizationPercent: toUtilizationPercent(tripMinutes, onlineMinutes),
+      };
+    })
+    .reverse();
+};
+
+// Ongoing spells have no endMs. A driver marked off duty without a logged transition is treated as off duty from now on.
+export const deriveOffDutyIntervals = (driver: Driver, nowMs: number = Date.now()): { startMs: number; endMs?: number }[] => {
+  const log = [...(driver.availabilityLog || [])]
+    .filter(entry => Number.isFinite(Date.parse(entry.timestamp)))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const intervals: { startMs: number; endMs?: number }[] = [];
+  let openStartMs: number | null = null;
+  log.forEach(entry => {
+    const entryMs = Date.parse(entry.timestamp);
+    if (entry.status === 'OFF_DUTY') {
+      if (openStartMs === null) openStartMs = entryMs;
+      return;
+    }
+    if (openStartMs !== null) {
+      intervals.push({ startMs: openStartMs, endMs: entryMs });
+      openStartMs = null;
+    }
+  });
+
+  if (driver.currentStatus !== 'OFF_DUTY') {
+    if (openStartMs !== null) intervals.push({ startMs: openStartMs, endMs: nowMs });
+  } else {
+    intervals.push({ startMs: openStartMs ?? nowMs });
+  }
+  return intervals;
+};
+
+export const buildDriverShiftSummary = (
+  driver: Driver,
+  trips: Trip[],
+  nowMs: number = Date.now(),
+  windowDays: number = DEFAULT_SHIFT_WINDOW_DAYS
+): DriverShiftSummary => {
+  const shifts = deriveDriverShifts(driver, trips, nowMs);
+  const windowStartMs = nowMs - windowDays * DAY_MS;
+  const windowShifts = shifts.filter(shift => {
+    const endMs = shift.endAt ? Date.parse(shift.endAt) : nowMs;
+    return endMs >= windowStartMs;
+  });
+
+  const onlineMinutes = windowShifts.reduce((sum, shift) => sum + shift.onlineMinutes, 0);
+  const tripMinutes = windowShifts.reduce((sum, shift) => sum + shift.tripMinutes, 0);
+
+  return {
+    shifts,
+    currentShift: shifts[0] && !shifts[0].endAt ? shifts[0] : null,
+    onlineHoursWindow: Math.round((onlineMinutes / 60) * 10) / 10,
+    tripHoursWindow: Math.round((tripMinutes / 60) * 10) / 10,
+    utilizationPercentWindow: toUtilizationPercent(tripMinutes, onlineMinutes),
+    windowDays,
+  };
+};
@@ -0,0 +1,358 @@
+import { format } from 'date-fns';
+import { CongestionPricingConfig, CongestionPricingTier, FareBreakdownLine, FareRulesConfig, FareZone, FareZoneFlatRate, Settings, Trip } from '../types';
+import { DEFAULT_FARE_RULES, MIN_RIDE_FARE_USD, SPECIAL_REQUIREMENTS } from '../constants';
+import { distanceKmBetween, GeoPoint, isFiniteGeoPoint } from './geoDistance';
+
+export interface FareQuoteInput {
+  distanceKm: number;
+  isRoundTrip?: boolean;
+  waitTimeHours?: number;
+  tripDate?: string;
+  pickup?: Partial<GeoPoint> | null;
+  destination?: Partial<GeoPoint> | null;
+  stopCount?: number;
+  specialRequirements?: string[];
+  trafficIndex?: number;
+  surplusMin?: number;
+  ratePerKm: number;
+  hourlyWaitRate: number;
+  rules: FareRulesConfig;
+}
+
+export interface FareQuote {
+  fareUsd: number;
+  computedFareUsd: number;
+  minimumFareUsd: number;
+  minimumFareApplied: boolean;
+  congestionSurchargeUsd: number;
+  breakdown: FareBreakdownLine[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+const toFiniteNumber = (value: unknown, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const clampHour = (value: unknown, fallback: number): number => {
+  const parsed = Math.floor(toFiniteNumber(value, fallback));
+  return Math.max(0, Math.min(23, parsed));
+};
+
+const normalizeZone = (value: unknown, index: number): FareZone | null => {
+  if (!isRecord(value)) return null;
+  const lat = Number(value.lat);
+  const lng = Number(value.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+  return {
+    id: String(value.id || `zone-${index + 1}`),
+    name: String(value.name || `Zone ${index + 1}`).trim(),
+    lat,
+    lng,
+    radiusKm: Math.max(0, toFiniteNumber(value.radiusKm, 0)),
+  };
+};
+
+const normalizeZoneFlatRate = (value: unknown, index: number): FareZoneFlatRate | null => {
+  if (!isRecord(value)) return null;
+  const fromZoneId = String(value.fromZoneId || '').trim();
+  const toZoneId = String(value.toZoneId || '').trim();
+  if (!fromZoneId || !toZoneId) return null;
+
+  return {
+    id: String(value.id || `zone-rate-${index + 1}`),
+    fromZoneId,
+    toZoneId,
+    fareUsd: Math.max(0, toFiniteNumber(value.fareUsd, 0)),
+  };
+};
+
+export const normalizeCongestionPricing = (raw: unknown): CongestionPricingConfig => {
+  const defaults = DEFAULT_FARE_RULES.congestion;
+  if (!isRecord(raw)) {
+    return {
+      ...defaults,
+      tiers: defaults.tiers.map(tier => ({ ...tier })),
+    };
+  }
+
+  const mode = raw.mode === 'SURPLUS_PER_MINUTE' || raw.mode === 'INDEX_MULTIPLIER' ? raw.mode : 'OFF';
+  const tiers = Array.isArray(raw.tiers)
+    ? raw.tiers
+        .filter(isRecord)
+        .map(tier => ({
+          minTrafficIndex: Math.max(0, Math.min(100, toFiniteNumber(tier.minTrafficIndex, 0))),
+          multiplier: Math.max(1, toFiniteNumber(tier.multiplier, 1)),
+        }))
+        .sort((a, b) => a.minTrafficIndex - b.minTrafficIndex)
+    : defaults.tiers.map(tier => ({ ...tier }));
+
+  return {
+    mode,
+    surplusRateUsdPerMin: Math.max(0, toFiniteNumber(raw.surplusRateUsdPerMin, defaults.surplusRateUsdPerMin)),
+    surplusGraceMin: Math.max(0, toFiniteNumber(raw.surplusGraceMin, defaults.surplusGraceMin)),
+    surplusCapUsd: Math.max(0, toFiniteNumber(raw.surplusCapUsd, defaults.surplusCapUsd)),
+    tiers,
+  };
+};
+
+export const normalizeFareRules = (raw: unknown): FareRulesConfig => {
+  if (!isRecord(raw)) {
+    return {
+      ...DEFAULT_FARE_RULES,
+      zones: [],
+      zoneFlatRates: [],
+      holidayDates: [],
+      requirementSurchargesUsd: {},
+      congestion: normalizeCongestionPricing(null),
+    };
+  }
+
+  const zones = Array.isArray(raw.zones)
+    ? raw.zones.map(normalizeZone).filter((zone): zone is FareZone => zone !== null)
+    : [];
+  const zoneIds = new Set(zones.map(zone => zone.id));
+  const zoneFlatRates = Array.isArray(raw.zoneFlatRates)
+    ? raw.zoneFlatRates
+        .map(normalizeZoneFlatRate)
+        .filter((rate): rate is FareZoneFlatRate => rate !== null && zoneIds.has(rate.fromZoneId) && zoneIds.has(rate.toZoneId))
+    : [];
+  const holidayDates = Array.isArray(raw.holidayDates)
+    ? Array.from(new Set(raw.holidayDates.map(value => String(value || '').trim()).filter(value => /^\d{4}-\d{2}-\d{2}$/.test(value)))).sort()
+    : [];
+
+  const requirementSurchargesUsd: Record<string, number> = {};
+  if (isRecord(raw.requirementSurchargesUsd)) {
+    Object.entries(raw.requirementSurchargesUsd).forEach(([requirementId, amount]) => {
+      const safeAmount = Math.max(0, toFiniteNumber(amount, 0));
+      if (safeAmount > 0) {
+        requirementSurchargesUsd[requirementId] = safeAmount;
+      }
+    });
+  }
+
+  return {
+    zones,
+    zoneFlatRates,
+    nightSurchargePercent: Math.max(0, toFiniteNumber(raw.nightSurchargePercent, DEFAULT_FARE_RULES.nightSurchargePercent)),
+    nightStartHour: clampHour(raw.nightStartHour, DEFAULT_FARE_RULES.nightStartHour),
+    nightEndHour: clampHour(raw.nightEndHour, DEFAULT_FARE_RULES.nightEndHour),
+    holidaySurchargePercent: Math.max(0, toFiniteNumber(raw.holidaySurchargePercent, DEFAULT_FARE_RULES.holidaySurchargePercent)),
+    holidayDates,
+    perStopFeeUsd: Math.max(0, toFiniteNumber(raw.perStopFeeUsd, DEFAULT_FARE_RULES.perStopFeeUsd)),
+    requirementSurchargesUsd,
+    congestion: normalizeCongestionPricing(raw.congestion),
+  };
+};
+
+export const findFareZone = (rules: FareRulesConfig, point?: Partial<GeoPoint> | null): FareZone | null => {
+  if (!isFiniteGeoPoint(point)) return null;
+
+  let match: FareZone | null = null;
+  let matchDistance = Number.POSITIVE_INFINITY;
+  for (const zone of rules.zones) {
+    const distance = distanceKmBetween(point, zone);
+    if (distance <= zone.radiusKm && distance < matchDistance) {
+      match = zone;
+      matchDistance = distance;
+    }
+  }
+
+  return match;
+};
+
+const findZoneFlatRate = (rules: FareRulesConfig, fromZone: FareZone | null, toZone: FareZone | null): FareZoneFlatRate | null => {
+  if (!fromZone || !toZone) return null;
+  return rules.zoneFlatRates.find(rate =>
+    (rate.fromZoneId === fromZone.id && rate.toZoneId === toZone.id) ||
+    (rate.fromZoneId === toZone.id && rate.toZoneId === fromZone.id)
+  ) || null;
+};
+
+export const isNightHour = (rules: FareRulesConfig, hour: number): boolean => {
+  if (rules.nightStartHour === rules.nightEndHour) return false;
+  if (rules.nightStartHour > rules.nightEndHour) {
+    return hour >= rules.nightStartHour || hour < rules.nightEndHour;
+  }
+  return hour >= rules.nightStartHour && hour < rules.nightEndHour;
+};
+
+const findCongestionTier = (tiers: CongestionPricingTier[], trafficIndex: number): CongestionPricingTier | null => {
+  let match: CongestionPricingTier | null = null;
+  for (const tier of tiers) {
+    if (trafficIndex >= tier.minTrafficIndex && (!match || tier.minTrafficIndex >= match.minTrafficIndex)) {
+      match = tier;
+    }
+  }
+  return match;
+};
+
+const buildCongestionLine = (
+  congestion: CongestionPricingConfig,
+  subtotalUsd: number,
+  trafficIndex: number,
+  surplusMin: number
+): FareBreakdownLine | null => {
+  if (congestion.mode === 'SURPLUS_PER_MINUTE') {
+    const billableMin = Math.max(0, Math.round(surplusMin) - congestion.surplusGraceMin);
+    if (billableMin <= 0 || congestion.surplusRateUsdPerMin <= 0) return null;
+    const uncapped = Math.ceil(billableMin * congestion.surplusRateUsdPerMin);
+    const amountUsd = congestion.surplusCapUsd > 0 ? Math.min(congestion.surplusCapUsd, uncapped) : uncapped;
+    return {
+      kind: 'CONGESTION',
+      label: `Traffic +${billableMin} min × $${congestion.surplusRateUsdPerMin}/min${amountUsd < uncapped ? ` (capped $${congestion.surplusCapUsd})` : ''}`,
+      amountUsd,
+    };
+  }
+
+  if (congestion.mode === 'INDEX_MULTIPLIER') {
+    const tier = findCongestionTier(congestion.tiers, trafficIndex);
+    if (!tier || tier.multiplier <= 1) return null;
+    const amountUsd = Math.ceil(subtotalUsd * (tier.multiplier - 1));
+    if (amountUsd <= 0) return null;
+    return {
+      kind: 'CONGESTION',
+      label: `Traffic index ${Math.round(trafficIndex)} ≥ ${tier.minTrafficIndex} × ${tier.multiplier}`,
+      amountUsd,
+      ruleId: `tier-${tier.minTrafficIndex}`,
+    };
+  }
+
+  return null;
+};
+
+const requirementLabel = (requirementId: string): string => {
+  return SPECIAL_REQUIREMENTS.find(requirement => requirement.id === requirementId)?.short || requirementId;
+};
+
+export const computeFareQuote = (input: FareQuoteInput): FareQuote => {
+  const { rules } = input;
+  const distanceFactor = input.isRoundTrip ? 2 : 1;
+  const breakdown: FareBreakdownLine[] = [];
+
+  const pickupZone = findFareZone(rules, input.pickup);
+  const destinationZone = findFareZone(rules, input.destination);
+  const zoneFlatRate = findZoneFlatRate(rules, pickupZone, destinationZone);
+
+  if (zoneFlatRate && pickupZone && destinationZone) {
+    breakdown.push({
+      kind: 'ZONE_FLAT',
+      label: `${pickupZone.name} ↔ ${destinationZone.name}${input.isRoundTrip ? ' (round trip)' : ''}`,
+      amountUsd: Math.ceil(zoneFlatRate.fareUsd * distanceFactor),
+      ruleId: zoneFlatRate.id,
+    });
+  } else {
+    const safeDistance = Number.isFinite(input.distanceKm) ? Math.max(0, input.distanceKm) : 0;
+    breakdown.push({
+      kind: 'DISTANCE',
+      label: `${(safeDistance * distanceFactor).toFixed(1)} km × $${input.ratePerKm}/km`,
+      amountUsd: Math.ceil(safeDistance * distanceFactor * input.ratePerKm),
+    });
+  }
+
+  const waitTimeHours = Number.isFinite(input.waitTimeHours) ? Math.max(0, input.waitTimeHours || 0) : 0;
+  if (waitTimeHours > 0) {
+    breakdown.push({
+      kind: 'WAIT',
+      label: `Wait ${waitTimeHours}h × $${input.hourlyWaitRate}/h`,
+      amountUsd: Math.ceil(waitTimeHours * input.hourlyWaitRate),
+    });
+  }
+
+  const stopCount = Math.max(0, Math.floor(input.stopCount || 0));
+  if (stopCount > 0 && rules.perStopFeeUsd > 0) {
+    breakdown.push({
+      kind: 'STOP_FEE',
+      label: `${stopCount} stop(s) × $${rules.perStopFeeUsd}`,
+      amountUsd: Math.ceil(stopCount * rules.perStopFeeUsd),
+    });
+  }
+
+  (input.specialRequirements || []).forEach(requirementId => {
+    const surcharge = rules.requirementSurchargesUsd[requirementId] || 0;
+    if (surcharge <= 0) return;
+    breakdown.push({
+      kind: 'REQUIREMENT',
+      label: `${requirementLabel(requirementId)} surcharge`,
+      amountUsd: Math.ceil(surcharge),
+      ruleId: requirementId,
+    });
+  });
+
+  const subtotalUsd = breakdown.reduce((sum, line) => sum + line.amountUsd, 0);
+  const congestionLine = buildCongestionLine(
+    rules.congestion,
+    subtotalUsd,
+    Number.isFinite(input.trafficIndex) ? Number(input.trafficIndex) : 0,
+    Number.isFinite(input.surplusMin) ? Number(input.surplusMin) : 0
+  );
+  if (congestionLine) {
+    breakdown.push(congestionLine);
+  }
+
+  const tripTime = input.tripDate ? new Date(input.tripDate) : null;
+
+  if (tripTime && Number.isFinite(tripTime.getTime())) {
+    if (rules.nightSurchargePercent > 0 && isNightHour(rules, tripTime.getHours())) {
+      breakdown.push({
+        kind: 'NIGHT',
+        label: `Night +${rules.nightSurchargePercent}% (${String(rules.nightStartHour).padStart(2, '0')}:00–${String(rules.nightEndHour).padStart(2, '0')}:00)`,
+        amountUsd: Math.ceil(subtotalUsd * rules.nightSurchargePercent / 100),
+      });
+    }
+
+    const tripDay = format(tripTime, 'yyyy-MM-dd');
+    if (rules.holidaySurchargePercent > 0 && rules.holidayDates.includes(tripDay)) {
+      breakdown.push({
+        kind: 'HOLIDAY',
+        label: `Holiday +${rules.holidaySurchargePercent}% (${tripDay})`,
+        amountUsd: Math.ceil(subtotalUsd * rules.holidaySurchargePercent / 100),
+        ruleId: tripDay,
+      });
+    }
+  }
+
+  const computedFareUsd = breakdown.reduce((sum, line) => sum + line.amountUsd, 0);
+  const minimumFareUsd = Number.isFinite(MIN_RIDE_FARE_USD) ? Math.max(0, MIN_RIDE_FARE_USD) : 7;
+  const minimumFareApplied = computedFareUsd < minimumFareUsd;
+
+  if (minimumFareApplied) {
+    breakdown.push({
+      kind: 'MINIMUM',
+      label: `Minimum fare ($${minimumFareUsd})`,
+      amountUsd: minimumFareUsd - computedFareUsd,
+    });
+  }
+
+  return {
+    fareUsd: Math.max(minimumFareUsd, computedFareUsd),
+    computedFareUsd,
+    minimumFareUsd,
+    minimumFareApplied,
+    congestionSurchargeUsd: congestionLine?.amountUsd || 0,
+    breakdown,
+  };
+};
+
+export const buildFareQuoteInputFromTrip = (
+  trip: Trip,
+  settings: Pick<Settings, 'ratePerKm' | 'hourlyWaitRate' | 'fareRules'>
+): FareQuoteInput => ({
+  distanceKm: Number.isFinite(trip.distanceKm) ? trip.distanceKm : 0,
+  isRoundTrip: trip.isRoundTrip,
+  waitTimeHours: trip.waitTimeHours || 0,
+  tripDate: trip.tripDate || trip.createdAt,
+  pickup: { lat: trip.pickupLat, lng: trip.pickupLng },
+  destination: { lat: trip.destLat, lng: trip.destLng },
+  stopCount: trip.stops?.length || 0,
+  specialRequirements: trip.specialRequirements || [],
+  trafficIndex: trip.trafficIndex,
+  surplusMin: trip.surplusMin,
+  ratePerKm: trip.ratePerKmSnapshot || settings.ratePerKm,
+  hourlyWaitRate: trip.hourlyWaitRateSnapshot || settings.hourlyWaitRate,
+  rules: trip.fareRulesSnapshot ? normalizeFareRules(trip.fareRulesSnapshot) : settings.fareRules,
+});
@@ -0,0 +1,31 @@
+const FIRESTORE_EMULATOR_HOST = String(import.meta.env.VITE_FIREBASE_FIRESTORE_EMULATOR_HOST || '').trim();
+const DEFAULT_FIRESTORE_EMULATOR_PORT = 8080;
+
+const connectedInstances = new WeakSet<object>();
+
+export const getFirestoreEmulatorTarget = (): { host: string; port: number } | null => {
+  if (!FIRESTORE_EMULATOR_HOST) return null;
+  const separatorIndex = FIRESTORE_EMULATOR_HOST.lastIndexOf(':');
+  if (separatorIndex <= 0) return { host: FIRESTORE_EMULATOR_HOST, port: DEFAULT_FIRESTORE_EMULATOR_PORT };
+  const port = Number(FIRESTORE_EMULATOR_HOST.slice(separatorIndex + 1));
+  return {
+    host: FIRESTORE_EMULATOR_HOST.slice(0, separatorIndex),
+    port: Number.isFinite(port) && port > 0 ? port : DEFAULT_FIRESTORE_EMULATOR_PORT,
+  };
+};
+
+// Firestore only accepts the emulator hookup before its first request, so every entry point routes through here.
+export const connectFirestoreEmulatorOnce = <T extends object>(
+  firestore: T,
+  connect: (firestore: T, host: string, port: number) => void
+): T => {
+  const target = getFirestoreEmulatorTarget();
+  if (!target || connectedInstances.has(firestore)) return firestore;
+  try {
+    connect(firestore, target.host, target.port);
+  } catch (error) {
+    console.warn('[firebase] emulator hookup skipped', error instanceof Error ? error.message : error);
+  }
+  connectedInstances.add(firestore);
+  return firestore;
+};
@@ -0,0 +1,24 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export const isFiniteGeoPoint = (point?: Partial<GeoPoint> | null): point is GeoPoint => {
+  return Boolean(point) && Number.isFinite(point?.lat) && Number.isFinite(point?.lng);
+};
+
+export const distanceKmBetween = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const earthRadiusKm = 6371;
+  const latDelta = toRadians(to.lat - from.lat);
+  const lngDelta = toRadians(to.lng - from.lng);
+  const fromLatRad = toRadians(from.lat);
+  const toLatRad = toRadians(to.lat);
+
+  const a =
+    Math.sin(latDelta / 2) * Math.sin(latDelta / 2) +
+    Math.sin(lngDelta / 2) * Math.sin(lngDelta / 2) * Math.cos(fromLatRad) * Math.cos(toLatRad);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return earthRadiusKm * c;
+};
@@ -0,0 +1,560 @@
+import { LOCAL_STORAGE_KEYS } from '../constants';
+import { getActiveWorkspaceId, scopeDatabaseName, scopeStorageKey } from './workspaces';
+
+export type LocalDatabaseBackend = 'indexeddb' | 'localStorage' | 'unavailable';
+
+interface CollectionIndex {
+  name: string;
+  keyPath: string;
+}
+
+interface PersistedCollection {
+  storageKey: string;
+  store: string;
+  recordKeyField: string;
+  indexes: CollectionIndex[];
+}
+
+export interface DatabaseMigration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+export interface LocalDatabaseStatus {
+  backend: LocalDatabaseBackend;
+  version: number;
+  importedFromLocalStorage: boolean;
+  error?: string;
+}
+
+export interface LocalDatabaseWriteError {
+  message: string;
+  failedAt: string;
+  attempts: number;
+  nextRetryAt: string;
+}
+
+const DATABASE_NAME = 'control-data';
+const META_STORE = 'meta';
+const ORDER_PREFIX = 'order:';
+const DOCUMENT_PREFIX = 'document:';
+const LEGACY_IMPORT_KEY = 'legacyImportedAt';
+const CHANGE_CHANNEL = 'control-data-changes';
+const WRITE_RETRY_BASE_MS = 1000;
+const WRITE_RETRY_MAX_MS = 60 * 1000;
+
+export const PERSISTED_COLLECTIONS: PersistedCollection[] = [
+  {
+    storageKey: LOCAL_STORAGE_KEYS.TRIPS,
+    store: 'trips',
+    recordKeyField: 'id',
+    indexes: [
+      { name: 'tripDate', keyPath: 'tripDate' },
+      { name: 'driverId', keyPath: 'driverId' },
+      { name: 'customerPhone', keyPath: 'customerPhone' },
+      { name: 'status', keyPath: 'status' },
+    ],
+  },
+  { storageKey: LOCAL_STORAGE_KEYS.DELETED_TRIPS, store: 'deletedTrips', recordKeyField: 'archiveId', indexes: [{ name: 'deletedAt', keyPath: 'deletedAt' }] },
+  {
+    storageKey: LOCAL_STORAGE_KEYS.DRIVERS,
+    store: 'drivers',
+    recordKeyField: 'id',
+    indexes: [
+      { name: 'phone', keyPath: 'phone' },
+      { name: 'status', keyPath: 'status' },
+    ],
+  },
+  { storageKey: LOCAL_STORAGE_KEYS.CUSTOMERS, store: 'customers', recordKeyField: 'id', indexes: [{ name: 'phone', keyPath: 'phone' }] },
+  { storageKey: LOCAL_STORAGE_KEYS.ALERTS, store: 'alerts', recordKeyField: 'id', indexes: [{ name: 'tripId', keyPath: 'tripId' }] },
+  {
+    storageKey: LOCAL_STORAGE_KEYS.CREDIT_LEDGER,
+    store: 'creditLedger',
+    recordKeyField: 'id',
+    indexes: [
+      { name: 'partyId', keyPath: 'partyId' },
+      { name: 'status', keyPath: 'status' },
+    ],
+  },
+  { storageKey: LOCAL_STORAGE_KEYS.RECEIPTS, store: 'receipts', recordKeyField: 'id', indexes: [{ name: 'ledgerEntryId', keyPath: 'ledgerEntryId' }] },
+  { storageKey: LOCAL_STORAGE_KEYS.TRIP_SERIES, store: 'tripSeries', recordKeyField: 'id', indexes: [] },
+  {
+    storageKey: LOCAL_STORAGE_KEYS.INVOICES,
+    store: 'invoices',
+    recordKeyField: 'id',
+    indexes: [
+      { name: 'partyPhone', keyPath: 'partyPhone' },
+      { name: 'status', keyPath: 'status' },
+    ],
+  },
+  { storageKey: LOCAL_STORAGE_KEYS.AUDIT_LOG, store: 'auditLog', recordKeyField: 'id', indexes: [{ name: 'timestamp', keyPath: 'timestamp' }] },
+  { storageKey: LOCAL_STORAGE_KEYS.ALERT_HISTORY, store: 'alertHistory', recordKeyField: 'id', indexes: [{ name: 'firedAt', keyPath: 'firedAt' }] },
+];
+
+// Large single-value payloads that live in the meta store instead of localStorage.
+export const PERSISTED_DOCUMENT_KEYS = [LOCAL_STORAGE_KEYS.SYNC_BASE];
+
+// Append-only: each entry runs once, in order, when a browser opens the database below its version.
+// Each migration lists its own stores and indexes; a store added to PERSISTED_COLLECTIONS later needs a new entry here.
+export const DATABASE_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    description: 'Create one object store per collection with query indexes, plus a meta store for ordering and documents.',
+    upgrade: db => {
+      db.createObjectStore(META_STORE);
+      const stores: { store: string; indexes: CollectionIndex[] }[] = [
+        {
+          store: 'trips',
+          indexes: [
+            { name: 'tripDate', keyPath: 'tripDate' },
+            { name: 'driverId', keyPath: 'driverId' },
+            { name: 'customerPhone', keyPath: 'customerPhone' },
+            { name: 'status', keyPath: 'status' },
+          ],
+        },
+        { store: 'deletedTrips', indexes: [{ name: 'deletedAt', keyPath: 'deletedAt' }] },
+        {
+          store: 'drivers',
+          indexes: [
+            { name: 'phone', keyPath: 'phone' },
+            { name: 'status', keyPath: 'status' },
+          ],
+        },
+        { store: 'customers', indexes: [{ name: 'phone', keyPath: 'phone' }] },
+        { store: 'alerts', indexes: [{ name: 'tripId', keyPath: 'tripId' }] },
+        {
+          store: 'creditLedger',
+          indexes: [
+            { name: 'partyId', keyPath: 'partyId' },
+            { name: 'status', keyPath: 'status' },
+          ],
+        },
+        { store: 'receipts', indexes: [{ name: 'ledgerEntryId', keyPath: 'ledgerEntryId' }] },
+        { store: 'tripSeries', indexes: [] },
+        {
+          store: 'invoices',
+          indexes: [
+            { name: 'partyPhone', keyPath: 'partyPhone' },
+            { name: 'status', keyPath: 'status' },
+          ],
+        },
+        { store: 'auditLog', indexes: [{ name: 'timestamp', keyPath: 'timestamp' }] },
+      ];
+      stores.forEach(({ store: name, indexes }) => {
+        const store = db.createObjectStore(name);
+        indexes.forEach(index => store.createIndex(index.name, index.keyPath, { unique: false }));
+      });
+    },
+  },
+  {
+    version: 2,
+    description: 'Add the alert history store.',
+    upgrade: db => {
+      const store = db.createObjectStore('alertHistory');
+      store.createIndex('firedAt', 'firedAt', { unique: false });
+    },
+  },
+];
+
+export const DATABASE_VERSION = DATABASE_MIGRATIONS[DATABASE_MIGRATIONS.length - 1].version;
+
+const collectionsByKey = new Map(PERSISTED_COLLECTIONS.map(collection => [collection.storageKey, collection]));
+const collectionCache = new Map<string, unknown[]>();
+const documentCache = new Map<string, unknown>();
+// Last written JSON per record key, so a flush only puts records that actually changed.
+const persistedRecords = new Map<string, Map<string, string>>();
+const dirtyKeys = new Set<string>();
+const inFlightKeys = new Set<string>();
+const changeListeners = new Set<(storageKeys: string[]) => void>();
+const writeErrorListeners = new Set<(writeError: LocalDatabaseWriteError | null) => void>();
+
+let database: IDBDatabase | null = null;
+let changeChannel: BroadcastChannel | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushChain: Promise<void> = Promise.resolve();
+let status: LocalDatabaseStatus = { backend: 'localStorage', version: 0, importedFromLocalStorage: false };
+let writeError: LocalDatabaseWriteError | null = null;
+
+export const getLocalDatabaseStatus = (): LocalDatabaseStatus => status;
+
+const isManagedKey = (storageKey: string): boolean => collectionsByKey.has(storageKey) || PERSISTED_DOCUMENT_KEYS.includes(storageKey);
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error || new Error('Local database transaction failed.'));
+  transaction.onabort = () => reject(transaction.error || new Error('Local database transaction aborted.'));
+});
+
+const readRequest = <T>(request: IDBRequest): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result as T);
+  request.onerror = () => reject(request.error || new Error('Local database read failed.'));
+});
+
+const openDatabase = (workspaceId: string = getActiveWorkspaceId()): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(scopeDatabaseName(DATABASE_NAME, workspaceId), DATABASE_VERSION);
+  request.onupgradeneeded = event => {
+    const transaction = request.transaction;
+    if (!transaction) return;
+    DATABASE_MIGRATIONS
+      .filter(migration => migration.version > event.oldVersion)
+      .forEach(migration => migration.upgrade(request.result, transaction));
+  };
+  let blocked = false;
+  // An open tab on an older build that ignores versionchange would otherwise stall startup indefinitely.
+  request.onblocked = () => {
+    blocked = true;
+    reject(new Error('Another tab of this app is still open on an older version. Close it and reload.'));
+  };
+  request.onsuccess = () => {
+    const db = request.result;
+    if (blocked) {
+      db.close();
+      return;
+    }
+    // Another tab is upgrading to a newer schema; let it through and pick the data up after reload.
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  request.onerror = () => reject(request.error || new Error('Unable to open local database.'));
+});
+
+// Records without a usable key (or repeating one) still need a stable slot so nothing is dropped.
+const getRecordKeys = (collection: PersistedCollection, records: unknown[]): string[] => {
+  const seen = new Set<string>();
+  return records.map((record, index) => {
+    const raw = typeof record === 'object' && record !== null ? (record as Record<string, unknown>)[collection.recordKeyField] : undefined;
+    let key = raw === undefined || raw === null || raw === '' ? `#${index}` : String(raw);
+    if (seen.has(key)) key = `${key}#${index}`;
+    seen.add(key);
+    return key;
+  });
+};
+
+const loadCollection = async (db: IDBDatabase, collection: PersistedCollection): Promise<void> => {
+  const transaction = db.transaction([collection.store, META_STORE], 'readonly');
+  const store = transaction.objectStore(collection.store);
+  const [keys, values, order] = await Promise.all([
+    readRequest<IDBValidKey[]>(store.getAllKeys()),
+    readRequest<unknown[]>(store.getAll()),
+    readRequest<string[] | undefined>(transaction.objectStore(META_STORE).get(`${ORDER_PREFIX}${collection.store}`)),
+  ]);
+
+  const byKey = new Map<string, unknown>();
+  keys.forEach((key, index) => byKey.set(String(key), values[index]));
+  const ordered = new Set((Array.isArray(order) ? order : []).filter(key => byKey.has(key)));
+  const orderedKeys = [...ordered, ...Array.from(byKey.keys()).filter(key => !ordered.has(key))];
+
+  collectionCache.set(collection.storageKey, orderedKeys.map(key => byKey.get(key)));
+  persistedRecords.set(collection.storageKey, new Map(orderedKeys.map(key => [key, JSON.stringify(byKey.get(key))])));
+};
+
+const loadDocument = async (db: IDBDatabase, storageKey: string): Promise<void> => {
+  const value = await readRequest<unknown>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(`${DOCUMENT_PREFIX}${storageKey}`));
+  if (value === undefined) {
+    documentCache.delete(storageKey);
+  } else {
+    documentCache.set(storageKey, value);
+  }
+};
+
+const loadKey = (db: IDBDatabase, storageKey: string): Promise<void> => {
+  const collection = collectionsByKey.get(storageKey);
+  return collection ? loadCollection(db, collection) : loadDocument(db, storageKey);
+};
+
+const writeDirtyKeys = async (db: IDBDatabase, storageKeys: string[]): Promise<void> => {
+  const stores = new Set<string>([META_STORE]);
+  storageKeys.forEach(storageKey => {
+    const collection = collectionsByKey.get(storageKey);
+    if (collection) stores.add(collection.store);
+  });
+
+  const transaction = db.transaction(Array.from(stores), 'readwrite');
+  const meta = transaction.objectStore(META_STORE);
+  const nextPersisted = new Map<string, Map<string, string>>();
+
+  storageKeys.forEach(storageKey => {
+    const collection = collectionsByKey.get(storageKey);
+    if (!collection) {
+      const documentKey = `${DOCUMENT_PREFIX}${storageKey}`;
+      if (documentCache.has(storageKey)) {
+        meta.put(documentCache.get(storageKey), documentKey);
+      } else {
+        meta.delete(documentKey);
+      }
+      return;
+    }
+
+    const records = collectionCache.get(storageKey) || [];
+    const keys = getRecordKeys(collection, records);
+    const previous = persistedRecords.get(storageKey) || new Map<string, string>();
+    const next = new Map<string, string>();
+    const store = transaction.objectStore(collection.store);
+
+    records.forEach((record, index) => {
+      const serialized = JSON.stringify(record);
+      next.set(keys[index], serialized);
+      if (previous.get(keys[index]) !== serialized) store.put(record, keys[index]);
+    });
+    previous.forEach((_, key) => {
+      if (!next.has(key)) store.delete(key);
+    });
+    meta.put(keys, `${ORDER_PREFIX}${collection.store}`);
+    nextPersisted.set(storageKey, next);
+  });
+
+  await completeTransaction(transaction);
+  nextPersisted.forEach((records, storageKey) => persistedRecords.set(storageKey, records));
+};
+
+const setWriteError = (next: LocalDatabaseWriteError | null): void => {
+  if (!next && !writeError) return;
+  writeError = next;
+  writeErrorListeners.forEach(listener => listener(writeError));
+};
+
+const startFlushTimer = (delayMs: number): void => {
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void flushDirtyKeys();
+  }, delayMs);
+};
+
+const flushDirtyKeys = (): Promise<void> => {
+  flushChain = flushChain.then(async () => {
+    const db = database;
+    const storageKeys = Array.from(dirtyKeys);
+    if (!db || storageKeys.length === 0) return;
+    dirtyKeys.clear();
+    storageKeys.forEach(storageKey => inFlightKeys.add(storageKey));
+    try {
+      await writeDirtyKeys(db, storageKeys);
+      changeChannel?.postMessage({ storageKeys });
+      setWriteError(null);
+    } catch (e) {
+      console.error('Failed to persist local data', e);
+      // The cache still holds the unsaved data; mark it dirty again so the next attempt writes it.
+      storageKeys.forEach(storageKey => dirtyKeys.add(storageKey));
+      const attempts = (writeError?.attempts || 0) + 1;
+      const delayMs = Math.min(WRITE_RETRY_BASE_MS * 2 ** (attempts - 1), WRITE_RETRY_MAX_MS);
+      if (flushTimer !== null) clearTimeout(flushTimer);
+      startFlushTimer(delayMs);
+      setWriteError({
+        message: e instanceof Error ? e.message : 'Local data could not be saved.',
+        failedAt: new Date().toISOString(),
+        attempts,
+        nextRetryAt: new Date(Date.now() + delayMs).toISOString(),
+      });
+    } finally {
+      inFlightKeys.clear();
+    }
+  });
+  return flushChain;
+};
+
+const scheduleFlush = (storageKey: string): void => {
+  dirtyKeys.add(storageKey);
+  // A pending timer is either the coalescing tick or a backoff retry; either one picks this key up.
+  if (flushTimer !== null) return;
+  // Coalesce the burst of saves one user action makes into a single transaction.
+  startFlushTimer(0);
+};
+
+const handleRemoteChange = async (storageKeys: string[]): Promise<void> => {
+  const db = database;
+  if (!db) return;
+  const reloadKeys = storageKeys.filter(storageKey => isManagedKey(storageKey) && !dirtyKeys.has(storageKey) && !inFlightKeys.has(storageKey));
+  if (reloadKeys.length === 0) return;
+  try {
+    await Promise.all(reloadKeys.map(storageKey => loadKey(db, storageKey)));
+    changeListeners.forEach(listener => listener(reloadKeys));
+  } catch (e) {
+    console.error('Failed to reload local data changed in another tab', e);
+  }
+};
+
+const importLegacyLocalStorage = async (db: IDBDatabase): Promise<boolean> => {
+  const importedAt = await readRequest<string | undefined>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(LEGACY_IMPORT_KEY));
+  if (importedAt) {
+    localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.DATABASE_IMPORTED), importedAt);
+    return false;
+  }
+
+  const legacyKeys: string[] = [];
+  PERSISTED_COLLECTIONS.forEach(collection => {
+    const raw = localStorage.getItem(scopeStorageKey(collection.storageKey));
+    if (raw === null) return;
+    const parsed = JSON.parse(raw);
+    collectionCache.set(collection.storageKey, Array.isArray(parsed) ? parsed : []);
+    legacyKeys.push(collection.storageKey);
+  });
+  PERSISTED_DOCUMENT_KEYS.forEach(storageKey => {
+    const raw = localStorage.getItem(scopeStorageKey(storageKey));
+    if (raw === null) return;
+    documentCache.set(storageKey, JSON.parse(raw));
+    legacyKeys.push(storageKey);
+  });
+
+  await writeDirtyKeys(db, legacyKeys);
+  const importedAtIso = new Date().toISOString();
+  const marker = db.transaction(META_STORE, 'readwrite');
+  marker.objectStore(META_STORE).put(importedAtIso, LEGACY_IMPORT_KEY);
+  await completeTransaction(marker);
+  // Mirrored outside IndexedDB so a later failure to open the database is not mistaken for a never-migrated install.
+  localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.DATABASE_IMPORTED), importedAtIso);
+
+  // Only drop the old keys once the copy is committed; a crash before this point simply re-imports.
+  legacyKeys.forEach(storageKey => localStorage.removeItem(scopeStorageKey(storageKey)));
+  return legacyKeys.length > 0;
+};
+
+export const initializeLocalDatabase = async (): Promise<LocalDatabaseStatus> => {
+  if (typeof indexedDB === 'undefined') {
+    status = { backend: 'localStorage', version: 0, importedFromLocalStorage: false, error: 'IndexedDB is not available.' };
+    return status;
+  }
+
+  try {
+    const db = await openDatabase();
+    const importedFromLocalStorage = await importLegacyLocalStorage(db);
+    await Promise.all([
+      ...PERSISTED_COLLECTIONS.map(collection => loadCollection(db, collection)),
+      ...PERSISTED_DOCUMENT_KEYS.map(storageKey => loadDocument(db, storageKey)),
+    ]);
+    database = db;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      changeChannel = new BroadcastChannel(scopeDatabaseName(CHANGE_CHANNEL));
+      changeChannel.onmessage = event => {
+        const storageKeys = Array.isArray(event.data?.storageKeys) ? event.data.storageKeys.map(String) : [];
+        void handleRemoteChange(storageKeys);
+      };
+    }
+
+    status = { backend: 'indexeddb', version: db.version, importedFromLocalStorage };
+  } catch (e) {
+    collectionCache.clear();
+    documentCache.clear();
+    persistedRecords.clear();
+    const error = e instanceof Error ? e.message : 'Local database could not be opened.';
+    // Once the data lives in IndexedDB, localStorage is empty; running on it would show no data and fork new writes.
+    if (localStorage.getItem(scopeStorageKey(LOCAL_STORAGE_KEYS.DATABASE_IMPORTED))) {
+      console.error('Local database could not be opened', e);
+      status = { backend: 'unavailable', version: 0, importedFromLocalStorage: false, error };
+      return status;
+    }
+    console.error('Falling back to localStorage persistence', e);
+    status = { backend: 'localStorage', version: 0, importedFromLocalStorage: false, error };
+  }
+  return status;
+};
+
+export const getLocalDatabaseWriteError = (): LocalDatabaseWriteError | null => writeError;
+
+export const subscribeToLocalDatabaseWriteError = (listener: (writeError: LocalDatabaseWriteError | null) => void): (() => void) => {
+  writeErrorListeners.add(listener);
+  return () => {
+    writeErrorListeners.delete(listener);
+  };
+};
+
+export const subscribeToLocalDatabaseChanges = (listener: (storageKeys: string[]) => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+export const readCollection = <T>(storageKey: string): T[] => {
+  if (!database) {
+    const data = localStorage.getItem(scopeStorageKey(storageKey));
+    return data ? JSON.parse(data) : [];
+  }
+  return [...((collectionCache.get(storageKey) || []) as T[])];
+};
+
+export const writeCollection = <T>(storageKey: string, records: T[]): void => {
+  if (!database) {
+    localStorage.setItem(scopeStorageKey(storageKey), JSON.stringify(records));
+    return;
+  }
+  collectionCache.set(storageKey, [...records]);
+  scheduleFlush(storageKey);
+};
+
+export const readDocument = (storageKey: string): unknown => {
+  if (!database) {
+    const data = localStorage.getItem(scopeStorageKey(storageKey));
+    return data ? JSON.parse(data) : null;
+  }
+  return documentCache.has(storageKey) ? documentCache.get(storageKey) : null;
+};
+
+export const writeDocument = (storageKey: string, value: unknown): void => {
+  if (!database) {
+    localStorage.setItem(scopeStorageKey(storageKey), JSON.stringify(value));
+    return;
+  }
+  documentCache.set(storageKey, value);
+  scheduleFlush(storageKey);
+};
+
+export const removeDocument = (storageKey: string): void => {
+  if (!database) {
+    localStorage.removeItem(scopeStorageKey(storageKey));
+    return;
+  }
+  documentCache.delete(storageKey);
+  scheduleFlush(storageKey);
+};
+
+// Resolves once every write made so far is committed, e.g. before a reload or export.
+export const flushLocalDatabase = (): Promise<void> => {
+  if (flushTimer !== null) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  return flushDirtyKeys();
+};
+
+const readStoredCollection = (workspaceId: string, storageKey: string): unknown[] => {
+  const data = localStorage.getItem(scopeStorageKey(storageKey, workspaceId));
+  const parsed = data ? JSON.parse(data) : [];
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+// Read-only view of another workspace's collections for cross-workspace reports; the active one comes from memory.
+export const readWorkspaceCollections = async (workspaceId: string, storageKeys: string[]): Promise<Record<string, unknown[]>> => {
+  const result: Record<string, unknown[]> = {};
+  if (workspaceId === getActiveWorkspaceId()) {
+    storageKeys.forEach(storageKey => {
+      result[storageKey] = readCollection<unknown>(storageKey);
+    });
+    return result;
+  }
+
+  if (!database) {
+    storageKeys.forEach(storageKey => {
+      result[storageKey] = readStoredCollection(workspaceId, storageKey);
+    });
+    return result;
+  }
+
+  const db = await openDatabase(workspaceId);
+  try {
+    const collections = storageKeys
+      .map(storageKey => collectionsByKey.get(storageKey))
+      .filter((collection): collection is PersistedCollection => Boolean(collection));
+    const importedAt = await readRequest<string | undefined>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(LEGACY_IMPORT_KEY));
+    await Promise.all(collections.map(async collection => {
+      // A workspace never opened on this device since the database move still keeps its data in localStorage.
+      result[collection.storageKey] = importedAt
+        ? await readRequest<unknown[]>(db.transaction(collection.store, 'readonly').objectStore(collection.store).getAll())
+        : readStoredCollection(workspaceId, collection.storageKey);
+    }));
+  } finally {
+    db.close();
+  }
+  return result;
+};
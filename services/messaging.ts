@@ -0,0 +1,328 @@
+import { format, parseISO } from 'date-fns';
+import { DEFAULT_WHATSAPP_CLOUD_TEMPLATES, WHATSAPP_CLOUD_DEFAULT_API_BASE_URL, WHATSAPP_CLOUD_DEFAULT_API_VERSION, WHATSAPP_STATUS_TRACKING_DAYS } from '../constants';
+import {
+  Driver,
+  MessageTemplateKey,
+  MessageTransportKind,
+  Settings,
+  Trip,
+  TripMessageRecord,
+  TripMessageStatus,
+  WhatsAppCloudConfig,
+  WhatsAppCloudTemplateMapping,
+} from '../types';
+import { buildPlaceholderValues } from './placeholderService';
+import { buildWhatsAppLink, normalizePhoneForWhatsApp, sanitizeCommunicationText } from './whatsapp';
+
+export const MESSAGE_TEMPLATE_KEYS: MessageTemplateKey[] = ['trip_confirmation', 'feedback_request', 'feedback_thanks'];
+
+export const MESSAGE_TEMPLATE_LABELS: Record<MessageTemplateKey, string> = {
+  trip_confirmation: 'Trip Confirmation',
+  feedback_request: 'Feedback Request',
+  feedback_thanks: 'Thank-You',
+};
+
+export const MESSAGE_SENT_FIELDS: Record<MessageTemplateKey, 'confirmation_sent_at' | 'feedback_request_sent_at' | 'thank_you_sent_at'> = {
+  trip_confirmation: 'confirmation_sent_at',
+  feedback_request: 'feedback_request_sent_at',
+  feedback_thanks: 'thank_you_sent_at',
+};
+
+export const TRIP_MESSAGE_STATUS_LABELS: Record<TripMessageStatus, string> = {
+  SENT: 'Sent',
+  DELIVERED: 'Delivered',
+  READ: 'Read',
+  FAILED: 'Failed',
+};
+
+const STATUS_RANK: Record<TripMessageStatus, number> = {
+  SENT: 1,
+  DELIVERED: 2,
+  READ: 3,
+  FAILED: 4,
+};
+
+const WEBHOOK_STATUSES: Record<string, TripMessageStatus> = {
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  read: 'READ',
+  failed: 'FAILED',
+};
+
+export interface OutgoingTripMessage {
+  template: MessageTemplateKey;
+  to: string;
+  text: string;
+  parameters: string[];
+}
+
+export interface MessageSendResult {
+  ok: boolean;
+  transport: MessageTransportKind;
+  reason?: string;
+  messageId?: string;
+  href?: string;
+}
+
+export interface MessageTransport {
+  kind: MessageTransportKind;
+  send: (message: OutgoingTripMessage) => Promise<MessageSendResult>;
+}
+
+export interface WhatsAppStatusUpdate {
+  messageId: string;
+  status: TripMessageStatus;
+  at: string;
+  error?: string;
+}
+
+export interface WhatsAppStatusFeedResult {
+  cursor: number;
+  updates: WhatsAppStatusUpdate[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const readText = (value: unknown, fallback = ''): string => (typeof value === 'string' ? value.trim() : fallback);
+
+const normalizeTemplateMapping = (raw: unknown, fallback: WhatsAppCloudTemplateMapping): WhatsAppCloudTemplateMapping => {
+  const source = isRecord(raw) ? raw : {};
+  return {
+    name: readText(source.name),
+    language: readText(source.language) || fallback.language,
+    parameters: Array.isArray(source.parameters)
+      ? source.parameters.map(item => readText(item)).filter(Boolean)
+      : [...fallback.parameters],
+  };
+};
+
+export const normalizeWhatsAppCloudApiBaseUrl = (value: unknown): string => {
+  return (readText(value) || WHATSAPP_CLOUD_DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+};
+
+export const normalizeWhatsAppCloudConfig = (raw: unknown): WhatsAppCloudConfig => {
+  const source = isRecord(raw) ? raw : {};
+  const templates = isRecord(source.templates) ? source.templates : {};
+  return {
+    enabled: source.enabled === true,
+    apiVersion: readText(source.apiVersion) || WHATSAPP_CLOUD_DEFAULT_API_VERSION,
+    phoneNumberId: readText(source.phoneNumberId),
+    statusFeedUrl: readText(source.statusFeedUrl),
+    templates: {
+      trip_confirmation: normalizeTemplateMapping(templates.trip_confirmation, DEFAULT_WHATSAPP_CLOUD_TEMPLATES.trip_confirmation),
+      feedback_request: normalizeTemplateMapping(templates.feedback_request, DEFAULT_WHATSAPP_CLOUD_TEMPLATES.feedback_request),
+      feedback_thanks: normalizeTemplateMapping(templates.feedback_thanks, DEFAULT_WHATSAPP_CLOUD_TEMPLATES.feedback_thanks),
+    },
+  };
+};
+
+export const isWhatsAppCloudReady = (config: WhatsAppCloudConfig, accessToken: string): boolean => {
+  return config.enabled && Boolean(config.phoneNumberId) && Boolean(accessToken);
+};
+
+// WhatsApp rejects template parameters that are empty or carry newlines, tabs or runs of more than four spaces.
+const toTemplateParameter = (value: string): string => {
+  const flattened = sanitizeCommunicationText(value)
+    .replace(/\s*\n+\s*/g, ' | ')
+    .replace(/\t/g, ' ')
+    .replace(/ {4,}/g, '   ');
+  return flattened || '-';
+};
+
+export const buildOutgoingTripMessage = (
+  template: MessageTemplateKey,
+  trip: Trip,
+  drivers: Driver[],
+  settings: Settings,
+  text: string
+): OutgoingTripMessage => {
+  const values = buildPlaceholderValues(trip, drivers, settings);
+  return {
+    template,
+    to: trip.customerPhone,
+    text,
+    parameters: settings.whatsAppCloud.templates[template].parameters.map(placeholder => toTemplateParameter(values[placeholder] ?? '')),
+  };
+};
+
+export const createLinkTransport = (): MessageTransport => ({
+  kind: 'WA_LINK',
+  send: async message => {
+    const href = buildWhatsAppLink(message.to, message.text);
+    if (!href) return { ok: false, transport: 'WA_LINK', reason: 'Customer phone is not a valid WhatsApp number.' };
+    return { ok: true, transport: 'WA_LINK', href };
+  },
+});
+
+export const createCloudApiTransport = (
+  config: WhatsAppCloudConfig,
+  accessToken: string,
+  apiBaseUrl = WHATSAPP_CLOUD_DEFAULT_API_BASE_URL
+): MessageTransport => ({
+  kind: 'CLOUD_API',
+  send: async message => {
+    const mapping = config.templates[message.template];
+    const to = normalizePhoneForWhatsApp(message.to);
+    if (!to) return { ok: false, transport: 'CLOUD_API', reason: 'Customer phone is not a valid WhatsApp number.' };
+    if (!mapping?.name) return { ok: false, transport: 'CLOUD_API', reason: 'No approved template is mapped for this message.' };
+
+    const body = {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to,
+      type: 'template',
+      template: {
+        name: mapping.name,
+        language: { code: mapping.language },
+        components: message.parameters.length > 0
+          ? [{ type: 'body', parameters: message.parameters.map(text => ({ type: 'text', text })) }]
+          : [],
+      },
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(`${normalizeWhatsAppCloudApiBaseUrl(apiBaseUrl)}/${config.apiVersion}/${encodeURIComponent(config.phoneNumberId)}/messages`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      return { ok: false, transport: 'CLOUD_API', reason: 'WhatsApp Cloud API is unreachable.' };
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      const apiMessage = isRecord(payload) && isRecord(payload.error) ? readText(payload.error.message) : '';
+      return { ok: false, transport: 'CLOUD_API', reason: apiMessage || `WhatsApp Cloud API returned ${response.status}.` };
+    }
+
+    const messages = isRecord(payload) && Array.isArray(payload.messages) ? payload.messages : [];
+    const messageId = isRecord(messages[0]) ? readText(messages[0].id) : '';
+    if (!messageId) return { ok: false, transport: 'CLOUD_API', reason: 'WhatsApp Cloud API did not return a message id.' };
+    return { ok: true, transport: 'CLOUD_API', messageId };
+  },
+});
+
+// A message without a mapped template keeps going out as a wa.me draft.
+export const resolveMessageTransport = (
+  config: WhatsAppCloudConfig,
+  accessToken: string,
+  template: MessageTemplateKey,
+  apiBaseUrl?: string
+): MessageTransport => {
+  if (isWhatsAppCloudReady(config, accessToken) && config.templates[template].name) {
+    return createCloudApiTransport(config, accessToken, apiBaseUrl);
+  }
+  return createLinkTransport();
+};
+
+export const buildTripMessageRecord = (
+  message: OutgoingTripMessage,
+  result: MessageSendResult,
+  sentAt: string
+): TripMessageRecord => ({
+  id: result.messageId || `${result.transport}-${Date.parse(sentAt)}`,
+  template: message.template,
+  transport: result.transport,
+  to: normalizePhoneForWhatsApp(message.to) || message.to,
+  sentAt,
+  status: 'SENT',
+  statusAt: sentAt,
+});
+
+export const getLatestTripMessage = (trip: Trip, template: MessageTemplateKey): TripMessageRecord | null => {
+  const records = (trip.messageLog || []).filter(record => record.template === template);
+  return records.length > 0 ? records[records.length - 1] : null;
+};
+
+export const describeTripMessageDelivery = (trip: Trip, template: MessageTemplateKey): string => {
+  const label = MESSAGE_TEMPLATE_LABELS[template];
+  const record = getLatestTripMessage(trip, template);
+  if (record) {
+    const at = format(parseISO(record.statusAt), 'd MMM HH:mm');
+    return `${label}: ${TRIP_MESSAGE_STATUS_LABELS[record.status]} ${at}${record.error ? ` (${record.error})` : ''}`;
+  }
+  return `${label}: ${trip[MESSAGE_SENT_FIELDS[template]] ? 'Marked sent' : 'Not sent'}`;
+};
+
+export const extractWhatsAppStatusUpdates = (payload: unknown): WhatsAppStatusUpdate[] => {
+  const entries = isRecord(payload) && Array.isArray(payload.entry) ? payload.entry : [];
+  const updates: WhatsAppStatusUpdate[] = [];
+
+  entries.forEach(entry => {
+    const changes = isRecord(entry) && Array.isArray(entry.changes) ? entry.changes : [];
+    changes.forEach(change => {
+      const value = isRecord(change) && isRecord(change.value) ? change.value : null;
+      const statuses = value && Array.isArray(value.statuses) ? value.statuses : [];
+      statuses.forEach(item => {
+        if (!isRecord(item)) return;
+        const status = WEBHOOK_STATUSES[readText(item.status)];
+        const messageId = readText(item.id);
+        if (!status || !messageId) return;
+
+        const seconds = Number(item.timestamp);
+        const at = Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000).toISOString() : new Date().toISOString();
+        const firstError = Array.isArray(item.errors) && isRecord(item.errors[0]) ? item.errors[0] : null;
+        const error = firstError ? readText(firstError.title) || readText(firstError.message) || String(firstError.code ?? '') : '';
+        updates.push({ messageId, status, at, ...(error ? { error } : {}) });
+      });
+    });
+  });
+
+  return updates;
+};
+
+// Webhooks can arrive out of order, so a record only moves forward (sent → delivered → read, or failed).
+export const applyTripMessageStatuses = (trips: Trip[], updates: WhatsAppStatusUpdate[]): Trip[] => {
+  if (updates.length === 0) return [];
+  const updatesById = new Map<string, WhatsAppStatusUpdate[]>();
+  updates.forEach(update => {
+    updatesById.set(update.messageId, [...(updatesById.get(update.messageId) || []), update]);
+  });
+
+  const changed: Trip[] = [];
+  trips.forEach(trip => {
+    if (!trip.messageLog?.some(record => updatesById.has(record.id))) return;
+    let tripChanged = false;
+    const messageLog = trip.messageLog.map(record => {
+      let next = record;
+      (updatesById.get(record.id) || []).forEach(update => {
+        if (STATUS_RANK[update.status] <= STATUS_RANK[next.status]) return;
+        next = { ...next, status: update.status, statusAt: update.at, ...(update.error ? { error: update.error } : {}) };
+      });
+      if (next !== record) tripChanged = true;
+      return next;
+    });
+    if (tripChanged) changed.push({ ...trip, messageLog });
+  });
+  return changed;
+};
+
+export const hasTrackableTripMessages = (trips: Trip[], now: Date): boolean => {
+  const cutoff = now.getTime() - WHATSAPP_STATUS_TRACKING_DAYS * 24 * 60 * 60 * 1000;
+  return trips.some(trip => (trip.messageLog || []).some(record => (
+    record.transport === 'CLOUD_API' &&
+    (record.status === 'SENT' || record.status === 'DELIVERED') &&
+    Date.parse(record.sentAt) >= cutoff
+  )));
+};
+
+// The feed is whatever relays Meta's webhooks to the browser: { cursor, events: [webhook body, ...] }.
+export const fetchWhatsAppStatusFeed = async (feedUrl: string, cursor: number): Promise<WhatsAppStatusFeedResult> => {
+  const url = new URL(feedUrl);
+  url.searchParams.set('since', String(cursor));
+  const response = await fetch(url.toString());
+  if (!response.ok) throw new Error(`Status feed returned ${response.status}.`);
+
+  const payload = await response.json();
+  const events = isRecord(payload) && Array.isArray(payload.events) ? payload.events : [];
+  const nextCursor = isRecord(payload) ? Number(payload.cursor) : NaN;
+  return {
+    cursor: Number.isFinite(nextCursor) ? nextCursor : cursor,
+    updates: events.flatMap(extractWhatsAppStatusUpdates),
+  };
+};
@@ -0,0 +1,14 @@
+export const isBrowserOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// navigator.onLine only knows about the local link, so callers still treat failed requests as offline too.
+export const subscribeToNetworkStatus = (listener: (online: boolean) => void): (() => void) => {
+  if (typeof window === 'undefined') return () => undefined;
+  const handleOnline = () => listener(true);
+  const handleOffline = () => listener(false);
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
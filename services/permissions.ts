@@ -0,0 +1,76 @@
+import { AuthRole, Capability } from '../types';
+
+export interface CapabilityDescriptor {
+  label: string;
+  description: string;
+  deniedAction: string;
+}
+
+export const CAPABILITIES: Capability[] = ['EDIT_PRICING', 'MANAGE_TRIPS', 'MANAGE_FLEET', 'FINANCE_ACTIONS', 'VAULT_MANAGE', 'APPROVE_ACCESS', 'MANAGE_WORKSPACES'];
+
+export const CAPABILITY_DESCRIPTORS: Record<Capability, CapabilityDescriptor> = {
+  EDIT_PRICING: {
+    label: 'Edit Pricing',
+    description: 'Change rates, tariff rules, templates, and other settings',
+    deniedAction: 'edit pricing and settings',
+  },
+  MANAGE_TRIPS: {
+    label: 'Manage Trips',
+    description: 'Book, edit, dispatch, message, and archive trips and trip series',
+    deniedAction: 'manage trips',
+  },
+  MANAGE_FLEET: {
+    label: 'Manage Fleet',
+    description: 'Onboard, edit, refuel, set availability of, and remove units',
+    deniedAction: 'manage the fleet',
+  },
+  FINANCE_ACTIONS: {
+    label: 'Finance Actions',
+    description: 'Open credits, record payments, settle, invoice, and close payouts',
+    deniedAction: 'run finance actions',
+  },
+  VAULT_MANAGE: {
+    label: 'Vault Clear / Restore',
+    description: 'Import backups and hard reset synced data',
+    deniedAction: 'clear or restore the vault',
+  },
+  APPROVE_ACCESS: {
+    label: 'Approve Access',
+    description: 'Approve or reject operator access requests',
+    deniedAction: 'approve access requests',
+  },
+  MANAGE_WORKSPACES: {
+    label: 'Manage Workspaces',
+    description: 'Create workspaces and edit their branding and sync channel',
+    deniedAction: 'manage workspaces',
+  },
+};
+
+export const AUTH_ROLES: AuthRole[] = ['admin', 'ops', 'viewer', 'unknown'];
+
+export const AUTH_ROLE_LABELS: Record<AuthRole, string> = {
+  admin: 'Admin',
+  ops: 'Ops',
+  viewer: 'Viewer',
+  unknown: 'No Role',
+};
+
+// Accounts approved without a role get nothing until an admin assigns one.
+export const ROLE_CAPABILITIES: Record<AuthRole, Capability[]> = {
+  admin: ['EDIT_PRICING', 'MANAGE_TRIPS', 'MANAGE_FLEET', 'FINANCE_ACTIONS', 'VAULT_MANAGE', 'APPROVE_ACCESS', 'MANAGE_WORKSPACES'],
+  ops: ['MANAGE_TRIPS', 'MANAGE_FLEET'],
+  viewer: [],
+  unknown: [],
+};
+
+export const hasCapability = (role: AuthRole, capability: Capability): boolean => ROLE_CAPABILITIES[role].includes(capability);
+
+export const describeCapabilityDenial = (role: AuthRole, capability: Capability): string => {
+  const action = CAPABILITY_DESCRIPTORS[capability].deniedAction;
+  if (role === 'unknown') return `Your account has no role assigned, so it cannot ${action}. Ask an admin to set one.`;
+  return `${AUTH_ROLE_LABELS[role]} role cannot ${action}. Ask an admin for access.`;
+};
+
+export const checkCapability = (role: AuthRole, capability: Capability): { ok: boolean; reason?: string } => (
+  hasCapability(role, capability) ? { ok: true } : { ok: false, reason: describeCapabilityDenial(role, capability) }
+);
@@ -1,6 +1,7 @@
 
 import { format, parseISO } from 'date-fns';
 import { Trip, Driver, Settings } from '../types';
+import { getActiveWorkspace } from './workspaces';
 import { SPECIAL_REQUIREMENTS } from '../constants';
 
 const isCoordinateLike = (value?: string): boolean => {
@@ -83,7 +84,7 @@ export const formatTripDestination = (trip: Trip): string => {
   return `${destination}\nStops:\n${stopsText}`;
 };
 
-export const replacePlaceholders = (template: string, trip: Trip, drivers: Driver[], settings?: Settings): string => {
+export const buildPlaceholderValues = (trip: Trip, drivers: Driver[], settings?: Settings): Record<string, string> => {
   const driver = drivers.find(d => d.id === trip.driverId);
 
   const driverName = driver ? driver.name : 'our driver';
@@ -124,7 +125,8 @@ export const replacePlaceholders = (template: string, trip: Trip, drivers: Drive
   // Combine for a clean block
   const detailsBlock = [requirementsText, stopsBlock, notesText].filter(Boolean).join('. ');
 
-  const replacements: Record<string, string> = {
+  return {
+    '{company_name}': getActiveWorkspace().branding.companyName,
     '{customer_name}': trip.customerName || "Customer",
     '{customer_phone}': trip.customerPhone || "N/A",
     '{pickup}': formatTripPickup(trip),
@@ -151,6 +153,10 @@ export const replacePlaceholders = (template: string, trip: Trip, drivers: Drive
     '{loyalty_program_url}': loyaltyProgramUrl,
     '{service_links_block}': serviceLinksBlock,
   };
+};
+
+export const replacePlaceholders = (template: string, trip: Trip, drivers: Driver[], settings?: Settings): string => {
+  const replacements = buildPlaceholderValues(trip, drivers, settings);
 
   let result = template;
   Object.entries(replacements).forEach(([placeholder, value]) => {
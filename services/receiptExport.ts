@@ -1,4 +1,6 @@
-import { ReceiptRecord } from '../types';
+import { CustomerInvoice, ReceiptRecord } from '../types';
+import { DriverPayoutStatement, describePayoutDirection } from './driverPayout';
+import { CREDIT_PAYMENT_METHOD_LABELS } from './creditLedger';
 
 const escapeHtml = (value: unknown): string =>
   String(value ?? '')
@@ -8,6 +10,14 @@ const escapeHtml = (value: unknown): string =>
     .replace(/"/g, '&quot;')
     .replace(/'/g, '&#039;');
 
+const isSafeLogoDataUrl = (value?: string): value is string => Boolean(value && /^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,[a-z0-9+/=]+$/i.test(value));
+
+const renderBrandBlock = (title: string, companyName: string, logoDataUrl?: string): string => `<div>
+          ${isSafeLogoDataUrl(logoDataUrl) ? `<img class="logo" src="${escapeHtml(logoDataUrl)}" alt="${escapeHtml(companyName)}" />` : ''}
+          <h1 class="title">${escapeHtml(title)}</h1>
+          <div class="sub">${escapeHtml(companyName)}</div>
+        </div>`;
+
 const formatIssuedAt = (issuedAt: string): string => {
   const timestamp = new Date(issuedAt);
   if (!Number.isFinite(timestamp.getTime())) return issuedAt;
@@ -18,6 +28,7 @@ export const exportReceiptPdfFriendly = (
   receipt: ReceiptRecord,
   options?: {
     companyName?: string;
+    logoDataUrl?: string;
     partyPhone?: string;
     extraNotes?: string;
   }
@@ -39,6 +50,7 @@ export const exportReceiptPdfFriendly = (
       .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 24px; }
       .title { font-size: 26px; font-weight: 800; margin: 0; letter-spacing: 0.04em; }
       .sub { color: #64748b; font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; margin-top: 4px; }
+      .logo { display: block; max-height: 56px; max-width: 180px; margin-bottom: 10px; }
       .row { display: flex; justify-content: space-between; border-bottom: 1px solid #f1f5f9; padding: 10px 0; gap: 12px; }
       .label { color: #475569; font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; }
       .value { color: #0f172a; font-size: 14px; font-weight: 700; text-align: right; }
@@ -50,10 +62,7 @@ export const exportReceiptPdfFriendly = (
   <body>
     <div class="card">
       <div class="header">
-        <div>
-          <h1 class="title">Receipt</h1>
-          <div class="sub">${escapeHtml(companyName)}</div>
-        </div>
+        ${renderBrandBlock('Receipt', companyName, options?.logoDataUrl)}
         <div class="sub">#${escapeHtml(receipt.receiptNumber)}</div>
       </div>
 
@@ -63,6 +72,9 @@ export const exportReceiptPdfFriendly = (
       ${options?.partyPhone ? `<div class="row"><div class="label">Phone</div><div class="value">${escapeHtml(options.partyPhone)}</div></div>` : ''}
       <div class="row"><div class="label">Issued At</div><div class="value">${escapeHtml(formatIssuedAt(receipt.issuedAt))}</div></div>
       <div class="row"><div class="label">Ledger Reference</div><div class="value">${escapeHtml(receipt.ledgerEntryId)}</div></div>
+      ${receipt.paymentMethod ? `<div class="row"><div class="label">Method</div><div class="value">${escapeHtml(CREDIT_PAYMENT_METHOD_LABELS[receipt.paymentMethod])}</div></div>` : ''}
+      ${receipt.currency === 'LBP' && receipt.amountOriginal ? `<div class="row"><div class="label">Paid In LBP</div><div class="value">${escapeHtml(Math.round(receipt.amountOriginal).toLocaleString())} LBP @ ${escapeHtml(Number(receipt.fxRateSnapshot || 0).toLocaleString())}</div></div>` : ''}
+      ${typeof receipt.remainingUsd === 'number' ? `<div class="row"><div class="label">Remaining Balance</div><div class="value">$${escapeHtml(receipt.remainingUsd.toFixed(2))}</div></div>` : ''}
 
       <div class="row" style="border-bottom:none; margin-top: 12px;">
         <div class="label">Amount</div>
@@ -86,3 +98,223 @@ export const exportReceiptPdfFriendly = (
   printWindow.document.close();
   return true;
 };
+
+export const exportDriverPayoutStatementPdfFriendly = (
+  statement: DriverPayoutStatement,
+  options?: {
+    companyName?: string;
+    logoDataUrl?: string;
+    receiptNumber?: string;
+  }
+): boolean => {
+  if (typeof window === 'undefined') return false;
+
+  const companyName = options?.companyName || 'Control Taxi';
+  const printWindow = window.open('', '_blank', 'noopener,noreferrer,width=920,height=980');
+  if (!printWindow) return false;
+
+  const tripRows = statement.tripLines.map(line => `
+        <tr>
+          <td>#${escapeHtml(String(line.tripId).slice(-4))}</td>
+          <td>${escapeHtml(formatIssuedAt(line.completedAt))}</td>
+          <td>${escapeHtml(line.customerName)}<div class="muted">${escapeHtml(line.routeLabel)}</div></td>
+          <td>${escapeHtml(line.paymentMode)}</td>
+          <td class="num">$${escapeHtml(line.fareUsd.toFixed(2))}</td>
+          <td class="num">$${escapeHtml(line.companyShareUsd.toFixed(2))}</td>
+          <td class="num">$${escapeHtml(line.driverShareUsd.toFixed(2))}</td>
+        </tr>`).join('');
+
+  const fuelRows = statement.fuelLines.map(line => `
+        <tr>
+          <td>${escapeHtml(formatIssuedAt(line.timestamp))}</td>
+          <td>${escapeHtml(line.note || '-')}</td>
+          <td class="num">$${escapeHtml(line.amountUsd.toFixed(2))}</td>
+          <td class="num">$${escapeHtml(line.deductionUsd.toFixed(2))}</td>
+        </tr>`).join('');
+
+  const creditRows = statement.openCredits.map(entry => `
+        <tr>
+          <td>${escapeHtml(formatIssuedAt(entry.createdAt))}</td>
+          <td>${escapeHtml(entry.notes || entry.cycle)}</td>
+          <td class="num">$${escapeHtml(Number(entry.amountUsd || 0).toFixed(2))}</td>
+        </tr>`).join('');
+
+  const printableHtml = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Payout Statement ${escapeHtml(statement.driverName)} ${escapeHtml(statement.periodLabel)}</title>
+    <style>
+      body { font-family: Inter, Arial, sans-serif; margin: 32px; color: #0f172a; }
+      .card { border: 1px solid #e2e8f0; border-radius: 16px; padding: 24px; max-width: 820px; margin: 0 auto; }
+      .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 24px; }
+      .title { font-size: 26px; font-weight: 800; margin: 0; letter-spacing: 0.04em; }
+      .sub { color: #64748b; font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; margin-top: 4px; }
+      .logo { display: block; max-height: 56px; max-width: 180px; margin-bottom: 10px; }
+      .section { margin-top: 22px; color: #475569; font-size: 12px; font-weight: 800; text-transform: uppercase; letter-spacing: 0.08em; }
+      .row { display: flex; justify-content: space-between; border-bottom: 1px solid #f1f5f9; padding: 10px 0; gap: 12px; }
+      .label { color: #475569; font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; }
+      .value { color: #0f172a; font-size: 14px; font-weight: 700; text-align: right; }
+      .amount { font-size: 28px; font-weight: 900; color: ${statement.netPayoutUsd < 0 ? '#b45309' : '#059669'}; }
+      table { width: 100%; border-collapse: collapse; margin-top: 8px; font-size: 12px; }
+      th { text-align: left; color: #64748b; font-size: 10px; text-transform: uppercase; letter-spacing: 0.06em; border-bottom: 1px solid #e2e8f0; padding: 6px 4px; }
+      td { border-bottom: 1px solid #f1f5f9; padding: 6px 4px; vertical-align: top; font-weight: 600; }
+      .num { text-align: right; white-space: nowrap; }
+      .muted { color: #94a3b8; font-size: 10px; font-weight: 500; }
+      .footer { margin-top: 22px; color: #475569; font-size: 12px; line-height: 1.5; }
+      @media print { body { margin: 0; } .card { border: none; max-width: none; border-radius: 0; } }
+    </style>
+  </head>
+  <body>
+    <div class="card">
+      <div class="header">
+        ${renderBrandBlock('Payout Statement', companyName, options?.logoDataUrl)}
+        <div class="sub">${options?.receiptNumber ? `#${escapeHtml(options.receiptNumber)}` : 'Draft'}</div>
+      </div>
+
+      <div class="row"><div class="label">Driver</div><div class="value">${escapeHtml(statement.driverName)} · ${escapeHtml(statement.plateNumber)}</div></div>
+      <div class="row"><div class="label">Cycle</div><div class="value">${escapeHtml(statement.cycle)} · ${escapeHtml(statement.periodLabel)}</div></div>
+      <div class="row"><div class="label">Share Rule</div><div class="value">${escapeHtml(statement.shareRuleLabel)} · ${Math.round(statement.companyShareRate * 100)}% company</div></div>
+      <div class="row"><div class="label">Fuel Responsibility</div><div class="value">${escapeHtml(statement.fuelResponsibility)} · ${Math.round(statement.fuelDeductionRate * 100)}% deducted</div></div>
+
+      <div class="section">Completed Trips (${statement.tripLines.length})</div>
+      ${statement.tripLines.length > 0 ? `<table>
+        <thead><tr><th>Trip</th><th>Completed</th><th>Customer</th><th>Payment</th><th class="num">Fare</th><th class="num">Company</th><th class="num">Driver</th></tr></thead>
+        <tbody>${tripRows}</tbody>
+      </table>` : '<div class="footer">No completed trips in this period.</div>'}
+
+      ${statement.fuelLines.length > 0 ? `<div class="section">Fuel Logs (${statement.fuelLines.length})</div>
+      <table>
+        <thead><tr><th>Logged</th><th>Note</th><th class="num">Amount</th><th class="num">Deduction</th></tr></thead>
+        <tbody>${fuelRows}</tbody>
+      </table>` : ''}
+
+      ${statement.openCredits.length > 0 ? `<div class="section">Open Driver Credits (${statement.openCredits.length})</div>
+      <table>
+        <thead><tr><th>Opened</th><th>Notes</th><th class="num">Amount</th></tr></thead>
+        <tbody>${creditRows}</tbody>
+      </table>` : ''}
+
+      <div class="section">Summary</div>
+      <div class="row"><div class="label">Gross Fares</div><div class="value">$${escapeHtml(statement.grossFareUsd.toFixed(2))}</div></div>
+      <div class="row"><div class="label">Company Share</div><div class="value">$${escapeHtml(statement.companyShareUsd.toFixed(2))}</div></div>
+      <div class="row"><div class="label">Driver Share</div><div class="value">$${escapeHtml(statement.driverShareUsd.toFixed(2))}</div></div>
+      <div class="row"><div class="label">Cash Collected By Driver</div><div class="value">-$${escapeHtml(statement.cashCollectedUsd.toFixed(2))}</div></div>
+      <div class="row"><div class="label">Fuel Deduction</div><div class="value">-$${escapeHtml(statement.fuelDeductionUsd.toFixed(2))}</div></div>
+      <div class="row"><div class="label">Open Credits</div><div class="value">-$${escapeHtml(statement.openCreditUsd.toFixed(2))}</div></div>
+
+      <div class="row" style="border-bottom:none; margin-top: 12px;">
+        <div class="label">${escapeHtml(describePayoutDirection(statement.netPayoutUsd))}</div>
+        <div class="amount">$${escapeHtml(Math.abs(statement.netPayoutUsd).toFixed(2))}</div>
+      </div>
+
+      <div class="footer">Generated from operational system. Use browser Print → Save as PDF to share with the driver.</div>
+    </div>
+    <script>
+      window.addEventListener('load', () => {
+        window.focus();
+        window.print();
+      });
+    </script>
+  </body>
+</html>`;
+
+  printWindow.document.open();
+  printWindow.document.write(printableHtml);
+  printWindow.document.close();
+  return true;
+};
+
+export const exportInvoicePdfFriendly = (
+  invoice: CustomerInvoice,
+  options?: {
+    companyName?: string;
+    logoDataUrl?: string;
+  }
+): boolean => {
+  if (typeof window === 'undefined') return false;
+
+  const companyName = options?.companyName || 'Control Taxi';
+  const printWindow = window.open('', '_blank', 'noopener,noreferrer,width=920,height=980');
+  if (!printWindow) return false;
+
+  const lineRows = invoice.lines.map(line => `
+        <tr>
+          <td>${escapeHtml(formatIssuedAt(line.tripDate))}</td>
+          <td>${escapeHtml(line.routeLabel)}<div class="muted">Trip #${escapeHtml(String(line.tripId).slice(-4))}</div></td>
+          <td class="num">$${escapeHtml(line.fareUsd.toFixed(2))}</td>
+          <td class="num">${escapeHtml(line.fareLbp.toLocaleString())} LBP<div class="muted">@ ${escapeHtml(line.exchangeRateSnapshot.toLocaleString())}</div></td>
+        </tr>`).join('');
+
+  const printableHtml = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+    <style>
+      body { font-family: Inter, Arial, sans-serif; margin: 32px; color: #0f172a; }
+      .card { border: 1px solid #e2e8f0; border-radius: 16px; padding: 24px; max-width: 820px; margin: 0 auto; }
+      .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 24px; }
+      .title { font-size: 26px; font-weight: 800; margin: 0; letter-spacing: 0.04em; }
+      .sub { color: #64748b; font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; margin-top: 4px; }
+      .logo { display: block; max-height: 56px; max-width: 180px; margin-bottom: 10px; }
+      .row { display: flex; justify-content: space-between; border-bottom: 1px solid #f1f5f9; padding: 10px 0; gap: 12px; }
+      .label { color: #475569; font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; }
+      .value { color: #0f172a; font-size: 14px; font-weight: 700; text-align: right; }
+      .amount { font-size: 28px; font-weight: 900; color: ${invoice.status === 'PAID' ? '#059669' : '#0f172a'}; text-align: right; }
+      table { width: 100%; border-collapse: collapse; margin-top: 18px; font-size: 12px; }
+      th { text-align: left; color: #64748b; font-size: 10px; text-transform: uppercase; letter-spacing: 0.06em; border-bottom: 1px solid #e2e8f0; padding: 6px 4px; }
+      td { border-bottom: 1px solid #f1f5f9; padding: 6px 4px; vertical-align: top; font-weight: 600; }
+      .num { text-align: right; white-space: nowrap; }
+      .muted { color: #94a3b8; font-size: 10px; font-weight: 500; }
+      .footer { margin-top: 22px; color: #475569; font-size: 12px; line-height: 1.5; }
+      @media print { body { margin: 0; } .card { border: none; max-width: none; border-radius: 0; } }
+    </style>
+  </head>
+  <body>
+    <div class="card">
+      <div class="header">
+        ${renderBrandBlock('Invoice', companyName, options?.logoDataUrl)}
+        <div>
+          <div class="sub">#${escapeHtml(invoice.invoiceNumber)}</div>
+          <div class="sub">${escapeHtml(invoice.status)}</div>
+        </div>
+      </div>
+
+      <div class="row"><div class="label">Bill To</div><div class="value">${escapeHtml(invoice.partyName)}</div></div>
+      ${invoice.partyPhone ? `<div class="row"><div class="label">Phone</div><div class="value">${escapeHtml(invoice.partyPhone)}</div></div>` : ''}
+      <div class="row"><div class="label">Cycle</div><div class="value">${escapeHtml(invoice.cycle)} · ${escapeHtml(new Date(invoice.periodStart).toLocaleDateString())} – ${escapeHtml(new Date(invoice.periodEnd).toLocaleDateString())}</div></div>
+      <div class="row"><div class="label">Issued At</div><div class="value">${escapeHtml(formatIssuedAt(invoice.issuedAt))}</div></div>
+      ${invoice.dueDate ? `<div class="row"><div class="label">Due Date</div><div class="value">${escapeHtml(invoice.dueDate)}</div></div>` : ''}
+      ${invoice.paidAt ? `<div class="row"><div class="label">Paid At</div><div class="value">${escapeHtml(formatIssuedAt(invoice.paidAt))}</div></div>` : ''}
+
+      <table>
+        <thead><tr><th>Date</th><th>Route</th><th class="num">Fare USD</th><th class="num">Fare LBP</th></tr></thead>
+        <tbody>${lineRows}</tbody>
+      </table>
+
+      <div class="row" style="border-bottom:none; margin-top: 12px;">
+        <div class="label">Total (${invoice.lines.length} trips)</div>
+        <div>
+          <div class="amount">$${escapeHtml(invoice.totalUsd.toFixed(2))}</div>
+          <div class="sub" style="text-align:right;">${escapeHtml(invoice.totalLbp.toLocaleString())} LBP</div>
+        </div>
+      </div>
+
+      ${invoice.notes ? `<div class="footer"><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</div>` : ''}
+      <div class="footer">LBP amounts use the exchange rate captured on each trip. Use browser Print → Save as PDF to share with the client.</div>
+    </div>
+    <script>
+      window.addEventListener('load', () => {
+        window.focus();
+        window.print();
+      });
+    </script>
+  </body>
+</html>`;
+
+  printWindow.document.open();
+  printWindow.document.write(printableHtml);
+  printWindow.document.close();
+  return true;
+};
@@ -0,0 +1,161 @@
+import { BackupInspection, inspectFullSystemBackup } from './storageService';
+import { scopeDatabaseName } from './workspaces';
+
+export type SystemSnapshotKind = 'SCHEDULED' | 'PRE_RESET' | 'PRE_CLEAR' | 'PRE_RESTORE';
+
+export interface SystemSnapshotMeta {
+  id: string;
+  kind: SystemSnapshotKind;
+  takenAt: string;
+  version?: string;
+  counts: BackupInspection['counts'];
+  hasSettings: boolean;
+  note?: string;
+}
+
+export const SYSTEM_SNAPSHOT_KIND_LABELS: Record<SystemSnapshotKind, string> = {
+  SCHEDULED: 'Scheduled',
+  PRE_RESET: 'Before Hard Reset',
+  PRE_CLEAR: 'Before Sync Clear',
+  PRE_RESTORE: 'Before Restore',
+};
+
+export const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+const HOURLY_RETENTION_MS = 24 * 60 * 60 * 1000;
+const DAILY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SNAPSHOT_DB_NAME = 'control-snapshots';
+const SNAPSHOT_DB_VERSION = 1;
+const META_STORE = 'meta';
+const PAYLOAD_STORE = 'payloads';
+
+export const isSnapshotStoreAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+let snapshotDbPromise: Promise<IDBDatabase> | null = null;
+
+const openSnapshotDb = (): Promise<IDBDatabase> => {
+  if (!snapshotDbPromise) {
+    snapshotDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(scopeDatabaseName(SNAPSHOT_DB_NAME), SNAPSHOT_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PAYLOAD_STORE)) db.createObjectStore(PAYLOAD_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error('Unable to open snapshot store.'));
+    });
+    snapshotDbPromise.catch(() => {
+      snapshotDbPromise = null;
+    });
+  }
+  return snapshotDbPromise;
+};
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error || new Error('Snapshot store transaction failed.'));
+  transaction.onabort = () => reject(transaction.error || new Error('Snapshot store transaction aborted.'));
+});
+
+const readRequest = <T>(request: IDBRequest): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result as T);
+  request.onerror = () => reject(request.error || new Error('Snapshot store read failed.'));
+});
+
+export const listSystemSnapshots = async (): Promise<SystemSnapshotMeta[]> => {
+  const db = await openSnapshotDb();
+  const metas = await readRequest<SystemSnapshotMeta[]>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll());
+  return metas.sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime());
+};
+
+export const getSystemSnapshotPayload = async (id: string): Promise<unknown | null> => {
+  const db = await openSnapshotDb();
+  const payload = await readRequest<unknown>(db.transaction(PAYLOAD_STORE, 'readonly').objectStore(PAYLOAD_STORE).get(id));
+  return payload ?? null;
+};
+
+const deleteSystemSnapshots = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openSnapshotDb();
+  const transaction = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+  ids.forEach(id => {
+    transaction.objectStore(META_STORE).delete(id);
+    transaction.objectStore(PAYLOAD_STORE).delete(id);
+  });
+  await completeTransaction(transaction);
+};
+
+// Hourly points cover the last day; past that, only the newest snapshot of each calendar day survives the month.
+export const selectSnapshotsToPrune = (metas: SystemSnapshotMeta[], now: Date): string[] => {
+  const nowMs = now.getTime();
+  const keptDays = new Set<string>();
+  const prune: string[] = [];
+
+  [...metas]
+    .sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime())
+    .forEach(meta => {
+      const takenAt = new Date(meta.takenAt);
+      const age = nowMs - takenAt.getTime();
+      if (!Number.isFinite(age) || age > DAILY_RETENTION_MS) {
+        prune.push(meta.id);
+        return;
+      }
+      if (meta.kind !== 'SCHEDULED' || age <= HOURLY_RETENTION_MS) return;
+
+      const dayKey = `${takenAt.getFullYear()}-${takenAt.getMonth()}-${takenAt.getDate()}`;
+      if (keptDays.has(dayKey)) {
+        prune.push(meta.id);
+        return;
+      }
+      keptDays.add(dayKey);
+    });
+
+  return prune;
+};
+
+export const pruneSystemSnapshots = async (now: Date = new Date()): Promise<number> => {
+  const prune = selectSnapshotsToPrune(await listSystemSnapshots(), now);
+  await deleteSystemSnapshots(prune);
+  return prune.length;
+};
+
+export const saveSystemSnapshot = async (kind: SystemSnapshotKind, payload: unknown, note?: string): Promise<SystemSnapshotMeta> => {
+  const inspection = inspectFullSystemBackup(payload);
+  if (!inspection.isValid) {
+    throw new Error(inspection.error || 'Snapshot payload is invalid.');
+  }
+
+  const takenAt = new Date().toISOString();
+  const meta: SystemSnapshotMeta = {
+    id: `snap-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    kind,
+    takenAt,
+    ...(inspection.version ? { version: inspection.version } : {}),
+    counts: inspection.counts,
+    hasSettings: inspection.hasSettings,
+    ...(note ? { note } : {}),
+  };
+
+  const db = await openSnapshotDb();
+  const transaction = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+  transaction.objectStore(META_STORE).put(meta);
+  transaction.objectStore(PAYLOAD_STORE).put(payload, meta.id);
+  await completeTransaction(transaction);
+  return meta;
+};
+
+export const isScheduledSnapshotDue = (metas: SystemSnapshotMeta[], now: Date): boolean => {
+  const latest = metas
+    .filter(meta => meta.kind === 'SCHEDULED')
+    .reduce((max, meta) => Math.max(max, new Date(meta.takenAt).getTime() || 0), 0);
+  return now.getTime() - latest >= SNAPSHOT_INTERVAL_MS;
+};
+
+export const takeScheduledSnapshotIfDue = async (getPayload: () => unknown, now: Date = new Date()): Promise<SystemSnapshotMeta | null> => {
+  const metas = await listSystemSnapshots();
+  if (!isScheduledSnapshotDue(metas, now)) return null;
+  const meta = await saveSystemSnapshot('SCHEDULED', getPayload());
+  await deleteSystemSnapshots(selectSnapshotsToPrune([meta, ...metas], now));
+  return meta;
+};
@@ -1,7 +1,18 @@
 
-import { Trip, Settings, Driver, Customer, MissionAlert, DeletedTripRecord, CreditLedgerEntry, ReceiptRecord } from '../types';
+import { Trip, Settings, Driver, Customer, MissionAlert, DeletedTripRecord, CreditLedgerEntry, ReceiptRecord, TripSeries, CustomerInvoice, SyncConflict, SyncOutboxEntry, AuditLogEntry, AlertHistoryEntry } from '../types';
 import { LOCAL_STORAGE_KEYS, DEFAULT_EXCHANGE_RATE, DEFAULT_HOURLY_WAIT_RATE, DEFAULT_RATE_USD_PER_KM, DEFAULT_FUEL_PRICE_USD_PER_LITER, DEFAULT_TEMPLATES, DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT, DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT, DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT } from '../constants';
 import { mergeCustomerCollections } from './customerProfile';
+import { normalizeFareRules } from './fareRules';
+import { normalizeAutoDispatchConfig } from './autoDispatch';
+import { normalizeAlertRules } from './alertRules';
+import { normalizeAlertEscalationConfig, pruneAlertHistory } from './alertEscalation';
+import { normalizeWhatsAppCloudApiBaseUrl, normalizeWhatsAppCloudConfig } from './messaging';
+import { getOrCreateCloudSyncClientId } from './cloudSyncService';
+import { stampRecordVersions } from './syncMerge';
+import { isEncryptedBackupEnvelope } from './backupCrypto';
+import { applySelectedRecords, countRestoreChanges, RestoreCollectionChanges, RestoreCollectionKey, RestoreSelection } from './backupDiff';
+import { readCollection, readDocument, removeDocument, writeCollection, writeDocument } from './localDatabase';
+import { scopeStorageKey } from './workspaces';
 
 interface FullSystemBackup {
   version?: string;
@@ -15,12 +26,17 @@ interface FullSystemBackup {
   alerts?: MissionAlert[];
   creditLedger?: CreditLedgerEntry[];
   receipts?: ReceiptRecord[];
+  tripSeries?: TripSeries[];
+  invoices?: CustomerInvoice[];
+  auditLog?: AuditLogEntry[];
+  alertHistory?: AlertHistoryEntry[];
   settings?: Partial<Settings>;
 }
 
 export interface BackupInspection {
   isValid: boolean;
   error?: string;
+  encrypted?: boolean;
   version?: string;
   counts: {
     trips: number;
@@ -30,6 +46,10 @@ export interface BackupInspection {
     alerts: number;
     creditLedger: number;
     receipts: number;
+    tripSeries: number;
+    invoices: number;
+    auditLog: number;
+    alertHistory: number;
   };
   hasSettings: boolean;
 }
@@ -46,12 +66,18 @@ export interface RestoreResult {
     alerts: boolean;
     creditLedger: boolean;
     receipts: boolean;
+    tripSeries: boolean;
+    invoices: boolean;
+    auditLog: boolean;
+    alertHistory: boolean;
     settings: boolean;
   };
+  changes: Partial<Record<RestoreCollectionKey, RestoreCollectionChanges>>;
 }
 
 interface RestoreOptions {
   mode?: 'merge' | 'replace';
+  selection?: RestoreSelection;
 }
 
 const isRecord = (value: unknown): value is Record<string, unknown> => {
@@ -64,6 +90,7 @@ const ENV_GOOGLE_MAPS_MAP_ID_DARK = String(import.meta.env.VITE_GOOGLE_MAPS_MAP_
 
 const LEGACY_CONFIRMATION_REPLY_YES = 'Reply YES to confirm.';
 const LEGACY_BRAND_LINE_PATTERN = /^(Control Taxi|Andrew's Taxi)\s*🙏\n/;
+const LEGACY_CONFIRMATION_BRAND_LINE = "Andrew's Taxi\n";
 
 const migrateLegacyTemplates = (rawTemplates: unknown): { templates: Settings['templates']; changed: boolean } => {
   const nextTemplates: Settings['templates'] = {
@@ -89,6 +116,12 @@ const migrateLegacyTemplates = (rawTemplates: unknown): { templates: Settings['t
     changed = true;
   }
 
+  // The company line now follows the active workspace's branding.
+  if (nextTemplates.trip_confirmation.startsWith(LEGACY_CONFIRMATION_BRAND_LINE)) {
+    nextTemplates.trip_confirmation = `{company_name}\n${nextTemplates.trip_confirmation.slice(LEGACY_CONFIRMATION_BRAND_LINE.length)}`;
+    changed = true;
+  }
+
   if (LEGACY_BRAND_LINE_PATTERN.test(nextTemplates.feedback_request)) {
     nextTemplates.feedback_request = DEFAULT_TEMPLATES.feedback_request;
     changed = true;
@@ -108,13 +141,13 @@ const normalizeSyncEpoch = (value: unknown): number | null => {
 };
 
 export const getSyncEpoch = (): number => {
-  const raw = localStorage.getItem(LOCAL_STORAGE_KEYS.SYNC_EPOCH);
+  const raw = localStorage.getItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_EPOCH));
   const parsed = normalizeSyncEpoch(raw === null ? null : Number(raw));
   return parsed ?? 0;
 };
 
 export const setSyncEpochValue = (value: number): void => {
-  localStorage.setItem(LOCAL_STORAGE_KEYS.SYNC_EPOCH, String(Math.max(0, Math.floor(value))));
+  localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_EPOCH), String(Math.max(0, Math.floor(value))));
 };
 
 export const bumpSyncEpoch = (): number => {
@@ -124,16 +157,44 @@ export const bumpSyncEpoch = (): number => {
 };
 
 export const getSyncResetToken = (): string => {
-  return String(localStorage.getItem(LOCAL_STORAGE_KEYS.SYNC_RESET_TOKEN) || '').trim();
+  return String(localStorage.getItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_RESET_TOKEN)) || '').trim();
 };
 
 export const setSyncResetTokenValue = (token: string): void => {
   const normalized = String(token || '').trim();
   if (!normalized) {
-    localStorage.removeItem(LOCAL_STORAGE_KEYS.SYNC_RESET_TOKEN);
+    localStorage.removeItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_RESET_TOKEN));
+    return;
+  }
+  localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_RESET_TOKEN), normalized);
+};
+
+// Kept on this device only: settings sync and backups never carry the WhatsApp access token.
+export const getWhatsAppCloudToken = (): string => {
+  return String(localStorage.getItem(scopeStorageKey(LOCAL_STORAGE_KEYS.WHATSAPP_CLOUD_TOKEN)) || '').trim();
+};
+
+export const setWhatsAppCloudToken = (token: string): void => {
+  const normalized = String(token || '').trim();
+  if (!normalized) {
+    localStorage.removeItem(scopeStorageKey(LOCAL_STORAGE_KEYS.WHATSAPP_CLOUD_TOKEN));
+    return;
+  }
+  localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.WHATSAPP_CLOUD_TOKEN), normalized);
+};
+
+// Device-local for the same reason: the token is only ever sent to the host configured on this device.
+export const getWhatsAppCloudApiBaseUrl = (): string => {
+  return normalizeWhatsAppCloudApiBaseUrl(localStorage.getItem(scopeStorageKey(LOCAL_STORAGE_KEYS.WHATSAPP_CLOUD_API_BASE_URL)));
+};
+
+export const setWhatsAppCloudApiBaseUrl = (apiBaseUrl: string): void => {
+  const normalized = normalizeWhatsAppCloudApiBaseUrl(apiBaseUrl);
+  if (normalized === normalizeWhatsAppCloudApiBaseUrl('')) {
+    localStorage.removeItem(scopeStorageKey(LOCAL_STORAGE_KEYS.WHATSAPP_CLOUD_API_BASE_URL));
     return;
   }
-  localStorage.setItem(LOCAL_STORAGE_KEYS.SYNC_RESET_TOKEN, normalized);
+  localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.WHATSAPP_CLOUD_API_BASE_URL), normalized);
 };
 
 export const rotateSyncResetToken = (): string => {
@@ -142,6 +203,59 @@ export const rotateSyncResetToken = (): string => {
   return token;
 };
 
+const stampVersions = <T extends object>(previous: T[], next: T[], getKey: (item: T) => string | number | undefined): T[] => {
+  return stampRecordVersions(previous, next, getKey, getOrCreateCloudSyncClientId(), new Date().toISOString());
+};
+
+// The sync base is the last payload known to be in the cloud; merges diff both sides against it.
+export const getSyncBase = (): Record<string, unknown> | null => {
+  try {
+    const parsed = readDocument(LOCAL_STORAGE_KEYS.SYNC_BASE);
+    return isRecord(parsed) ? parsed : null;
+  } catch (e) {
+    console.error('Failed to load sync base', e);
+    return null;
+  }
+};
+
+export const saveSyncBase = (payload: unknown): void => {
+  if (!isRecord(payload)) return;
+  try {
+    writeDocument(LOCAL_STORAGE_KEYS.SYNC_BASE, payload);
+  } catch (e) {
+    console.error('Failed to save sync base', e);
+  }
+};
+
+export const getSyncConflicts = (): SyncConflict[] => {
+  try {
+    const data = localStorage.getItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_CONFLICTS));
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error('Failed to load sync conflicts', e);
+    return [];
+  }
+};
+
+export const saveSyncConflicts = (conflicts: SyncConflict[]): void => {
+  localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_CONFLICTS), JSON.stringify(conflicts));
+};
+
+export const getSyncOutbox = (): SyncOutboxEntry[] => {
+  try {
+    const data = localStorage.getItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_OUTBOX));
+    const parsed = data ? JSON.parse(data) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to load sync outbox', e);
+    return [];
+  }
+};
+
+export const saveSyncOutbox = (entries: SyncOutboxEntry[]): void => {
+  localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_OUTBOX), JSON.stringify(entries));
+};
+
 // --- SYSTEM WIDE ---
 export const getFullSystemData = (options?: { includeSettings?: boolean }) => {
   const includeSettings = options?.includeSettings === true;
@@ -156,6 +270,10 @@ export const getFullSystemData = (options?: { includeSettings?: boolean }) => {
     alerts: getAlerts(),
     creditLedger: getCreditLedger(),
     receipts: getReceipts(),
+    tripSeries: getTripSeries(),
+    invoices: getInvoices(),
+    auditLog: getAuditLog(),
+    alertHistory: getAlertHistory(),
     ...(includeSettings ? { settings: getSettings() } : {}),
     timestamp: new Date().toISOString(),
     version: "2.1.0"
@@ -167,7 +285,17 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Backup must be a JSON object.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
+      hasSettings: false,
+    };
+  }
+
+  if (isEncryptedBackupEnvelope(data)) {
+    return {
+      isValid: false,
+      encrypted: true,
+      error: 'Backup is encrypted. Enter its passphrase to unlock it.',
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -178,7 +306,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Backup version is missing or invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -187,7 +315,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Sync epoch section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -196,7 +324,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Reset token section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -205,7 +333,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Trips section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -214,7 +342,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Deleted trips section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -223,7 +351,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Drivers section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -232,7 +360,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Customers section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -241,7 +369,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Alerts section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -250,7 +378,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Credit ledger section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -259,7 +387,34 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Receipts section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
+      hasSettings: false,
+    };
+  }
+
+  if ('tripSeries' in backup && !Array.isArray(backup.tripSeries)) {
+    return {
+      isValid: false,
+      error: 'Trip series section is invalid.',
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
+      hasSettings: false,
+    };
+  }
+
+  if ('invoices' in backup && !Array.isArray(backup.invoices)) {
+    return {
+      isValid: false,
+      error: 'Invoices section is invalid.',
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
+      hasSettings: false,
+    };
+  }
+
+  if ('auditLog' in backup && !Array.isArray(backup.auditLog)) {
+    return {
+      isValid: false,
+      error: 'Audit log section is invalid.',
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -268,7 +423,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     return {
       isValid: false,
       error: 'Settings section is invalid.',
-      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0 },
+      counts: { trips: 0, deletedTrips: 0, drivers: 0, customers: 0, alerts: 0, creditLedger: 0, receipts: 0, tripSeries: 0, invoices: 0, auditLog: 0, alertHistory: 0 },
       hasSettings: false,
     };
   }
@@ -281,10 +436,14 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
     alerts: Array.isArray(backup.alerts) ? backup.alerts.length : 0,
     creditLedger: Array.isArray(backup.creditLedger) ? backup.creditLedger.length : 0,
     receipts: Array.isArray(backup.receipts) ? backup.receipts.length : 0,
+    tripSeries: Array.isArray(backup.tripSeries) ? backup.tripSeries.length : 0,
+    invoices: Array.isArray(backup.invoices) ? backup.invoices.length : 0,
+    auditLog: Array.isArray(backup.auditLog) ? backup.auditLog.length : 0,
+    alertHistory: Array.isArray(backup.alertHistory) ? backup.alertHistory.length : 0,
   };
   const hasSettings = isRecord(backup.settings);
 
-  if (counts.trips + counts.deletedTrips + counts.drivers + counts.customers + counts.alerts + counts.creditLedger + counts.receipts === 0 && !hasSettings) {
+  if (counts.trips + counts.deletedTrips + counts.drivers + counts.customers + counts.alerts + counts.creditLedger + counts.receipts + counts.tripSeries + counts.invoices + counts.auditLog + counts.alertHistory === 0 && !hasSettings) {
     return {
       isValid: false,
       error: 'Backup has no restorable sections.',
@@ -305,6 +464,7 @@ export const inspectFullSystemBackup = (data: unknown): BackupInspection => {
 export const restoreFullSystemData = (data: unknown, options?: RestoreOptions): RestoreResult => {
   const inspection = inspectFullSystemBackup(data);
   const mode = options?.mode === 'replace' ? 'replace' : 'merge';
+  const selection = options?.selection;
   const applied = {
     trips: false,
     deletedTrips: false,
@@ -313,11 +473,15 @@ export const restoreFullSystemData = (data: unknown, options?: RestoreOptions):
     alerts: false,
     creditLedger: false,
     receipts: false,
+    tripSeries: false,
+    invoices: false,
+    auditLog: false,
+    alertHistory: false,
     settings: false,
   };
 
   if (!inspection.isValid) {
-    return { ok: false, error: inspection.error || 'Invalid backup.', inspection, applied };
+    return { ok: false, error: inspection.error || 'Invalid backup.', inspection, applied, changes: {} };
   }
 
   const backup = data as FullSystemBackup;
@@ -346,59 +510,45 @@ export const restoreFullSystemData = (data: unknown, options?: RestoreOptions):
     return Array.from(map.values());
   };
 
-  if (Array.isArray(backup.trips)) {
-    const nextTrips = mode === 'replace'
-      ? backup.trips
-      : mergeByKey(getTrips(), backup.trips, trip => trip.id);
-    localStorage.setItem(LOCAL_STORAGE_KEYS.TRIPS, JSON.stringify(nextTrips));
-    applied.trips = true;
-  }
-  if (Array.isArray(backup.deletedTrips)) {
-    const nextDeletedTrips = mode === 'replace'
-      ? backup.deletedTrips
-      : mergeByKey(getDeletedTrips(), backup.deletedTrips, record => record.archiveId);
-    localStorage.setItem(LOCAL_STORAGE_KEYS.DELETED_TRIPS, JSON.stringify(nextDeletedTrips));
-    applied.deletedTrips = true;
-  }
-  if (Array.isArray(backup.drivers)) {
-    const nextDrivers = mode === 'replace'
-      ? backup.drivers
-      : mergeByKey(getDrivers(), backup.drivers, driver => driver.id);
-    localStorage.setItem(LOCAL_STORAGE_KEYS.DRIVERS, JSON.stringify(nextDrivers));
-    applied.drivers = true;
-  }
-  if (Array.isArray(backup.customers)) {
-    const nextCustomers = mode === 'replace'
-      ? backup.customers
-      : mergeCustomerCollections(getCustomers(), backup.customers).customers;
-    localStorage.setItem(LOCAL_STORAGE_KEYS.CUSTOMERS, JSON.stringify(nextCustomers));
-    applied.customers = true;
-  }
-  if (Array.isArray(backup.alerts)) {
-    const nextAlerts = mode === 'replace'
-      ? backup.alerts
-      : mergeByKey(getAlerts(), backup.alerts, alert => alert.id);
-    localStorage.setItem(LOCAL_STORAGE_KEYS.ALERTS, JSON.stringify(nextAlerts));
-    applied.alerts = true;
-  }
-
-  if (Array.isArray(backup.creditLedger)) {
-    const nextCreditLedger = mode === 'replace'
-      ? backup.creditLedger
-      : mergeByKey(getCreditLedger(), backup.creditLedger, entry => entry.id);
-    localStorage.setItem(LOCAL_STORAGE_KEYS.CREDIT_LEDGER, JSON.stringify(nextCreditLedger));
-    applied.creditLedger = true;
-  }
-
-  if (Array.isArray(backup.receipts)) {
-    const nextReceipts = mode === 'replace'
-      ? backup.receipts
-      : mergeByKey(getReceipts(), backup.receipts, entry => entry.id);
-    localStorage.setItem(LOCAL_STORAGE_KEYS.RECEIPTS, JSON.stringify(nextReceipts));
-    applied.receipts = true;
-  }
-
-  if (isRecord(backup.settings)) {
+  const changes: RestoreResult['changes'] = {};
+  const applyCollection = <T extends object>(
+    collection: RestoreCollectionKey,
+    storageKey: string,
+    incoming: T[] | undefined,
+    current: T[],
+    mergeAll: (existing: T[], next: T[]) => T[],
+    replaceAll: (next: T[]) => T[] = next => next
+  ) => {
+    if (!Array.isArray(incoming)) return;
+    const choice = selection ? selection.collections[collection] : 'all';
+    if (!choice || (Array.isArray(choice) && choice.length === 0)) return;
+
+    const next = choice === 'all'
+      ? (mode === 'replace' ? replaceAll(incoming) : mergeAll(current, incoming))
+      : applySelectedRecords(collection, current, incoming, choice);
+    writeCollection(storageKey, next);
+    applied[collection] = true;
+    changes[collection] = countRestoreChanges(collection, current, next);
+  };
+
+  applyCollection('trips', LOCAL_STORAGE_KEYS.TRIPS, backup.trips, getTrips(), (existing, next) => mergeByKey(existing, next, trip => trip.id));
+  applyCollection('deletedTrips', LOCAL_STORAGE_KEYS.DELETED_TRIPS, backup.deletedTrips, getDeletedTrips(), (existing, next) => mergeByKey(existing, next, record => record.archiveId));
+  applyCollection('drivers', LOCAL_STORAGE_KEYS.DRIVERS, backup.drivers, getDrivers(), (existing, next) => mergeByKey(existing, next, driver => driver.id));
+  applyCollection('customers', LOCAL_STORAGE_KEYS.CUSTOMERS, backup.customers, getCustomers(), (existing, next) => mergeCustomerCollections(existing, next).customers);
+  applyCollection('alerts', LOCAL_STORAGE_KEYS.ALERTS, backup.alerts, getAlerts(), (existing, next) => mergeByKey(existing, next, alert => alert.id));
+  applyCollection('creditLedger', LOCAL_STORAGE_KEYS.CREDIT_LEDGER, backup.creditLedger, getCreditLedger(), (existing, next) => mergeByKey(existing, next, entry => entry.id));
+  applyCollection('receipts', LOCAL_STORAGE_KEYS.RECEIPTS, backup.receipts, getReceipts(), (existing, next) => mergeByKey(existing, next, entry => entry.id));
+  applyCollection('tripSeries', LOCAL_STORAGE_KEYS.TRIP_SERIES, backup.tripSeries, getTripSeries(), (existing, next) => mergeByKey(existing, next, series => series.id));
+  applyCollection('invoices', LOCAL_STORAGE_KEYS.INVOICES, backup.invoices, getInvoices(), (existing, next) => mergeByKey(existing, next, invoice => invoice.id));
+
+  // The audit log is append-only, so even a replace keeps local entries the incoming data has not seen.
+  const currentAuditLog = getAuditLog();
+  const mergeAuditLog = (existing: AuditLogEntry[], next: AuditLogEntry[]) => mergeByKey(existing, next, entry => entry.id)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  applyCollection('auditLog', LOCAL_STORAGE_KEYS.AUDIT_LOG, backup.auditLog, currentAuditLog, mergeAuditLog, next => mergeAuditLog(currentAuditLog, next));
+  applyCollection('alertHistory', LOCAL_STORAGE_KEYS.ALERT_HISTORY, backup.alertHistory, getAlertHistory(), (existing, next) => pruneAlertHistory(mergeByKey(existing, next, entry => entry.id)), next => pruneAlertHistory(next));
+
+  if (isRecord(backup.settings) && (!selection || selection.settings)) {
     const templates = isRecord(backup.settings.templates) ? backup.settings.templates : DEFAULT_TEMPLATES;
 
     saveSettings({
@@ -413,6 +563,11 @@ export const restoreFullSystemData = (data: unknown, options?: RestoreOptions):
       ownerDriverCompanySharePercent: typeof backup.settings.ownerDriverCompanySharePercent === 'number' ? backup.settings.ownerDriverCompanySharePercent : DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT,
       companyCarDriverGasCompanySharePercent: typeof backup.settings.companyCarDriverGasCompanySharePercent === 'number' ? backup.settings.companyCarDriverGasCompanySharePercent : DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT,
       otherDriverCompanySharePercent: typeof backup.settings.otherDriverCompanySharePercent === 'number' ? backup.settings.otherDriverCompanySharePercent : DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT,
+      fareRules: normalizeFareRules(backup.settings.fareRules),
+      autoDispatch: normalizeAutoDispatchConfig(backup.settings.autoDispatch),
+      alertRules: normalizeAlertRules(backup.settings.alertRules),
+      alertEscalation: normalizeAlertEscalationConfig(backup.settings.alertEscalation),
+      whatsAppCloud: normalizeWhatsAppCloudConfig(backup.settings.whatsAppCloud),
       templates: {
         trip_confirmation: typeof templates.trip_confirmation === 'string' ? templates.trip_confirmation : DEFAULT_TEMPLATES.trip_confirmation,
         feedback_request: typeof templates.feedback_request === 'string' ? templates.feedback_request : DEFAULT_TEMPLATES.feedback_request,
@@ -434,19 +589,25 @@ export const restoreFullSystemData = (data: unknown, options?: RestoreOptions):
     setSyncResetTokenValue(incomingResetToken);
   }
 
-  return { ok: true, inspection, applied };
+  return { ok: true, inspection, applied, changes };
 };
 
 export const clearOperationalData = () => {
   bumpSyncEpoch();
   rotateSyncResetToken();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.TRIPS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DELETED_TRIPS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DRIVERS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.CUSTOMERS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.ALERTS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.CREDIT_LEDGER, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.RECEIPTS, JSON.stringify([]));
+  writeCollection(LOCAL_STORAGE_KEYS.TRIPS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.DELETED_TRIPS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.DRIVERS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.CUSTOMERS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.ALERTS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.CREDIT_LEDGER, []);
+  writeCollection(LOCAL_STORAGE_KEYS.RECEIPTS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.TRIP_SERIES, []);
+  writeCollection(LOCAL_STORAGE_KEYS.INVOICES, []);
+  writeCollection(LOCAL_STORAGE_KEYS.ALERT_HISTORY, []);
+  removeDocument(LOCAL_STORAGE_KEYS.SYNC_BASE);
+  localStorage.removeItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_CONFLICTS));
+  localStorage.removeItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_OUTBOX));
 };
 
 export const clearOperationalDataAtEpoch = (syncEpoch: number, resetToken?: string) => {
@@ -454,19 +615,24 @@ export const clearOperationalDataAtEpoch = (syncEpoch: number, resetToken?: stri
   if (typeof resetToken === 'string' && resetToken.trim()) {
     setSyncResetTokenValue(resetToken);
   }
-  localStorage.setItem(LOCAL_STORAGE_KEYS.TRIPS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DELETED_TRIPS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DRIVERS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.CUSTOMERS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.ALERTS, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.CREDIT_LEDGER, JSON.stringify([]));
-  localStorage.setItem(LOCAL_STORAGE_KEYS.RECEIPTS, JSON.stringify([]));
+  writeCollection(LOCAL_STORAGE_KEYS.TRIPS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.DELETED_TRIPS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.DRIVERS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.CUSTOMERS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.ALERTS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.CREDIT_LEDGER, []);
+  writeCollection(LOCAL_STORAGE_KEYS.RECEIPTS, []);
+  writeCollection(LOCAL_STORAGE_KEYS.TRIP_SERIES, []);
+  writeCollection(LOCAL_STORAGE_KEYS.INVOICES, []);
+  writeCollection(LOCAL_STORAGE_KEYS.ALERT_HISTORY, []);
+  removeDocument(LOCAL_STORAGE_KEYS.SYNC_BASE);
+  localStorage.removeItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_CONFLICTS));
+  localStorage.removeItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SYNC_OUTBOX));
 };
 
 export const getCreditLedger = (): CreditLedgerEntry[] => {
   try {
-    const data = localStorage.getItem(LOCAL_STORAGE_KEYS.CREDIT_LEDGER);
-    return data ? JSON.parse(data) : [];
+    return readCollection(LOCAL_STORAGE_KEYS.CREDIT_LEDGER);
   } catch (e) {
     console.error('Failed to load credit ledger', e);
     return [];
@@ -474,14 +640,14 @@ export const getCreditLedger = (): CreditLedgerEntry[] => {
 };
 
 export const saveCreditLedger = (entries: CreditLedgerEntry[]): void => {
+  const stamped = stampVersions(getCreditLedger(), entries, entry => entry.id);
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.CREDIT_LEDGER, JSON.stringify(entries));
+  writeCollection(LOCAL_STORAGE_KEYS.CREDIT_LEDGER, stamped);
 };
 
 export const getReceipts = (): ReceiptRecord[] => {
   try {
-    const data = localStorage.getItem(LOCAL_STORAGE_KEYS.RECEIPTS);
-    return data ? JSON.parse(data) : [];
+    return readCollection(LOCAL_STORAGE_KEYS.RECEIPTS);
   } catch (e) {
     console.error('Failed to load receipts', e);
     return [];
@@ -490,14 +656,79 @@ export const getReceipts = (): ReceiptRecord[] => {
 
 export const saveReceipts = (entries: ReceiptRecord[]): void => {
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.RECEIPTS, JSON.stringify(entries));
+  writeCollection(LOCAL_STORAGE_KEYS.RECEIPTS, entries);
+};
+
+export const getTripSeries = (): TripSeries[] => {
+  try {
+    return readCollection(LOCAL_STORAGE_KEYS.TRIP_SERIES);
+  } catch (e) {
+    console.error('Failed to load trip series', e);
+    return [];
+  }
+};
+
+export const saveTripSeries = (series: TripSeries[]): void => {
+  bumpSyncEpoch();
+  writeCollection(LOCAL_STORAGE_KEYS.TRIP_SERIES, series);
+};
+
+export const getInvoices = (): CustomerInvoice[] => {
+  try {
+    return readCollection(LOCAL_STORAGE_KEYS.INVOICES);
+  } catch (e) {
+    console.error('Failed to load invoices', e);
+    return [];
+  }
+};
+
+export const saveInvoices = (invoices: CustomerInvoice[]): void => {
+  bumpSyncEpoch();
+  writeCollection(LOCAL_STORAGE_KEYS.INVOICES, invoices);
+};
+
+// --- AUDIT LOG ---
+export const getAuditLog = (): AuditLogEntry[] => {
+  try {
+    return readCollection(LOCAL_STORAGE_KEYS.AUDIT_LOG);
+  } catch (e) {
+    console.error('Failed to load audit log', e);
+    return [];
+  }
+};
+
+export const appendAuditEntries = (entries: AuditLogEntry[]): AuditLogEntry[] => {
+  const nextAuditLog = [...entries, ...getAuditLog()];
+  if (entries.length === 0) return nextAuditLog;
+  bumpSyncEpoch();
+  writeCollection(LOCAL_STORAGE_KEYS.AUDIT_LOG, nextAuditLog);
+  return nextAuditLog;
+};
+
+// --- ALERT HISTORY ---
+export const getAlertHistory = (): AlertHistoryEntry[] => {
+  try {
+    return readCollection(LOCAL_STORAGE_KEYS.ALERT_HISTORY);
+  } catch (e) {
+    console.error('Failed to load alert history', e);
+    return [];
+  }
+};
+
+// Entries are keyed per alert occurrence, so a device recording the same occurrence again replaces rather than duplicates it.
+export const appendAlertHistory = (entries: AlertHistoryEntry[]): AlertHistoryEntry[] => {
+  if (entries.length === 0) return getAlertHistory();
+  const incomingIds = new Set(entries.map(entry => entry.id));
+  const nextHistory = pruneAlertHistory([...entries, ...getAlertHistory().filter(entry => !incomingIds.has(entry.id))]);
+  bumpSyncEpoch();
+  writeCollection(LOCAL_STORAGE_KEYS.ALERT_HISTORY, nextHistory);
+  return nextHistory;
 };
 
 // --- ALERTS ---
 export const getAlerts = (): MissionAlert[] => {
   try {
-    const data = localStorage.getItem(LOCAL_STORAGE_KEYS.ALERTS);
-    return data ? JSON.parse(data) : [];
+    return readCollection(LOCAL_STORAGE_KEYS.ALERTS);
   } catch (e) {
     console.error("Failed to load alerts", e);
     return [];
@@ -506,16 +737,15 @@ export const getAlerts = (): MissionAlert[] => {
 
 export const saveAlerts = (alerts: MissionAlert[]): void => {
   // Keep only active alerts or very recent ones to keep storage clean
-  const limitedAlerts = alerts.slice(-100); 
+  const limitedAlerts = stampVersions(getAlerts(), alerts.slice(-100), alert => alert.id);
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.ALERTS, JSON.stringify(limitedAlerts));
+  writeCollection(LOCAL_STORAGE_KEYS.ALERTS, limitedAlerts);
 };
 
 // --- TRIPS ---
 export const getTrips = (): Trip[] => {
   try {
-    const data = localStorage.getItem(LOCAL_STORAGE_KEYS.TRIPS);
-    return data ? JSON.parse(data) : [];
+    return readCollection(LOCAL_STORAGE_KEYS.TRIPS);
   } catch (e) {
     console.error("Failed to load trips", e);
     return [];
@@ -524,9 +754,9 @@ export const getTrips = (): Trip[] => {
 
 export const saveTrip = (trip: Trip): Trip[] => {
   const trips = getTrips();
-  const newTrips = [trip, ...trips];
+  const newTrips = [...stampVersions([], [trip], entry => entry.id), ...trips];
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.TRIPS, JSON.stringify(newTrips));
+  writeCollection(LOCAL_STORAGE_KEYS.TRIPS, newTrips);
   return newTrips;
 };
 
@@ -547,18 +777,24 @@ export const saveDispatch = (
   }
 };
 
+export const saveTrips = (trips: Trip[]): Trip[] => {
+  const stamped = stampVersions(getTrips(), trips, trip => trip.id);
+  bumpSyncEpoch();
+  writeCollection(LOCAL_STORAGE_KEYS.TRIPS, stamped);
+  return stamped;
+};
+
 export const updateTrip = (updatedTrip: Trip): Trip[] => {
   const trips = getTrips();
-  const newTrips = trips.map(t => t.id === updatedTrip.id ? updatedTrip : t);
+  const newTrips = stampVersions(trips, trips.map(t => t.id === updatedTrip.id ? updatedTrip : t), trip => trip.id);
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.TRIPS, JSON.stringify(newTrips));
+  writeCollection(LOCAL_STORAGE_KEYS.TRIPS, newTrips);
   return newTrips;
 };
 
 export const getDeletedTrips = (): DeletedTripRecord[] => {
   try {
-    const data = localStorage.getItem(LOCAL_STORAGE_KEYS.DELETED_TRIPS);
-    return data ? JSON.parse(data) : [];
+    return readCollection(LOCAL_STORAGE_KEYS.DELETED_TRIPS);
   } catch (e) {
     console.error('Failed to load deleted trips', e);
     return [];
@@ -567,7 +803,7 @@ export const getDeletedTrips = (): DeletedTripRecord[] => {
 
 export const saveDeletedTrips = (deletedTrips: DeletedTripRecord[]): DeletedTripRecord[] => {
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DELETED_TRIPS, JSON.stringify(deletedTrips));
+  writeCollection(LOCAL_STORAGE_KEYS.DELETED_TRIPS, deletedTrips);
   return deletedTrips;
 };
 
@@ -580,7 +816,7 @@ export const archiveCancelledTrip = (tripId: number): { trips: Trip[]; deletedTr
 
   const nextTrips = trips.filter(entry => entry.id !== tripId);
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.TRIPS, JSON.stringify(nextTrips));
+  writeCollection(LOCAL_STORAGE_KEYS.TRIPS, nextTrips);
 
   const archiveRecord: DeletedTripRecord = {
     archiveId: `deleted-${target.id}-${Date.now()}`,
@@ -590,7 +826,7 @@ export const archiveCancelledTrip = (tripId: number): { trips: Trip[]; deletedTr
   };
 
   const nextDeletedTrips = [archiveRecord, ...getDeletedTrips()];
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DELETED_TRIPS, JSON.stringify(nextDeletedTrips));
+  writeCollection(LOCAL_STORAGE_KEYS.DELETED_TRIPS, nextDeletedTrips);
 
   return { trips: nextTrips, deletedTrips: nextDeletedTrips };
 };
@@ -607,10 +843,10 @@ export const restoreDeletedTrip = (archiveId: string): { trips: Trip[]; deletedT
   const alreadyExists = currentTrips.some(entry => entry.id === restoredTrip.id);
   const nextTrips = alreadyExists ? currentTrips : [restoredTrip, ...currentTrips];
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.TRIPS, JSON.stringify(nextTrips));
+  writeCollection(LOCAL_STORAGE_KEYS.TRIPS, nextTrips);
 
   const nextDeletedTrips = deletedTrips.filter(record => record.archiveId !== archiveId);
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DELETED_TRIPS, JSON.stringify(nextDeletedTrips));
+  writeCollection(LOCAL_STORAGE_KEYS.DELETED_TRIPS, nextDeletedTrips);
 
   return { trips: nextTrips, deletedTrips: nextDeletedTrips };
 };
@@ -618,8 +854,7 @@ export const restoreDeletedTrip = (archiveId: string): { trips: Trip[]; deletedT
 // --- CUSTOMERS ---
 export const getCustomers = (): Customer[] => {
   try {
-    const data = localStorage.getItem(LOCAL_STORAGE_KEYS.CUSTOMERS);
-    return data ? JSON.parse(data) : [];
+    return readCollection(LOCAL_STORAGE_KEYS.CUSTOMERS);
   } catch (e) {
     console.error("Failed to load customers", e);
     return [];
@@ -627,17 +862,17 @@ export const getCustomers = (): Customer[] => {
 };
 
 export const saveCustomers = (customers: Customer[]): void => {
+  const stamped = stampVersions(getCustomers(), customers, customer => customer.id);
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.CUSTOMERS, JSON.stringify(customers));
+  writeCollection(LOCAL_STORAGE_KEYS.CUSTOMERS, stamped);
 };
 
 // --- DRIVERS ---
 export const getDrivers = (): Driver[] => {
   try {
-    const data = localStorage.getItem(LOCAL_STORAGE_KEYS.DRIVERS);
-    if (!data) return [];
+    const parsed = readCollection<any>(LOCAL_STORAGE_KEYS.DRIVERS);
+    if (parsed.length === 0) return [];
     const fallbackExchangeRate = Number(getSettings().exchangeRate) || 90000;
-    const parsed = JSON.parse(data);
     return parsed.map((d: any) => {
       const normalizedFuelLogs = Array.isArray(d.fuelLogs)
         ? d.fuelLogs
@@ -731,15 +966,17 @@ export const saveDriver = (driver: Driver): Driver[] => {
   const existingIndex = drivers.findIndex(d => d.id === driver.id);
   let newDrivers;
   
+  const [stampedDriver] = stampVersions(existingIndex >= 0 ? [drivers[existingIndex]] : [], [driver], entry => entry.id);
+
   if (existingIndex >= 0) {
     newDrivers = [...drivers];
-    newDrivers[existingIndex] = driver;
+    newDrivers[existingIndex] = stampedDriver;
   } else {
-    newDrivers = [driver, ...drivers];
+    newDrivers = [stampedDriver, ...drivers];
   }
   
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DRIVERS, JSON.stringify(newDrivers));
+  writeCollection(LOCAL_STORAGE_KEYS.DRIVERS, newDrivers);
   return newDrivers;
 };
 
@@ -747,14 +984,14 @@ export const deleteDriver = (id: string): Driver[] => {
   const drivers = getDrivers();
   const newDrivers = drivers.filter(d => d.id !== id);
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.DRIVERS, JSON.stringify(newDrivers));
+  writeCollection(LOCAL_STORAGE_KEYS.DRIVERS, newDrivers);
   return newDrivers;
 };
 
 // --- SETTINGS ---
 export const getSettings = (): Settings => {
   try {
-    const data = localStorage.getItem(LOCAL_STORAGE_KEYS.SETTINGS);
+    const data = localStorage.getItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SETTINGS));
     if (data) {
       const parsed = JSON.parse(data);
       if (!isRecord(parsed)) {
@@ -765,7 +1002,7 @@ export const getSettings = (): Settings => {
 
       if (migratedTemplates.changed) {
         localStorage.setItem(
-          LOCAL_STORAGE_KEYS.SETTINGS,
+          scopeStorageKey(LOCAL_STORAGE_KEYS.SETTINGS),
           JSON.stringify({
             ...parsed,
             templates: migratedTemplates.templates,
@@ -792,6 +1029,11 @@ export const getSettings = (): Settings => {
         ownerDriverCompanySharePercent: parsed.ownerDriverCompanySharePercent ?? DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT,
         companyCarDriverGasCompanySharePercent: parsed.companyCarDriverGasCompanySharePercent ?? DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT,
         otherDriverCompanySharePercent: parsed.otherDriverCompanySharePercent ?? DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT,
+        fareRules: normalizeFareRules(parsed.fareRules),
+        autoDispatch: normalizeAutoDispatchConfig(parsed.autoDispatch),
+        alertRules: normalizeAlertRules(parsed.alertRules),
+        alertEscalation: normalizeAlertEscalationConfig(parsed.alertEscalation),
+        whatsAppCloud: normalizeWhatsAppCloudConfig(parsed.whatsAppCloud),
         templates: migratedTemplates.templates
       };
     }
@@ -818,11 +1060,16 @@ export const getSettings = (): Settings => {
     ownerDriverCompanySharePercent: DEFAULT_OWNER_DRIVER_COMPANY_SHARE_PERCENT,
     companyCarDriverGasCompanySharePercent: DEFAULT_COMPANY_CAR_DRIVER_GAS_COMPANY_SHARE_PERCENT,
     otherDriverCompanySharePercent: DEFAULT_OTHER_DRIVER_COMPANY_SHARE_PERCENT,
+    fareRules: normalizeFareRules(null),
+    autoDispatch: normalizeAutoDispatchConfig(null),
+    alertRules: normalizeAlertRules(null),
+    alertEscalation: normalizeAlertEscalationConfig(null),
+    whatsAppCloud: normalizeWhatsAppCloudConfig(null),
     templates: DEFAULT_TEMPLATES
   };
 };
 
 export const saveSettings = (settings: Settings): void => {
   bumpSyncEpoch();
-  localStorage.setItem(LOCAL_STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+  localStorage.setItem(scopeStorageKey(LOCAL_STORAGE_KEYS.SETTINGS), JSON.stringify(settings));
 };
@@ -0,0 +1,303 @@
+import { SyncCollectionKey, SyncConflict, TripStatus } from '../types';
+
+type SyncRecord = Record<string, unknown>;
+type SyncPayload = Record<string, unknown>;
+
+export interface SyncMergeResult {
+  merged: SyncPayload;
+  conflicts: SyncConflict[];
+  changedFromRemote: boolean;
+}
+
+const VERSION_FIELDS = new Set(['updatedAt', 'updatedBy']);
+
+export const SYNC_COLLECTION_KEYS: Exclude<SyncCollectionKey, 'settings'>[] = [
+  'trips',
+  'deletedTrips',
+  'drivers',
+  'customers',
+  'alerts',
+  'creditLedger',
+  'receipts',
+  'tripSeries',
+  'invoices',
+  'auditLog',
+  'alertHistory',
+];
+
+export const SYNC_COLLECTION_LABELS: Record<SyncCollectionKey, string> = {
+  trips: 'Trip',
+  deletedTrips: 'Archived Trip',
+  drivers: 'Driver',
+  customers: 'Customer',
+  alerts: 'Alert',
+  creditLedger: 'Ledger Entry',
+  receipts: 'Receipt',
+  tripSeries: 'Trip Series',
+  invoices: 'Invoice',
+  auditLog: 'Audit Entry',
+  alertHistory: 'Alert History',
+  settings: 'Settings',
+};
+
+const isSyncRecord = (value: unknown): value is SyncRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const toTimestamp = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? new Date(value).getTime() : NaN;
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const getSyncRecordKey = (collection: SyncCollectionKey, record: SyncRecord): string => {
+  if (collection === 'settings') return 'settings';
+  const raw = collection === 'deletedTrips' ? record.archiveId : record.id;
+  return raw === undefined || raw === null ? '' : String(raw);
+};
+
+export const getSyncRecordLabel = (collection: SyncCollectionKey, record: SyncRecord | undefined): string => {
+  if (!record) return SYNC_COLLECTION_LABELS[collection];
+  switch (collection) {
+    case 'trips':
+      return `Trip #${String(record.id)} · ${String(record.customerName || 'Unknown')}`;
+    case 'deletedTrips':
+      return `Archived Trip #${String(isSyncRecord(record.trip) ? record.trip.id : record.archiveId)}`;
+    case 'drivers':
+    case 'customers':
+      return String(record.name || SYNC_COLLECTION_LABELS[collection]);
+    case 'creditLedger':
+      return `${String(record.partyName || 'Ledger')} · $${Number(record.amountUsd || 0).toFixed(2)}`;
+    case 'alerts':
+      return String(record.label || record.type || 'Alert');
+    case 'receipts':
+      return `Receipt #${String(record.receiptNumber || record.id)}`;
+    case 'invoices':
+      return `Invoice #${String(record.invoiceNumber || record.id)}`;
+    case 'tripSeries':
+      return String(record.label || 'Trip Series');
+    case 'auditLog':
+      return `${String(record.action || 'Audit')} · ${String(record.entityLabel || record.entityId || '')}`;
+    case 'alertHistory':
+      return `${String(record.label || 'Alert')} · ${String(record.subject || '')}`;
+    default:
+      return SYNC_COLLECTION_LABELS[collection];
+  }
+};
+
+// A record counts as changed only when its content moved; the version stamps alone are not an edit.
+const sameRecordContent = (a: SyncRecord, b: SyncRecord): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (VERSION_FIELDS.has(key)) continue;
+    if (!sameValue(a[key], b[key])) return false;
+  }
+  return true;
+};
+
+export const stampRecordVersions = <T extends object>(
+  previous: T[],
+  next: T[],
+  getKey: (item: T) => string | number | undefined,
+  clientId: string,
+  nowIso: string
+): T[] => {
+  const previousByKey = new Map<string | number, T>();
+  previous.forEach(item => {
+    const key = getKey(item);
+    if (key !== undefined && key !== '') previousByKey.set(key, item);
+  });
+
+  return next.map(item => {
+    const key = getKey(item);
+    const prior = key === undefined ? undefined : previousByKey.get(key);
+    if (prior && sameRecordContent(prior as SyncRecord, item as SyncRecord)) {
+      const priorRecord = prior as SyncRecord;
+      if (!priorRecord.updatedAt) return item;
+      return { ...item, updatedAt: priorRecord.updatedAt, updatedBy: priorRecord.updatedBy };
+    }
+    return { ...item, updatedAt: nowIso, updatedBy: clientId };
+  });
+};
+
+const pickNewer = (local: SyncRecord, remote: SyncRecord): SyncRecord => {
+  return toTimestamp(local.updatedAt) > toTimestamp(remote.updatedAt) ? local : remote;
+};
+
+const mergeRecord = (
+  collection: SyncCollectionKey,
+  recordId: string,
+  base: SyncRecord | undefined,
+  local: SyncRecord,
+  remote: SyncRecord,
+  detectedAt: string,
+  conflicts: SyncConflict[]
+): SyncRecord => {
+  // Without a common ancestor there is no way to tell which side edited a field, so the newer stamp wins.
+  if (!base) {
+    return sameRecordContent(local, remote) ? remote : pickNewer(local, remote);
+  }
+
+  const merged: SyncRecord = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    if (VERSION_FIELDS.has(key)) return;
+    const localValue = local[key];
+    const remoteValue = remote[key];
+    let value: unknown;
+
+    if (sameValue(localValue, remoteValue)) {
+      value = localValue;
+    } else if (sameValue(localValue, base[key])) {
+      value = remoteValue;
+    } else if (sameValue(remoteValue, base[key])) {
+      value = localValue;
+    } else {
+      value = localValue;
+      conflicts.push({
+        id: `${collection}:${recordId}:${key}`,
+        collection,
+        recordId,
+        recordLabel: getSyncRecordLabel(collection, local),
+        field: key,
+        localValue,
+        remoteValue,
+        ...(typeof local.updatedAt === 'string' ? { localUpdatedAt: local.updatedAt } : {}),
+        ...(typeof local.updatedBy === 'string' ? { localUpdatedBy: local.updatedBy } : {}),
+        ...(typeof remote.updatedAt === 'string' ? { remoteUpdatedAt: remote.updatedAt } : {}),
+        ...(typeof remote.updatedBy === 'string' ? { remoteUpdatedBy: remote.updatedBy } : {}),
+        detectedAt,
+      });
+    }
+
+    if (value !== undefined) merged[key] = value;
+  });
+
+  const newer = pickNewer(local, remote);
+  if (newer.updatedAt !== undefined) merged.updatedAt = newer.updatedAt;
+  if (newer.updatedBy !== undefined) merged.updatedBy = newer.updatedBy;
+  return merged;
+};
+
+const mergeCollection = (
+  collection: SyncCollectionKey,
+  baseItems: unknown,
+  localItems: unknown,
+  remoteItems: unknown,
+  detectedAt: string,
+  conflicts: SyncConflict[]
+): SyncRecord[] => {
+  const index = (items: unknown) => {
+    const map = new Map<string, SyncRecord>();
+    (Array.isArray(items) ? items : []).forEach(item => {
+      if (!isSyncRecord(item)) return;
+      const key = getSyncRecordKey(collection, item);
+      if (key) map.set(key, item);
+    });
+    return map;
+  };
+
+  const hasBase = Array.isArray(baseItems);
+  const base = index(baseItems);
+  const local = index(localItems);
+  const remote = index(remoteItems);
+  const merged: SyncRecord[] = [];
+
+  // Remote order leads so every client converges on the same ordering; local-only records follow.
+  const orderedKeys = [...remote.keys(), ...Array.from(local.keys()).filter(key => !remote.has(key))];
+
+  orderedKeys.forEach(key => {
+    const baseRecord = base.get(key);
+    const localRecord = local.get(key);
+    const remoteRecord = remote.get(key);
+
+    if (localRecord && remoteRecord) {
+      merged.push(mergeRecord(collection, key, baseRecord, localRecord, remoteRecord, detectedAt, conflicts));
+      return;
+    }
+
+    // A record missing on one side was deleted there if it existed at the last sync; an edit on the other side outlives the delete.
+    const survivor = localRecord || remoteRecord;
+    if (!survivor) return;
+    if (hasBase && baseRecord && sameRecordContent(baseRecord, survivor)) return;
+    merged.push(survivor);
+  });
+
+  return merged;
+};
+
+const isOpenOccurrenceRecord = (record: SyncRecord) => record.status === TripStatus.QUOTED || record.status === TripStatus.CONFIRMED;
+
+// Devices that materialized the same series occurrence before ids were derived from the series and date hold
+// it under different ids. Keep one copy per occurrence, preferring one that has moved past open, and never drop
+// an occurrence somebody has already worked on.
+const dedupeSeriesOccurrences = (records: SyncRecord[]): SyncRecord[] => {
+  const keeperByOccurrence = new Map<string, SyncRecord>();
+  records.forEach(record => {
+    if (typeof record.seriesId !== 'string' || typeof record.seriesOccurrenceDate !== 'string') return;
+    const occurrenceKey = `${record.seriesId}|${record.seriesOccurrenceDate}`;
+    const keeper = keeperByOccurrence.get(occurrenceKey);
+    if (!keeper || (isOpenOccurrenceRecord(keeper) && !isOpenOccurrenceRecord(record))) keeperByOccurrence.set(occurrenceKey, record);
+  });
+  return records.filter(record => {
+    if (typeof record.seriesId !== 'string' || typeof record.seriesOccurrenceDate !== 'string') return true;
+    if (!isOpenOccurrenceRecord(record)) return true;
+    return keeperByOccurrence.get(`${record.seriesId}|${record.seriesOccurrenceDate}`) === record;
+  });
+};
+
+export const mergeSyncPayloads = (
+  basePayload: unknown,
+  localPayload: unknown,
+  remotePayload: unknown,
+  detectedAt: string
+): SyncMergeResult => {
+  const base = isSyncRecord(basePayload) ? basePayload : null;
+  const local = isSyncRecord(localPayload) ? localPayload : {};
+  const remote = isSyncRecord(remotePayload) ? remotePayload : {};
+  const conflicts: SyncConflict[] = [];
+  const merged: SyncPayload = { ...remote };
+
+  SYNC_COLLECTION_KEYS.forEach(collection => {
+    if (!Array.isArray(remote[collection]) && !Array.isArray(local[collection])) return;
+    const records = mergeCollection(collection, base ? base[collection] : undefined, local[collection], remote[collection], detectedAt, conflicts);
+    merged[collection] = collection === 'trips' ? dedupeSeriesOccurrences(records) : records;
+  });
+
+  if (isSyncRecord(local.settings) && isSyncRecord(remote.settings)) {
+    const baseSettings = base && isSyncRecord(base.settings) ? base.settings : undefined;
+    merged.settings = baseSettings
+      ? mergeRecord('settings', 'settings', baseSettings, local.settings, remote.settings, detectedAt, conflicts)
+      : remote.settings;
+  }
+
+  const changedFromRemote = SYNC_COLLECTION_KEYS.some(collection => !sameValue(merged[collection], remote[collection])) ||
+    !sameValue(merged.settings, remote.settings);
+
+  return { merged, conflicts, changedFromRemote };
+};
+
+export const applySyncConflictValue = <T extends object>(
+  collection: SyncCollectionKey,
+  records: T[],
+  conflict: SyncConflict,
+  value: unknown
+): T[] => {
+  return records.map(record => {
+    if (getSyncRecordKey(collection, record as SyncRecord) !== conflict.recordId) return record;
+    const next = { ...record } as SyncRecord;
+    if (value === undefined) {
+      delete next[conflict.field];
+    } else {
+      next[conflict.field] = value;
+    }
+    return next as T;
+  });
+};
+
+export const formatSyncConflictValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  const encoded = JSON.stringify(value);
+  return encoded.length > 140 ? `${encoded.slice(0, 137)}...` : encoded;
+};
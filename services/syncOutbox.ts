@@ -0,0 +1,71 @@
+import { SyncMutationKind, SyncOutboxEntry } from '../types';
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export const SYNC_MUTATION_LABELS: Record<SyncMutationKind, string> = {
+  ADD_TRIP: 'Add trip',
+  UPDATE_TRIP: 'Update trip',
+  DELETE_TRIP: 'Delete trip',
+  RESTORE_TRIP: 'Restore trip',
+  SAVE_SERIES: 'Save trip series',
+  SKIP_OCCURRENCE: 'Skip series occurrence',
+  CANCEL_OCCURRENCE: 'Cancel series occurrence',
+  UPDATE_ALERT: 'Update alert',
+  SAVE_CUSTOMERS: 'Save customers',
+  REMOVE_CUSTOMER: 'Remove customer',
+  ADD_LEDGER_ENTRY: 'Add ledger entry',
+  RECORD_PAYMENT: 'Record payment',
+  SETTLE_LEDGER_ENTRY: 'Settle ledger entry',
+  CLOSE_PAYOUT: 'Close driver payout',
+  CREATE_INVOICE: 'Create invoice',
+  PAY_INVOICE: 'Pay invoice',
+  SAVE_DRIVER: 'Save driver',
+  REFUEL: 'Log refuel',
+  REMOVE_DRIVER: 'Remove driver',
+  UPDATE_SETTINGS: 'Update settings',
+  RESOLVE_CONFLICT: 'Resolve sync conflict',
+};
+
+export const createSyncOutboxEntry = (kind: SyncMutationKind, detail: string | undefined, nowIso: string): SyncOutboxEntry => ({
+  id: `mut-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  label: detail ? `${SYNC_MUTATION_LABELS[kind]} · ${detail}` : SYNC_MUTATION_LABELS[kind],
+  createdAt: nowIso,
+  attempts: 0,
+});
+
+export const getSyncRetryDelayMs = (attempts: number): number => {
+  const exponent = Math.max(0, Math.floor(attempts) - 1);
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.min(exponent, 16));
+};
+
+// Every publish carries the whole local state, so a failed attempt counts against each mutation it was carrying.
+export const markSyncOutboxAttemptFailed = (
+  entries: SyncOutboxEntry[],
+  attemptedIds: Set<string>,
+  error: string,
+  now: Date
+): SyncOutboxEntry[] => {
+  return entries.map(entry => {
+    if (!attemptedIds.has(entry.id)) return entry;
+    const attempts = entry.attempts + 1;
+    return {
+      ...entry,
+      attempts,
+      lastAttemptAt: now.toISOString(),
+      nextAttemptAt: new Date(now.getTime() + getSyncRetryDelayMs(attempts)).toISOString(),
+      lastError: error,
+    };
+  });
+};
+
+export const acknowledgeSyncOutbox = (entries: SyncOutboxEntry[], publishedIds: Set<string>): SyncOutboxEntry[] =>
+  entries.filter(entry => !publishedIds.has(entry.id));
+
+export const getNextSyncRetryAt = (entries: SyncOutboxEntry[]): number | null => {
+  const times = entries
+    .map(entry => (entry.nextAttemptAt ? new Date(entry.nextAttemptAt).getTime() : NaN))
+    .filter(time => Number.isFinite(time));
+  return times.length > 0 ? Math.min(...times) : null;
+};
@@ -0,0 +1,221 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { RecurrenceRule, Trip, TripSeries, TripSeriesTemplate, TripStatus } from '../types';
+
+export interface SeriesOccurrenceUpdateResult {
+  trips: Trip[];
+  updatedCount: number;
+  cancelledCount: number;
+}
+
+const DATE_KEY_FORMAT = 'yyyy-MM-dd';
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Hard stop for open-ended rules so a bad start date can never spin forever.
+const MAX_SERIES_SCAN_DAYS = 3 * 366;
+
+const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const isValidDateKey = (value?: string): value is string => {
+  return Boolean(value && DATE_KEY_PATTERN.test(value) && Number.isFinite(parseISO(value).getTime()));
+};
+
+export const toSeriesDateKey = (date: Date): string => format(date, DATE_KEY_FORMAT);
+
+export const validateRecurrenceRule = (rule: RecurrenceRule): string | null => {
+  if (!isValidDateKey(rule.startDate)) return 'Pick a valid start date.';
+  if (!TIME_OF_DAY_PATTERN.test(rule.timeOfDay)) return 'Pick a valid pickup time.';
+  if (rule.frequency === 'WEEKLY' && rule.weekdays.length === 0) return 'Pick at least one weekday.';
+  if (rule.untilDate !== undefined) {
+    if (!isValidDateKey(rule.untilDate)) return 'Pick a valid end date.';
+    if (rule.untilDate < rule.startDate) return 'End date must be on or after the start date.';
+  }
+  if (rule.occurrenceCount !== undefined && (!Number.isInteger(rule.occurrenceCount) || rule.occurrenceCount < 1)) {
+    return 'Occurrence count must be a whole number of at least 1.';
+  }
+  return null;
+};
+
+const matchesRecurrenceDay = (rule: RecurrenceRule, date: Date): boolean => {
+  const weekday = date.getDay();
+  if (rule.frequency === 'DAILY') return true;
+  if (rule.frequency === 'WEEKDAYS') return weekday >= 1 && weekday <= 5;
+  return rule.weekdays.includes(weekday);
+};
+
+// Skipped dates still consume a slot of occurrenceCount, so skipping never extends a series.
+export const listSeriesOccurrenceDates = (rule: RecurrenceRule, throughDateKey: string): string[] => {
+  if (validateRecurrenceRule(rule)) return [];
+
+  const lastDateKey = rule.untilDate && rule.untilDate < throughDateKey ? rule.untilDate : throughDateKey;
+  const maxCount = rule.occurrenceCount || Number.POSITIVE_INFINITY;
+  const start = parseISO(rule.startDate);
+  const dates: string[] = [];
+
+  for (let offset = 0; offset <= MAX_SERIES_SCAN_DAYS && dates.length < maxCount; offset += 1) {
+    const day = addDays(start, offset);
+    const dateKey = toSeriesDateKey(day);
+    if (dateKey > lastDateKey) break;
+    if (matchesRecurrenceDay(rule, day)) dates.push(dateKey);
+  }
+
+  return dates;
+};
+
+export const getSeriesOccurrenceTripDate = (rule: RecurrenceRule, dateKey: string): string => {
+  return new Date(`${dateKey}T${rule.timeOfDay}`).toISOString();
+};
+
+export const describeRecurrenceRule = (rule: RecurrenceRule): string => {
+  const cadence = rule.frequency === 'DAILY'
+    ? 'Daily'
+    : rule.frequency === 'WEEKDAYS'
+      ? 'Weekdays'
+      : `Weekly ${[...rule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_SHORT_LABELS[day]).join('/')}`;
+  const limit = rule.untilDate
+    ? ` until ${rule.untilDate}`
+    : rule.occurrenceCount
+      ? ` · ${rule.occurrenceCount} rides`
+      : '';
+  return `${cadence} at ${rule.timeOfDay} from ${rule.startDate}${limit}`;
+};
+
+export const buildSeriesTemplateFromTrip = (trip: Trip): TripSeriesTemplate => {
+  const {
+    id: _id,
+    createdAt: _createdAt,
+    tripDate: _tripDate,
+    status: _status,
+    seriesId: _seriesId,
+    seriesOccurrenceDate: _seriesOccurrenceDate,
+    rating: _rating,
+    feedback: _feedback,
+    completedAt: _completedAt,
+    settledAt: _settledAt,
+    receiptId: _receiptId,
+    creditLedgerEntryId: _creditLedgerEntryId,
+    invoiceId: _invoiceId,
+    settlementStatus: _settlementStatus,
+    confirmation_sent_at: _confirmationSentAt,
+    feedback_request_sent_at: _feedbackRequestSentAt,
+    thank_you_sent_at: _thankYouSentAt,
+    messageLog: _messageLog,
+    updatedAt: _updatedAt,
+    updatedBy: _updatedBy,
+    ...template
+  } = trip;
+  return template;
+};
+
+export const buildSeriesOccurrenceTrip = (series: TripSeries, dateKey: string, id: number, createdAtIso: string): Trip => {
+  return {
+    ...series.template,
+    id,
+    createdAt: createdAtIso,
+    tripDate: getSeriesOccurrenceTripDate(series.recurrence, dateKey),
+    status: series.occurrenceStatus,
+    settlementStatus: 'PENDING',
+    seriesId: series.id,
+    seriesOccurrenceDate: dateKey,
+  };
+};
+
+export const isOpenSeriesOccurrence = (trip: Trip): boolean => {
+  return Boolean(trip.seriesId) && (trip.status === TripStatus.QUOTED || trip.status === TripStatus.CONFIRMED);
+};
+
+const hashString = (value: string, seed: number): number => {
+  let hash = seed >>> 0;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// Occurrence ids come from the series and date alone, so every device materializing the same occurrence
+// produces the same record and sync merges them instead of keeping two. The range sits far above
+// timestamp ids and below Number.MAX_SAFE_INTEGER.
+const SERIES_OCCURRENCE_ID_BASE = 4_000_000_000_000_000;
+
+export const getSeriesOccurrenceTripId = (seriesId: string, dateKey: string): number => {
+  const key = `${seriesId}|${dateKey}`;
+  const high = hashString(key, 0x811c9dc5) % 0x100000;
+  const low = hashString(key, 0x9e3779b9);
+  return SERIES_OCCURRENCE_ID_BASE + high * 0x100000000 + low;
+};
+
+export const planSeriesMaterialization = (
+  seriesList: TripSeries[],
+  trips: Trip[],
+  horizonDays: number,
+  nowMs: number = Date.now()
+): Trip[] => {
+  const activeSeries = seriesList.filter(series => series.active);
+  if (activeSeries.length === 0) return [];
+
+  const existingKeys = new Set(
+    trips
+      .filter(trip => trip.seriesId && trip.seriesOccurrenceDate)
+      .map(trip => `${trip.seriesId}|${trip.seriesOccurrenceDate}`)
+  );
+  const horizonDateKey = toSeriesDateKey(addDays(new Date(nowMs), horizonDays));
+  const createdAtIso = new Date(nowMs).toISOString();
+  const existingIds = new Set(trips.map(trip => trip.id));
+  const planned: Trip[] = [];
+
+  activeSeries.forEach(series => {
+    const skipped = new Set(series.skippedDates);
+    listSeriesOccurrenceDates(series.recurrence, horizonDateKey).forEach(dateKey => {
+      if (skipped.has(dateKey) || existingKeys.has(`${series.id}|${dateKey}`)) return;
+      const pickupMs = new Date(getSeriesOccurrenceTripDate(series.recurrence, dateKey)).getTime();
+      if (pickupMs < nowMs) return;
+      const id = getSeriesOccurrenceTripId(series.id, dateKey);
+      if (existingIds.has(id)) return;
+      existingIds.add(id);
+      planned.push(buildSeriesOccurrenceTrip(series, dateKey, id, createdAtIso));
+    });
+  });
+
+  return planned;
+};
+
+export const applySeriesToFutureOccurrences = (
+  series: TripSeries,
+  trips: Trip[],
+  nowMs: number = Date.now()
+): SeriesOccurrenceUpdateResult => {
+  const futureTrips = trips.filter(trip => (
+    trip.seriesId === series.id &&
+    isOpenSeriesOccurrence(trip) &&
+    new Date(trip.tripDate).getTime() >= nowMs
+  ));
+  if (futureTrips.length === 0) return { trips, updatedCount: 0, cancelledCount: 0 };
+
+  const lastDateKey = futureTrips.reduce((latest, trip) => {
+    const dateKey = trip.seriesOccurrenceDate || '';
+    return dateKey > latest ? dateKey : latest;
+  }, '');
+  const scheduledDates = new Set(listSeriesOccurrenceDates(series.recurrence, lastDateKey));
+  const skipped = new Set(series.skippedDates);
+  const futureIds = new Set(futureTrips.map(trip => trip.id));
+  let updatedCount = 0;
+  let cancelledCount = 0;
+
+  const nextTrips = trips.map(trip => {
+    if (!futureIds.has(trip.id)) return trip;
+    const dateKey = trip.seriesOccurrenceDate || '';
+    if (!series.active || !scheduledDates.has(dateKey) || skipped.has(dateKey)) {
+      cancelledCount += 1;
+      return { ...trip, status: TripStatus.CANCELLED };
+    }
+
+    updatedCount += 1;
+    return {
+      ...trip,
+      ...series.template,
+      tripDate: getSeriesOccurrenceTripDate(series.recurrence, dateKey),
+    };
+  });
+
+  return { trips: nextTrips, updatedCount, cancelledCount };
+};
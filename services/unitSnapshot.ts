@@ -1,4 +1,5 @@
 import { Driver, Trip, TripStatus } from '../types';
+import { buildDriverShiftSummary, DriverShiftSummary } from './driverShifts';
 
 export interface UnitSnapshotMetrics {
   completedTrips: number;
@@ -8,6 +9,7 @@ export interface UnitSnapshotMetrics {
   activeTrips: number;
   cancelledTrips: number;
   lastCompletedAt?: string;
+  shiftSummary: DriverShiftSummary;
 }
 
 export const buildUnitSnapshotMetrics = (driver: Driver, trips: Trip[]): UnitSnapshotMetrics => {
@@ -35,5 +37,6 @@ export const buildUnitSnapshotMetrics = (driver: Driver, trips: Trip[]): UnitSna
     activeTrips,
     cancelledTrips,
     lastCompletedAt,
+    shiftSummary: buildDriverShiftSummary(driver, assignedTrips),
   };
 };
@@ -0,0 +1,68 @@
+import { CreditLedgerEntry, Driver, Trip, TripStatus, Workspace } from '../types';
+import { LOCAL_STORAGE_KEYS } from '../constants';
+import { getCreditEntryRemainingUsd, isCreditEntryOutstanding } from './creditLedger';
+import { readWorkspaceCollections } from './localDatabase';
+
+export interface WorkspacePortfolioRow {
+  workspaceId: string;
+  workspaceName: string;
+  completedTrips: number;
+  revenueUsd: number;
+  activeDrivers: number;
+  outstandingCreditUsd: number;
+  error?: string;
+}
+
+export type WorkspacePortfolioTotals = Omit<WorkspacePortfolioRow, 'workspaceId' | 'workspaceName' | 'error'>;
+
+const getTripCompletedTime = (trip: Trip): number => new Date(trip.completedAt || trip.tripDate).getTime();
+
+export const summarizeWorkspacePortfolio = (
+  workspace: Workspace,
+  data: { trips: Trip[]; drivers: Driver[]; creditLedger: CreditLedgerEntry[] },
+  since: Date
+): WorkspacePortfolioRow => {
+  const completed = data.trips.filter(trip => trip.status === TripStatus.COMPLETED && getTripCompletedTime(trip) >= since.getTime());
+  return {
+    workspaceId: workspace.id,
+    workspaceName: workspace.name,
+    completedTrips: completed.length,
+    revenueUsd: completed.reduce((sum, trip) => sum + (Number(trip.fareUsd) || 0), 0),
+    activeDrivers: data.drivers.filter(driver => driver.status === 'ACTIVE').length,
+    outstandingCreditUsd: data.creditLedger
+      .filter(isCreditEntryOutstanding)
+      .reduce((sum, entry) => sum + getCreditEntryRemainingUsd(entry), 0),
+  };
+};
+
+// Reads each workspace from this device's local copy, so numbers are as fresh as that workspace's last sync here.
+export const loadWorkspacePortfolio = async (workspaces: Workspace[], since: Date): Promise<WorkspacePortfolioRow[]> => {
+  const keys = [LOCAL_STORAGE_KEYS.TRIPS, LOCAL_STORAGE_KEYS.DRIVERS, LOCAL_STORAGE_KEYS.CREDIT_LEDGER];
+  const rows: WorkspacePortfolioRow[] = [];
+  for (const workspace of workspaces) {
+    try {
+      const collections = await readWorkspaceCollections(workspace.id, keys);
+      rows.push(summarizeWorkspacePortfolio(workspace, {
+        trips: (collections[LOCAL_STORAGE_KEYS.TRIPS] || []) as Trip[],
+        drivers: (collections[LOCAL_STORAGE_KEYS.DRIVERS] || []) as Driver[],
+        creditLedger: (collections[LOCAL_STORAGE_KEYS.CREDIT_LEDGER] || []) as CreditLedgerEntry[],
+      }, since));
+    } catch (e) {
+      rows.push({
+        ...summarizeWorkspacePortfolio(workspace, { trips: [], drivers: [], creditLedger: [] }, since),
+        error: e instanceof Error ? e.message : 'Workspace data could not be read.',
+      });
+    }
+  }
+  return rows;
+};
+
+export const totalWorkspacePortfolio = (rows: WorkspacePortfolioRow[]): WorkspacePortfolioTotals => rows.reduce<WorkspacePortfolioTotals>(
+  (totals, row) => ({
+    completedTrips: totals.completedTrips + row.completedTrips,
+    revenueUsd: totals.revenueUsd + row.revenueUsd,
+    activeDrivers: totals.activeDrivers + row.activeDrivers,
+    outstandingCreditUsd: totals.outstandingCreditUsd + row.outstandingCreditUsd,
+  }),
+  { completedTrips: 0, revenueUsd: 0, activeDrivers: 0, outstandingCreditUsd: 0 }
+);
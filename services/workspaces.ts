@@ -0,0 +1,226 @@
+import { Workspace, WorkspaceBranding } from '../types';
+import { DEFAULT_COMPANY_NAME, DEFAULT_WORKSPACE_ID, LOCAL_STORAGE_KEYS, MAX_WORKSPACE_LOGO_BYTES } from '../constants';
+
+export interface WorkspaceDraft {
+  name: string;
+  companyName?: string;
+  syncDocId?: string;
+}
+
+export interface WorkspaceResult {
+  ok: boolean;
+  reason?: string;
+  workspace?: Workspace;
+}
+
+const RESERVED_SYNC_DOC_IDS = ['shared', String(import.meta.env.VITE_FIREBASE_SYNC_DOC_ID || '').trim()].filter(Boolean);
+const SYNC_DOC_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+
+// The default workspace keeps the original storage keys and the configured sync doc, so existing installs carry on unchanged.
+const buildDefaultWorkspace = (): Workspace => ({
+  id: DEFAULT_WORKSPACE_ID,
+  name: 'Main',
+  syncDocId: '',
+  branding: { companyName: DEFAULT_COMPANY_NAME },
+  createdAt: new Date(0).toISOString(),
+});
+
+const normalizeBranding = (value: unknown, fallbackName: string): WorkspaceBranding => {
+  const raw = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const companyName = typeof raw.companyName === 'string' && raw.companyName.trim() ? raw.companyName.trim() : fallbackName;
+  const logoDataUrl = typeof raw.logoDataUrl === 'string' && isWorkspaceLogoDataUrl(raw.logoDataUrl) ? raw.logoDataUrl : undefined;
+  return { companyName, ...(logoDataUrl ? { logoDataUrl } : {}) };
+};
+
+const normalizeWorkspace = (value: unknown): Workspace | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+  if (!id) return null;
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : id;
+  return {
+    id,
+    name,
+    syncDocId: id === DEFAULT_WORKSPACE_ID ? '' : (typeof raw.syncDocId === 'string' && raw.syncDocId.trim() ? raw.syncDocId.trim() : `workspace-${id}`),
+    branding: normalizeBranding(raw.branding, id === DEFAULT_WORKSPACE_ID ? DEFAULT_COMPANY_NAME : name),
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date().toISOString(),
+    ...(typeof raw.updatedAt === 'string' ? { updatedAt: raw.updatedAt } : {}),
+  };
+};
+
+export const isWorkspaceLogoDataUrl = (value: string): boolean => (
+  /^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,[a-z0-9+/=]+$/i.test(value)
+  && value.length <= Math.ceil(MAX_WORKSPACE_LOGO_BYTES * 4 / 3) + 64
+);
+
+export const slugifyWorkspaceId = (name: string): string => (
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40)
+);
+
+export const getWorkspaces = (): Workspace[] => {
+  let stored: unknown[] = [];
+  try {
+    const raw = localStorage.getItem(LOCAL_STORAGE_KEYS.WORKSPACES);
+    const parsed = raw ? JSON.parse(raw) : [];
+    stored = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    stored = [];
+  }
+
+  const workspaces = stored.map(normalizeWorkspace).filter((workspace): workspace is Workspace => workspace !== null);
+  const seen = new Set<string>();
+  const unique = workspaces.filter(workspace => {
+    if (seen.has(workspace.id)) return false;
+    seen.add(workspace.id);
+    return true;
+  });
+  return unique.some(workspace => workspace.id === DEFAULT_WORKSPACE_ID) ? unique : [buildDefaultWorkspace(), ...unique];
+};
+
+const saveWorkspaces = (workspaces: Workspace[]): void => {
+  localStorage.setItem(LOCAL_STORAGE_KEYS.WORKSPACES, JSON.stringify(workspaces));
+};
+
+// Resolved once per page load: every scoped key and database handle depends on it, so switching always reloads.
+let activeWorkspaceId: string | null = null;
+
+export const getActiveWorkspaceId = (): string => {
+  if (activeWorkspaceId) return activeWorkspaceId;
+  const stored = localStorage.getItem(LOCAL_STORAGE_KEYS.ACTIVE_WORKSPACE) || DEFAULT_WORKSPACE_ID;
+  activeWorkspaceId = getWorkspaces().some(workspace => workspace.id === stored) ? stored : DEFAULT_WORKSPACE_ID;
+  return activeWorkspaceId;
+};
+
+export const getActiveWorkspace = (): Workspace => {
+  const id = getActiveWorkspaceId();
+  return getWorkspaces().find(workspace => workspace.id === id) || buildDefaultWorkspace();
+};
+
+// Takes effect on the next load; callers flush pending writes and reload right after.
+export const setActiveWorkspaceId = (workspaceId: string): boolean => {
+  if (!getWorkspaces().some(workspace => workspace.id === workspaceId)) return false;
+  localStorage.setItem(LOCAL_STORAGE_KEYS.ACTIVE_WORKSPACE, workspaceId);
+  return true;
+};
+
+export const scopeStorageKey = (storageKey: string, workspaceId: string = getActiveWorkspaceId()): string => (
+  workspaceId === DEFAULT_WORKSPACE_ID ? storageKey : `${storageKey}__${workspaceId}`
+);
+
+export const scopeDatabaseName = (databaseName: string, workspaceId: string = getActiveWorkspaceId()): string => (
+  workspaceId === DEFAULT_WORKSPACE_ID ? databaseName : `${databaseName}--${workspaceId}`
+);
+
+const validateSyncDocId = (syncDocId: string, workspaceId: string, workspaces: Workspace[]): string | null => {
+  if (!SYNC_DOC_ID_PATTERN.test(syncDocId)) return 'Sync channel must be 2-63 lowercase letters, digits, or dashes.';
+  if (RESERVED_SYNC_DOC_IDS.includes(syncDocId)) return 'That sync channel belongs to the main workspace.';
+  if (workspaces.some(workspace => workspace.id !== workspaceId && workspace.syncDocId === syncDocId)) {
+    return 'Another workspace already uses that sync channel.';
+  }
+  return null;
+};
+
+export const createWorkspace = (draft: WorkspaceDraft): WorkspaceResult => {
+  const name = draft.name.trim();
+  if (!name) return { ok: false, reason: 'Workspace name is required.' };
+
+  const workspaces = getWorkspaces();
+  const baseId = slugifyWorkspaceId(name);
+  if (!baseId) return { ok: false, reason: 'Workspace name needs at least one letter or digit.' };
+  let id = baseId;
+  for (let suffix = 2; workspaces.some(workspace => workspace.id === id) || id === DEFAULT_WORKSPACE_ID; suffix += 1) {
+    id = `${baseId}-${suffix}`;
+  }
+
+  const syncDocId = (draft.syncDocId || '').trim().toLowerCase() || `workspace-${id}`;
+  const syncError = validateSyncDocId(syncDocId, id, workspaces);
+  if (syncError) return { ok: false, reason: syncError };
+
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id,
+    name,
+    syncDocId,
+    branding: { companyName: (draft.companyName || '').trim() || name },
+    createdAt: now,
+    updatedAt: now,
+  };
+  saveWorkspaces([...workspaces, workspace]);
+  return { ok: true, workspace };
+};
+
+export const updateWorkspace = (
+  workspaceId: string,
+  updates: { name?: string; syncDocId?: string; branding?: Partial<WorkspaceBranding> }
+): WorkspaceResult => {
+  const workspaces = getWorkspaces();
+  const current = workspaces.find(workspace => workspace.id === workspaceId);
+  if (!current) return { ok: false, reason: 'Workspace not found.' };
+
+  const name = updates.name !== undefined ? updates.name.trim() : current.name;
+  if (!name) return { ok: false, reason: 'Workspace name is required.' };
+
+  let syncDocId = current.syncDocId;
+  if (updates.syncDocId !== undefined && workspaceId !== DEFAULT_WORKSPACE_ID) {
+    syncDocId = updates.syncDocId.trim().toLowerCase();
+    const syncError = validateSyncDocId(syncDocId, workspaceId, workspaces);
+    if (syncError) return { ok: false, reason: syncError };
+  }
+
+  const branding: WorkspaceBranding = { ...current.branding, ...(updates.branding || {}) };
+  branding.companyName = (branding.companyName || '').trim();
+  if (!branding.companyName) return { ok: false, reason: 'Company name is required for receipts.' };
+  if (branding.logoDataUrl && !isWorkspaceLogoDataUrl(branding.logoDataUrl)) {
+    return { ok: false, reason: `Logo must be a PNG, JPEG, GIF, WebP, or SVG image under ${Math.round(MAX_WORKSPACE_LOGO_BYTES / 1024)} KB.` };
+  }
+  if (!branding.logoDataUrl) delete branding.logoDataUrl;
+
+  const workspace: Workspace = { ...current, name, syncDocId, branding, updatedAt: new Date().toISOString() };
+  saveWorkspaces(workspaces.map(item => (item.id === workspaceId ? workspace : item)));
+  return { ok: true, workspace };
+};
+
+// Memberships granted elsewhere show up in the switcher even before this device has opened them.
+export const ensureWorkspaceEntries = (workspaceIds: string[]): Workspace[] => {
+  const workspaces = getWorkspaces();
+  const missing = workspaceIds
+    .map(id => id.trim())
+    .filter(id => id && id === slugifyWorkspaceId(id) && !workspaces.some(workspace => workspace.id === id));
+  if (missing.length === 0) return workspaces;
+
+  const added = missing.map(id => normalizeWorkspace({ id, name: id, createdAt: new Date().toISOString() }) as Workspace);
+  const next = [...workspaces, ...added];
+  saveWorkspaces(next);
+  return next;
+};
+
+const getUpdatedAtMs = (workspace: Workspace | undefined): number => {
+  const ms = workspace?.updatedAt ? Date.parse(workspace.updatedAt) : NaN;
+  return Number.isFinite(ms) ? ms : 0;
+};
+
+// The shared directory wins unless this device holds a newer edit; placeholders from ensureWorkspaceEntries have no
+// updatedAt, so they never overwrite the real name, branding or sync channel.
+export const applyWorkspaceDirectory = (entries: unknown[]): { workspaces: Workspace[]; unpublished: Workspace[] } => {
+  const remote = new Map<string, Workspace>();
+  entries.map(normalizeWorkspace).forEach(workspace => {
+    if (workspace) remote.set(workspace.id, workspace);
+  });
+
+  const local = getWorkspaces();
+  const unpublished: Workspace[] = [];
+  let changed = false;
+  const merged = local.map(workspace => {
+    const shared = remote.get(workspace.id);
+    if (!shared || getUpdatedAtMs(workspace) > getUpdatedAtMs(shared)) {
+      if (workspace.updatedAt) unpublished.push(workspace);
+      return workspace;
+    }
+    if (JSON.stringify(shared) !== JSON.stringify(workspace)) changed = true;
+    return shared;
+  });
+
+  if (!changed) return { workspaces: local, unpublished };
+  saveWorkspaces(merged);
+  return { workspaces: merged, unpublished };
+};
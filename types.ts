@@ -43,6 +43,12 @@ export interface CustomerProfileEvent {
   tripId?: number;
 }
 
+export interface DriverAvailabilityLogEntry {
+  id: string;
+  status: DriverAvailability;
+  timestamp: string;
+}
+
 export interface Driver {
   id: string;
   name: string;
@@ -66,9 +72,12 @@ export interface Driver {
   lastRefuelKm: number; 
   fuelRangeKm: number; // Estimated range on a full tank (default ~500km)
   fuelLogs?: DriverFuelLogEntry[];
+  availabilityLog?: DriverAvailabilityLogEntry[];
   companyShareOverridePercent?: number;
   profileTimeline?: CustomerProfileEvent[];
   lastEnrichedAt?: string;
+  updatedAt?: string;
+  updatedBy?: string;
 }
 
 export interface Customer {
@@ -89,19 +98,78 @@ export interface Customer {
   notes?: string;
   profileTimeline?: CustomerProfileEvent[];
   lastEnrichedAt?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type AlertRuleTrigger =
+  | 'PICKUP_DUE'
+  | 'ARRIVAL_CHECK'
+  | 'UNASSIGNED_BEFORE_PICKUP'
+  | 'CONFIRMATION_NOT_SENT'
+  | 'FEEDBACK_FOLLOW_UP'
+  | 'LOW_FUEL'
+  | 'OIL_SERVICE_DUE';
+
+export type AlertSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
+
+// Who gets the desktop notification; everyone still sees the alert in Mission Watch.
+export type AlertRuleTarget = 'ALL' | 'OPS' | 'ADMIN';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  trigger: AlertRuleTrigger;
+  enabled: boolean;
+  leadMinutes: number;
+  threshold?: number;
+  severity: AlertSeverity;
+  target: AlertRuleTarget;
+  notify: boolean;
 }
 
 export interface MissionAlert {
   id: string;
   tripId?: number;
   driverId?: string;
-  type: 'PICKUP' | 'DROP_OFF' | 'FOLLOW_UP' | 'REFUEL';
+  type: 'PICKUP' | 'DROP_OFF' | 'FOLLOW_UP' | 'REFUEL' | 'SERVICE';
+  ruleId?: string;
+  severity?: AlertSeverity;
+  target?: AlertRuleTarget;
+  notify?: boolean;
   targetTime: string;
   snoozedUntil?: string;
   label: string;
   triggered: boolean;
   customerName?: string;
   driverName?: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type AlertHistoryOutcome = 'RESOLVED' | 'DISMISSED' | 'SNOOZED' | 'CLEARED';
+
+// One per time an alert came due, written when that occurrence closes and never edited afterwards.
+export interface AlertHistoryEntry {
+  id: string;
+  alertId: string;
+  ruleId?: string;
+  type: MissionAlert['type'];
+  label: string;
+  severity?: AlertSeverity;
+  tripId?: number;
+  driverId?: string;
+  subject: string;
+  firedAt: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  closedAt: string;
+  closedBy?: string;
+  outcome: AlertHistoryOutcome;
+  // Highest tier reached before someone responded: 0 first notice, 1 re-notified, 2 sent to operator WhatsApp.
+  escalationLevel: number;
 }
 
 export interface TripStop {
@@ -149,6 +217,9 @@ export interface Trip {
   waitTimeHours?: number;
   hourlyWaitRateSnapshot?: number;
   ratePerKmSnapshot?: number;
+  fareRulesSnapshot?: FareRulesConfig;
+  fareBreakdown?: FareBreakdownLine[];
+  congestionSurchargeUsd?: number;
 
   specialRequirements?: string[];
   specialRequirementsNotes?: string;
@@ -159,6 +230,7 @@ export interface Trip {
   paymentMode?: TripPaymentMode;
   settlementStatus?: TripSettlementStatus;
   creditLedgerEntryId?: string;
+  invoiceId?: string;
   receiptId?: string;
   settledAt?: string;
   completedAt?: string;
@@ -169,10 +241,65 @@ export interface Trip {
   rating?: number;
   feedback?: string;
 
+  seriesId?: string;
+  seriesOccurrenceDate?: string;
+
   // Messaging Audit
   confirmation_sent_at?: string;
   feedback_request_sent_at?: string;
   thank_you_sent_at?: string;
+  messageLog?: TripMessageRecord[];
+
+  // Sync versioning
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKDAYS' | 'WEEKLY';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  weekdays: number[]; // 0 = Sunday, used by WEEKLY
+  startDate: string; // YYYY-MM-DD
+  timeOfDay: string; // HH:mm
+  untilDate?: string;
+  occurrenceCount?: number;
+}
+
+export type TripSeriesTemplate = Omit<
+  Trip,
+  | 'id'
+  | 'createdAt'
+  | 'tripDate'
+  | 'status'
+  | 'seriesId'
+  | 'seriesOccurrenceDate'
+  | 'rating'
+  | 'feedback'
+  | 'completedAt'
+  | 'settledAt'
+  | 'receiptId'
+  | 'creditLedgerEntryId'
+  | 'invoiceId'
+  | 'settlementStatus'
+  | 'confirmation_sent_at'
+  | 'feedback_request_sent_at'
+  | 'thank_you_sent_at'
+  | 'messageLog'
+  | 'updatedAt'
+  | 'updatedBy'
+>;
+
+export interface TripSeries {
+  id: string;
+  label: string;
+  createdAt: string;
+  updatedAt: string;
+  active: boolean;
+  recurrence: RecurrenceRule;
+  occurrenceStatus: TripStatus.QUOTED | TripStatus.CONFIRMED;
+  template: TripSeriesTemplate;
+  skippedDates: string[];
 }
 
 export interface DeletedTripRecord {
@@ -184,7 +311,21 @@ export interface DeletedTripRecord {
 
 export type CreditPartyType = 'CLIENT' | 'DRIVER';
 export type CreditCycle = 'WEEKLY' | 'MONTHLY';
-export type CreditLedgerStatus = 'OPEN' | 'PAID';
+export type CreditLedgerStatus = 'OPEN' | 'PARTIAL' | 'PAID';
+export type CreditPaymentMethod = 'CASH' | 'BANK_TRANSFER' | 'OMT' | 'WHISH';
+export type PaymentCurrency = 'USD' | 'LBP';
+
+export interface CreditLedgerPayment {
+  id: string;
+  paidAt: string;
+  amountUsd: number;
+  currency: PaymentCurrency;
+  amountOriginal: number;
+  fxRateSnapshot: number;
+  method: CreditPaymentMethod;
+  receiptId: string;
+  notes?: string;
+}
 
 export interface CreditLedgerEntry {
   id: string;
@@ -199,6 +340,10 @@ export interface CreditLedgerEntry {
   createdAt: string;
   paidAt?: string;
   receiptId?: string;
+  payments?: CreditLedgerPayment[];
+  payoutStatementId?: string;
+  updatedAt?: string;
+  updatedBy?: string;
 }
 
 export interface ReceiptRecord {
@@ -212,6 +357,95 @@ export interface ReceiptRecord {
   cycle: CreditCycle;
   amountUsd: number;
   notes?: string;
+  paymentMethod?: CreditPaymentMethod;
+  currency?: PaymentCurrency;
+  amountOriginal?: number;
+  fxRateSnapshot?: number;
+  remainingUsd?: number;
+}
+
+export type InvoiceStatus = 'OPEN' | 'PAID';
+
+export interface InvoiceLineItem {
+  tripId: number;
+  tripDate: string;
+  routeLabel: string;
+  fareUsd: number;
+  fareLbp: number;
+  exchangeRateSnapshot: number;
+  ledgerEntryId?: string;
+}
+
+export interface CustomerInvoice {
+  id: string;
+  invoiceNumber: string;
+  partyId?: string;
+  partyName: string;
+  partyPhone?: string;
+  cycle: CreditCycle;
+  periodStart: string;
+  periodEnd: string;
+  issuedAt: string;
+  dueDate?: string;
+  status: InvoiceStatus;
+  lines: InvoiceLineItem[];
+  totalUsd: number;
+  totalLbp: number;
+  paidAt?: string;
+  receiptId?: string;
+  notes?: string;
+}
+
+export interface FareZone {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+export interface FareZoneFlatRate {
+  id: string;
+  fromZoneId: string;
+  toZoneId: string;
+  fareUsd: number;
+}
+
+export type CongestionPricingMode = 'OFF' | 'SURPLUS_PER_MINUTE' | 'INDEX_MULTIPLIER';
+
+export interface CongestionPricingTier {
+  minTrafficIndex: number;
+  multiplier: number;
+}
+
+export interface CongestionPricingConfig {
+  mode: CongestionPricingMode;
+  surplusRateUsdPerMin: number;
+  surplusGraceMin: number;
+  surplusCapUsd: number;
+  tiers: CongestionPricingTier[];
+}
+
+export interface FareRulesConfig {
+  zones: FareZone[];
+  zoneFlatRates: FareZoneFlatRate[];
+  nightSurchargePercent: number;
+  nightStartHour: number;
+  nightEndHour: number;
+  holidaySurchargePercent: number;
+  holidayDates: string[];
+  perStopFeeUsd: number;
+  requirementSurchargesUsd: Record<string, number>;
+  congestion: CongestionPricingConfig;
+}
+
+export type FareBreakdownLineKind = 'DISTANCE' | 'ZONE_FLAT' | 'WAIT' | 'STOP_FEE' | 'REQUIREMENT' | 'CONGESTION' | 'NIGHT' | 'HOLIDAY' | 'MINIMUM';
+
+export interface FareBreakdownLine {
+  kind: FareBreakdownLineKind;
+  label: string;
+  amountUsd: number;
+  ruleId?: string;
 }
 
 export interface MessageTemplates {
@@ -220,6 +454,49 @@ export interface MessageTemplates {
   feedback_thanks: string;
 }
 
+export type MessageTemplateKey = keyof MessageTemplates;
+
+export type MessageTransportKind = 'WA_LINK' | 'CLOUD_API';
+
+export type TripMessageStatus = 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+
+// One message sent through the WhatsApp Cloud API; status follows the delivery webhooks.
+export interface TripMessageRecord {
+  id: string; // WhatsApp message id (wamid)
+  template: MessageTemplateKey;
+  transport: MessageTransportKind;
+  to: string;
+  sentAt: string;
+  status: TripMessageStatus;
+  statusAt: string;
+  error?: string;
+}
+
+export interface WhatsAppCloudTemplateMapping {
+  name: string; // approved template name; empty falls back to a wa.me link
+  language: string;
+  parameters: string[]; // placeholders filling {{1}}, {{2}}, ... in order
+}
+
+export interface WhatsAppCloudConfig {
+  enabled: boolean;
+  apiVersion: string;
+  phoneNumberId: string;
+  statusFeedUrl: string;
+  templates: Record<MessageTemplateKey, WhatsAppCloudTemplateMapping>;
+}
+
+export interface AutoDispatchConfig {
+  enabled: boolean;
+  leadMinutes: number;
+}
+
+export interface AlertEscalationConfig {
+  enabled: boolean;
+  renotifyAfterMinutes: number;
+  whatsAppAfterMinutes: number;
+}
+
 export interface Settings {
   exchangeRate: number;
   googleMapsApiKey: string;
@@ -239,6 +516,11 @@ export interface Settings {
   ownerDriverCompanySharePercent: number;
   companyCarDriverGasCompanySharePercent: number;
   otherDriverCompanySharePercent: number;
+  fareRules: FareRulesConfig;
+  autoDispatch: AutoDispatchConfig;
+  alertRules: AlertRule[];
+  alertEscalation: AlertEscalationConfig;
+  whatsAppCloud: WhatsAppCloudConfig;
   templates: MessageTemplates;
 }
 
@@ -254,3 +536,111 @@ export interface RouteResult {
   trafficIndex: number;
   surplusMin: number;
 }
+
+export type SyncCollectionKey =
+  | 'trips'
+  | 'deletedTrips'
+  | 'drivers'
+  | 'customers'
+  | 'alerts'
+  | 'creditLedger'
+  | 'receipts'
+  | 'tripSeries'
+  | 'invoices'
+  | 'auditLog'
+  | 'alertHistory'
+  | 'settings';
+
+export type SyncConflictChoice = 'LOCAL' | 'REMOTE';
+
+export interface SyncConflict {
+  id: string;
+  collection: SyncCollectionKey;
+  recordId: string;
+  recordLabel: string;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  localUpdatedAt?: string;
+  localUpdatedBy?: string;
+  remoteUpdatedAt?: string;
+  remoteUpdatedBy?: string;
+  detectedAt: string;
+}
+
+export type SyncMutationKind =
+  | 'ADD_TRIP'
+  | 'UPDATE_TRIP'
+  | 'DELETE_TRIP'
+  | 'RESTORE_TRIP'
+  | 'SAVE_SERIES'
+  | 'SKIP_OCCURRENCE'
+  | 'CANCEL_OCCURRENCE'
+  | 'UPDATE_ALERT'
+  | 'SAVE_CUSTOMERS'
+  | 'REMOVE_CUSTOMER'
+  | 'ADD_LEDGER_ENTRY'
+  | 'RECORD_PAYMENT'
+  | 'SETTLE_LEDGER_ENTRY'
+  | 'CLOSE_PAYOUT'
+  | 'CREATE_INVOICE'
+  | 'PAY_INVOICE'
+  | 'SAVE_DRIVER'
+  | 'REFUEL'
+  | 'REMOVE_DRIVER'
+  | 'UPDATE_SETTINGS'
+  | 'RESOLVE_CONFLICT';
+
+export interface SyncOutboxEntry {
+  id: string;
+  kind: SyncMutationKind;
+  label: string;
+  createdAt: string;
+  attempts: number;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+export type AuthRole = 'admin' | 'ops' | 'viewer' | 'unknown';
+
+export type Capability = 'EDIT_PRICING' | 'MANAGE_TRIPS' | 'MANAGE_FLEET' | 'FINANCE_ACTIONS' | 'VAULT_MANAGE' | 'APPROVE_ACCESS' | 'MANAGE_WORKSPACES';
+
+export interface WorkspaceBranding {
+  companyName: string;
+  logoDataUrl?: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  syncDocId: string;
+  branding: WorkspaceBranding;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type AuditEntityType = 'TRIP' | 'TRIP_SERIES' | 'DRIVER' | 'CUSTOMER' | 'CREDIT_LEDGER' | 'INVOICE' | 'SETTINGS' | 'VAULT' | 'WORKSPACE';
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PAYMENT' | 'SETTLE' | 'CLEAR' | 'IMPORT';
+
+export interface AuditFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string;
+  actorUid?: string;
+  actorEmail?: string;
+  actorRole: AuthRole;
+  actorSystem?: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  note?: string;
+}
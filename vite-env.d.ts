@@ -9,6 +9,8 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_APP_ID?: string;
   readonly VITE_FIREBASE_SYNC_COLLECTION?: string;
   readonly VITE_FIREBASE_SYNC_DOC_ID?: string;
+  readonly VITE_FIREBASE_FIRESTORE_EMULATOR_HOST?: string;
+  readonly VITE_WEB_PUSH_PUBLIC_KEY?: string;
 }
 
 interface ImportMeta {
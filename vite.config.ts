@@ -1,7 +1,45 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SERVICE_WORKER_FILE = 'sw.js';
+const PRECACHE_PLACEHOLDER = "const PRECACHE_MANIFEST = { version: 'dev', urls: [] };";
+
+const listFiles = (dir: string, base: string = dir): string[] => fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+  const fullPath = path.join(dir, entry.name);
+  return entry.isDirectory() ? listFiles(fullPath, base) : [path.relative(base, fullPath).split(path.sep).join('/')];
+});
+
+// Writes every built file into dist/sw.js so the app shell and all lazy route chunks work offline.
+// The list carries content hashes, so each deploy changes the worker and browsers pick up the new shell.
+const precacheManifest = (): Plugin => {
+  let outDir = '';
+  return {
+    name: 'control-precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    closeBundle() {
+      const workerPath = path.join(outDir, SERVICE_WORKER_FILE);
+      if (!fs.existsSync(workerPath)) return;
+      const source = fs.readFileSync(workerPath, 'utf8');
+      if (!source.includes(PRECACHE_PLACEHOLDER)) {
+        this.warn(`${SERVICE_WORKER_FILE} has no precache placeholder; offline shell disabled.`);
+        return;
+      }
+
+      const files = listFiles(outDir).filter(file => file !== SERVICE_WORKER_FILE && !file.endsWith('.map')).sort();
+      const hash = createHash('sha256');
+      files.forEach(file => hash.update(file).update(fs.readFileSync(path.join(outDir, file))));
+      const manifest = { version: hash.digest('hex').slice(0, 12), urls: files };
+      fs.writeFileSync(workerPath, source.replace(PRECACHE_PLACEHOLDER, `const PRECACHE_MANIFEST = ${JSON.stringify(manifest)};`));
+    },
+  };
+};
+
 export default defineConfig(() => {
     return {
       server: {
@@ -28,7 +66,7 @@ export default defineConfig(() => {
           },
         },
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),